@@ -6,8 +6,9 @@
 
 import { spawn } from "node:child_process";
 import { createRequire } from "node:module";
-import { join } from "node:path";
-import { loadConfig } from "../config/loader.js";
+import { dirname, join } from "node:path";
+import { loadConfig, findProjectConfig, loadProjectRouting } from "../config/loader.js";
+import type { RoutingConfig } from "../config/types.js";
 import { SingletonProxy } from "../lifecycle/singleton.js";
 import { hasClaudeProcess } from "../lifecycle/tracker.js";
 import { Logger } from "../utils/logger.js";
@@ -85,6 +86,20 @@ async function main(): Promise<void> {
     logger.warn(warning, { component: "config" });
   }
 
+  // Find per-project routing overrides (.cc-glm.yml in the working directory or a parent)
+  const projectFile = findProjectConfig(process.cwd());
+  let projectRouting: RoutingConfig | undefined;
+  if (projectFile) {
+    try {
+      projectRouting = await loadProjectRouting(projectFile, config);
+      logger.info(`Using project config: ${projectFile}`, { component: "cli" });
+    } catch (err) {
+      logger.error((err as Error).message, { component: "cli" });
+      process.exit(1);
+      return;
+    }
+  }
+
   // Resolve claude command path
   let claudePath: string;
   try {
@@ -105,7 +120,20 @@ async function main(): Promise<void> {
   logger.info(`Proxy ready at ${proxy.getBaseUrl()}`, { component: "cli" });
 
   // Set environment variable for Claude Code
-  const baseUrl = proxy.getBaseUrl();
+  // Project sessions use a session-specific prefix so the proxy applies the project's routing
+  let baseUrl = proxy.getBaseUrl();
+  let sessionId: string | undefined;
+  if (projectRouting && projectFile) {
+    try {
+      const session = await proxy.registerSession(projectRouting, dirname(projectFile));
+      sessionId = session.id;
+      baseUrl = session.baseUrl;
+    } catch (err) {
+      logger.error((err as Error).message, { component: "cli" });
+      process.exit(1);
+      return;
+    }
+  }
   process.env.ANTHROPIC_BASE_URL = baseUrl;
 
   // Forward claude arguments
@@ -131,6 +159,10 @@ async function main(): Promise<void> {
 
   logger.info(`Claude exited with code ${exitCode}`, { component: "cli" });
 
+  if (sessionId) {
+    await proxy.unregisterSession(sessionId);
+  }
+
   // Stop proxy if no other Claude processes are running
   logger.info("Checking for other Claude processes...", { component: "cli" });
   const hasClaude = await hasClaudeProcess();
@@ -5,22 +5,69 @@
 
 import { readFile } from "node:fs/promises";
 import { existsSync } from "node:fs";
-import { join } from "node:path";
+import { dirname, join, resolve } from "node:path";
 import { parse as parseYaml } from "yaml";
+import { execCommand } from "../utils/process.js";
+import { compileMatcher, globToRegExp } from "../utils/pattern.js";
+import { AUTH_KEY_PLACEHOLDER } from "../proxy/auth.js";
+import { REASONING_PLACEHOLDER } from "../proxy/transform.js";
 import type {
   Config,
   ProxyConfig,
   UpstreamConfig,
+  UpstreamDefinition,
+  UpstreamAuthMode,
+  UpstreamType,
   LifecycleConfig,
   LoggingConfig,
   RoutingConfig,
+  RoutingRule,
+  RoutingTarget,
+  RoutingSplitTarget,
+  RoutingCondition,
+  CapabilityProfile,
+  ForeignReasoningMode,
+  ForeignReasoningPolicy,
+  UpstreamTimeouts,
+  UpstreamRetry,
+  CircuitBreakerPolicy,
+  UpstreamConnection,
+  UpstreamConcurrency,
+  UpstreamRateLimit,
   SignatureStoreConfig,
   ClaudeConfig,
   RawConfig,
 } from "./types.js";
 
-// Valid upstream names
-const VALID_UPSTREAMS = new Set(["anthropic", "zai"]);
+// Valid upstream API protocols
+const VALID_UPSTREAM_TYPES = new Set(["anthropic", "openai"]);
+
+// Valid upstream auth modes
+const VALID_AUTH_MODES = new Set(["oauth", "api-key", "bearer", "header", "none"]);
+
+// Valid representations of another provider's reasoning
+const VALID_FOREIGN_REASONING_MODES = new Set(["keep", "text", "drop"]);
+
+// Fields of a foreignReasoning policy
+const FOREIGN_REASONING_FIELDS = new Set(["mode", "keepTurns", "maxChars", "template"]);
+
+// Fields of upstream timeouts
+const TIMEOUT_FIELDS = new Set(["connectSeconds", "firstByteSeconds", "idleSeconds", "totalSeconds"]);
+
+// Fields of upstream retry settings
+const RETRY_FIELDS = new Set(["maxRetries", "budgetSeconds", "baseDelaySeconds", "maxDelaySeconds"]);
+
+// Fields of upstream circuit breakers
+const CIRCUIT_BREAKER_FIELDS = new Set(["enabled", "windowSeconds", "minRequests", "errorRate", "slowSeconds", "openSeconds", "halfOpenRequests"]);
+
+// Fields of upstream connection pools
+const CONNECTION_FIELDS = new Set(["maxSockets", "keepAliveSeconds", "http2"]);
+const CONCURRENCY_FIELDS = new Set(["maxRequests", "maxRequestsPerModel", "maxQueue", "maxWaitSeconds"]);
+const RATE_LIMIT_FIELDS = new Set(["requestsPerMinute", "inputTokensPerMinute", "outputTokensPerMinute", "onLimit", "maxWaitSeconds"]);
+const RATE_LIMIT_ACTIONS = new Set(["reject", "wait"]);
+
+// Upstream names must be usable as plain YAML keys and in log output
+const UPSTREAM_NAME_PATTERN = /^[A-Za-z0-9_.-]+$/;
 
 // Valid log levels
 const VALID_LOG_LEVELS = new Set(["debug", "info", "warn", "error"]);
@@ -34,9 +81,11 @@ const DEFAULTS: Config = {
   upstream: {
     anthropic: {
       url: "https://api.anthropic.com",
+      auth: "oauth",
     },
     zai: {
       url: "https://api.z.ai/api/anthropic",
+      auth: "api-key",
       apiKey: "",
     },
   },
@@ -103,22 +152,120 @@ export async function loadConfig(filePath: string = getDefaultConfigPath()): Pro
   return mergeAndValidateConfig(raw);
 }
 
+/** Per-project config file, looked up from the working directory upwards */
+export const PROJECT_CONFIG_FILE = ".cc-glm.yml";
+
+/**
+ * Find the nearest project config file in a directory or one of its parents
+ * Returns null when none exists up to the filesystem root
+ */
+export function findProjectConfig(startDir: string): string | null {
+  let dir = resolve(startDir);
+  for (;;) {
+    const candidate = join(dir, PROJECT_CONFIG_FILE);
+    if (existsSync(candidate)) {
+      return candidate;
+    }
+    const parent = dirname(dir);
+    if (parent === dir) {
+      return null;
+    }
+    dir = parent;
+  }
+}
+
+/**
+ * Load the routing overrides of a project config file
+ * Only the `routing` section is supported; upstreams and credentials stay global.
+ */
+export async function loadProjectRouting(filePath: string, config: Config): Promise<RoutingConfig> {
+  let parsed: unknown;
+  try {
+    parsed = parseYaml(await readFile(filePath, "utf-8")) ?? {};
+  } catch (error) {
+    throw new Error(`Failed to parse project config file at ${filePath}: ${error}`);
+  }
+
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error(`Invalid project config at ${filePath}: must be a mapping`);
+  }
+  for (const key of Object.keys(parsed)) {
+    if (key !== "routing") {
+      throw new Error(`Invalid project config at ${filePath}: unsupported section "${key}". Only routing can be overridden per project.`);
+    }
+  }
+
+  try {
+    return mergeProjectRouting((parsed as { routing?: unknown }).routing, config);
+  } catch (error) {
+    throw new Error(`Invalid project config at ${filePath}: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Merge project routing overrides against the global config
+ * Project rules replace the global rules; the default upstream is inherited when not set.
+ * Every upstream the project routes to must have usable credentials.
+ */
+export function mergeProjectRouting(raw: unknown, config: Config): RoutingConfig {
+  if (raw === undefined || raw === null) {
+    raw = {};
+  }
+  if (typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error("Invalid routing: must be a mapping");
+  }
+  const partial = raw as Partial<RoutingConfig>;
+  const routing = mergeRoutingConfig(
+    {
+      rules: partial.rules ?? [],
+      default: partial.default ?? config.routing.default,
+      restoreModel: partial.restoreModel ?? config.routing.restoreModel,
+    },
+    config.upstream
+  );
+
+  for (const name of routedUpstreams(routing)) {
+    const upstream = config.upstream[name];
+    const auth = upstream.auth ?? defaultAuthMode(name, upstream.type ?? "anthropic", upstream.apiKey !== undefined);
+    if (auth !== "oauth" && auth !== "none" && !upstream.apiKey) {
+      throw new Error(`Upstream "${name}" is used by routing but has no usable credentials`);
+    }
+  }
+
+  return routing;
+}
+
+/**
+ * Default auth mode for an upstream without an explicit one
+ * Keyed upstreams use the protocol's native scheme. Keyless ones send no credentials,
+ * except the built-in anthropic upstream, which forwards the client's OAuth token:
+ * other upstreams must opt in with auth: oauth to receive it.
+ */
+export function defaultAuthMode(name: string, type: UpstreamType, hasKey: boolean): UpstreamAuthMode {
+  if (!hasKey) return name === "anthropic" && type === "anthropic" ? "oauth" : "none";
+  return type === "openai" ? "bearer" : "api-key";
+}
+
 /**
  * Merge raw config with defaults, validate, and apply environment variable expansion
  */
-function mergeAndValidateConfig(raw: RawConfig): LoadConfigResult {
+async function mergeAndValidateConfig(raw: RawConfig): Promise<LoadConfigResult> {
+  const upstream = mergeUpstreamConfig(raw.upstream);
   const config: Config = {
     proxy: mergeProxyConfig(raw.proxy),
-    upstream: mergeUpstreamConfig(raw.upstream),
+    upstream,
     lifecycle: mergeLifecycleConfig(raw.lifecycle),
     logging: mergeLoggingConfig(raw.logging),
-    routing: mergeRoutingConfig(raw.routing),
+    routing: mergeRoutingConfig(raw.routing, upstream),
     signatureStore: mergeSignatureStoreConfig(raw.signature_store),
     claude: mergeClaudeConfig(raw.claude),
   };
 
+  // Read API keys from files and commands
+  const keyErrors = await resolveApiKeys(config.upstream);
+
   // Validate configuration and collect warnings
-  const warnings = validateConfig(config);
+  const warnings = validateConfig(config, keyErrors);
 
   return { config, warnings };
 }
@@ -149,30 +296,200 @@ function mergeProxyConfig(raw?: Partial<ProxyConfig>): ProxyConfig {
     throw new Error(`Invalid host: must be a non-empty string.`);
   }
 
+  // Validate body size limit is a positive number
+  const maxBodyMB = raw?.maxBodyMB;
+  if (maxBodyMB !== undefined && (typeof maxBodyMB !== "number" || !Number.isFinite(maxBodyMB) || maxBodyMB <= 0)) {
+    throw new Error(`Invalid maxBodyMB: ${maxBodyMB}. Must be a positive number.`);
+  }
+
   return {
     host,
     port,
+    ...(maxBodyMB !== undefined ? { maxBodyMB } : {}),
   };
 }
 
-function mergeUpstreamConfig(raw?: Partial<UpstreamConfig>): UpstreamConfig {
-  const rawAnthropic = raw?.anthropic;
-  const rawZai = raw?.zai;
+function mergeUpstreamConfig(raw?: Record<string, Partial<UpstreamDefinition>>): UpstreamConfig {
+  if (raw !== undefined && (raw === null || typeof raw !== "object" || Array.isArray(raw))) {
+    throw new Error(`Invalid upstream: must be a mapping of upstream names to definitions`);
+  }
+
+  const upstream: UpstreamConfig = {};
+
+  // Built-in upstreams are always available; custom entries are merged after them
+  const names = new Set([...Object.keys(DEFAULTS.upstream), ...Object.keys(raw ?? {})]);
+  for (const name of names) {
+    upstream[name] = mergeUpstreamDefinition(name, raw?.[name], DEFAULTS.upstream[name]);
+  }
+
+  return upstream;
+}
+
+function mergeUpstreamDefinition(
+  name: string,
+  raw: Partial<UpstreamDefinition> | undefined,
+  defaults: UpstreamDefinition | undefined
+): UpstreamDefinition {
+  if (!UPSTREAM_NAME_PATTERN.test(name)) {
+    throw new Error(`Invalid upstream name "${name}": must contain only letters, digits, ".", "_" or "-"`);
+  }
+  if (raw !== undefined && raw !== null && (typeof raw !== "object" || Array.isArray(raw))) {
+    throw new Error(`Invalid upstream.${name}: must be an object`);
+  }
+
+  const rawUrl = raw?.url;
+  if (rawUrl !== undefined && typeof rawUrl !== "string") {
+    throw new Error(`Invalid upstream.${name}.url: must be a string`);
+  }
+  const url = rawUrl ? expandEnvVars(rawUrl) : defaults?.url;
+  if (!url) {
+    throw new Error(`Invalid upstream.${name}: url is required`);
+  }
+
+  const type = raw?.type ?? defaults?.type;
+  if (type !== undefined && !VALID_UPSTREAM_TYPES.has(type)) {
+    throw new Error(
+      `Invalid upstream.${name}.type: "${type}" is not valid. Must be one of: ${Array.from(VALID_UPSTREAM_TYPES).join(", ")}`
+    );
+  }
+
+  for (const field of ["apiKey", "apiKeyFile", "apiKeyCommand", "authHeader", "authTemplate"] as const) {
+    if (raw?.[field] !== undefined && typeof raw[field] !== "string") {
+      throw new Error(`Invalid upstream.${name}.${field}: must be a string`);
+    }
+  }
+
+  // Only one key source may be configured
+  const keySources = (["apiKey", "apiKeyFile", "apiKeyCommand"] as const).filter((field) => raw?.[field] !== undefined);
+  if (keySources.length > 1) {
+    throw new Error(`Invalid upstream.${name}: only one of ${keySources.join(", ")} may be set`);
+  }
+
+  let apiKey = raw?.apiKey !== undefined ? expandEnvVars(raw.apiKey) : undefined;
+  const apiKeyFile = raw?.apiKeyFile !== undefined ? expandEnvVars(raw.apiKeyFile) : undefined;
+  const apiKeyCommand = raw?.apiKeyCommand;
+  if (name === "zai" && apiKeyFile === undefined && apiKeyCommand === undefined) {
+    apiKey = apiKey || process.env.ZAI_API_KEY || defaults?.apiKey;
+  }
+
+  const hasKey = keySources.length > 0 || apiKey !== undefined;
+  // A built-in upstream's auth only applies while its type and key are left alone
+  const keepsDefaultAuth = raw?.type === undefined && keySources.length === 0;
+  const auth = raw?.auth ?? (keepsDefaultAuth ? defaults?.auth : undefined) ?? defaultAuthMode(name, type ?? "anthropic", hasKey);
+  if (!VALID_AUTH_MODES.has(auth)) {
+    throw new Error(
+      `Invalid upstream.${name}.auth: "${auth}" is not valid. Must be one of: ${Array.from(VALID_AUTH_MODES).join(", ")}`
+    );
+  }
+
+  // Header auth needs a header name and a template that includes the key
+  if (auth === "header") {
+    if (!raw?.authHeader) {
+      throw new Error(`Invalid upstream.${name}: authHeader is required when auth is "header"`);
+    }
+    if (raw.authTemplate !== undefined && !raw.authTemplate.includes(AUTH_KEY_PLACEHOLDER)) {
+      throw new Error(`Invalid upstream.${name}.authTemplate: must contain ${AUTH_KEY_PLACEHOLDER}`);
+    }
+  }
+
+  for (const flag of ["sanitizeRequest", "transformResponse", "sanitizeForeignRequest", "emulateCountTokens"] as const) {
+    if (raw?.[flag] !== undefined && typeof raw[flag] !== "boolean") {
+      throw new Error(`Invalid upstream.${name}.${flag}: must be a boolean`);
+    }
+  }
+
+  if (raw?.foreignReasoning !== undefined) {
+    validateForeignReasoning(raw.foreignReasoning, `upstream.${name}.foreignReasoning`);
+  }
+
+  if (raw?.capabilities !== undefined) {
+    validateCapabilityProfile(raw.capabilities, `upstream.${name}.capabilities`);
+  }
+
+  if (raw?.timeouts !== undefined) {
+    validateTimeouts(raw.timeouts, `upstream.${name}.timeouts`);
+  }
+
+  if (raw?.retry !== undefined) {
+    validateRetry(raw.retry, `upstream.${name}.retry`);
+  }
+
+  if (raw?.circuitBreaker !== undefined) {
+    validateCircuitBreaker(raw.circuitBreaker, `upstream.${name}.circuitBreaker`);
+  }
+
+  if (raw?.connection !== undefined) {
+    validateConnection(raw.connection, `upstream.${name}.connection`);
+  }
+
+  if (raw?.concurrency !== undefined) {
+    validateConcurrency(raw.concurrency, `upstream.${name}.concurrency`);
+  }
+
+  if (raw?.rateLimit !== undefined) {
+    validateRateLimit(raw.rateLimit, `upstream.${name}.rateLimit`);
+  }
 
   return {
-    anthropic: {
-      url: rawAnthropic?.url ? expandEnvVars(rawAnthropic.url) : DEFAULTS.upstream.anthropic.url,
-    },
-    zai: {
-      url: rawZai?.url ? expandEnvVars(rawZai.url) : DEFAULTS.upstream.zai.url,
-      apiKey:
-        expandEnvVars(rawZai?.apiKey ?? "") ||
-        process.env.ZAI_API_KEY ||
-        DEFAULTS.upstream.zai.apiKey,
-    },
+    url,
+    ...(type !== undefined ? { type } : {}),
+    auth,
+    ...(apiKey !== undefined ? { apiKey } : {}),
+    ...(apiKeyFile !== undefined ? { apiKeyFile } : {}),
+    ...(apiKeyCommand !== undefined ? { apiKeyCommand } : {}),
+    ...(auth === "header" ? { authHeader: raw?.authHeader } : {}),
+    ...(auth === "header" && raw?.authTemplate !== undefined ? { authTemplate: raw.authTemplate } : {}),
+    ...(raw?.sanitizeRequest !== undefined ? { sanitizeRequest: raw.sanitizeRequest } : {}),
+    ...(raw?.transformResponse !== undefined ? { transformResponse: raw.transformResponse } : {}),
+    ...(raw?.sanitizeForeignRequest !== undefined ? { sanitizeForeignRequest: raw.sanitizeForeignRequest } : {}),
+    ...(raw?.emulateCountTokens !== undefined ? { emulateCountTokens: raw.emulateCountTokens } : {}),
+    ...(raw?.foreignReasoning !== undefined ? { foreignReasoning: raw.foreignReasoning } : {}),
+    ...(raw?.capabilities !== undefined ? { capabilities: raw.capabilities } : {}),
+    ...(raw?.timeouts !== undefined ? { timeouts: raw.timeouts } : {}),
+    ...(raw?.retry !== undefined ? { retry: raw.retry } : {}),
+    ...(raw?.circuitBreaker !== undefined ? { circuitBreaker: raw.circuitBreaker } : {}),
+    ...(raw?.connection !== undefined ? { connection: raw.connection } : {}),
+    ...(raw?.concurrency !== undefined ? { concurrency: raw.concurrency } : {}),
+    ...(raw?.rateLimit !== undefined ? { rateLimit: raw.rateLimit } : {}),
   };
 }
 
+/** Seconds an apiKeyCommand may run before it is killed */
+const API_KEY_COMMAND_TIMEOUT_SECONDS = 10;
+
+/**
+ * Resolve API keys configured via apiKeyFile or apiKeyCommand into apiKey
+ * Returns error messages for key sources that could not be read, keyed by upstream name
+ * Throws when a key command hangs, e.g. prompting for a password.
+ */
+async function resolveApiKeys(upstream: UpstreamConfig): Promise<Map<string, string>> {
+  const errors = new Map<string, string>();
+
+  for (const [name, definition] of Object.entries(upstream)) {
+    if (definition.apiKeyFile !== undefined) {
+      const filePath = definition.apiKeyFile.replace(/^~(?=\/)/, process.env.HOME ?? "~");
+      try {
+        definition.apiKey = (await readFile(filePath, "utf-8")).trim();
+      } catch (error) {
+        errors.set(name, `failed to read apiKeyFile ${filePath}: ${(error as Error).message}`);
+      }
+    } else if (definition.apiKeyCommand !== undefined) {
+      try {
+        definition.apiKey = await execCommand("/bin/sh", ["-c", definition.apiKeyCommand], { timeoutMs: API_KEY_COMMAND_TIMEOUT_SECONDS * 1000 });
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ETIMEDOUT") {
+          throw new Error(
+            `Invalid upstream.${name}.apiKeyCommand: did not finish within ${API_KEY_COMMAND_TIMEOUT_SECONDS}s. The command cannot prompt for input; unlock the key store first.`
+          );
+        }
+        errors.set(name, `apiKeyCommand failed: ${(error as Error).message.trim()}`);
+      }
+    }
+  }
+
+  return errors;
+}
+
 function mergeLifecycleConfig(raw?: Partial<LifecycleConfig>): LifecycleConfig {
   // Use user-provided stateDir or default
   const stateDir = raw?.stateDir ?? DEFAULTS.lifecycle.stateDir;
@@ -221,10 +538,22 @@ function mergeLifecycleConfig(raw?: Partial<LifecycleConfig>): LifecycleConfig {
     throw new Error(`Invalid startWaitSeconds: ${startWaitSeconds}. Must be between 1 and 60.`);
   }
 
+  // Validate drainSeconds (optional, the proxy applies its default)
+  const drainSeconds = raw?.drainSeconds;
+  if (drainSeconds !== undefined) {
+    if (typeof drainSeconds !== "number" || !Number.isInteger(drainSeconds)) {
+      throw new Error(`Invalid drainSeconds: ${drainSeconds}. Must be an integer.`);
+    }
+    if (drainSeconds < 0 || drainSeconds > 300) {
+      throw new Error(`Invalid drainSeconds: ${drainSeconds}. Must be between 0 and 300.`);
+    }
+  }
+
   return {
     stopGraceSeconds,
     startWaitSeconds,
     stateDir: finalStateDir,
+    ...(drainSeconds !== undefined ? { drainSeconds } : {}),
   };
 }
 
@@ -244,7 +573,7 @@ function mergeLoggingConfig(raw?: Partial<LoggingConfig>): LoggingConfig {
   };
 }
 
-function mergeRoutingConfig(raw?: Partial<RoutingConfig>): RoutingConfig {
+function mergeRoutingConfig(raw: Partial<RoutingConfig> | undefined, upstream: UpstreamConfig): RoutingConfig {
   const rules = raw?.rules ?? DEFAULTS.routing.rules;
   const defaultUpstream = raw?.default ?? DEFAULTS.routing.default;
 
@@ -259,33 +588,464 @@ function mergeRoutingConfig(raw?: Partial<RoutingConfig>): RoutingConfig {
     if (!rule || typeof rule !== "object") {
       throw new Error(`Invalid routing rule at index ${i}: must be an object`);
     }
-    if (typeof rule.match !== "string") {
-      throw new Error(`Invalid routing rule at index ${i}: match must be a string`);
+    // Rules with conditions may omit match to apply to every model
+    if (rule.match === undefined && rule.when !== undefined) {
+      rule.match = "*";
     }
-    if (typeof rule.upstream !== "string") {
-      throw new Error(`Invalid routing rule at index ${i}: upstream must be a string`);
+    if (typeof rule.match !== "string" && !Array.isArray(rule.match)) {
+      throw new Error(`Invalid routing rule at index ${i}: match must be a string or a list of strings`);
     }
-    if (!VALID_UPSTREAMS.has(rule.upstream)) {
-      throw new Error(
-        `Invalid routing rule at index ${i}: upstream "${rule.upstream}" is not valid. Must be one of: ${Array.from(VALID_UPSTREAMS).join(", ")}`
-      );
+    try {
+      compileMatcher(rule.match);
+    } catch (err) {
+      throw new Error(`Invalid routing rule at index ${i}: ${(err as Error).message}`);
+    }
+    if (rule.split !== undefined) {
+      // Split arms carry their own upstream and model
+      if (rule.upstream !== undefined || rule.model !== undefined) {
+        throw new Error(`Invalid routing rule at index ${i}: split cannot be combined with upstream or model`);
+      }
+      if (!Array.isArray(rule.split) || rule.split.length === 0) {
+        throw new Error(`Invalid routing rule at index ${i}: split must be a non-empty array`);
+      }
+    } else {
+      if (typeof rule.upstream !== "string") {
+        throw new Error(`Invalid routing rule at index ${i}: upstream must be a string`);
+      }
+      if (!Object.prototype.hasOwnProperty.call(upstream, rule.upstream)) {
+        throw new Error(
+          `Invalid routing rule at index ${i}: upstream "${rule.upstream}" is not valid. Must be one of: ${Object.keys(upstream).join(", ")}`
+        );
+      }
     }
     if (rule.model !== undefined && typeof rule.model !== "string") {
       throw new Error(`Invalid routing rule at index ${i}: model must be a string if provided`);
     }
+    if (rule.fallback !== undefined && !Array.isArray(rule.fallback)) {
+      throw new Error(`Invalid routing rule at index ${i}: fallback must be an array if provided`);
+    }
+    if (rule.when !== undefined) {
+      validateRoutingCondition(rule.when, `routing rule at index ${i}: when`);
+    }
+    if (rule.restoreModel !== undefined && typeof rule.restoreModel !== "boolean") {
+      throw new Error(`Invalid routing rule at index ${i}: restoreModel must be a boolean if provided`);
+    }
   }
 
   // Validate default upstream
-  if (!VALID_UPSTREAMS.has(defaultUpstream)) {
+  if (typeof defaultUpstream !== "string" || !Object.prototype.hasOwnProperty.call(upstream, defaultUpstream)) {
     throw new Error(
-      `Invalid routing.default: "${defaultUpstream}" is not valid. Must be one of: ${Array.from(VALID_UPSTREAMS).join(", ")}`
+      `Invalid routing.default: "${defaultUpstream}" is not valid. Must be one of: ${Object.keys(upstream).join(", ")}`
     );
   }
 
+  if (raw?.restoreModel !== undefined && typeof raw.restoreModel !== "boolean") {
+    throw new Error(`Invalid routing.restoreModel: must be a boolean, got ${typeof raw.restoreModel}`);
+  }
+
   return {
-    rules,
+    rules: rules.map((rule: RoutingRule, i: number) => {
+      const merged = { ...rule };
+      if (rule.fallback !== undefined) {
+        merged.fallback = (rule.fallback as unknown[]).map((entry, j) =>
+          parseRoutingTarget(entry, `routing rule at index ${i}: fallback[${j}]`, upstream)
+        );
+      }
+      if (rule.split !== undefined) {
+        merged.split = (rule.split as unknown[]).map((entry, j) =>
+          parseSplitTarget(entry, `routing rule at index ${i}: split[${j}]`, upstream)
+        );
+      }
+      return merged;
+    }),
     default: defaultUpstream,
+    ...(raw?.restoreModel !== undefined ? { restoreModel: raw.restoreModel } : {}),
+  };
+}
+
+/**
+ * Parse a weighted split arm: `{ upstream, model, weight, name }`
+ */
+function parseSplitTarget(entry: unknown, label: string, upstream: UpstreamConfig): RoutingSplitTarget {
+  if (!entry || typeof entry !== "object" || Array.isArray(entry)) {
+    throw new Error(`Invalid ${label}: must be an object with upstream and weight`);
+  }
+  const raw = entry as Record<string, unknown>;
+  const target = parseRoutingTarget(raw, label, upstream);
+
+  if (typeof raw.weight !== "number" || !Number.isFinite(raw.weight) || raw.weight <= 0) {
+    throw new Error(`Invalid ${label}.weight: must be a positive number`);
+  }
+  if (raw.name !== undefined && typeof raw.name !== "string") {
+    throw new Error(`Invalid ${label}.name: must be a string if provided`);
+  }
+
+  return { ...target, weight: raw.weight, ...(raw.name !== undefined ? { name: raw.name as string } : {}) };
+}
+
+/** Boolean fields of a routing condition */
+const CONDITION_FLAGS = ["hasTools", "hasImages", "hasThinking"] as const;
+
+/** Numeric fields of a routing condition */
+const CONDITION_TOKEN_LIMITS = ["minInputTokens", "maxInputTokens"] as const;
+
+/** All fields a routing condition may contain */
+const CONDITION_FIELDS = new Set(["all", "any", "path", "headers", "system", ...CONDITION_FLAGS, ...CONDITION_TOKEN_LIMITS]);
+
+/**
+ * Validate a routing condition recursively
+ * Unknown fields are rejected so that typos don't silently match every request
+ */
+function validateRoutingCondition(raw: unknown, label: string): asserts raw is RoutingCondition {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error(`Invalid ${label}: must be an object`);
+  }
+  const condition = raw as Record<string, unknown>;
+
+  for (const key of Object.keys(condition)) {
+    if (!CONDITION_FIELDS.has(key)) {
+      throw new Error(`Invalid ${label}: unknown condition "${key}". Must be one of: ${[...CONDITION_FIELDS].join(", ")}`);
+    }
+  }
+
+  for (const key of ["all", "any"] as const) {
+    const nested = condition[key];
+    if (nested === undefined) continue;
+    if (!Array.isArray(nested) || nested.length === 0) {
+      throw new Error(`Invalid ${label}.${key}: must be a non-empty array`);
+    }
+    nested.forEach((entry, j) => validateRoutingCondition(entry, `${label}.${key}[${j}]`));
+  }
+
+  if (condition.path !== undefined) {
+    if (typeof condition.path !== "string") {
+      throw new Error(`Invalid ${label}.path: must be a string`);
+    }
+    validateGlob(condition.path, `${label}.path`);
+  }
+
+  if (condition.headers !== undefined) {
+    const headers = condition.headers;
+    if (!headers || typeof headers !== "object" || Array.isArray(headers)) {
+      throw new Error(`Invalid ${label}.headers: must be a map of header name to pattern`);
+    }
+    for (const [name, pattern] of Object.entries(headers)) {
+      if (typeof pattern !== "string") {
+        throw new Error(`Invalid ${label}.headers.${name}: must be a string`);
+      }
+      validateGlob(pattern, `${label}.headers.${name}`);
+    }
+  }
+
+  for (const key of CONDITION_FLAGS) {
+    if (condition[key] !== undefined && typeof condition[key] !== "boolean") {
+      throw new Error(`Invalid ${label}.${key}: must be a boolean`);
+    }
+  }
+
+  for (const key of CONDITION_TOKEN_LIMITS) {
+    const value = condition[key];
+    if (value !== undefined && (typeof value !== "number" || !Number.isInteger(value) || value < 0)) {
+      throw new Error(`Invalid ${label}.${key}: must be a non-negative integer`);
+    }
+  }
+
+  if (condition.system !== undefined) {
+    if (typeof condition.system !== "string") {
+      throw new Error(`Invalid ${label}.system: must be a string`);
+    }
+    try {
+      new RegExp(condition.system);
+    } catch (err) {
+      throw new Error(`Invalid ${label}.system: ${(err as Error).message}`);
+    }
+  }
+}
+
+/** Fields of each capability profile section */
+const CAPABILITY_SECTIONS: Record<string, Set<string>> = {
+  params: new Set(["keep", "drop", "set"]),
+  blocks: new Set(["keep", "drop", "text", "stripFields"]),
+  tools: new Set(["keep", "drop"]),
+  betas: new Set(["keep", "drop", "rename"]),
+};
+
+/**
+ * Validate an upstream capability profile
+ * Unknown sections and fields are rejected so that typos don't silently forward everything
+ */
+function validateCapabilityProfile(raw: unknown, label: string): asserts raw is CapabilityProfile {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error(`Invalid ${label}: must be an object`);
+  }
+
+  for (const [sectionName, section] of Object.entries(raw)) {
+    const fields = CAPABILITY_SECTIONS[sectionName];
+    if (!fields) {
+      throw new Error(`Invalid ${label}: unknown section "${sectionName}". Must be one of: ${Object.keys(CAPABILITY_SECTIONS).join(", ")}`);
+    }
+    if (!section || typeof section !== "object" || Array.isArray(section)) {
+      throw new Error(`Invalid ${label}.${sectionName}: must be an object`);
+    }
+
+    for (const [field, value] of Object.entries(section as Record<string, unknown>)) {
+      const fieldLabel = `${label}.${sectionName}.${field}`;
+      if (!fields.has(field)) {
+        throw new Error(`Invalid ${label}.${sectionName}: unknown field "${field}". Must be one of: ${[...fields].join(", ")}`);
+      }
+
+      if (field === "set" || field === "rename") {
+        if (!value || typeof value !== "object" || Array.isArray(value)) {
+          throw new Error(`Invalid ${fieldLabel}: must be a mapping`);
+        }
+        if (field === "rename" && Object.values(value).some((to) => typeof to !== "string")) {
+          throw new Error(`Invalid ${fieldLabel}: values must be strings`);
+        }
+        continue;
+      }
+
+      if (!Array.isArray(value) || value.some((entry) => typeof entry !== "string")) {
+        throw new Error(`Invalid ${fieldLabel}: must be a list of strings`);
+      }
+      // stripFields lists plain field names; the other lists are patterns
+      if (field !== "stripFields" && value.length > 0) {
+        try {
+          compileMatcher(value);
+        } catch (err) {
+          throw new Error(`Invalid ${fieldLabel}: ${(err as Error).message}`);
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Validate foreignReasoning: a mode, or a policy object
+ */
+function validateForeignReasoning(raw: unknown, label: string): asserts raw is ForeignReasoningMode | ForeignReasoningPolicy {
+  const validateMode = (mode: unknown, modeLabel: string): void => {
+    if (typeof mode !== "string" || !VALID_FOREIGN_REASONING_MODES.has(mode)) {
+      throw new Error(
+        `Invalid ${modeLabel}: "${mode}" is not valid. Must be one of: ${Array.from(VALID_FOREIGN_REASONING_MODES).join(", ")}`
+      );
+    }
   };
+
+  if (typeof raw === "string") {
+    validateMode(raw, label);
+    return;
+  }
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error(`Invalid ${label}: must be a mode or an object`);
+  }
+
+  for (const [field, value] of Object.entries(raw)) {
+    if (!FOREIGN_REASONING_FIELDS.has(field)) {
+      throw new Error(`Invalid ${label}: unknown field "${field}". Must be one of: ${[...FOREIGN_REASONING_FIELDS].join(", ")}`);
+    }
+    if (field === "mode") {
+      validateMode(value, `${label}.mode`);
+    } else if (field === "template") {
+      if (typeof value !== "string" || !value.includes(REASONING_PLACEHOLDER)) {
+        throw new Error(`Invalid ${label}.template: must be a string containing ${REASONING_PLACEHOLDER}`);
+      }
+    } else if (typeof value !== "number" || !Number.isInteger(value) || value < 1) {
+      throw new Error(`Invalid ${label}.${field}: must be a positive integer`);
+    }
+  }
+}
+
+/**
+ * Validate upstream timeouts: known fields with non-negative numbers of seconds
+ */
+function validateTimeouts(raw: unknown, label: string): asserts raw is UpstreamTimeouts {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error(`Invalid ${label}: must be an object`);
+  }
+
+  for (const [field, value] of Object.entries(raw)) {
+    if (!TIMEOUT_FIELDS.has(field)) {
+      throw new Error(`Invalid ${label}: unknown field "${field}". Must be one of: ${[...TIMEOUT_FIELDS].join(", ")}`);
+    }
+    if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+      throw new Error(`Invalid ${label}.${field}: must be a non-negative number`);
+    }
+  }
+}
+
+/**
+ * Validate upstream retry settings: a non-negative integer of retries and non-negative seconds
+ */
+function validateRetry(raw: unknown, label: string): asserts raw is UpstreamRetry {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error(`Invalid ${label}: must be an object`);
+  }
+
+  for (const [field, value] of Object.entries(raw)) {
+    if (!RETRY_FIELDS.has(field)) {
+      throw new Error(`Invalid ${label}: unknown field "${field}". Must be one of: ${[...RETRY_FIELDS].join(", ")}`);
+    }
+    if (field === "maxRetries") {
+      if (typeof value !== "number" || !Number.isInteger(value) || value < 0) {
+        throw new Error(`Invalid ${label}.maxRetries: must be a non-negative integer`);
+      }
+    } else if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+      throw new Error(`Invalid ${label}.${field}: must be a non-negative number`);
+    }
+  }
+}
+
+/**
+ * Validate upstream circuit breaker settings
+ */
+function validateCircuitBreaker(raw: unknown, label: string): asserts raw is CircuitBreakerPolicy {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error(`Invalid ${label}: must be an object`);
+  }
+
+  for (const [field, value] of Object.entries(raw)) {
+    if (!CIRCUIT_BREAKER_FIELDS.has(field)) {
+      throw new Error(`Invalid ${label}: unknown field "${field}". Must be one of: ${[...CIRCUIT_BREAKER_FIELDS].join(", ")}`);
+    }
+    if (field === "enabled") {
+      if (typeof value !== "boolean") {
+        throw new Error(`Invalid ${label}.enabled: must be a boolean`);
+      }
+    } else if (field === "minRequests" || field === "halfOpenRequests") {
+      if (typeof value !== "number" || !Number.isInteger(value) || value < 1) {
+        throw new Error(`Invalid ${label}.${field}: must be a positive integer`);
+      }
+    } else if (field === "errorRate") {
+      if (typeof value !== "number" || !(value > 0 && value <= 1)) {
+        throw new Error(`Invalid ${label}.errorRate: must be a number greater than 0 and at most 1`);
+      }
+    } else if (field === "slowSeconds") {
+      if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+        throw new Error(`Invalid ${label}.slowSeconds: must be a non-negative number`);
+      }
+    } else if (typeof value !== "number" || !Number.isFinite(value) || value <= 0) {
+      throw new Error(`Invalid ${label}.${field}: must be a positive number`);
+    }
+  }
+}
+
+/**
+ * Validate upstream connection pool settings
+ */
+function validateConnection(raw: unknown, label: string): asserts raw is UpstreamConnection {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error(`Invalid ${label}: must be an object`);
+  }
+
+  for (const [field, value] of Object.entries(raw)) {
+    if (!CONNECTION_FIELDS.has(field)) {
+      throw new Error(`Invalid ${label}: unknown field "${field}". Must be one of: ${[...CONNECTION_FIELDS].join(", ")}`);
+    }
+    if (field === "http2") {
+      if (typeof value !== "boolean") {
+        throw new Error(`Invalid ${label}.http2: must be a boolean`);
+      }
+    } else if (field === "maxSockets") {
+      if (typeof value !== "number" || !Number.isInteger(value) || value < 0) {
+        throw new Error(`Invalid ${label}.maxSockets: must be a non-negative integer`);
+      }
+    } else if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+      throw new Error(`Invalid ${label}.${field}: must be a non-negative number`);
+    }
+  }
+}
+
+/**
+ * Validate upstream concurrency limits
+ */
+function validateConcurrency(raw: unknown, label: string): asserts raw is UpstreamConcurrency {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error(`Invalid ${label}: must be an object`);
+  }
+
+  for (const [field, value] of Object.entries(raw)) {
+    if (!CONCURRENCY_FIELDS.has(field)) {
+      throw new Error(`Invalid ${label}: unknown field "${field}". Must be one of: ${[...CONCURRENCY_FIELDS].join(", ")}`);
+    }
+    if (field === "maxWaitSeconds") {
+      if (typeof value !== "number" || !Number.isFinite(value) || value <= 0) {
+        throw new Error(`Invalid ${label}.maxWaitSeconds: must be a positive number`);
+      }
+    } else if (typeof value !== "number" || !Number.isInteger(value) || value < 0) {
+      throw new Error(`Invalid ${label}.${field}: must be a non-negative integer`);
+    }
+  }
+}
+
+/**
+ * Validate upstream rate limits
+ */
+function validateRateLimit(raw: unknown, label: string): asserts raw is UpstreamRateLimit {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error(`Invalid ${label}: must be an object`);
+  }
+
+  for (const [field, value] of Object.entries(raw)) {
+    if (!RATE_LIMIT_FIELDS.has(field)) {
+      throw new Error(`Invalid ${label}: unknown field "${field}". Must be one of: ${[...RATE_LIMIT_FIELDS].join(", ")}`);
+    }
+    if (field === "onLimit") {
+      if (typeof value !== "string" || !RATE_LIMIT_ACTIONS.has(value)) {
+        throw new Error(`Invalid ${label}.onLimit: "${value}" is not valid. Must be one of: ${[...RATE_LIMIT_ACTIONS].join(", ")}`);
+      }
+    } else if (field === "maxWaitSeconds") {
+      if (typeof value !== "number" || !Number.isFinite(value) || value <= 0) {
+        throw new Error(`Invalid ${label}.maxWaitSeconds: must be a positive number`);
+      }
+    } else if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+      throw new Error(`Invalid ${label}.${field}: must be a non-negative number`);
+    }
+  }
+}
+
+/**
+ * Validate a glob pattern used by a routing condition
+ */
+function validateGlob(pattern: string, label: string): void {
+  try {
+    globToRegExp(pattern);
+  } catch (err) {
+    throw new Error(`Invalid ${label}: ${(err as Error).message}`);
+  }
+}
+
+/**
+ * Parse a fallback target
+ * Accepts `{ upstream, model }` or the shorthand string "upstream" / "upstream:model"
+ */
+function parseRoutingTarget(entry: unknown, label: string, upstream: UpstreamConfig): RoutingTarget {
+  let target: RoutingTarget;
+  if (typeof entry === "string") {
+    const sep = entry.indexOf(":");
+    target = sep === -1 ? { upstream: entry } : { upstream: entry.slice(0, sep), model: entry.slice(sep + 1) };
+  } else if (entry && typeof entry === "object" && !Array.isArray(entry)) {
+    const raw = entry as Record<string, unknown>;
+    if (typeof raw.upstream !== "string") {
+      throw new Error(`Invalid ${label}: upstream must be a string`);
+    }
+    if (raw.model !== undefined && typeof raw.model !== "string") {
+      throw new Error(`Invalid ${label}: model must be a string if provided`);
+    }
+    target = raw.model !== undefined ? { upstream: raw.upstream, model: raw.model as string } : { upstream: raw.upstream };
+  } else {
+    throw new Error(`Invalid ${label}: must be a string or an object`);
+  }
+
+  if (!Object.prototype.hasOwnProperty.call(upstream, target.upstream)) {
+    throw new Error(
+      `Invalid ${label}: upstream "${target.upstream}" is not valid. Must be one of: ${Object.keys(upstream).join(", ")}`
+    );
+  }
+  if (target.model === "") {
+    throw new Error(`Invalid ${label}: model must not be empty`);
+  }
+
+  return target;
 }
 
 function mergeSignatureStoreConfig(raw?: Partial<SignatureStoreConfig>): SignatureStoreConfig {
@@ -317,29 +1077,57 @@ function mergeClaudeConfig(raw?: Partial<ClaudeConfig>): ClaudeConfig {
   return { path };
 }
 
+/**
+ * Collect every upstream name that routing can send requests to
+ */
+function routedUpstreams(routing: RoutingConfig): Set<string> {
+  const routed = new Set([routing.default]);
+  for (const rule of routing.rules) {
+    if (rule.upstream !== undefined) {
+      routed.add(rule.upstream);
+    }
+    for (const target of [...(rule.split ?? []), ...(rule.fallback ?? [])]) {
+      routed.add(target.upstream);
+    }
+  }
+  return routed;
+}
+
 /**
  * Validate the complete configuration
  * Returns an array of warning messages instead of printing them
+ * Upstreams referenced by routing must have usable credentials; others only produce warnings
  */
-function validateConfig(config: Config): string[] {
+function validateConfig(config: Config, keyErrors: Map<string, string>): string[] {
   const warnings: string[] = [];
 
-  // Validate URLs
-  try {
-    new URL(config.upstream.anthropic.url);
-  } catch {
-    throw new Error(`Invalid anthropic URL: ${config.upstream.anthropic.url}`);
-  }
+  const routed = routedUpstreams(config.routing);
 
-  try {
-    new URL(config.upstream.zai.url);
-  } catch {
-    throw new Error(`Invalid zai URL: ${config.upstream.zai.url}`);
-  }
+  for (const [name, upstream] of Object.entries(config.upstream)) {
+    // Validate URLs
+    try {
+      new URL(upstream.url);
+    } catch {
+      throw new Error(`Invalid ${name} URL: ${upstream.url}`);
+    }
 
-  // Warn if zai API key is empty
-  if (!config.upstream.zai.apiKey) {
-    warnings.push("zai API key is not set. Requests to z.ai will fail without ZAI_API_KEY.");
+    // Keyed auth modes need a key
+    if (upstream.auth === "oauth" || upstream.auth === "none" || upstream.apiKey) {
+      continue;
+    }
+
+    const reason = keyErrors.get(name) ?? "API key is not set";
+    if (routed.has(name)) {
+      throw new Error(`Upstream "${name}" is used by routing but has no usable credentials: ${reason}`);
+    }
+
+    if (keyErrors.has(name)) {
+      warnings.push(`${name} has no usable credentials: ${reason}`);
+    } else if (name === "zai") {
+      warnings.push("zai API key is not set. Requests to z.ai will fail without ZAI_API_KEY.");
+    } else {
+      warnings.push(`${name} API key is not set. Requests to ${name} will fail without upstream.${name}.apiKey.`);
+    }
   }
 
   return warnings;
@@ -6,29 +6,269 @@
 export interface ProxyConfig {
   port: number;
   host: string;
+  /** Maximum request body size in MB (default: 10) */
+  maxBodyMB?: number;
 }
 
-/** Upstream API configuration */
-export interface UpstreamConfig {
-  anthropic: AnthropicUpstream;
-  zai: ZaiUpstream;
-}
+/**
+ * Upstream API configuration, keyed by upstream name
+ * Names are referenced from routing.rules[].upstream and routing.default.
+ * The built-in "anthropic" and "zai" upstreams are always present.
+ */
+export type UpstreamConfig = Record<string, UpstreamDefinition>;
 
 /**
- * Anthropic upstream configuration (OAuth-based)
- * Note: apiKey is not used for Anthropic as it uses OAuth authorization header forwarding
+ * Authentication mode for an upstream
+ * - oauth: forward the client's authorization header as-is
+ * - api-key: drop client credentials and send the key as x-api-key
+ * - bearer: drop client credentials and send "Authorization: Bearer <key>"
+ * - header: drop client credentials and send authHeader built from authTemplate
+ * - none: drop client credentials and send none
  */
-export interface AnthropicUpstream {
-  url: string;
-}
+export type UpstreamAuthMode = "oauth" | "api-key" | "bearer" | "header" | "none";
+
+/**
+ * Upstream API protocol
+ * - anthropic: Anthropic Messages API (forwarded as-is)
+ * - openai: OpenAI Chat Completions API (requests and responses are translated)
+ */
+export type UpstreamType = "anthropic" | "openai";
 
 /**
- * z.ai upstream configuration (API key-based)
- * The apiKey is used to set the x-api-key header for z.ai requests
+ * Single upstream definition
+ * Optional fields default to the behavior of the built-in upstream of the same name,
+ * or to a plain pass-through upstream for custom names.
  */
-export interface ZaiUpstream {
+export interface UpstreamDefinition {
   url: string;
+  /** API protocol (default: "anthropic") */
+  type?: UpstreamType;
+  /**
+   * Authentication mode
+   * Default: "bearer" for keyed openai upstreams and "api-key" for other keyed ones;
+   * without a key "oauth" for the built-in anthropic upstream and "none" for others
+   */
+  auth?: UpstreamAuthMode;
+  /** Static API key */
   apiKey?: string;
+  /** Read the API key from this file (trimmed) */
+  apiKeyFile?: string;
+  /** Read the API key from this shell command's stdout (trimmed), e.g. "pass show zai" */
+  apiKeyCommand?: string;
+  /** Header name for auth mode "header" */
+  authHeader?: string;
+  /** Header value template for auth mode "header"; "{key}" is replaced with the key (default: "{key}") */
+  authTemplate?: string;
+  /**
+   * Upstream validates Anthropic thinking signatures:
+   * sanitize foreign thinking blocks in requests and record signatures from responses
+   */
+  sanitizeRequest?: boolean;
+  /** Normalize z.ai-style thinking blocks in responses */
+  transformResponse?: boolean;
+  /**
+   * Upstream is not Anthropic but may receive Anthropic conversations:
+   * represent Anthropic thinking blocks per foreignReasoning and repair message structure
+   */
+  sanitizeForeignRequest?: boolean;
+  /**
+   * Upstream has no /v1/messages/count_tokens endpoint: answer it locally
+   * with an offline estimate (default: true for "zai" and openai upstreams)
+   */
+  emulateCountTokens?: boolean;
+  /**
+   * How reasoning from another provider is sent to this upstream: a mode,
+   * or a policy that also limits turns and characters (default: "text")
+   */
+  foreignReasoning?: ForeignReasoningMode | ForeignReasoningPolicy;
+  /**
+   * Request fields, block types and anthropic-beta values the upstream accepts
+   * Default: a profile removing Anthropic-only features for "zai", none for others
+   */
+  capabilities?: CapabilityProfile;
+  /** Per-phase request timeouts (see UpstreamTimeouts for defaults) */
+  timeouts?: UpstreamTimeouts;
+  /** Retries of transient failures before the response starts (see UpstreamRetry for defaults) */
+  retry?: UpstreamRetry;
+  /** Stops sending requests while the upstream keeps failing (see CircuitBreakerPolicy for defaults) */
+  circuitBreaker?: CircuitBreakerPolicy;
+  /** Connection pool settings (see UpstreamConnection for defaults) */
+  connection?: UpstreamConnection;
+  /** Limits on requests in flight (see UpstreamConcurrency for defaults) */
+  concurrency?: UpstreamConcurrency;
+  /** Request and token rate limits (see UpstreamRateLimit for defaults) */
+  rateLimit?: UpstreamRateLimit;
+}
+
+/**
+ * Upstream connection pool
+ * Each upstream has its own keep-alive pool, or a single HTTP/2 session when http2 is set.
+ */
+export interface UpstreamConnection {
+  /** Maximum concurrent connections; requests beyond wait for a free one, 0 = unlimited (default: 0) */
+  maxSockets?: number;
+  /** Idle connections are closed after this many seconds (default: 15) */
+  keepAliveSeconds?: number;
+  /** Multiplex requests over one HTTP/2 session (h2c for http:// URLs) instead of HTTP/1.1 (default: false) */
+  http2?: boolean;
+}
+
+/**
+ * Per-upstream concurrency limit
+ * Requests beyond the limits wait in a queue served round-robin across client sessions.
+ * Requests refused by a full queue or waiting longer than maxWaitSeconds go to the
+ * rule's fallbacks or fail with 429.
+ */
+export interface UpstreamConcurrency {
+  /** Maximum requests in flight, 0 = unlimited (default: 0) */
+  maxRequests?: number;
+  /** Maximum requests in flight per model sent upstream, 0 = unlimited (default: 0) */
+  maxRequestsPerModel?: number;
+  /** Maximum waiting requests; further requests are refused right away (default: 100) */
+  maxQueue?: number;
+  /** Longest wait for a free slot in seconds (default: 60) */
+  maxWaitSeconds?: number;
+}
+
+/** What the proxy does with a request while a rate limit bucket is empty */
+export type RateLimitAction = "reject" | "wait";
+
+/**
+ * Per-upstream rate limits
+ * Token buckets refilled evenly over a minute. Token buckets are charged with the
+ * usage reported in responses. While a bucket is empty, requests go to the rule's
+ * fallbacks or are answered with 429 rate_limit_error and retry-after, or with
+ * onLimit "wait" are held until the bucket refills (up to maxWaitSeconds).
+ */
+export interface UpstreamRateLimit {
+  /** Requests per minute, 0 = unlimited (default: 0) */
+  requestsPerMinute?: number;
+  /** Input tokens per minute, cache reads and writes included, 0 = unlimited (default: 0) */
+  inputTokensPerMinute?: number;
+  /** Output tokens per minute, 0 = unlimited (default: 0) */
+  outputTokensPerMinute?: number;
+  /** Answer requests locally ("reject") or hold them ("wait") while a bucket is empty (default: "reject") */
+  onLimit?: RateLimitAction;
+  /** Longest wait with onLimit "wait"; longer waits are rejected (default: 30) */
+  maxWaitSeconds?: number;
+}
+
+/**
+ * Per-upstream circuit breaker
+ * Attempts that fail to connect, time out before the response, answer 5xx or take
+ * longer than slowSeconds to respond count as failures. When the failure rate in the
+ * window is reached the breaker opens and requests go to the rule's fallbacks or fail
+ * with 503; after openSeconds, probe requests decide whether it closes again.
+ */
+export interface CircuitBreakerPolicy {
+  /** Whether the breaker is active (default: true) */
+  enabled?: boolean;
+  /** Rolling window of counted attempts in seconds (default: 60) */
+  windowSeconds?: number;
+  /** Attempts in the window before the breaker can open (default: 5) */
+  minRequests?: number;
+  /** Fraction of failed attempts that opens the breaker, 0-1 (default: 0.5) */
+  errorRate?: number;
+  /** Attempts whose response headers take longer count as failures, 0 = off (default: 0) */
+  slowSeconds?: number;
+  /** Seconds the breaker stays open before probing (default: 30) */
+  openSeconds?: number;
+  /** Concurrent probe requests while half-open (default: 1) */
+  halfOpenRequests?: number;
+}
+
+/**
+ * Retries of transient upstream failures
+ * Connection errors, connect timeouts, 502/503/504/529 and 429 with retry-after are
+ * retried with exponential backoff and jitter, always before anything is sent to the client.
+ */
+export interface UpstreamRetry {
+  /** Retries after the first attempt (default: 2 for "anthropic" and "zai", 0 for others) */
+  maxRetries?: number;
+  /** No retry is started after this many seconds since the first attempt (default: 30) */
+  budgetSeconds?: number;
+  /** Backoff before the first retry, doubled for each further retry (default: 0.5) */
+  baseDelaySeconds?: number;
+  /** Maximum backoff; a longer retry-after is still honored (default: 8) */
+  maxDelaySeconds?: number;
+}
+
+/**
+ * Upstream request timeouts in seconds; 0 disables a timeout
+ * A timeout before response headers fails the attempt (and tries the next fallback);
+ * one during the response body ends the stream with an error event.
+ */
+export interface UpstreamTimeouts {
+  /** Establishing the connection, including TLS (default: 10) */
+  connectSeconds?: number;
+  /** From connection to response headers (default: 30) */
+  firstByteSeconds?: number;
+  /** Between chunks of the response body, e.g. a long thinking pause (default: 30) */
+  idleSeconds?: number;
+  /** Whole exchange including the response body (default: 0) */
+  totalSeconds?: number;
+}
+
+/**
+ * Keep/drop lists of a capability profile section
+ * Entries are patterns (globs, /regex/ and !exclusions, see routing match).
+ * Names matching `drop` are removed; when `keep` is set, names not matching it are removed too.
+ */
+export interface CapabilityFilter {
+  keep?: string[];
+  drop?: string[];
+}
+
+/**
+ * Declarative description of what an upstream accepts
+ * Requests are rewritten to fit the profile before they are forwarded.
+ */
+export interface CapabilityProfile {
+  /**
+   * Request parameters: top-level names, or "parent.child" for fields of object
+   * parameters (e.g. "thinking.budget_tokens"); `keep` applies to top-level names only
+   */
+  params?: CapabilityFilter & {
+    /** Values to set by dotted path, e.g. { "thinking.type": "enabled" } */
+    set?: Record<string, unknown>;
+  };
+  /** Content block types in system, messages and tool_result content */
+  blocks?: CapabilityFilter & {
+    /** Block types converted to text blocks instead of being forwarded */
+    text?: string[];
+    /** Fields removed from every block and tool definition, e.g. cache_control, citations */
+    stripFields?: string[];
+  };
+  /** Tool definitions by type ("custom" for regular tools, e.g. "web_search_*" for server tools) */
+  tools?: CapabilityFilter;
+  /** anthropic-beta header values */
+  betas?: CapabilityFilter & {
+    /** Values replaced by another value */
+    rename?: Record<string, string>;
+  };
+}
+
+/**
+ * Representation of another provider's reasoning blocks in requests
+ * - keep: forward as thinking blocks without signatures
+ * - text: convert to text blocks wrapped in a reasoning tag
+ * - drop: remove
+ */
+export type ForeignReasoningMode = "keep" | "text" | "drop";
+
+/**
+ * Handling of another provider's reasoning in requests to an upstream
+ * Limits apply in both directions and to reasoning inside tool_result content.
+ */
+export interface ForeignReasoningPolicy {
+  /** Representation of the reasoning (default: "text"); "keep" is sent as "text" to upstreams that check signatures */
+  mode?: ForeignReasoningMode;
+  /** Only send the reasoning of the last N turns (a turn starts with a user prompt) */
+  keepTurns?: number;
+  /** Character budget for all reasoning in a request; the newest reasoning is kept first, the rest truncated or removed */
+  maxChars?: number;
+  /** Text of converted reasoning; "{reasoning}" is replaced with the reasoning (default: a previous-*-reasoning tag) */
+  template?: string;
 }
 
 /** Lifecycle management configuration */
@@ -37,6 +277,8 @@ export interface LifecycleConfig {
   stopGraceSeconds: number;
   /** Maximum seconds to wait for proxy startup */
   startWaitSeconds: number;
+  /** Seconds a stopping proxy lets in-flight requests finish (default: 30) */
+  drainSeconds?: number;
   /** Directory for PID files and logs */
   stateDir: string;
 }
@@ -49,15 +291,76 @@ export interface LoggingConfig {
 
 /** Single routing rule */
 export interface RoutingRule {
-  match: string;
-  upstream: "anthropic" | "zai";
+  /**
+   * Model pattern or list of patterns: globs (`*`, `?`, `[a-z]`), `/regex/`,
+   * and `!pattern` exclusions. A list matches any pattern but no exclusion.
+   */
+  match: string | string[];
+  /** Upstream name (key of upstream config); omitted when `split` is set */
+  upstream?: string;
+  model?: string;
+  /** Weighted targets; each conversation sticks to one of them */
+  split?: RoutingSplitTarget[];
+  /** Targets tried in order when the upstream fails before responding */
+  fallback?: RoutingTarget[];
+  /** Request conditions that must also hold for the rule to match */
+  when?: RoutingCondition;
+  /** Report the client's model name in responses when the model is rewritten (default: routing.restoreModel) */
+  restoreModel?: boolean;
+}
+
+/** Weighted arm of a traffic split */
+export interface RoutingSplitTarget extends RoutingTarget {
+  /** Relative weight (e.g. 70 and 30) */
+  weight: number;
+  /** Label used in logs; defaults to "upstream:model" */
+  name?: string;
+}
+
+/**
+ * Request condition of a routing rule
+ * All fields set on one condition must hold (AND); `any` expresses OR.
+ */
+export interface RoutingCondition {
+  /** Every nested condition must hold */
+  all?: RoutingCondition[];
+  /** At least one nested condition must hold */
+  any?: RoutingCondition[];
+  /** Glob pattern for the request path, e.g. "/v1/messages/count_tokens" */
+  path?: string;
+  /** Glob patterns for header values by header name; the header must be present */
+  headers?: Record<string, string>;
+  /** Request defines tools */
+  hasTools?: boolean;
+  /** Request contains image blocks */
+  hasImages?: boolean;
+  /** Request enables extended thinking */
+  hasThinking?: boolean;
+  /** Estimated input token range (inclusive) */
+  minInputTokens?: number;
+  maxInputTokens?: number;
+  /** Regular expression tested against the system prompt text */
+  system?: string;
+}
+
+/** Fallback target of a routing rule */
+export interface RoutingTarget {
+  /** Upstream name (key of upstream config) */
+  upstream: string;
+  /** Model override; the client's model is kept when omitted */
   model?: string;
 }
 
 /** Routing configuration */
 export interface RoutingConfig {
   rules: RoutingRule[];
-  default: "anthropic" | "zai";
+  /** Upstream name used when no rule matches */
+  default: string;
+  /**
+   * Report the client's original model name in responses of rewritten requests;
+   * the upstream model is sent in the x-cc-glm-upstream-model header instead (default: false)
+   */
+  restoreModel?: boolean;
 }
 
 /** Claude command configuration */
@@ -85,7 +388,7 @@ export interface Config {
 /** Raw parsed YAML structure (before environment variable expansion) */
 export interface RawConfig {
   proxy?: Partial<ProxyConfig>;
-  upstream?: Partial<UpstreamConfig>;
+  upstream?: Record<string, Partial<UpstreamDefinition>>;
   lifecycle?: Partial<LifecycleConfig>;
   logging?: Partial<LoggingConfig>;
   routing?: Partial<RoutingConfig>;
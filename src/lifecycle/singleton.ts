@@ -8,7 +8,9 @@ import { existsSync, openSync, closeSync } from "node:fs";
 import { mkdir, rmdir } from "node:fs/promises";
 import { dirname, join } from "node:path";
 import { fileURLToPath } from "node:url";
-import type { Config } from "../config/types.js";
+import type { Config, RoutingConfig } from "../config/types.js";
+import { SESSIONS_ENDPOINT, sessionPathPrefix } from "../proxy/sessions.js";
+import { DEFAULT_DRAIN_SECONDS, STATUS_ENDPOINT } from "../proxy/drain.js";
 import {
   isPortListening,
   pidIsAlive,
@@ -25,6 +27,9 @@ import { hasClaudeProcess } from "./tracker.js";
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
+/** Seconds a stopping proxy gets beyond its drain deadline to exit */
+const STOP_MARGIN_SECONDS = 3;
+
 /** Singleton proxy manager */
 export class SingletonProxy {
   private config: Config;
@@ -59,8 +64,13 @@ export class SingletonProxy {
       const pid = readPidFile(this.pidFile);
       if (pid && pid > 0 && pidIsAlive(pid) && (await this.verifyPidOwnsPort(pid))) {
         // Port is listening, PID is alive, and PID owns the port - it's our proxy
-        this.log.info(`Proxy already running on port ${this.config.proxy.port} (PID ${pid})`);
-        return;
+        if (!(await this.isDraining())) {
+          this.log.info(`Proxy already running on port ${this.config.proxy.port} (PID ${pid})`);
+          return;
+        }
+        // A stopping proxy refuses new requests: start a fresh one once it is gone
+        this.log.info(`Proxy is shutting down (PID ${pid}), waiting for it to exit`);
+        await this.waitForExitOrKill(pid);
       } else {
         // Port is listening but it's not our proxy
         throw new Error(
@@ -149,28 +159,7 @@ export class SingletonProxy {
           }
         }
 
-        // Wait for process to exit
-        const deadline = Date.now() + 3000;
-        while (Date.now() < deadline) {
-          if (!pidIsAlive(pid)) {
-            break;
-          }
-          await sleep(100);
-        }
-
-        // Force kill if still alive AND still owns the port (verify to avoid PID reuse)
-        if (pidIsAlive(pid) && (await this.verifyPidOwnsPort(pid))) {
-          try {
-            process.kill(pid, "SIGKILL");
-          } catch (err) {
-            const error = err as Error;
-            if ("code" in error && (error.code === "ESRCH" || error.code === "EPERM")) {
-              this.log.warn(`Failed to send SIGKILL to PID ${pid}: ${error.message}`);
-            } else {
-              throw error;
-            }
-          }
-        }
+        await this.waitForExitOrKill(pid);
       } else {
         // PID exists but doesn't own the port - stale PID file
         this.log.warn(`PID ${pid} does not own port ${this.config.proxy.port}, treating as stale`);
@@ -189,6 +178,106 @@ export class SingletonProxy {
     return `http://${host}:${port}`;
   }
 
+  /**
+   * Register project routing with the running proxy
+   * Returns the base URL Claude Code should use for the session
+   */
+  async registerSession(routing: RoutingConfig, project: string): Promise<{ id: string; baseUrl: string }> {
+    let res: Response;
+    try {
+      res = await fetch(this.getBaseUrl() + SESSIONS_ENDPOINT, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ routing, project }),
+      });
+    } catch (err) {
+      throw new Error(`Failed to register project routing with proxy at ${this.getBaseUrl()}: ${(err as Error).message}`);
+    }
+
+    if (res.status === 404) {
+      throw new Error(
+        "The running proxy does not support project routing. Stop it (no Claude sessions running) and start cc-glm again."
+      );
+    }
+    const body = (await res.json().catch(() => ({}))) as { id?: string; message?: string };
+    if (!res.ok || typeof body.id !== "string") {
+      throw new Error(`Proxy rejected project routing: ${body.message ?? `HTTP ${res.status}`}`);
+    }
+
+    this.log.info(`Registered project session ${body.id}`, { session: body.id, project });
+    return { id: body.id, baseUrl: this.getBaseUrl() + sessionPathPrefix(body.id) };
+  }
+
+  /**
+   * Remove a project session from the running proxy
+   * Failures are logged only; the proxy may already be gone
+   */
+  async unregisterSession(id: string): Promise<void> {
+    try {
+      await fetch(`${this.getBaseUrl()}${SESSIONS_ENDPOINT}/${id}`, { method: "DELETE" });
+    } catch (err) {
+      this.log.debug(`Failed to remove project session ${id}: ${(err as Error).message}`, { session: id });
+    }
+  }
+
+  /**
+   * Check whether the running proxy is finishing its requests before exiting
+   */
+  private async isDraining(): Promise<boolean> {
+    try {
+      const res = await fetch(this.getBaseUrl() + STATUS_ENDPOINT, { signal: AbortSignal.timeout(1000) });
+      const body = (await res.json()) as { state?: string };
+      return body.state === "draining";
+    } catch {
+      // Older proxies don't report their state
+      return false;
+    }
+  }
+
+  /**
+   * Wait until a stopping proxy exits, at most its drain deadline plus a margin
+   * A proxy still alive after that only refuses requests, so it is force killed
+   * if it still owns the port (verified to avoid PID reuse).
+   */
+  private async waitForExitOrKill(pid: number): Promise<void> {
+    const drainSeconds = this.config.lifecycle.drainSeconds ?? DEFAULT_DRAIN_SECONDS;
+    if (await this.waitForExit(pid, drainSeconds + STOP_MARGIN_SECONDS)) {
+      return;
+    }
+    if (!(await this.verifyPidOwnsPort(pid))) {
+      return;
+    }
+
+    this.log.warn(`Proxy (PID ${pid}) did not exit after its drain deadline, killing it`);
+    try {
+      process.kill(pid, "SIGKILL");
+    } catch (err) {
+      const error = err as Error;
+      if ("code" in error && (error.code === "ESRCH" || error.code === "EPERM")) {
+        this.log.warn(`Failed to send SIGKILL to PID ${pid}: ${error.message}`);
+        return;
+      } else {
+        throw error;
+      }
+    }
+    await this.waitForExit(pid, STOP_MARGIN_SECONDS);
+  }
+
+  /**
+   * Wait until a process exits
+   * @returns false when it is still alive after the given seconds
+   */
+  private async waitForExit(pid: number, seconds: number): Promise<boolean> {
+    const deadline = Date.now() + seconds * 1000;
+    while (Date.now() < deadline) {
+      if (!pidIsAlive(pid)) {
+        return true;
+      }
+      await sleep(100);
+    }
+    return false;
+  }
+
   /**
    * Try to acquire lock directory
    */
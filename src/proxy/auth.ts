@@ -0,0 +1,66 @@
+/**
+ * Upstream authentication strategies
+ * Applies the configured auth mode of a route to forwarded request headers
+ */
+
+import type { UpstreamAuthMode } from "../config/types.js";
+import type { Route } from "./types.js";
+
+/** Placeholder replaced with the API key in header templates */
+export const AUTH_KEY_PLACEHOLDER = "{key}";
+
+/** Forwarded request headers */
+type Headers = Record<string, string | string[]>;
+
+/** Strategy that sets upstream credentials on forwarded headers */
+type AuthStrategy = (headers: Headers, target: Route) => void;
+
+/**
+ * Remove client credentials so they only reach upstreams configured for oauth
+ */
+function stripClientCredentials(headers: Headers): void {
+  for (const key of Object.keys(headers)) {
+    const keyLower = key.toLowerCase();
+    if (keyLower === "authorization" || keyLower === "x-api-key") {
+      delete headers[key];
+    }
+  }
+}
+
+/** Auth strategies keyed by mode */
+const AUTH_STRATEGIES: Record<UpstreamAuthMode, AuthStrategy> = {
+  // Forward the client's OAuth authorization header as-is
+  oauth: () => {},
+
+  "api-key": (headers, target) => {
+    stripClientCredentials(headers);
+    if (target.apiKey) {
+      headers["x-api-key"] = target.apiKey;
+    }
+  },
+
+  bearer: (headers, target) => {
+    stripClientCredentials(headers);
+    if (target.apiKey) {
+      headers["authorization"] = `Bearer ${target.apiKey}`;
+    }
+  },
+
+  header: (headers, target) => {
+    stripClientCredentials(headers);
+    if (target.apiKey && target.authHeader) {
+      const template = target.authTemplate ?? AUTH_KEY_PLACEHOLDER;
+      headers[target.authHeader.toLowerCase()] = template.split(AUTH_KEY_PLACEHOLDER).join(target.apiKey);
+    }
+  },
+
+  // Backends without auth get no credentials at all
+  none: (headers) => stripClientCredentials(headers),
+};
+
+/**
+ * Apply the route's auth strategy to forwarded request headers
+ */
+export function applyAuth(headers: Headers, target: Route): void {
+  AUTH_STRATEGIES[target.auth](headers, target);
+}
@@ -0,0 +1,346 @@
+/**
+ * Request body scanning and pass-through
+ * Reads the fields routing needs from the start of a JSON body without parsing
+ * all of it, and forwards bodies that need no rewrite while they arrive.
+ */
+
+import type { Readable, Writable } from "node:stream";
+
+/** Error code of a request body over the configured size limit */
+export const BODY_TOO_LARGE = "ETOOLARGE";
+
+// JSON bytes the scanner acts on
+const QUOTE = 0x22;
+const BACKSLASH = 0x5c;
+const COLON = 0x3a;
+const COMMA = 0x2c;
+const OPEN_BRACE = 0x7b;
+const CLOSE_BRACE = 0x7d;
+const OPEN_BRACKET = 0x5b;
+const CLOSE_BRACKET = 0x5d;
+
+/**
+ * Check whether a byte is JSON whitespace
+ */
+function isWhitespace(byte: number): boolean {
+  return byte === 0x20 || byte === 0x0a || byte === 0x0d || byte === 0x09;
+}
+
+/** Scanner position within the top-level object */
+type ScanState = "start" | "key" | "keyString" | "colon" | "value" | "string" | "nested" | "primitive";
+
+/**
+ * Incremental scanner for top-level fields of a JSON object
+ * Works on raw bytes (UTF-8 multi-byte sequences never contain JSON structure bytes),
+ * decodes only the values of wanted fields and stops once all of them were seen.
+ * When a field appears twice, the first occurrence wins.
+ */
+export class JsonFieldScanner {
+  /** Wanted fields found so far */
+  readonly fields: Record<string, unknown> = {};
+  /** Scanning finished: all wanted fields found, the object ended, or the body is not a JSON object */
+  done = false;
+  /** The body is not a JSON object */
+  invalid = false;
+
+  private wanted: Set<string>;
+  private state: ScanState = "start";
+  private escaped = false;
+  private inString = false;
+  private depth = 0;
+  private key = "";
+  private capturing = false;
+  private parts: Buffer[] = [];
+
+  constructor(fields: string[]) {
+    this.wanted = new Set(fields);
+  }
+
+  /**
+   * Scan the next chunk of the body
+   */
+  push(chunk: Buffer): void {
+    let captureStart = this.capturing ? 0 : -1;
+
+    for (let i = 0; i < chunk.length && !this.done; i++) {
+      const byte = chunk[i];
+      switch (this.state) {
+        case "start":
+          if (isWhitespace(byte)) break;
+          if (byte !== OPEN_BRACE) return this.fail();
+          this.state = "key";
+          break;
+
+        case "key":
+          if (isWhitespace(byte) || byte === COMMA) break;
+          if (byte === CLOSE_BRACE) {
+            this.done = true;
+            break;
+          }
+          if (byte !== QUOTE) return this.fail();
+          this.state = "keyString";
+          this.capturing = true;
+          captureStart = i;
+          break;
+
+        case "keyString":
+          if (this.escaped) {
+            this.escaped = false;
+          } else if (byte === BACKSLASH) {
+            this.escaped = true;
+          } else if (byte === QUOTE) {
+            const key = this.finishCapture(chunk, captureStart, i + 1);
+            captureStart = -1;
+            if (typeof key !== "string") return this.fail();
+            this.key = key;
+            this.state = "colon";
+          }
+          break;
+
+        case "colon":
+          if (isWhitespace(byte)) break;
+          if (byte !== COLON) return this.fail();
+          this.state = "value";
+          break;
+
+        case "value":
+          if (isWhitespace(byte)) break;
+          if (this.wanted.has(this.key) && !(this.key in this.fields)) {
+            this.capturing = true;
+            captureStart = i;
+          }
+          if (byte === QUOTE) {
+            this.state = "string";
+          } else if (byte === OPEN_BRACE || byte === OPEN_BRACKET) {
+            this.state = "nested";
+            this.depth = 1;
+          } else {
+            this.state = "primitive";
+          }
+          break;
+
+        case "string":
+          if (this.escaped) {
+            this.escaped = false;
+          } else if (byte === BACKSLASH) {
+            this.escaped = true;
+          } else if (byte === QUOTE) {
+            this.finishValue(chunk, captureStart, i + 1);
+            captureStart = -1;
+          }
+          break;
+
+        case "nested":
+          if (this.inString) {
+            if (this.escaped) {
+              this.escaped = false;
+            } else if (byte === BACKSLASH) {
+              this.escaped = true;
+            } else if (byte === QUOTE) {
+              this.inString = false;
+            }
+          } else if (byte === QUOTE) {
+            this.inString = true;
+          } else if (byte === OPEN_BRACE || byte === OPEN_BRACKET) {
+            this.depth++;
+          } else if ((byte === CLOSE_BRACE || byte === CLOSE_BRACKET) && --this.depth === 0) {
+            this.finishValue(chunk, captureStart, i + 1);
+            captureStart = -1;
+          }
+          break;
+
+        case "primitive":
+          if (byte === COMMA || byte === CLOSE_BRACE || isWhitespace(byte)) {
+            this.finishValue(chunk, captureStart, i);
+            captureStart = -1;
+            // The delimiter belongs to the object
+            i--;
+          }
+          break;
+      }
+    }
+
+    if (this.capturing && captureStart !== -1 && !this.done) {
+      this.parts.push(chunk.subarray(captureStart));
+    }
+  }
+
+  /**
+   * Complete a value; wanted values are decoded and stored
+   */
+  private finishValue(chunk: Buffer, start: number, end: number): void {
+    if (this.capturing) {
+      const value = this.finishCapture(chunk, start, end);
+      if (value === undefined) return this.fail();
+      this.fields[this.key] = value;
+      if (Object.keys(this.fields).length === this.wanted.size) {
+        this.done = true;
+      }
+    }
+    this.state = "key";
+  }
+
+  /**
+   * Decode the captured bytes as JSON
+   * @returns The value, or undefined when the bytes are not valid JSON
+   */
+  private finishCapture(chunk: Buffer, start: number, end: number): unknown {
+    const text = Buffer.concat([...this.parts, chunk.subarray(start, end)]).toString();
+    this.parts = [];
+    this.capturing = false;
+    try {
+      return JSON.parse(text);
+    } catch {
+      return undefined;
+    }
+  }
+
+  private fail(): void {
+    this.invalid = true;
+    this.done = true;
+    this.parts = [];
+  }
+}
+
+/** Result of reading a request body */
+export interface BodyRead {
+  chunks: Buffer[];
+  size: number;
+  /** The whole body was read */
+  ended: boolean;
+  /** The body exceeds the size limit (reading stopped) */
+  tooLarge: boolean;
+}
+
+/**
+ * Read a request body, stopping early once the scanner is done
+ * The stream is paused, not consumed, when reading stops early.
+ * @param maxSize - Size limit in bytes
+ * @param scanner - Scanner fed with every chunk
+ */
+export function readBody(source: Readable, maxSize: number, scanner?: JsonFieldScanner): Promise<BodyRead> {
+  return new Promise((resolve) => {
+    const result: BodyRead = { chunks: [], size: 0, ended: false, tooLarge: false };
+    const finish = () => {
+      source.off("data", onData);
+      source.off("end", onEnd);
+      source.off("close", finish);
+      resolve(result);
+    };
+    const onData = (chunk: Buffer) => {
+      result.size += chunk.length;
+      if (result.size > maxSize) {
+        result.tooLarge = true;
+        source.pause();
+        finish();
+        return;
+      }
+      result.chunks.push(chunk);
+      scanner?.push(chunk);
+      if (scanner?.done) {
+        source.pause();
+        finish();
+      }
+    };
+    const onEnd = () => {
+      result.ended = true;
+      finish();
+    };
+
+    if (source.readableEnded) {
+      onEnd();
+      return;
+    }
+    source.on("data", onData);
+    source.once("end", onEnd);
+    // Client disconnects end the read with what arrived (callers check for aborts)
+    source.once("close", finish);
+    source.resume();
+  });
+}
+
+/**
+ * Client request body forwarded while it arrives
+ * The first upstream attempt takes the rest of the client stream. Later attempts
+ * (retries, fallbacks) are sent the same bytes, which are kept only when replay is enabled.
+ */
+export class StreamedBody {
+  private received: Buffer[];
+  private size: number;
+  private ended = false;
+  private reading = false;
+  private sent = false;
+  private dest: Writable | null = null;
+
+  /**
+   * @param head - Chunks already read from the client
+   * @param source - The client stream, paused after the head
+   * @param maxSize - Size limit of the whole body in bytes
+   * @param replay - Keep the body for later attempts
+   */
+  constructor(
+    head: Buffer[],
+    private source: Readable,
+    private maxSize: number,
+    private replay: boolean
+  ) {
+    this.received = [...head];
+    this.size = head.reduce((sum, chunk) => sum + chunk.length, 0);
+  }
+
+  /**
+   * Write the body to an upstream request and end it when the client body ends
+   * A body over the size limit destroys the request with a BODY_TOO_LARGE error.
+   */
+  writeTo(dest: Writable): void {
+    if (this.sent && !this.replay) {
+      throw new Error("Request body was already forwarded");
+    }
+    this.sent = true;
+    this.dest = dest;
+
+    for (const chunk of this.received) {
+      dest.write(chunk);
+    }
+    if (!this.replay) {
+      this.received = [];
+    }
+    if (this.ended) {
+      dest.end();
+      return;
+    }
+
+    if (!this.reading) {
+      this.reading = true;
+      this.source.on("data", (chunk: Buffer) => this.onData(chunk));
+      this.source.once("end", () => {
+        this.ended = true;
+        this.dest?.end();
+      });
+    }
+    this.source.resume();
+  }
+
+  private onData(chunk: Buffer): void {
+    this.size += chunk.length;
+    if (this.size > this.maxSize) {
+      this.source.pause();
+      const err: NodeJS.ErrnoException = new Error("Request body exceeds maximum size");
+      err.code = BODY_TOO_LARGE;
+      this.dest?.destroy(err);
+      return;
+    }
+    if (this.replay) {
+      this.received.push(chunk);
+    }
+
+    const dest = this.dest;
+    if (dest && !dest.destroyed && !dest.write(chunk)) {
+      // Respect upstream backpressure; a replacement destination resumes reading
+      this.source.pause();
+      dest.once("drain", () => {
+        if (this.dest === dest) this.source.resume();
+      });
+    }
+  }
+}
@@ -0,0 +1,280 @@
+/**
+ * Upstream capability profiles
+ * Rewrites requests so they only use the parameters, content blocks, tools and
+ * anthropic-beta values the target upstream accepts.
+ */
+
+import type { CapabilityFilter, CapabilityProfile } from "../config/types.js";
+import type { ContentBlock, Message } from "./types.js";
+import { removeOrphanedToolResults, sanitizeMessageStructure } from "./transform.js";
+import { compileMatcher } from "../utils/pattern.js";
+
+/**
+ * Built-in profile of the "zai" upstream
+ * Drops Anthropic-only request parameters and server tools, which z.ai rejects.
+ */
+export const ZAI_CAPABILITIES: CapabilityProfile = {
+  params: { drop: ["context_management", "container", "mcp_servers"] },
+  tools: { keep: ["custom"] },
+};
+
+/** Parameters that are never removed by `params.keep` */
+const REQUIRED_PARAMS = new Set(["model", "messages"]);
+
+/** Fields collected when a block is converted to text */
+const TEXT_FIELDS = new Set(["text", "title", "url"]);
+
+/** Compiled pattern lists (profiles are immutable once loaded) */
+const listMatchers = new WeakMap<string[], (name: string) => boolean>();
+
+/**
+ * Get the compiled predicate of a pattern list; an empty list matches nothing
+ */
+function listMatcher(patterns: string[]): (name: string) => boolean {
+  let matcher = listMatchers.get(patterns);
+  if (!matcher) {
+    matcher = patterns.length > 0 ? compileMatcher(patterns) : () => false;
+    listMatchers.set(patterns, matcher);
+  }
+  return matcher;
+}
+
+/**
+ * Check whether a filter lets a name through
+ */
+function isAllowed(filter: CapabilityFilter | undefined, name: string): boolean {
+  if (!filter) return true;
+  if (filter.keep && !listMatcher(filter.keep)(name)) return false;
+  return !(filter.drop && listMatcher(filter.drop)(name));
+}
+
+/**
+ * Check whether a value is a plain JSON object
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * Fit a Messages request body to an upstream's capability profile
+ * @returns The body (same reference if nothing had to change) or a rewritten copy
+ */
+export function applyCapabilities(body: Record<string, unknown>, profile: CapabilityProfile): Record<string, unknown> {
+  let result = applyParams(body, profile.params);
+  result = applyTools(result, profile.tools, profile.blocks?.stripFields);
+  result = applyBlocks(result, profile.blocks);
+  return result;
+}
+
+/**
+ * Remove and set request parameters
+ */
+function applyParams(body: Record<string, unknown>, params: CapabilityProfile["params"]): Record<string, unknown> {
+  if (!params) return body;
+  const result: Record<string, unknown> = {};
+  let changed = false;
+
+  for (const [name, value] of Object.entries(body)) {
+    if (!REQUIRED_PARAMS.has(name) && !isAllowed(params, name)) {
+      changed = true;
+      continue;
+    }
+    // Fields of object parameters can be dropped as "parent.child"
+    if (isObject(value) && params.drop) {
+      const drop = listMatcher(params.drop);
+      const kept = Object.fromEntries(Object.entries(value).filter(([field]) => !drop(`${name}.${field}`)));
+      if (Object.keys(kept).length !== Object.keys(value).length) {
+        result[name] = kept;
+        changed = true;
+        continue;
+      }
+    }
+    result[name] = value;
+  }
+
+  for (const [path, value] of Object.entries(params.set ?? {})) {
+    setPath(result, path.split("."), value);
+    changed = true;
+  }
+
+  return changed ? result : body;
+}
+
+/**
+ * Set a value by path, copying the objects along the way
+ */
+function setPath(target: Record<string, unknown>, path: string[], value: unknown): void {
+  const [head, ...rest] = path;
+  if (rest.length === 0) {
+    target[head] = value;
+    return;
+  }
+  const child = isObject(target[head]) ? { ...(target[head] as Record<string, unknown>) } : {};
+  setPath(child, rest, value);
+  target[head] = child;
+}
+
+/**
+ * Remove tool definitions the upstream doesn't support and strip their fields
+ * A tool_choice naming a removed tool is removed as well.
+ */
+function applyTools(
+  body: Record<string, unknown>,
+  tools: CapabilityFilter | undefined,
+  stripFields: string[] | undefined
+): Record<string, unknown> {
+  if (!Array.isArray(body.tools) || (!tools && !stripFields?.length)) return body;
+
+  const original = body.tools as unknown[];
+  const kept = original
+    .filter((tool) => !isObject(tool) || isAllowed(tools, typeof tool.type === "string" ? tool.type : "custom"))
+    .map((tool) => (isObject(tool) ? stripBlockFields(tool as ContentBlock, stripFields) : tool));
+  if (kept.length === original.length && kept.every((tool, i) => tool === original[i])) {
+    return body;
+  }
+
+  const result: Record<string, unknown> = { ...body, tools: kept };
+  if (kept.length === 0) {
+    delete result.tools;
+  }
+  const choice = result.tool_choice;
+  const names = new Set(kept.map((tool) => (isObject(tool) ? tool.name : undefined)));
+  if (isObject(choice) && (kept.length === 0 || (choice.type === "tool" && !names.has(choice.name)))) {
+    delete result.tool_choice;
+  }
+  return result;
+}
+
+/**
+ * Remove, convert and strip content blocks in system, messages and tool_result content
+ */
+function applyBlocks(body: Record<string, unknown>, blocks: CapabilityProfile["blocks"]): Record<string, unknown> {
+  if (!blocks) return body;
+  let result = body;
+
+  if (Array.isArray(body.system)) {
+    const system = fitBlocks(body.system as ContentBlock[], blocks);
+    if (system !== body.system) {
+      result = { ...result, system };
+      if (system.length === 0) {
+        delete result.system;
+      }
+    }
+  }
+
+  if (Array.isArray(body.messages)) {
+    let changed = false;
+    const messages = (body.messages as Message[]).map((msg) => {
+      if (!Array.isArray(msg?.content)) return msg;
+      const content = fitBlocks(msg.content, blocks);
+      if (content === msg.content) return msg;
+      changed = true;
+      return { ...msg, content };
+    });
+    if (changed) {
+      // Removed blocks can leave empty messages behind, and removed tool_use
+      // blocks leave their tool_result blocks orphaned
+      const sanitized = sanitizeMessageStructure(messages);
+      const removesBlocks = Boolean(blocks.drop || blocks.text || blocks.keep);
+      result = { ...result, messages: removesBlocks ? removeOrphanedToolResults(sanitized) : sanitized };
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Fit a content block array to the profile
+ * @returns The array (same reference if unchanged) or a rewritten copy
+ */
+function fitBlocks(content: ContentBlock[], blocks: NonNullable<CapabilityProfile["blocks"]>): ContentBlock[] {
+  let changed = false;
+  const result: ContentBlock[] = [];
+
+  for (const block of content) {
+    if (!isObject(block) || typeof block.type !== "string") {
+      result.push(block);
+      continue;
+    }
+    // drop wins over text, which wins over keep
+    if (blocks.drop && listMatcher(blocks.drop)(block.type)) {
+      changed = true;
+      continue;
+    }
+    if (blocks.text && listMatcher(blocks.text)(block.type)) {
+      result.push(blockToText(block));
+      changed = true;
+      continue;
+    }
+    if (blocks.keep && !listMatcher(blocks.keep)(block.type)) {
+      changed = true;
+      continue;
+    }
+
+    let fitted = stripBlockFields(block, blocks.stripFields);
+    if (fitted.type === "tool_result" && Array.isArray(fitted.content)) {
+      const nested = fitBlocks(fitted.content as ContentBlock[], blocks);
+      if (nested !== fitted.content) {
+        fitted = { ...fitted, content: nested };
+      }
+    }
+    if (fitted !== block) {
+      changed = true;
+    }
+    result.push(fitted);
+  }
+
+  return changed ? result : content;
+}
+
+/**
+ * Remove fields such as cache_control from a block or tool definition
+ */
+function stripBlockFields(block: ContentBlock, fields: string[] | undefined): ContentBlock {
+  if (!fields?.some((field) => field in block)) return block;
+  const result = { ...block };
+  for (const field of fields) {
+    delete result[field];
+  }
+  return result;
+}
+
+/**
+ * Convert an unsupported block to a text block carrying its readable content
+ * (text, titles and URLs, or the data of plain-text document sources)
+ */
+function blockToText(block: ContentBlock): ContentBlock {
+  const parts: string[] = [];
+  const visit = (value: unknown, key?: string): void => {
+    if (typeof value === "string") {
+      if (key !== undefined && TEXT_FIELDS.has(key)) parts.push(value);
+    } else if (Array.isArray(value)) {
+      value.forEach((item) => visit(item));
+    } else if (isObject(value)) {
+      if (value.type === "text" && typeof value.data === "string") {
+        parts.push(value.data);
+      }
+      for (const [field, nested] of Object.entries(value)) {
+        visit(nested, field);
+      }
+    }
+  };
+  visit(block);
+
+  return { type: "text", text: [`[${block.type}]`, ...parts].join("\n") };
+}
+
+/**
+ * Fit an anthropic-beta header value to the profile
+ * @returns The comma-separated values to forward, or undefined when none remain
+ */
+export function applyBetaCapabilities(header: string, betas: CapabilityProfile["betas"]): string | undefined {
+  if (!betas) return header;
+  const values = header
+    .split(",")
+    .map((value) => value.trim())
+    .filter(Boolean)
+    .map((value) => betas.rename?.[value] ?? value)
+    .filter((value) => isAllowed(betas, value));
+  return values.length > 0 ? values.join(",") : undefined;
+}
@@ -0,0 +1,212 @@
+/**
+ * Upstream circuit breakers
+ * Track the outcome of upstream attempts and stop sending requests to an upstream
+ * that keeps failing or answering slowly, until a probe request succeeds again.
+ */
+
+import type { CircuitBreakerPolicy } from "../config/types.js";
+import type { ChildLogger } from "../utils/logger.js";
+
+/** Breaker settings used for fields an upstream doesn't configure */
+export const DEFAULT_CIRCUIT_BREAKER: Required<CircuitBreakerPolicy> = {
+  enabled: true,
+  windowSeconds: 60,
+  minRequests: 5,
+  errorRate: 0.5,
+  slowSeconds: 0,
+  openSeconds: 30,
+  halfOpenRequests: 1,
+};
+
+/**
+ * Breaker state
+ * - closed: requests pass, outcomes are counted
+ * - open: requests are refused until openSeconds have passed
+ * - half-open: a limited number of probes pass; one success closes, one failure reopens
+ */
+export type CircuitState = "closed" | "open" | "half-open";
+
+/** Outcome of one upstream attempt; "ignored" frees the permit without counting (e.g. client abort) */
+export type AttemptOutcome = "success" | "failure" | "ignored";
+
+/** Permission to send one attempt; report its outcome once */
+export type CircuitPermit = (outcome: AttemptOutcome) => void;
+
+/** Breaker state reported by the status endpoint */
+export interface CircuitStatus {
+  state: CircuitState;
+  /** Attempts counted in the current window */
+  requests: number;
+  /** Failed attempts counted in the current window */
+  failures: number;
+  /** When the breaker last opened (ISO 8601) */
+  openedAt?: string;
+  /** Seconds until an open breaker lets a probe through */
+  retryInSeconds?: number;
+}
+
+/**
+ * Circuit breaker of one upstream
+ */
+export class CircuitBreaker {
+  private state: CircuitState = "closed";
+  private outcomes: Array<{ at: number; failed: boolean }> = [];
+  private openedAt = 0;
+  private probes = 0;
+
+  constructor(
+    readonly name: string,
+    private policy: Required<CircuitBreakerPolicy>,
+    private log: ChildLogger,
+    private now: () => number = Date.now
+  ) {}
+
+  /**
+   * Ask to send one attempt
+   * @returns A permit, or null while the breaker refuses requests
+   */
+  acquire(): CircuitPermit | null {
+    if (!this.policy.enabled) {
+      return () => {};
+    }
+
+    if (this.state === "open") {
+      if (this.now() - this.openedAt < this.policy.openSeconds * 1000) {
+        return null;
+      }
+      this.state = "half-open";
+      this.probes = 0;
+      this.log.info(`circuit half-open: ${this.name}`, { upstream: this.name, circuit: "half-open" });
+    }
+
+    if (this.state === "half-open") {
+      if (this.probes >= this.policy.halfOpenRequests) {
+        return null;
+      }
+      this.probes++;
+      return once((outcome) => this.recordProbe(outcome));
+    }
+
+    return once((outcome) => this.record(outcome));
+  }
+
+  /**
+   * Check whether an attempt that got response headers after latencyMs counts as slow
+   */
+  isSlow(latencyMs: number): boolean {
+    return this.policy.slowSeconds > 0 && latencyMs > this.policy.slowSeconds * 1000;
+  }
+
+  /**
+   * Current state and window counts
+   */
+  status(): CircuitStatus {
+    const now = this.now();
+    this.prune(now);
+    const status: CircuitStatus = {
+      state: this.state,
+      requests: this.outcomes.length,
+      failures: this.outcomes.filter((outcome) => outcome.failed).length,
+    };
+    if (this.openedAt > 0) {
+      status.openedAt = new Date(this.openedAt).toISOString();
+    }
+    if (this.state === "open") {
+      status.retryInSeconds = Math.max(0, Math.ceil((this.openedAt + this.policy.openSeconds * 1000 - now) / 1000));
+    }
+    return status;
+  }
+
+  /**
+   * Count an attempt sent while closed; open when the window's error rate is reached
+   */
+  private record(outcome: AttemptOutcome): void {
+    // Attempts still in flight when the breaker opened don't count
+    if (outcome === "ignored" || this.state !== "closed") return;
+
+    const now = this.now();
+    this.outcomes.push({ at: now, failed: outcome === "failure" });
+    this.prune(now);
+
+    const failures = this.outcomes.filter((entry) => entry.failed).length;
+    if (this.outcomes.length >= this.policy.minRequests && failures / this.outcomes.length >= this.policy.errorRate) {
+      this.open(now, `${failures}/${this.outcomes.length} attempts failed`);
+    }
+  }
+
+  /**
+   * Settle a half-open probe: success closes the breaker, failure reopens it
+   */
+  private recordProbe(outcome: AttemptOutcome): void {
+    this.probes = Math.max(0, this.probes - 1);
+    if (outcome === "ignored" || this.state !== "half-open") return;
+
+    if (outcome === "failure") {
+      this.open(this.now(), "probe failed");
+      return;
+    }
+    this.state = "closed";
+    this.outcomes = [];
+    this.log.info(`circuit closed: ${this.name}`, { upstream: this.name, circuit: "closed" });
+  }
+
+  /**
+   * Start refusing requests
+   */
+  private open(now: number, reason: string): void {
+    this.state = "open";
+    this.openedAt = now;
+    this.outcomes = [];
+    this.log.warn(`circuit open: ${this.name} (${reason})`, { upstream: this.name, circuit: "open" });
+  }
+
+  /**
+   * Forget outcomes older than the window
+   */
+  private prune(now: number): void {
+    const since = now - this.policy.windowSeconds * 1000;
+    const first = this.outcomes.findIndex((outcome) => outcome.at >= since);
+    if (first === -1) {
+      this.outcomes = [];
+    } else if (first > 0) {
+      this.outcomes = this.outcomes.slice(first);
+    }
+  }
+}
+
+/**
+ * Circuit breakers of all upstreams, created on first use
+ * Breakers are keyed by upstream name, so project sessions share the global state.
+ */
+export class CircuitBreakerRegistry {
+  private breakers = new Map<string, CircuitBreaker>();
+
+  constructor(
+    private log: ChildLogger,
+    private now: () => number = Date.now
+  ) {}
+
+  /**
+   * Get the breaker of an upstream
+   */
+  get(name: string, policy?: CircuitBreakerPolicy): CircuitBreaker {
+    let breaker = this.breakers.get(name);
+    if (!breaker) {
+      breaker = new CircuitBreaker(name, { ...DEFAULT_CIRCUIT_BREAKER, ...policy }, this.log, this.now);
+      this.breakers.set(name, breaker);
+    }
+    return breaker;
+  }
+}
+
+/**
+ * Wrap a permit so only its first call counts
+ */
+function once(permit: CircuitPermit): CircuitPermit {
+  let settled = false;
+  return (outcome) => {
+    if (settled) return;
+    settled = true;
+    permit(outcome);
+  };
+}
@@ -0,0 +1,217 @@
+/**
+ * Upstream concurrency limits
+ * Cap the requests in flight per upstream (and per model) and queue the rest.
+ * Waiting requests are served round-robin across client sessions, so a burst of
+ * parallel requests from one session can't hold back the others.
+ */
+
+import type { UpstreamConcurrency } from "../config/types.js";
+
+/** Concurrency settings used for fields an upstream doesn't configure */
+export const DEFAULT_CONCURRENCY: Required<UpstreamConcurrency> = {
+  maxRequests: 0,
+  maxRequestsPerModel: 0,
+  maxQueue: 100,
+  maxWaitSeconds: 60,
+};
+
+/** Concurrency counters of one upstream, reported by the status endpoint */
+export interface ConcurrencyStats {
+  /** Requests holding a slot */
+  inFlight: number;
+  /** Requests waiting for a slot */
+  queued: number;
+}
+
+/** Slot for one upstream request; release it once the request finished */
+export interface ConcurrencySlot {
+  release: () => void;
+  /** Time spent in the queue */
+  waitedMs: number;
+}
+
+/** Why a request got no slot */
+export type QueueRejection = "queue full" | "wait timeout" | "client closed";
+
+/** Request waiting for a slot */
+interface Waiter {
+  model: string;
+  enqueuedAt: number;
+  grant: (slot: ConcurrencySlot) => void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * Concurrency limiter of one upstream
+ */
+export class ConcurrencyLimiter {
+  private inFlight = 0;
+  private inFlightByModel = new Map<string, number>();
+  /** Waiting requests per session; the map order is the round-robin order */
+  private queues = new Map<string, Waiter[]>();
+  private queued = 0;
+
+  constructor(
+    private policy: Required<UpstreamConcurrency>,
+    private now: () => number = Date.now
+  ) {}
+
+  /**
+   * Wait for a slot
+   * @param model - Model sent upstream, for the per-model limit
+   * @param session - Client session the request belongs to
+   * @param onQueued - Called when the request has to wait, with the counters including it
+   * @param signal - Aborted when the client goes away, which takes the request out of the queue
+   * @returns The slot, or why the request was refused
+   */
+  acquire(
+    model: string,
+    session: string,
+    onQueued?: (stats: ConcurrencyStats) => void,
+    signal?: AbortSignal
+  ): Promise<ConcurrencySlot | QueueRejection> {
+    if (signal?.aborted) {
+      return Promise.resolve("client closed");
+    }
+    // Waiters are granted as soon as slots free up, so none of them could use this one
+    if (this.hasCapacity(model)) {
+      return Promise.resolve(this.take(model, 0));
+    }
+    if (this.queued >= this.policy.maxQueue) {
+      return Promise.resolve("queue full");
+    }
+
+    return new Promise((resolve) => {
+      const giveUp = (reason: QueueRejection) => {
+        clearTimeout(waiter.timer);
+        signal?.removeEventListener("abort", onAbort);
+        this.remove(session, waiter);
+        resolve(reason);
+      };
+      const onAbort = () => giveUp("client closed");
+      const waiter: Waiter = {
+        model,
+        enqueuedAt: this.now(),
+        grant: (slot) => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve(slot);
+        },
+        timer: setTimeout(() => giveUp("wait timeout"), this.policy.maxWaitSeconds * 1000),
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+      const queue = this.queues.get(session);
+      if (queue) {
+        queue.push(waiter);
+      } else {
+        this.queues.set(session, [waiter]);
+      }
+      this.queued++;
+      onQueued?.(this.stats());
+    });
+  }
+
+  /**
+   * Current counters
+   */
+  stats(): ConcurrencyStats {
+    return { inFlight: this.inFlight, queued: this.queued };
+  }
+
+  private hasCapacity(model: string): boolean {
+    const { maxRequests, maxRequestsPerModel } = this.policy;
+    return (
+      (maxRequests === 0 || this.inFlight < maxRequests) &&
+      (maxRequestsPerModel === 0 || (this.inFlightByModel.get(model) ?? 0) < maxRequestsPerModel)
+    );
+  }
+
+  /**
+   * Occupy a slot
+   */
+  private take(model: string, waitedMs: number): ConcurrencySlot {
+    this.inFlight++;
+    this.inFlightByModel.set(model, (this.inFlightByModel.get(model) ?? 0) + 1);
+
+    let released = false;
+    const release = () => {
+      if (released) return;
+      released = true;
+      this.inFlight--;
+      const count = (this.inFlightByModel.get(model) ?? 1) - 1;
+      if (count === 0) {
+        this.inFlightByModel.delete(model);
+      } else {
+        this.inFlightByModel.set(model, count);
+      }
+      this.dispatch();
+    };
+    return { release, waitedMs };
+  }
+
+  /**
+   * Grant free slots to waiters, one session at a time
+   * Within a session waiters go in arrival order, skipping those whose model is at its limit.
+   */
+  private dispatch(): void {
+    let granted = true;
+    while (granted) {
+      granted = false;
+      for (const [session, queue] of this.queues) {
+        const index = queue.findIndex((waiter) => this.hasCapacity(waiter.model));
+        if (index === -1) continue;
+
+        const [waiter] = queue.splice(index, 1);
+        clearTimeout(waiter.timer);
+        this.queued--;
+        // The served session goes to the back of the round-robin order
+        this.queues.delete(session);
+        if (queue.length > 0) this.queues.set(session, queue);
+
+        waiter.grant(this.take(waiter.model, this.now() - waiter.enqueuedAt));
+        granted = true;
+        break;
+      }
+    }
+  }
+
+  /**
+   * Drop a waiter that gave up
+   */
+  private remove(session: string, waiter: Waiter): void {
+    const queue = this.queues.get(session);
+    const index = queue?.indexOf(waiter) ?? -1;
+    if (!queue || index === -1) return;
+    queue.splice(index, 1);
+    this.queued--;
+    if (queue.length === 0) this.queues.delete(session);
+  }
+}
+
+/**
+ * Concurrency limiters of all upstreams, created on first use
+ * Limiters are keyed by upstream name, so project sessions share the global limits.
+ */
+export class ConcurrencyLimiterRegistry {
+  private limiters = new Map<string, ConcurrencyLimiter>();
+
+  constructor(private now: () => number = Date.now) {}
+
+  /**
+   * Get the limiter of an upstream
+   */
+  get(name: string, policy?: UpstreamConcurrency): ConcurrencyLimiter {
+    let limiter = this.limiters.get(name);
+    if (!limiter) {
+      limiter = new ConcurrencyLimiter({ ...DEFAULT_CONCURRENCY, ...policy }, this.now);
+      this.limiters.set(name, limiter);
+    }
+    return limiter;
+  }
+
+  /**
+   * Counters of an upstream
+   */
+  stats(name: string): ConcurrencyStats {
+    return this.limiters.get(name)?.stats() ?? { inFlight: 0, queued: 0 };
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * Graceful shutdown
+ * A stopping proxy refuses new requests but lets in-flight ones finish within a
+ * deadline, and keeps answering status queries so launchers can see it draining.
+ */
+
+import type { ServerResponse } from "node:http";
+
+/** Endpoint reporting proxy and upstream health (GET), answered while draining */
+export const STATUS_ENDPOINT = "/_cc-glm/status";
+
+/** Seconds in-flight requests get to finish when lifecycle.drainSeconds is not set */
+export const DEFAULT_DRAIN_SECONDS = 30;
+
+/** Shutdown state reported by the status endpoint */
+export interface DrainStatus {
+  state: "running" | "draining";
+  /** Requests being served, not counting status queries */
+  inFlight: number;
+}
+
+/**
+ * Tracks in-flight requests so shutdown can wait for them
+ */
+export class RequestDrain {
+  private inFlight = 0;
+  private drained: Promise<boolean> | null = null;
+  private onIdle: (() => void) | null = null;
+
+  /** Whether draining has started, so new requests are refused */
+  get isDraining(): boolean {
+    return this.drained !== null;
+  }
+
+  /**
+   * Count a request until its response closes
+   */
+  track(res: ServerResponse): void {
+    this.inFlight++;
+    res.once("close", () => {
+      this.inFlight--;
+      if (this.inFlight === 0) {
+        this.onIdle?.();
+      }
+    });
+  }
+
+  /**
+   * Start draining and wait for the tracked requests
+   * Later calls return the first call's result.
+   * @returns true when every request finished, false when the deadline passed first
+   */
+  drain(deadlineSeconds: number): Promise<boolean> {
+    this.drained ??= new Promise((resolve) => {
+      if (this.inFlight === 0) {
+        resolve(true);
+        return;
+      }
+      const timer = setTimeout(() => {
+        this.onIdle = null;
+        resolve(false);
+      }, deadlineSeconds * 1000);
+      this.onIdle = () => {
+        clearTimeout(timer);
+        this.onIdle = null;
+        resolve(true);
+      };
+    });
+    return this.drained;
+  }
+
+  /**
+   * Current state for the status endpoint
+   */
+  status(): DrainStatus {
+    return { state: this.isDraining ? "draining" : "running", inFlight: this.inFlight };
+  }
+}
@@ -0,0 +1,169 @@
+/**
+ * Anthropic error envelopes
+ * Proxy failures and upstream error bodies are reported as
+ * { type: "error", error: { type, message } } so clients can tell error kinds apart.
+ */
+
+/** Error types of the Anthropic API */
+export type AnthropicErrorType =
+  | "invalid_request_error"
+  | "authentication_error"
+  | "billing_error"
+  | "permission_error"
+  | "not_found_error"
+  | "request_too_large"
+  | "rate_limit_error"
+  | "api_error"
+  | "timeout_error"
+  | "overloaded_error";
+
+/** Anthropic error response body */
+export interface AnthropicErrorBody {
+  type: "error";
+  error: { type: AnthropicErrorType; message: string };
+}
+
+const ANTHROPIC_ERROR_TYPES = new Set<string>([
+  "invalid_request_error",
+  "authentication_error",
+  "billing_error",
+  "permission_error",
+  "not_found_error",
+  "request_too_large",
+  "rate_limit_error",
+  "api_error",
+  "timeout_error",
+  "overloaded_error",
+]);
+
+/**
+ * z.ai business error codes with a more specific type than their HTTP status
+ * 1000-1004: authentication, 1113: insufficient balance,
+ * 1302-1304: concurrency/frequency/daily limits, 1305: service overloaded
+ */
+const ZAI_ERROR_TYPES: Record<string, AnthropicErrorType> = {
+  "1000": "authentication_error",
+  "1001": "authentication_error",
+  "1002": "authentication_error",
+  "1003": "authentication_error",
+  "1004": "authentication_error",
+  "1113": "billing_error",
+  "1302": "rate_limit_error",
+  "1303": "rate_limit_error",
+  "1304": "rate_limit_error",
+  "1305": "overloaded_error",
+};
+
+/** Maximum length of a raw upstream body quoted in an error message */
+const MAX_QUOTED_BODY = 500;
+
+/**
+ * Quote a raw upstream body, cut to MAX_QUOTED_BODY characters
+ */
+function quoteBody(body: string): string {
+  const text = body.trim();
+  return text.length > MAX_QUOTED_BODY ? text.slice(0, MAX_QUOTED_BODY) + "..." : text;
+}
+
+/**
+ * Build an Anthropic error envelope
+ */
+export function anthropicError(type: AnthropicErrorType, message: string): AnthropicErrorBody {
+  return { type: "error", error: { type, message } };
+}
+
+/**
+ * Map an HTTP status code to an Anthropic error type
+ */
+export function errorTypeForStatus(status: number): AnthropicErrorType {
+  switch (status) {
+    case 400:
+      return "invalid_request_error";
+    case 401:
+      return "authentication_error";
+    case 402:
+      return "billing_error";
+    case 403:
+      return "permission_error";
+    case 404:
+      return "not_found_error";
+    case 413:
+      return "request_too_large";
+    case 429:
+      return "rate_limit_error";
+    case 504:
+      return "timeout_error";
+    case 503:
+    case 529:
+      return "overloaded_error";
+    default:
+      return "api_error";
+  }
+}
+
+/**
+ * Check whether a parsed body already is an Anthropic error envelope
+ */
+function isAnthropicError(parsed: unknown): boolean {
+  if (!parsed || typeof parsed !== "object") return false;
+  const { type, error } = parsed as { type?: unknown; error?: { type?: unknown; message?: unknown } };
+  return type === "error" && typeof error?.type === "string" && ANTHROPIC_ERROR_TYPES.has(error.type) && typeof error.message === "string";
+}
+
+/**
+ * Convert an upstream error response body to an Anthropic error envelope
+ * Anthropic envelopes pass through unchanged. Other shapes (z.ai's
+ * { error: { code, message } } and { code, msg }, OpenAI-style errors, plain text)
+ * are wrapped; the type comes from the z.ai error code or the HTTP status, and the
+ * message keeps the upstream's original error.
+ *
+ * @param body - Raw upstream response body
+ * @param status - Upstream HTTP status code
+ * @param upstream - Upstream name, quoted in the message
+ * @returns The body (same reference if already an envelope) or the envelope JSON
+ */
+export function normalizeErrorBody(body: string, status: number, upstream: string): string {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    parsed = undefined;
+  }
+  if (isAnthropicError(parsed)) {
+    return body;
+  }
+
+  let message: string | undefined;
+  let code: string | undefined;
+  let type: string | undefined;
+  if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+    const fields = parsed as { error?: unknown; message?: unknown; msg?: unknown; code?: unknown };
+    if (fields.error && typeof fields.error === "object") {
+      const error = fields.error as { message?: unknown; code?: unknown; type?: unknown };
+      message = typeof error.message === "string" ? error.message : undefined;
+      code = error.code !== undefined && error.code !== null ? String(error.code) : undefined;
+      type = typeof error.type === "string" ? error.type : undefined;
+    } else if (typeof fields.error === "string") {
+      message = fields.error;
+    }
+    message ??= typeof fields.message === "string" ? fields.message : typeof fields.msg === "string" ? fields.msg : undefined;
+    if (code === undefined && (typeof fields.code === "string" || typeof fields.code === "number")) {
+      code = String(fields.code);
+    }
+    message ??= quoteBody(body);
+  } else {
+    message = quoteBody(body);
+  }
+
+  // z.ai sometimes reports its numeric code as the error type
+  if (code === undefined && type !== undefined && ZAI_ERROR_TYPES[type]) {
+    code = type;
+  }
+  const errorType: AnthropicErrorType =
+    (code !== undefined ? ZAI_ERROR_TYPES[code] : undefined) ??
+    (type !== undefined && ANTHROPIC_ERROR_TYPES.has(type) ? (type as AnthropicErrorType) : undefined) ??
+    errorTypeForStatus(status);
+
+  const origin = `${upstream} ${status}${code !== undefined ? `, code ${code}` : ""}`;
+  return JSON.stringify(anthropicError(errorType, message ? `${message} (${origin})` : `Upstream returned an error (${origin})`));
+}
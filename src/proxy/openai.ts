@@ -0,0 +1,1052 @@
+/**
+ * OpenAI Chat Completions adapter
+ * Translates Anthropic Messages requests to OpenAI /v1/chat/completions calls
+ * and translates responses (JSON and streaming SSE) back to Anthropic format
+ */
+
+import type { ContentBlock, Message, MessageRequestBody } from "./types.js";
+import { anthropicError, errorTypeForStatus, type AnthropicErrorBody } from "./errors.js";
+
+/** OpenAI chat message */
+export interface OpenAIMessage {
+  role: "system" | "user" | "assistant" | "tool";
+  content?: string | OpenAIContentPart[] | null;
+  tool_calls?: OpenAIToolCall[];
+  tool_call_id?: string;
+}
+
+/** OpenAI multimodal content part */
+export type OpenAIContentPart =
+  | { type: "text"; text: string }
+  | { type: "image_url"; image_url: { url: string } };
+
+/** OpenAI tool call in an assistant message */
+export interface OpenAIToolCall {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
+}
+
+/** OpenAI chat completions request body */
+export interface OpenAIChatRequest {
+  model?: string;
+  messages: OpenAIMessage[];
+  max_tokens?: number;
+  temperature?: number;
+  top_p?: number;
+  stop?: string[];
+  stream?: boolean;
+  stream_options?: { include_usage: boolean };
+  tools?: Array<{ type: "function"; function: { name: string; description?: string; parameters: unknown } }>;
+  tool_choice?: string | { type: "function"; function: { name: string } };
+  parallel_tool_calls?: boolean;
+  reasoning_effort?: "low" | "medium" | "high";
+  user?: string;
+}
+
+/** OpenAI usage figures */
+interface OpenAIUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+/** OpenAI chat completions response body */
+export interface OpenAIChatResponse {
+  id?: string;
+  model?: string;
+  choices?: Array<{
+    message?: {
+      content?: string | null;
+      reasoning_content?: string | null;
+      reasoning?: string | null;
+      tool_calls?: OpenAIToolCall[];
+    };
+    finish_reason?: string | null;
+  }>;
+  usage?: OpenAIUsage;
+}
+
+/** OpenAI streaming chunk */
+interface OpenAIStreamChunk {
+  id?: string;
+  model?: string;
+  choices?: Array<{
+    delta?: {
+      content?: string | null;
+      reasoning_content?: string | null;
+      reasoning?: string | null;
+      tool_calls?: Array<{
+        index?: number;
+        id?: string;
+        function?: { name?: string; arguments?: string };
+      }>;
+    };
+    finish_reason?: string | null;
+  }>;
+  usage?: OpenAIUsage | null;
+  error?: { message?: string; type?: string };
+}
+
+/** Anthropic message response produced from an OpenAI response */
+export interface AnthropicMessage {
+  id: string;
+  type: "message";
+  role: "assistant";
+  model: string;
+  content: ContentBlock[];
+  stop_reason: string | null;
+  stop_sequence: string | null;
+  usage: { input_tokens: number; output_tokens: number };
+}
+
+/**
+ * Map OpenAI finish_reason to Anthropic stop_reason
+ */
+function mapFinishReason(reason: string | null | undefined): string {
+  switch (reason) {
+    case "length":
+      return "max_tokens";
+    case "tool_calls":
+    case "function_call":
+      return "tool_use";
+    case "content_filter":
+      return "refusal";
+    default:
+      return "end_turn";
+  }
+}
+
+/**
+ * Map Anthropic thinking budget to OpenAI reasoning effort
+ */
+function mapThinkingBudget(budgetTokens: unknown): "low" | "medium" | "high" {
+  const budget = typeof budgetTokens === "number" ? budgetTokens : 0;
+  if (budget >= 16384) return "high";
+  if (budget >= 4096) return "medium";
+  return "low";
+}
+
+/**
+ * Extract plain text from a system prompt (string or text blocks)
+ */
+function systemToText(system: unknown): string {
+  if (typeof system === "string") return system;
+  if (Array.isArray(system)) {
+    return system
+      .filter((block): block is ContentBlock => !!block && (block as ContentBlock).type === "text")
+      .map((block) => String(block.text ?? ""))
+      .join("\n\n");
+  }
+  return "";
+}
+
+/**
+ * Convert an Anthropic image block to an OpenAI image part
+ */
+function imageToPart(block: ContentBlock): OpenAIContentPart | null {
+  const source = block.source as Record<string, unknown> | undefined;
+  if (!source) return null;
+  if (source.type === "base64" && typeof source.data === "string") {
+    return { type: "image_url", image_url: { url: `data:${source.media_type ?? "image/png"};base64,${source.data}` } };
+  }
+  if (source.type === "url" && typeof source.url === "string") {
+    return { type: "image_url", image_url: { url: source.url } };
+  }
+  return null;
+}
+
+/**
+ * Convert tool_result content to text, collecting nested images separately
+ */
+function toolResultToText(content: unknown, images: OpenAIContentPart[]): string {
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return "";
+
+  const parts: string[] = [];
+  for (const nested of content as ContentBlock[]) {
+    if (nested.type === "text" && typeof nested.text === "string") {
+      parts.push(nested.text);
+    } else if (nested.type === "image") {
+      const image = imageToPart(nested);
+      if (image) images.push(image);
+    }
+  }
+  return parts.join("\n");
+}
+
+/**
+ * Convert a user message to OpenAI messages
+ * tool_result blocks become separate "tool" messages placed before the user content
+ */
+function convertUserMessage(message: Message): OpenAIMessage[] {
+  if (typeof message.content === "string") {
+    return [{ role: "user", content: message.content }];
+  }
+
+  const toolMessages: OpenAIMessage[] = [];
+  const parts: OpenAIContentPart[] = [];
+
+  for (const block of message.content) {
+    if (block.type === "text" && typeof block.text === "string") {
+      parts.push({ type: "text", text: block.text });
+    } else if (block.type === "image") {
+      const image = imageToPart(block);
+      if (image) parts.push(image);
+    } else if (block.type === "tool_result") {
+      const images: OpenAIContentPart[] = [];
+      const text = toolResultToText(block.content, images);
+      toolMessages.push({
+        role: "tool",
+        tool_call_id: String(block.tool_use_id ?? ""),
+        content: block.is_error ? `[error] ${text}` : text,
+      });
+      // Tool messages are text-only, so images move to the following user message
+      parts.push(...images);
+    }
+  }
+
+  const result: OpenAIMessage[] = [...toolMessages];
+  if (parts.length > 0) {
+    const textOnly = parts.every((part) => part.type === "text");
+    result.push({
+      role: "user",
+      content: textOnly ? parts.map((part) => (part as { text: string }).text).join("\n\n") : parts,
+    });
+  }
+  return result;
+}
+
+/**
+ * Convert an assistant message to an OpenAI message
+ * Thinking blocks are dropped since OpenAI-compatible backends don't accept reasoning input
+ */
+function convertAssistantMessage(message: Message): OpenAIMessage {
+  if (typeof message.content === "string") {
+    return { role: "assistant", content: message.content };
+  }
+
+  const texts: string[] = [];
+  const toolCalls: OpenAIToolCall[] = [];
+
+  for (const block of message.content) {
+    if (block.type === "text" && typeof block.text === "string") {
+      texts.push(block.text);
+    } else if (block.type === "tool_use") {
+      toolCalls.push({
+        id: String(block.id ?? ""),
+        type: "function",
+        function: { name: String(block.name ?? ""), arguments: JSON.stringify(block.input ?? {}) },
+      });
+    }
+  }
+
+  return {
+    role: "assistant",
+    content: texts.length > 0 ? texts.join("\n\n") : null,
+    ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+  };
+}
+
+/**
+ * Translate an Anthropic Messages request body to an OpenAI chat completions request body
+ */
+export function toOpenAIRequest(body: MessageRequestBody): OpenAIChatRequest {
+  const messages: OpenAIMessage[] = [];
+
+  const system = systemToText(body.system);
+  if (system) {
+    messages.push({ role: "system", content: system });
+  }
+
+  for (const message of body.messages ?? []) {
+    if (message.role === "assistant") {
+      messages.push(convertAssistantMessage(message));
+    } else {
+      messages.push(...convertUserMessage(message));
+    }
+  }
+
+  const request: OpenAIChatRequest = { model: body.model, messages };
+
+  if (typeof body.max_tokens === "number") request.max_tokens = body.max_tokens;
+  if (typeof body.temperature === "number") request.temperature = body.temperature;
+  if (typeof body.top_p === "number") request.top_p = body.top_p;
+  if (Array.isArray(body.stop_sequences) && body.stop_sequences.length > 0) {
+    request.stop = body.stop_sequences as string[];
+  }
+
+  if (body.stream === true) {
+    request.stream = true;
+    request.stream_options = { include_usage: true };
+  }
+
+  // Only client tools have an input schema; server tools can't be expressed in OpenAI format
+  if (Array.isArray(body.tools)) {
+    const tools = (body.tools as ContentBlock[])
+      .filter((tool) => tool.input_schema !== undefined)
+      .map((tool) => ({
+        type: "function" as const,
+        function: {
+          name: String(tool.name ?? ""),
+          ...(typeof tool.description === "string" ? { description: tool.description } : {}),
+          parameters: tool.input_schema,
+        },
+      }));
+    if (tools.length > 0) request.tools = tools;
+  }
+
+  const toolChoice = body.tool_choice as { type?: string; name?: string; disable_parallel_tool_use?: boolean } | undefined;
+  if (toolChoice && request.tools) {
+    if (toolChoice.type === "any") {
+      request.tool_choice = "required";
+    } else if (toolChoice.type === "tool" && toolChoice.name) {
+      request.tool_choice = { type: "function", function: { name: toolChoice.name } };
+    } else if (toolChoice.type === "none") {
+      request.tool_choice = "none";
+    } else {
+      request.tool_choice = "auto";
+    }
+    if (toolChoice.disable_parallel_tool_use) {
+      request.parallel_tool_calls = false;
+    }
+  }
+
+  const thinking = body.thinking as { type?: string; budget_tokens?: number } | undefined;
+  if (thinking?.type === "enabled") {
+    request.reasoning_effort = mapThinkingBudget(thinking.budget_tokens);
+  }
+
+  const metadata = body.metadata as { user_id?: string } | undefined;
+  if (typeof metadata?.user_id === "string") {
+    request.user = metadata.user_id;
+  }
+
+  return request;
+}
+
+/**
+ * Normalize an OpenAI id to an Anthropic-style message id
+ */
+function toMessageId(id: string | undefined): string {
+  if (!id) return `msg_${Date.now().toString(36)}`;
+  return id.startsWith("msg_") ? id : `msg_${id}`;
+}
+
+/**
+ * Parse tool call arguments, falling back to an empty object
+ */
+function parseToolArguments(args: string | undefined): unknown {
+  if (!args) return {};
+  try {
+    return JSON.parse(args);
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Translate an OpenAI chat completions response to an Anthropic message
+ * @param response - Parsed OpenAI response
+ * @param requestModel - Model from the request, used if the response has none
+ */
+export function fromOpenAIResponse(response: OpenAIChatResponse, requestModel?: string): AnthropicMessage {
+  const choice = response.choices?.[0];
+  const message = choice?.message;
+  const content: ContentBlock[] = [];
+
+  const reasoning = message?.reasoning_content ?? message?.reasoning;
+  if (reasoning) {
+    content.push({ type: "thinking", thinking: reasoning });
+  }
+  if (message?.content) {
+    content.push({ type: "text", text: message.content });
+  }
+  for (const call of message?.tool_calls ?? []) {
+    content.push({
+      type: "tool_use",
+      id: call.id,
+      name: call.function?.name ?? "",
+      input: parseToolArguments(call.function?.arguments),
+    });
+  }
+
+  return {
+    id: toMessageId(response.id),
+    type: "message",
+    role: "assistant",
+    model: response.model ?? requestModel ?? "",
+    content,
+    stop_reason: mapFinishReason(choice?.finish_reason),
+    stop_sequence: null,
+    usage: {
+      input_tokens: response.usage?.prompt_tokens ?? 0,
+      output_tokens: response.usage?.completion_tokens ?? 0,
+    },
+  };
+}
+
+/**
+ * Format a single Anthropic SSE event
+ */
+function formatEvent(type: string, data: Record<string, unknown>): string {
+  return `event: ${type}\ndata: ${JSON.stringify({ type, ...data })}\n\n`;
+}
+
+/**
+ * Incremental translator from OpenAI chat completion SSE to Anthropic Messages SSE
+ * Feed raw upstream chunks to push() and write the returned text to the client.
+ */
+export class OpenAIStreamTranslator {
+  private buffer = "";
+  private started = false;
+  private finished = false;
+  private requestModel: string | undefined;
+  private blockIndex = -1;
+  private blockType: "thinking" | "text" | "tool_use" | null = null;
+  private toolBlocks = new Map<number, number>();
+  private stopReason: string | null = null;
+  private inputTokens = 0;
+  private outputTokens = 0;
+
+  /**
+   * @param requestModel - Model from the request, used if chunks carry none
+   */
+  constructor(requestModel?: string) {
+    this.requestModel = requestModel;
+  }
+
+  /**
+   * Process a chunk of upstream SSE text
+   * @returns Anthropic SSE text to send to the client (may be empty)
+   */
+  push(chunk: string): string {
+    this.buffer += chunk;
+    let output = "";
+
+    let newlineIndex: number;
+    while ((newlineIndex = this.buffer.indexOf("\n")) >= 0) {
+      const line = this.buffer.slice(0, newlineIndex).replace(/\r$/, "");
+      this.buffer = this.buffer.slice(newlineIndex + 1);
+      output += this.processLine(line);
+    }
+
+    return output;
+  }
+
+  /**
+   * Flush remaining state when the upstream stream ends
+   * @returns Closing Anthropic SSE events if the stream didn't finish cleanly
+   */
+  end(): string {
+    let output = "";
+    if (this.buffer) {
+      output += this.processLine(this.buffer.replace(/\r$/, ""));
+      this.buffer = "";
+    }
+    if (this.started && !this.finished) {
+      output += this.finish();
+    }
+    return output;
+  }
+
+  private processLine(line: string): string {
+    if (this.finished || !line.startsWith("data:")) return "";
+
+    const payload = line.slice(5).trim();
+    if (payload === "[DONE]") {
+      return this.ensureStarted() + this.finish();
+    }
+
+    let chunk: OpenAIStreamChunk;
+    try {
+      chunk = JSON.parse(payload) as OpenAIStreamChunk;
+    } catch {
+      return "";
+    }
+
+    if (chunk.error) {
+      this.finished = true;
+      return formatEvent("error", {
+        error: { type: "api_error", message: chunk.error.message ?? "Upstream stream error" },
+      });
+    }
+
+    let output = this.ensureStarted(chunk);
+
+    if (chunk.usage) {
+      this.inputTokens = chunk.usage.prompt_tokens ?? this.inputTokens;
+      this.outputTokens = chunk.usage.completion_tokens ?? this.outputTokens;
+    }
+
+    const choice = chunk.choices?.[0];
+    const delta = choice?.delta;
+
+    const reasoning = delta?.reasoning_content ?? delta?.reasoning;
+    if (reasoning) {
+      output += this.openBlock("thinking", { type: "thinking", thinking: "" });
+      output += formatEvent("content_block_delta", {
+        index: this.blockIndex,
+        delta: { type: "thinking_delta", thinking: reasoning },
+      });
+    }
+
+    if (delta?.content) {
+      output += this.openBlock("text", { type: "text", text: "" });
+      output += formatEvent("content_block_delta", {
+        index: this.blockIndex,
+        delta: { type: "text_delta", text: delta.content },
+      });
+    }
+
+    for (const call of delta?.tool_calls ?? []) {
+      const toolIndex = call.index ?? 0;
+      if (!this.toolBlocks.has(toolIndex)) {
+        output += this.closeBlock();
+        this.blockIndex++;
+        this.blockType = "tool_use";
+        this.toolBlocks.set(toolIndex, this.blockIndex);
+        output += formatEvent("content_block_start", {
+          index: this.blockIndex,
+          content_block: { type: "tool_use", id: call.id ?? `toolu_${toolIndex}`, name: call.function?.name ?? "", input: {} },
+        });
+      }
+      if (call.function?.arguments) {
+        output += formatEvent("content_block_delta", {
+          index: this.toolBlocks.get(toolIndex),
+          delta: { type: "input_json_delta", partial_json: call.function.arguments },
+        });
+      }
+    }
+
+    if (choice?.finish_reason) {
+      this.stopReason = mapFinishReason(choice.finish_reason);
+    }
+
+    return output;
+  }
+
+  private ensureStarted(chunk?: OpenAIStreamChunk): string {
+    if (this.started) return "";
+    this.started = true;
+    return formatEvent("message_start", {
+      message: {
+        id: toMessageId(chunk?.id),
+        type: "message",
+        role: "assistant",
+        model: chunk?.model ?? this.requestModel ?? "",
+        content: [],
+        stop_reason: null,
+        stop_sequence: null,
+        usage: { input_tokens: 0, output_tokens: 0 },
+      },
+    });
+  }
+
+  private openBlock(type: "thinking" | "text", contentBlock: ContentBlock): string {
+    if (this.blockType === type) return "";
+    let output = this.closeBlock();
+    this.blockIndex++;
+    this.blockType = type;
+    output += formatEvent("content_block_start", { index: this.blockIndex, content_block: contentBlock });
+    return output;
+  }
+
+  private closeBlock(): string {
+    if (this.blockType === null) return "";
+    this.blockType = null;
+    return formatEvent("content_block_stop", { index: this.blockIndex });
+  }
+
+  private finish(): string {
+    this.finished = true;
+    let output = this.closeBlock();
+    output += formatEvent("message_delta", {
+      delta: { stop_reason: this.stopReason ?? "end_turn", stop_sequence: null },
+      usage: { input_tokens: this.inputTokens, output_tokens: this.outputTokens },
+    });
+    output += formatEvent("message_stop", {});
+    return output;
+  }
+}
+
+/**
+ * Translate an OpenAI error response body to an Anthropic error envelope
+ * @param status - Upstream HTTP status code
+ * @param body - Raw upstream response body
+ */
+export function fromOpenAIError(status: number, body: string): AnthropicErrorBody {
+  let message = body;
+  try {
+    const parsed = JSON.parse(body) as { error?: { message?: string } | string; message?: string };
+    if (typeof parsed.error === "object" && typeof parsed.error?.message === "string") {
+      message = parsed.error.message;
+    } else if (typeof parsed.error === "string") {
+      message = parsed.error;
+    } else if (typeof parsed.message === "string") {
+      message = parsed.message;
+    }
+  } catch {
+    // Not JSON, use raw body as message
+  }
+
+  return anthropicError(errorTypeForStatus(status), message || `Upstream returned ${status}`);
+}
+
+/** Inbound OpenAI chat completions request (client → proxy) */
+export interface OpenAIInboundRequest {
+  model?: string;
+  messages?: Array<{
+    role?: string;
+    content?: string | Array<{ type?: string; text?: string; image_url?: { url?: string } | string }> | null;
+    tool_calls?: OpenAIToolCall[];
+    tool_call_id?: string;
+  }>;
+  max_tokens?: number;
+  max_completion_tokens?: number;
+  temperature?: number;
+  top_p?: number;
+  stop?: string | string[];
+  stream?: boolean;
+  tools?: Array<{ type?: string; function?: { name?: string; description?: string; parameters?: unknown } }>;
+  tool_choice?: string | { type?: string; function?: { name?: string } };
+  parallel_tool_calls?: boolean;
+  reasoning_effort?: string;
+  user?: string;
+  [key: string]: unknown;
+}
+
+/** Default max_tokens when an OpenAI client doesn't set one (required by Anthropic) */
+const DEFAULT_MAX_TOKENS = 4096;
+
+/** Thinking budgets used for OpenAI reasoning_effort values */
+const REASONING_EFFORT_BUDGETS: Record<string, number> = {
+  low: 2048,
+  medium: 8192,
+  high: 24576,
+};
+
+/** Minimum thinking budget accepted by Anthropic */
+const MIN_THINKING_BUDGET = 1024;
+
+/**
+ * Convert an OpenAI image_url part to an Anthropic image block
+ */
+function imageUrlToBlock(imageUrl: { url?: string } | string | undefined): ContentBlock | null {
+  const url = typeof imageUrl === "string" ? imageUrl : imageUrl?.url;
+  if (!url) return null;
+  const dataMatch = /^data:([^;,]+);base64,(.*)$/s.exec(url);
+  if (dataMatch) {
+    return { type: "image", source: { type: "base64", media_type: dataMatch[1], data: dataMatch[2] } };
+  }
+  return { type: "image", source: { type: "url", url } };
+}
+
+/**
+ * Convert OpenAI message content to Anthropic content blocks
+ */
+function openAIContentToBlocks(content: NonNullable<OpenAIInboundRequest["messages"]>[number]["content"]): ContentBlock[] {
+  if (typeof content === "string") {
+    return content ? [{ type: "text", text: content }] : [];
+  }
+  if (!Array.isArray(content)) return [];
+
+  const blocks: ContentBlock[] = [];
+  for (const part of content) {
+    if (part.type === "text" && typeof part.text === "string") {
+      blocks.push({ type: "text", text: part.text });
+    } else if (part.type === "image_url") {
+      const image = imageUrlToBlock(part.image_url);
+      if (image) blocks.push(image);
+    }
+  }
+  return blocks;
+}
+
+/**
+ * Append content blocks to the last message if it has the same role, otherwise add a new message
+ * Keeps Anthropic's alternating user/assistant structure for tool results
+ */
+function appendMessage(messages: Message[], role: string, blocks: ContentBlock[]): void {
+  if (blocks.length === 0) return;
+  const last = messages[messages.length - 1];
+  if (last && last.role === role) {
+    const existing: ContentBlock[] = typeof last.content === "string" ? [{ type: "text", text: last.content }] : last.content;
+    last.content = [...existing, ...blocks];
+    return;
+  }
+  messages.push({ role, content: blocks });
+}
+
+/**
+ * Translate an inbound OpenAI chat completions request body to an Anthropic Messages request body
+ */
+export function fromOpenAIRequest(body: OpenAIInboundRequest): MessageRequestBody {
+  const systemParts: string[] = [];
+  const messages: Message[] = [];
+
+  for (const message of body.messages ?? []) {
+    switch (message.role) {
+      case "system":
+      case "developer": {
+        const text = openAIContentToBlocks(message.content)
+          .filter((block) => block.type === "text")
+          .map((block) => String(block.text))
+          .join("\n\n");
+        if (text) systemParts.push(text);
+        break;
+      }
+      case "assistant": {
+        const blocks = openAIContentToBlocks(message.content);
+        for (const call of message.tool_calls ?? []) {
+          blocks.push({
+            type: "tool_use",
+            id: call.id,
+            name: call.function?.name ?? "",
+            input: parseToolArguments(call.function?.arguments),
+          });
+        }
+        appendMessage(messages, "assistant", blocks);
+        break;
+      }
+      case "tool": {
+        const blocks = openAIContentToBlocks(message.content);
+        const textOnly = blocks.every((block) => block.type === "text");
+        appendMessage(messages, "user", [{
+          type: "tool_result",
+          tool_use_id: message.tool_call_id ?? "",
+          content: textOnly ? blocks.map((block) => String(block.text)).join("\n") : blocks,
+        }]);
+        break;
+      }
+      default:
+        appendMessage(messages, "user", openAIContentToBlocks(message.content));
+    }
+  }
+
+  const maxTokens = body.max_completion_tokens ?? body.max_tokens ?? DEFAULT_MAX_TOKENS;
+  const request: MessageRequestBody = { model: body.model, max_tokens: maxTokens, messages };
+
+  if (systemParts.length > 0) request.system = systemParts.join("\n\n");
+  if (typeof body.temperature === "number") request.temperature = body.temperature;
+  if (typeof body.top_p === "number") request.top_p = body.top_p;
+  if (body.stop !== undefined && body.stop !== null) {
+    request.stop_sequences = Array.isArray(body.stop) ? body.stop : [body.stop];
+  }
+  if (body.stream === true) request.stream = true;
+
+  if (Array.isArray(body.tools)) {
+    const tools = body.tools
+      .filter((tool) => tool.type === "function" && tool.function?.name)
+      .map((tool) => ({
+        name: tool.function!.name,
+        ...(typeof tool.function!.description === "string" ? { description: tool.function!.description } : {}),
+        input_schema: tool.function!.parameters ?? { type: "object", properties: {} },
+      }));
+    if (tools.length > 0) request.tools = tools;
+  }
+
+  if (request.tools) {
+    let toolChoice: Record<string, unknown> | undefined;
+    if (body.tool_choice === "required") {
+      toolChoice = { type: "any" };
+    } else if (body.tool_choice === "none") {
+      toolChoice = { type: "none" };
+    } else if (typeof body.tool_choice === "object" && body.tool_choice?.function?.name) {
+      toolChoice = { type: "tool", name: body.tool_choice.function.name };
+    } else if (body.tool_choice === "auto" || body.parallel_tool_calls === false) {
+      toolChoice = { type: "auto" };
+    }
+    if (toolChoice && body.parallel_tool_calls === false) {
+      toolChoice.disable_parallel_tool_use = true;
+    }
+    if (toolChoice) request.tool_choice = toolChoice;
+  }
+
+  // Anthropic requires MIN_THINKING_BUDGET <= budget_tokens < max_tokens
+  const effortBudget = body.reasoning_effort ? REASONING_EFFORT_BUDGETS[body.reasoning_effort] : undefined;
+  if (effortBudget !== undefined) {
+    const budget = Math.min(effortBudget, maxTokens - 1);
+    if (budget >= MIN_THINKING_BUDGET) {
+      request.thinking = { type: "enabled", budget_tokens: budget };
+    }
+  }
+
+  if (typeof body.user === "string") {
+    request.metadata = { user_id: body.user };
+  }
+
+  return request;
+}
+
+/**
+ * Map Anthropic stop_reason to OpenAI finish_reason
+ */
+function mapStopReason(reason: string | null | undefined): string | null {
+  switch (reason) {
+    case "max_tokens":
+      return "length";
+    case "tool_use":
+      return "tool_calls";
+    case "refusal":
+      return "content_filter";
+    case null:
+    case undefined:
+      return null;
+    default:
+      return "stop";
+  }
+}
+
+/**
+ * Normalize an Anthropic message id to an OpenAI-style completion id
+ */
+function toCompletionId(id: unknown): string {
+  return typeof id === "string" && id ? `chatcmpl-${id}` : `chatcmpl-${Date.now().toString(36)}`;
+}
+
+/**
+ * Extract reasoning text from a thinking block (Anthropic or normalized z.ai format)
+ */
+function thinkingText(block: ContentBlock): string {
+  if (typeof block.thinking === "string") return block.thinking;
+  if (typeof block.content === "string") return block.content;
+  return "";
+}
+
+/** OpenAI chat completion produced from an Anthropic message */
+export interface OpenAIChatCompletion {
+  id: string;
+  object: "chat.completion";
+  created: number;
+  model: string;
+  choices: Array<{
+    index: number;
+    message: { role: "assistant"; content: string | null; reasoning_content?: string; tool_calls?: OpenAIToolCall[] };
+    finish_reason: string | null;
+  }>;
+  usage: { prompt_tokens: number; completion_tokens: number; total_tokens: number };
+}
+
+/**
+ * Translate an Anthropic message response to an OpenAI chat completion
+ */
+export function toOpenAIResponse(message: Record<string, unknown>): OpenAIChatCompletion {
+  const content = Array.isArray(message.content) ? (message.content as ContentBlock[]) : [];
+  const texts: string[] = [];
+  const reasoning: string[] = [];
+  const toolCalls: OpenAIToolCall[] = [];
+
+  if (typeof message.content === "string") {
+    texts.push(message.content);
+  }
+  for (const block of content) {
+    if (block.type === "text" && typeof block.text === "string") {
+      texts.push(block.text);
+    } else if (block.type === "thinking") {
+      const text = thinkingText(block);
+      if (text) reasoning.push(text);
+    } else if (block.type === "tool_use") {
+      toolCalls.push({
+        id: String(block.id ?? ""),
+        type: "function",
+        function: { name: String(block.name ?? ""), arguments: JSON.stringify(block.input ?? {}) },
+      });
+    }
+  }
+
+  const usage = (message.usage ?? {}) as { input_tokens?: number; output_tokens?: number };
+  const promptTokens = usage.input_tokens ?? 0;
+  const completionTokens = usage.output_tokens ?? 0;
+
+  return {
+    id: toCompletionId(message.id),
+    object: "chat.completion",
+    created: Math.floor(Date.now() / 1000),
+    model: String(message.model ?? ""),
+    choices: [{
+      index: 0,
+      message: {
+        role: "assistant",
+        content: texts.length > 0 ? texts.join("") : null,
+        ...(reasoning.length > 0 ? { reasoning_content: reasoning.join("\n\n") } : {}),
+        ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+      },
+      finish_reason: mapStopReason(message.stop_reason as string | null | undefined) ?? "stop",
+    }],
+    usage: { prompt_tokens: promptTokens, completion_tokens: completionTokens, total_tokens: promptTokens + completionTokens },
+  };
+}
+
+/**
+ * Translate a buffered Anthropic response body for an OpenAI client
+ * Successful responses become chat completions, errors become OpenAI error envelopes.
+ * Bodies that aren't JSON objects are returned unchanged.
+ */
+export function toOpenAIResponseBody(body: string, status: number): string {
+  let parsed: Record<string, unknown>;
+  try {
+    parsed = JSON.parse(body) as Record<string, unknown>;
+  } catch {
+    return body;
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    return body;
+  }
+
+  if (status >= 400 || parsed.type === "error") {
+    const error = (typeof parsed.error === "object" && parsed.error !== null ? parsed.error : {}) as { type?: string; message?: string };
+    return JSON.stringify({
+      error: {
+        message: error.message ?? (typeof parsed.message === "string" ? parsed.message : `Upstream returned ${status}`),
+        type: error.type ?? (typeof parsed.error === "string" ? parsed.error : "api_error"),
+        code: null,
+      },
+    });
+  }
+
+  return JSON.stringify(toOpenAIResponse(parsed));
+}
+
+/**
+ * Incremental translator from Anthropic Messages SSE to OpenAI chat completion SSE
+ * Feed raw upstream chunks to push() and write the returned text to the client.
+ */
+export class AnthropicStreamTranslator {
+  private buffer = "";
+  private finished = false;
+  private includeUsage: boolean;
+  private id = toCompletionId(undefined);
+  private model = "";
+  private created = Math.floor(Date.now() / 1000);
+  private toolIndexes = new Map<number, number>();
+  private inputTokens = 0;
+  private outputTokens = 0;
+
+  /**
+   * @param includeUsage - Emit a final usage chunk (OpenAI stream_options.include_usage)
+   */
+  constructor(includeUsage = false) {
+    this.includeUsage = includeUsage;
+  }
+
+  /**
+   * Process a chunk of upstream SSE text
+   * @returns OpenAI SSE text to send to the client (may be empty)
+   */
+  push(chunk: string): string {
+    this.buffer += chunk;
+    let output = "";
+
+    let newlineIndex: number;
+    while ((newlineIndex = this.buffer.indexOf("\n")) >= 0) {
+      const line = this.buffer.slice(0, newlineIndex).replace(/\r$/, "");
+      this.buffer = this.buffer.slice(newlineIndex + 1);
+      output += this.processLine(line);
+    }
+
+    return output;
+  }
+
+  /**
+   * Flush remaining state when the upstream stream ends
+   * @returns Final OpenAI SSE text (terminates with [DONE] if not already sent)
+   */
+  end(): string {
+    let output = "";
+    if (this.buffer) {
+      output += this.processLine(this.buffer.replace(/\r$/, ""));
+      this.buffer = "";
+    }
+    if (!this.finished) {
+      this.finished = true;
+      output += "data: [DONE]\n\n";
+    }
+    return output;
+  }
+
+  private processLine(line: string): string {
+    // Event type is repeated in the data payload, so only data lines matter
+    if (this.finished || !line.startsWith("data:")) return "";
+
+    let event: Record<string, unknown>;
+    try {
+      event = JSON.parse(line.slice(5).trim()) as Record<string, unknown>;
+    } catch {
+      return "";
+    }
+
+    switch (event.type) {
+      case "message_start": {
+        const message = (event.message ?? {}) as Record<string, unknown>;
+        this.id = toCompletionId(message.id);
+        this.model = String(message.model ?? "");
+        const usage = (message.usage ?? {}) as { input_tokens?: number; output_tokens?: number };
+        this.inputTokens = usage.input_tokens ?? 0;
+        this.outputTokens = usage.output_tokens ?? 0;
+        return this.chunk({ role: "assistant", content: "" });
+      }
+      case "content_block_start": {
+        const block = (event.content_block ?? {}) as ContentBlock;
+        if (block.type !== "tool_use") return "";
+        const toolIndex = this.toolIndexes.size;
+        this.toolIndexes.set(event.index as number, toolIndex);
+        return this.chunk({
+          tool_calls: [{ index: toolIndex, id: block.id, type: "function", function: { name: block.name, arguments: "" } }],
+        });
+      }
+      case "content_block_delta": {
+        const delta = (event.delta ?? {}) as Record<string, unknown>;
+        if (delta.type === "text_delta") {
+          return this.chunk({ content: delta.text });
+        }
+        if (delta.type === "thinking_delta") {
+          return this.chunk({ reasoning_content: delta.thinking });
+        }
+        if (delta.type === "input_json_delta") {
+          const toolIndex = this.toolIndexes.get(event.index as number);
+          if (toolIndex === undefined) return "";
+          return this.chunk({ tool_calls: [{ index: toolIndex, function: { arguments: delta.partial_json } }] });
+        }
+        return "";
+      }
+      case "message_delta": {
+        const delta = (event.delta ?? {}) as { stop_reason?: string | null };
+        const usage = (event.usage ?? {}) as { input_tokens?: number; output_tokens?: number };
+        this.inputTokens = usage.input_tokens ?? this.inputTokens;
+        this.outputTokens = usage.output_tokens ?? this.outputTokens;
+        return this.chunk({}, mapStopReason(delta.stop_reason));
+      }
+      case "message_stop": {
+        this.finished = true;
+        let output = "";
+        if (this.includeUsage) {
+          output += this.format({
+            choices: [],
+            usage: {
+              prompt_tokens: this.inputTokens,
+              completion_tokens: this.outputTokens,
+              total_tokens: this.inputTokens + this.outputTokens,
+            },
+          });
+        }
+        return output + "data: [DONE]\n\n";
+      }
+      case "error": {
+        this.finished = true;
+        const error = (event.error ?? {}) as { type?: string; message?: string };
+        return this.format({ error: { message: error.message ?? "Upstream stream error", type: error.type ?? "api_error", code: null } }) +
+          "data: [DONE]\n\n";
+      }
+      default:
+        return "";
+    }
+  }
+
+  private chunk(delta: Record<string, unknown>, finishReason: string | null = null): string {
+    return this.format({ choices: [{ index: 0, delta, finish_reason: finishReason }] });
+  }
+
+  private format(data: Record<string, unknown>): string {
+    return `data: ${JSON.stringify({ id: this.id, object: "chat.completion.chunk", created: this.created, model: this.model, ...data })}\n\n`;
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * Upstream connection pools
+ * Each upstream gets its own keep-alive agent, or one shared HTTP/2 session,
+ * so TLS handshakes are paid once per connection instead of once per request.
+ */
+
+import { Agent as HttpAgent } from "node:http";
+import { Agent as HttpsAgent } from "node:https";
+import { connect as http2Connect, type ClientHttp2Session } from "node:http2";
+import type { UpstreamConnection } from "../config/types.js";
+
+/** Connection settings used for fields an upstream doesn't configure */
+export const DEFAULT_CONNECTION: Required<UpstreamConnection> = {
+  maxSockets: 0,
+  keepAliveSeconds: 15,
+  http2: false,
+};
+
+/** Connection counters of one upstream, reported by the status endpoint */
+export interface PoolStats {
+  /** Requests that opened a new connection */
+  newConnections: number;
+  /** Requests sent over an already open connection */
+  reusedConnections: number;
+  /** Connections currently open, busy or idle */
+  openConnections: number;
+}
+
+/**
+ * Keep-alive agents and HTTP/2 sessions of all upstreams, created on first use
+ */
+export class ConnectionPools {
+  private agents = new Map<string, HttpAgent>();
+  private sessions = new Map<string, ClientHttp2Session>();
+  private counts = new Map<string, { newConnections: number; reusedConnections: number }>();
+  /** Sockets and sessions that already carried a request */
+  private used = new WeakSet<object>();
+
+  /**
+   * Get the keep-alive agent of an upstream
+   */
+  agent(name: string, url: URL, connection: Required<UpstreamConnection>): HttpAgent {
+    const key = `${name} ${url.protocol}`;
+    let agent = this.agents.get(key);
+    if (!agent) {
+      const options = {
+        keepAlive: true,
+        maxSockets: connection.maxSockets > 0 ? connection.maxSockets : Infinity,
+        // Idle sockets are closed after this long; busy sockets use the request timeouts
+        timeout: connection.keepAliveSeconds * 1000,
+        scheduling: "lifo" as const,
+      };
+      agent = url.protocol === "https:" ? new HttpsAgent(options) : new HttpAgent(options);
+      this.agents.set(key, agent);
+    }
+    return agent;
+  }
+
+  /**
+   * Get the HTTP/2 session of an upstream, connecting when there is none
+   */
+  http2Session(name: string, url: URL, connection: Required<UpstreamConnection>): ClientHttp2Session {
+    const key = `${name} ${url.origin}`;
+    const existing = this.sessions.get(key);
+    if (existing && !existing.closed && !existing.destroyed) {
+      return existing;
+    }
+
+    const session = http2Connect(url.origin);
+    this.sessions.set(key, session);
+    const forget = () => {
+      if (this.sessions.get(key) === session) this.sessions.delete(key);
+    };
+    // Errors reach the streams of the session; the session itself is just dropped
+    session.on("error", forget);
+    session.on("goaway", forget);
+    session.on("close", forget);
+    if (connection.keepAliveSeconds > 0) {
+      session.setTimeout(connection.keepAliveSeconds * 1000, () => session.close());
+    }
+    return session;
+  }
+
+  /**
+   * Count a request sent over a socket or HTTP/2 session
+   * @returns Whether the connection already carried an earlier request
+   */
+  record(name: string, connection: object): boolean {
+    const reused = this.used.has(connection);
+    this.used.add(connection);
+    let counts = this.counts.get(name);
+    if (!counts) {
+      counts = { newConnections: 0, reusedConnections: 0 };
+      this.counts.set(name, counts);
+    }
+    if (reused) {
+      counts.reusedConnections++;
+    } else {
+      counts.newConnections++;
+    }
+    return reused;
+  }
+
+  /**
+   * Connection counters of an upstream
+   */
+  stats(name: string): PoolStats {
+    let openConnections = 0;
+    for (const [key, agent] of this.agents) {
+      if (!key.startsWith(`${name} `)) continue;
+      for (const sockets of [...Object.values(agent.sockets), ...Object.values(agent.freeSockets)]) {
+        openConnections += sockets?.length ?? 0;
+      }
+    }
+    for (const [key, session] of this.sessions) {
+      if (key.startsWith(`${name} `) && !session.closed) openConnections++;
+    }
+    return { newConnections: 0, reusedConnections: 0, ...this.counts.get(name), openConnections };
+  }
+
+  /**
+   * Close all pooled connections
+   */
+  close(): void {
+    for (const agent of this.agents.values()) {
+      agent.destroy();
+    }
+    for (const session of this.sessions.values()) {
+      session.destroy();
+    }
+    this.agents.clear();
+    this.sessions.clear();
+  }
+}
@@ -0,0 +1,235 @@
+/**
+ * Upstream rate limits
+ * Token buckets for requests and input/output tokens per minute. Requests are
+ * taken from their bucket when sent; token buckets are charged afterwards with
+ * the usage the upstream reports, and refuse requests while they are in debt.
+ */
+
+import { StringDecoder } from "node:string_decoder";
+import type { UpstreamRateLimit } from "../config/types.js";
+
+/** Rate limit settings used for fields an upstream doesn't configure */
+export const DEFAULT_RATE_LIMIT: Required<UpstreamRateLimit> = {
+  requestsPerMinute: 0,
+  inputTokensPerMinute: 0,
+  outputTokensPerMinute: 0,
+  onLimit: "reject",
+  maxWaitSeconds: 30,
+};
+
+/** Bucket of an upstream's rate limit */
+export type RateLimitKind = "requests" | "inputTokens" | "outputTokens";
+
+/** Bucket that refused a request and how long until it admits one */
+export interface RateLimitWait {
+  limit: RateLimitKind;
+  waitMs: number;
+}
+
+/** Tokens an upstream reported for one response */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/** Largest JSON response body read for its usage */
+const MAX_METERED_BODY = 10 * 1024 * 1024;
+
+/**
+ * Bucket refilled evenly over a minute, starting full
+ * The level can go below zero when usage is charged after the fact.
+ */
+export class TokenBucket {
+  private level: number;
+  private updatedAt: number;
+
+  constructor(
+    private perMinute: number,
+    private now: () => number = Date.now
+  ) {
+    this.level = perMinute;
+    this.updatedAt = now();
+  }
+
+  /**
+   * Milliseconds until the bucket holds at least one unit
+   */
+  waitMs(): number {
+    this.refill();
+    return this.level >= 1 ? 0 : Math.ceil(((1 - this.level) * 60_000) / this.perMinute);
+  }
+
+  /**
+   * Remove units, going into debt if needed
+   */
+  take(amount: number): void {
+    this.refill();
+    this.level -= amount;
+  }
+
+  private refill(): void {
+    const now = this.now();
+    this.level = Math.min(this.perMinute, this.level + ((now - this.updatedAt) * this.perMinute) / 60_000);
+    this.updatedAt = now;
+  }
+}
+
+/**
+ * Rate limits of one upstream
+ */
+export class RateLimiter {
+  private buckets: Array<[RateLimitKind, TokenBucket]> = [];
+  private input?: TokenBucket;
+  private output?: TokenBucket;
+  private requests?: TokenBucket;
+
+  constructor(policy: Required<UpstreamRateLimit>, now: () => number = Date.now) {
+    if (policy.requestsPerMinute > 0) {
+      this.requests = new TokenBucket(policy.requestsPerMinute, now);
+      this.buckets.push(["requests", this.requests]);
+    }
+    if (policy.inputTokensPerMinute > 0) {
+      this.input = new TokenBucket(policy.inputTokensPerMinute, now);
+      this.buckets.push(["inputTokens", this.input]);
+    }
+    if (policy.outputTokensPerMinute > 0) {
+      this.output = new TokenBucket(policy.outputTokensPerMinute, now);
+      this.buckets.push(["outputTokens", this.output]);
+    }
+  }
+
+  /** Whether responses have to be metered for their token usage */
+  get metersUsage(): boolean {
+    return this.input !== undefined || this.output !== undefined;
+  }
+
+  /**
+   * Ask to send one request
+   * @returns null when the request was admitted (and taken from the request bucket),
+   *   otherwise the bucket with the longest wait
+   */
+  acquire(): RateLimitWait | null {
+    let longest: RateLimitWait | null = null;
+    for (const [limit, bucket] of this.buckets) {
+      const waitMs = bucket.waitMs();
+      if (waitMs > 0 && (!longest || waitMs > longest.waitMs)) {
+        longest = { limit, waitMs };
+      }
+    }
+    if (!longest) {
+      this.requests?.take(1);
+    }
+    return longest;
+  }
+
+  /**
+   * Charge the tokens of a finished response
+   */
+  record(usage: TokenUsage): void {
+    this.input?.take(usage.inputTokens);
+    this.output?.take(usage.outputTokens);
+  }
+}
+
+/**
+ * Rate limiters of all upstreams, created on first use
+ * Limiters are keyed by upstream name, so project sessions share the global buckets.
+ */
+export class RateLimiterRegistry {
+  private limiters = new Map<string, RateLimiter>();
+
+  constructor(private now: () => number = Date.now) {}
+
+  /**
+   * Get the rate limiter of an upstream
+   */
+  get(name: string, policy?: UpstreamRateLimit): RateLimiter {
+    let limiter = this.limiters.get(name);
+    if (!limiter) {
+      limiter = new RateLimiter({ ...DEFAULT_RATE_LIMIT, ...policy }, this.now);
+      this.limiters.set(name, limiter);
+    }
+    return limiter;
+  }
+}
+
+/**
+ * Read token usage from a usage object
+ * Anthropic usage counts cache reads and writes separately from input_tokens;
+ * all of them count toward input. OpenAI usage has prompt and completion tokens.
+ */
+function readUsage(usage: unknown, into: TokenUsage): void {
+  if (!usage || typeof usage !== "object") return;
+  const fields = usage as Record<string, unknown>;
+  const count = (...names: string[]) => names.reduce((sum, name) => sum + (typeof fields[name] === "number" ? (fields[name] as number) : 0), 0);
+
+  const input = count("input_tokens", "cache_creation_input_tokens", "cache_read_input_tokens", "prompt_tokens");
+  const output = count("output_tokens", "completion_tokens");
+  // Stream events report running totals
+  into.inputTokens = Math.max(into.inputTokens, input);
+  into.outputTokens = Math.max(into.outputTokens, output);
+}
+
+/**
+ * Collects the token usage of a response as it passes through
+ * Event streams are read event by event (message_start, message_delta and OpenAI usage
+ * chunks); JSON bodies are read once complete.
+ */
+export class UsageMeter {
+  private usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+  private decoder = new StringDecoder("utf8");
+  private pending = "";
+  private size = 0;
+
+  constructor(private eventStream: boolean) {}
+
+  /**
+   * Read the next chunk of the response body
+   */
+  push(chunk: Buffer): void {
+    if (!this.eventStream) {
+      this.size += chunk.length;
+      if (this.size <= MAX_METERED_BODY) {
+        this.pending += this.decoder.write(chunk);
+      }
+      return;
+    }
+
+    this.pending += this.decoder.write(chunk);
+    const lines = this.pending.split("\n");
+    this.pending = lines.pop() ?? "";
+    for (const line of lines) {
+      this.readEvent(line);
+    }
+  }
+
+  /**
+   * Finish reading and return the usage found
+   */
+  end(): TokenUsage {
+    this.pending += this.decoder.end();
+    if (!this.eventStream) {
+      if (this.size <= MAX_METERED_BODY) {
+        try {
+          readUsage((JSON.parse(this.pending) as { usage?: unknown }).usage, this.usage);
+        } catch {
+          // Not JSON: no usage
+        }
+      }
+    } else {
+      this.readEvent(this.pending);
+    }
+    this.pending = "";
+    return this.usage;
+  }
+
+  private readEvent(line: string): void {
+    if (!line.startsWith("data:") || !line.includes('"usage"')) return;
+    try {
+      const event = JSON.parse(line.slice(5)) as { type?: string; usage?: unknown; message?: { usage?: unknown } };
+      readUsage(event.type === "message_start" ? event.message?.usage : event.usage, this.usage);
+    } catch {
+      // Malformed event: skip
+    }
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * Upstream retries
+ * Decides whether a failed upstream attempt is retried and how long to wait first.
+ */
+
+import type { UpstreamRetry } from "../config/types.js";
+
+/** Retry settings used for fields an upstream doesn't configure */
+export const DEFAULT_RETRY: Required<UpstreamRetry> = {
+  maxRetries: 0,
+  budgetSeconds: 30,
+  baseDelaySeconds: 0.5,
+  maxDelaySeconds: 8,
+};
+
+/** Retries of the built-in anthropic and zai upstreams */
+export const BUILTIN_MAX_RETRIES = 2;
+
+/** Statuses of transient upstream failures (429 is retried only with retry-after) */
+const RETRYABLE_STATUSES = new Set([502, 503, 504, 529]);
+
+/** Connection errors worth another attempt */
+const RETRYABLE_ERROR_CODES = new Set(["ECONNRESET", "ECONNREFUSED", "EPIPE", "EAI_AGAIN"]);
+
+/**
+ * Parse a retry-after header (seconds or HTTP date)
+ * @returns Milliseconds to wait, or undefined when absent or malformed
+ */
+export function parseRetryAfter(value: string | string[] | undefined, now: number = Date.now()): number | undefined {
+  const header = Array.isArray(value) ? value[0] : value;
+  if (!header) return undefined;
+
+  const trimmed = header.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Math.round(Number(trimmed) * 1000);
+  }
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Check whether an upstream response status is a transient failure
+ * Rate limits only count when the upstream says when to come back:
+ * a 429 without retry-after is often a quota or billing limit.
+ */
+export function isRetryableStatus(status: number, retryAfterMs: number | undefined): boolean {
+  return RETRYABLE_STATUSES.has(status) || (status === 429 && retryAfterMs !== undefined);
+}
+
+/**
+ * Check whether a request error is a transient connection failure
+ * Timeouts are retried only while connecting; a slow response is not retried.
+ */
+export function isRetryableError(err: { code?: string; phase?: string }): boolean {
+  if (err.code === "ETIMEDOUT") {
+    return err.phase === undefined || err.phase === "connect";
+  }
+  return err.code !== undefined && RETRYABLE_ERROR_CODES.has(err.code);
+}
+
+/**
+ * Delay before a retry: exponential backoff with jitter, at least retry-after
+ * @param retry - Retry number (1 = first retry)
+ * @param policy - Retry settings
+ * @param retryAfterMs - Wait requested by the upstream
+ * @param random - Random source in [0, 1)
+ * @returns Milliseconds to wait
+ */
+export function retryDelay(
+  retry: number,
+  policy: Required<UpstreamRetry>,
+  retryAfterMs?: number,
+  random: () => number = Math.random
+): number {
+  const backoff = Math.min(policy.maxDelaySeconds, policy.baseDelaySeconds * 2 ** (retry - 1)) * 1000;
+  // Half fixed, half random, so concurrent clients spread out without retrying immediately
+  const jittered = Math.round(backoff / 2 + random() * (backoff / 2));
+  return Math.max(jittered, retryAfterMs ?? 0);
+}
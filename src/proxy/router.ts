@@ -3,64 +3,267 @@
  * Routes requests to upstream based on config routing rules
  */
 
-import type { Config } from "../config/types.js";
-import type { Route } from "./types.js";
+import { createHash } from "node:crypto";
+import type { Config, RoutingCondition, RoutingRule, RoutingSplitTarget } from "../config/types.js";
+import { defaultAuthMode } from "../config/loader.js";
+import type { Route, RoutingRequest } from "./types.js";
+import { estimateInputTokens } from "./tokens.js";
+import { ZAI_CAPABILITIES } from "./capabilities.js";
+import { BUILTIN_MAX_RETRIES } from "./retry.js";
+import { compileMatcher, globToRegExp } from "../utils/pattern.js";
 import type { ChildLogger } from "../utils/logger.js";
 
-// Valid upstream names
-const VALID_UPSTREAMS = new Set(["anthropic", "zai"]);
+/** Request predicate compiled from a routing condition */
+type ConditionMatcher = (features: RequestFeatures) => boolean;
+
+/** Compiled predicates of a rule: model patterns and request condition */
+interface RuleMatcher {
+  model: (model: string) => boolean;
+  when?: ConditionMatcher;
+}
+
+/** Compiled predicates per rule (rules are immutable once loaded) */
+const ruleMatchers = new WeakMap<RoutingRule, RuleMatcher>();
+
+/**
+ * Get the compiled predicates of a rule
+ * Throws on invalid patterns or regular expressions
+ */
+function ruleMatcher(rule: RoutingRule): RuleMatcher {
+  let matcher = ruleMatchers.get(rule);
+  if (!matcher) {
+    matcher = {
+      model: compileMatcher(rule.match),
+      ...(rule.when ? { when: compileCondition(rule.when) } : {}),
+    };
+    ruleMatchers.set(rule, matcher);
+  }
+  return matcher;
+}
+
+/**
+ * Validate upstream name against the configured upstreams
+ */
+export function isValidUpstream(name: string, config: Config): boolean {
+  return Object.prototype.hasOwnProperty.call(config.upstream, name);
+}
+
+/**
+ * Resolve an upstream name to a route target
+ * Unset flags fall back to the behavior of the built-in upstream of the same name:
+ * - anthropic: OAuth pass-through, request sanitization, retries
+ * - zai: x-api-key auth, response transformation, foreign request sanitization,
+ *   built-in capability profile, count_tokens emulation, retries
+ * Custom upstreams default to pass-through with no transformation
+ * (openai upstreams emulate count_tokens).
+ */
+export function resolveUpstream(name: string, config: Config, model?: string): Route {
+  const upstream = config.upstream[name];
+  const type = upstream.type ?? "anthropic";
+  const auth = upstream.auth ?? defaultAuthMode(name, type, upstream.apiKey !== undefined);
+  const capabilities = upstream.capabilities ?? (name === "zai" ? ZAI_CAPABILITIES : undefined);
+
+  return {
+    name,
+    url: upstream.url,
+    ...(auth !== "oauth" ? { apiKey: upstream.apiKey } : {}),
+    model,
+    type,
+    auth,
+    ...(auth === "header" ? { authHeader: upstream.authHeader, authTemplate: upstream.authTemplate } : {}),
+    sanitizeRequest: upstream.sanitizeRequest ?? name === "anthropic",
+    transformResponse: upstream.transformResponse ?? name === "zai",
+    sanitizeForeignRequest: upstream.sanitizeForeignRequest ?? name === "zai",
+    emulateCountTokens: upstream.emulateCountTokens ?? (name === "zai" || type === "openai"),
+    ...(upstream.foreignReasoning
+      ? {
+          foreignReasoning:
+            typeof upstream.foreignReasoning === "string" ? { mode: upstream.foreignReasoning } : upstream.foreignReasoning,
+        }
+      : {}),
+    ...(capabilities ? { capabilities } : {}),
+    ...(upstream.timeouts ? { timeouts: upstream.timeouts } : {}),
+    ...(upstream.circuitBreaker ? { circuitBreaker: upstream.circuitBreaker } : {}),
+    ...(upstream.connection ? { connection: upstream.connection } : {}),
+    ...(upstream.concurrency ? { concurrency: upstream.concurrency } : {}),
+    ...(upstream.rateLimit ? { rateLimit: upstream.rateLimit } : {}),
+    retry: {
+      ...upstream.retry,
+      maxRetries: upstream.retry?.maxRetries ?? (name === "anthropic" || name === "zai" ? BUILTIN_MAX_RETRIES : 0),
+    },
+  };
+}
+
+/** Request attributes derived lazily while evaluating conditions */
+interface RequestFeatures {
+  request: RoutingRequest;
+  inputTokens?: number;
+}
 
 /**
- * Convert a glob-style pattern to a RegExp
- * Only supports `*` as wildcard (matches any characters)
+ * Check whether a content array contains a block of the given type
+ * Looks into tool_result content as well
  */
-function globToRegExp(pattern: string): RegExp {
-  const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, "\\$&");
-  const regexStr = "^" + escaped.replace(/\*/g, ".*") + "$";
-  return new RegExp(regexStr);
+function containsBlockType(content: unknown, type: string): boolean {
+  if (!Array.isArray(content)) return false;
+  return content.some((block) => {
+    if (!block || typeof block !== "object") return false;
+    const b = block as Record<string, unknown>;
+    return b.type === type || (b.type === "tool_result" && containsBlockType(b.content, type));
+  });
 }
 
 /**
- * Validate upstream name
+ * Extract the system prompt text (string or text block array)
  */
-export function isValidUpstream(name: string): boolean {
-  return VALID_UPSTREAMS.has(name);
+function systemPromptText(system: unknown): string {
+  if (typeof system === "string") return system;
+  if (!Array.isArray(system)) return "";
+  return system
+    .map((block) => (block && typeof block === "object" && typeof block.text === "string" ? block.text : ""))
+    .join("\n");
+}
+
+/**
+ * Compile a routing condition into a request predicate
+ * All fields set on the condition must hold. Globs and the system regex are
+ * compiled here once, so invalid ones throw before any request is matched.
+ */
+function compileCondition(condition: RoutingCondition): ConditionMatcher {
+  const all = condition.all?.map(compileCondition);
+  const any = condition.any?.map(compileCondition);
+  const path = condition.path !== undefined ? globToRegExp(condition.path) : undefined;
+  const headers = condition.headers
+    ? Object.entries(condition.headers).map(([name, pattern]) => [name.toLowerCase(), globToRegExp(pattern)] as const)
+    : undefined;
+  const system = condition.system !== undefined ? new RegExp(condition.system) : undefined;
+
+  return (features) => {
+    const { request } = features;
+    const body = request.body ?? {};
+
+    if (all && !all.every((matches) => matches(features))) {
+      return false;
+    }
+    if (any && !any.some((matches) => matches(features))) {
+      return false;
+    }
+    if (path && !path.test(request.path.split("?")[0])) {
+      return false;
+    }
+    if (headers) {
+      for (const [name, pattern] of headers) {
+        const value = request.headers[name];
+        if (value === undefined) return false;
+        const joined = Array.isArray(value) ? value.join(",") : value;
+        if (!pattern.test(joined)) return false;
+      }
+    }
+    if (condition.hasTools !== undefined) {
+      const hasTools = Array.isArray(body.tools) && body.tools.length > 0;
+      if (hasTools !== condition.hasTools) return false;
+    }
+    if (condition.hasImages !== undefined) {
+      const messages = Array.isArray(body.messages) ? body.messages : [];
+      const hasImages = messages.some((msg) => containsBlockType((msg as { content?: unknown })?.content, "image"));
+      if (hasImages !== condition.hasImages) return false;
+    }
+    if (condition.hasThinking !== undefined) {
+      const thinking = body.thinking as { type?: string } | undefined;
+      const hasThinking = !!thinking && typeof thinking === "object" && thinking.type !== "disabled";
+      if (hasThinking !== condition.hasThinking) return false;
+    }
+    if (condition.minInputTokens !== undefined || condition.maxInputTokens !== undefined) {
+      features.inputTokens ??= estimateInputTokens(body);
+      if (condition.minInputTokens !== undefined && features.inputTokens < condition.minInputTokens) return false;
+      if (condition.maxInputTokens !== undefined && features.inputTokens > condition.maxInputTokens) return false;
+    }
+    if (system && !system.test(systemPromptText(body.system))) {
+      return false;
+    }
+
+    return true;
+  };
+}
+
+/**
+ * Collect the top-level body fields a condition reads
+ * @returns False when the condition needs the messages (images, token estimates)
+ */
+function collectConditionFields(condition: RoutingCondition, fields: Set<string>): boolean {
+  if (condition.hasImages !== undefined || condition.minInputTokens !== undefined || condition.maxInputTokens !== undefined) {
+    return false;
+  }
+  if (condition.hasTools !== undefined) fields.add("tools");
+  if (condition.hasThinking !== undefined) fields.add("thinking");
+  if (condition.system !== undefined) fields.add("system");
+  const nested = [...(condition.all ?? []), ...(condition.any ?? [])];
+  return nested.every((c) => collectConditionFields(c, fields));
+}
+
+/**
+ * Top-level request body fields that routing reads besides the model
+ * Lets the proxy route a request after scanning just these fields.
+ * @returns The field names, or null when routing needs the whole body
+ *   (image and token conditions, and split rules keyed by the first message)
+ */
+export function routingBodyFields(config: Config): string[] | null {
+  const fields = new Set<string>();
+  for (const rule of config.routing.rules) {
+    if (rule.split) return null;
+    if (rule.when && !collectConditionFields(rule.when, fields)) return null;
+  }
+  return [...fields];
 }
 
 /**
  * Select upstream route based on model name and config routing rules
  * Rules are evaluated top-to-bottom, first match wins
  *
- * If model is undefined, only rules with match="*" will be applied.
+ * If model is undefined, only rules whose patterns match an empty string
+ * (e.g. "*" or "!claude-*") will be applied.
  * Otherwise, falls back to default upstream.
+ *
+ * Rule conditions (`when`) are evaluated against the request,
+ * or against an empty request when none is given.
  */
-export function selectRoute(model: string | undefined, config: Config, logger?: ChildLogger): Route {
+export function selectRoute(
+  model: string | undefined,
+  config: Config,
+  logger?: ChildLogger,
+  request?: RoutingRequest
+): Route {
   const modelToMatch = model ?? "";
+  const features: RequestFeatures = { request: request ?? { path: "", headers: {}, body: null } };
 
   for (const rule of config.routing.rules) {
-    // Validate upstream name at runtime
-    if (!isValidUpstream(rule.upstream)) {
-      logger?.warn(`Invalid upstream name in routing rule: ${rule.upstream}`);
+    // Validate upstream names at runtime
+    const upstreams = rule.split ? rule.split.map((arm) => arm.upstream) : [rule.upstream];
+    const invalid = upstreams.findIndex((name) => name === undefined || !isValidUpstream(name, config));
+    if (invalid !== -1 || upstreams.length === 0) {
+      logger?.warn(`Invalid upstream name in routing rule: ${upstreams[invalid]}`);
       continue;
     }
 
-    // Try to match the pattern against the model (or empty string for model-less requests)
-    if (globToRegExp(rule.match).test(modelToMatch)) {
-      if (rule.upstream === "anthropic") {
-        return {
-          name: "anthropic",
-          url: config.upstream.anthropic.url,
-          model: rule.model,
-        };
-      } else {
-        // zai
-        return {
-          name: "zai",
-          url: config.upstream.zai.url,
-          apiKey: config.upstream.zai.apiKey,
-          model: rule.model,
-        };
+    let matcher: RuleMatcher;
+    try {
+      matcher = ruleMatcher(rule);
+    } catch (err) {
+      logger?.warn(`Invalid pattern in routing rule: ${(err as Error).message}`);
+      continue;
+    }
+
+    // Try to match the patterns against the model (or empty string for model-less requests)
+    if (matcher.model(modelToMatch) && (!matcher.when || matcher.when(features))) {
+      let route = rule.split
+        ? resolveSplit(rule.split, config, features)
+        : resolveUpstream(rule.upstream as string, config, rule.model);
+      let fallbacks = resolveFallbacks(rule, config, logger);
+      if (rule.restoreModel ?? config.routing.restoreModel) {
+        route = { ...route, restoreModel: true };
+        fallbacks = fallbacks.map((fallback) => ({ ...fallback, restoreModel: true }));
       }
+      return fallbacks.length > 0 ? { ...route, fallbacks } : route;
     }
   }
 
@@ -68,26 +271,71 @@ export function selectRoute(model: string | undefined, config: Config, logger?:
   const defaultName = config.routing.default;
 
   // Validate default upstream name
-  if (!isValidUpstream(defaultName)) {
+  if (!isValidUpstream(defaultName, config)) {
     logger?.warn(`Invalid default upstream name: ${defaultName}, falling back to anthropic`);
-    return {
-      name: "anthropic",
-      url: config.upstream.anthropic.url,
-    };
+    return resolveUpstream("anthropic", config);
   }
 
-  if (defaultName === "anthropic") {
-    return {
-      name: "anthropic",
-      url: config.upstream.anthropic.url,
-    };
-  } else {
-    return {
-      name: "zai",
-      url: config.upstream.zai.url,
-      apiKey: config.upstream.zai.apiKey,
-    };
+  return resolveUpstream(defaultName, config);
+}
+
+/**
+ * Conversation key for sticky split assignment
+ * Claude Code's metadata.user_id includes the session ID; other clients are
+ * identified by the first message, which stays the same for the whole conversation.
+ */
+function stickyKey(body: Record<string, unknown>): string | undefined {
+  const userId = (body.metadata as { user_id?: unknown } | undefined)?.user_id;
+  if (typeof userId === "string" && userId) {
+    return userId;
+  }
+  if (Array.isArray(body.messages) && body.messages.length > 0) {
+    return JSON.stringify(body.messages[0]);
+  }
+  return undefined;
+}
+
+/**
+ * Pick a weighted split arm and resolve it
+ * The arm is a pure function of the conversation key, so every turn of a
+ * conversation lands on the same arm; requests without a key are assigned randomly.
+ */
+function resolveSplit(arms: RoutingSplitTarget[], config: Config, features: RequestFeatures): Route {
+  const total = arms.reduce((sum, arm) => sum + arm.weight, 0);
+  const key = stickyKey(features.request.body ?? {});
+  const fraction = key !== undefined
+    ? createHash("sha256").update(key).digest().readUInt32BE(0) / 0x100000000
+    : Math.random();
+  const point = fraction * total;
+
+  let chosen = arms[arms.length - 1];
+  let upper = 0;
+  for (const arm of arms) {
+    upper += arm.weight;
+    if (point < upper) {
+      chosen = arm;
+      break;
+    }
+  }
+
+  const label = chosen.name ?? (chosen.model ? `${chosen.upstream}:${chosen.model}` : chosen.upstream);
+  return { ...resolveUpstream(chosen.upstream, config, chosen.model), arm: label };
+}
+
+/**
+ * Resolve the fallback chain of a routing rule
+ * Targets without a model keep the client's original model
+ */
+function resolveFallbacks(rule: RoutingRule, config: Config, logger?: ChildLogger): Route[] {
+  const fallbacks: Route[] = [];
+  for (const target of rule.fallback ?? []) {
+    if (!isValidUpstream(target.upstream, config)) {
+      logger?.warn(`Invalid upstream name in routing fallback: ${target.upstream}`);
+      continue;
+    }
+    fallbacks.push(resolveUpstream(target.upstream, config, target.model));
   }
+  return fallbacks;
 }
 
 /**
@@ -3,17 +3,40 @@
  * Routes requests to Anthropic API or z.ai based on model name
  */
 
-import { createServer, type IncomingMessage, type ServerResponse, type Server } from "node:http";
+import { createServer, type ClientRequest, type IncomingMessage, type ServerResponse, type Server } from "node:http";
 import { request as httpsRequest } from "node:https";
 import { request as httpRequest } from "node:http";
+import type { ClientHttp2Stream } from "node:http2";
+import type { Readable } from "node:stream";
 import { join } from "node:path";
-import type { Config } from "../config/types.js";
+import type { Config, UpstreamConnection, UpstreamTimeouts } from "../config/types.js";
 import type { Route } from "./types.js";
-import { selectRoute, parseRequestBody, parseRequestBodyAsObject } from "./router.js";
+import { selectRoute, parseRequestBodyAsObject, routingBodyFields } from "./router.js";
 import { loadConfig } from "../config/loader.js";
-import { transformThinkingBlocks, shouldTransformResponse, shouldTransformRequest, extractAndRecordSignatures, sanitizeContentBlocksWithStore } from "./transform.js";
+import { applyCapabilities, applyBetaCapabilities } from "./capabilities.js";
+import { transformThinkingBlocks, shouldTransformResponse, ThinkingStreamTransformer, SignatureStreamRecorder, ModelRestoreStream, restoreResponseModel, shouldTransformRequest, shouldSanitizeForeignRequest, sanitizeForeignContentBlocks, extractAndRecordSignatures, sanitizeContentBlocksWithStore } from "./transform.js";
 import { SignatureStore } from "./signature-store.js";
-import { Logger } from "../utils/logger.js";
+import { estimateInputTokens } from "./tokens.js";
+import { BODY_TOO_LARGE, JsonFieldScanner, StreamedBody, readBody } from "./body.js";
+import { CircuitBreakerRegistry, type AttemptOutcome, type CircuitBreaker, type CircuitPermit, type CircuitStatus } from "./circuit-breaker.js";
+import { ConnectionPools, DEFAULT_CONNECTION, type PoolStats } from "./pool.js";
+import { ConcurrencyLimiterRegistry, type ConcurrencyStats } from "./concurrency.js";
+import { DEFAULT_RATE_LIMIT, RateLimiterRegistry, UsageMeter, type RateLimiter, type RateLimitKind, type RateLimitWait } from "./rate-limit.js";
+import { DEFAULT_DRAIN_SECONDS, RequestDrain, STATUS_ENDPOINT, type DrainStatus } from "./drain.js";
+import { DEFAULT_RETRY, isRetryableError, isRetryableStatus, parseRetryAfter, retryDelay } from "./retry.js";
+import { anthropicError, normalizeErrorBody, type AnthropicErrorType } from "./errors.js";
+import { applyAuth } from "./auth.js";
+import { SessionRegistry, SESSIONS_ENDPOINT, parseSessionPath, sessionPathPrefix } from "./sessions.js";
+import {
+  toOpenAIRequest,
+  fromOpenAIResponse,
+  fromOpenAIError,
+  fromOpenAIRequest,
+  toOpenAIResponseBody,
+  OpenAIStreamTranslator,
+  AnthropicStreamTranslator,
+} from "./openai.js";
+import { Logger, type ChildLogger } from "../utils/logger.js";
 
 /**
  * Hop-by-hop headers that should not be forwarded per RFC 7230
@@ -43,10 +66,25 @@ const SECURITY_HEADERS_TO_REMOVE = new Set([
   "forwarded",
 ]);
 
+/** Rate limit buckets as named in error messages */
+const RATE_LIMIT_NAMES: Record<RateLimitKind, string> = {
+  requests: "request",
+  inputTokens: "input token",
+  outputTokens: "output token",
+};
+
+/** Header Claude Code sends with the ID of its session */
+const CLIENT_SESSION_HEADER = "x-claude-code-session-id";
+
+/**
+ * Maximum request body size in MB when proxy.maxBodyMB is not set
+ */
+const DEFAULT_MAX_BODY_MB = 10;
+
 /**
- * Maximum request body size (10MB)
+ * Maximum body size of session registrations (10MB)
  */
-const MAX_BODY_SIZE = 10 * 1024 * 1024;
+const MAX_SESSION_BODY_SIZE = 10 * 1024 * 1024;
 
 /**
  * Maximum transform response size (50MB) to prevent memory DoS
@@ -54,38 +92,165 @@ const MAX_BODY_SIZE = 10 * 1024 * 1024;
 const MAX_TRANSFORM_SIZE = 50 * 1024 * 1024;
 
 /**
- * Upstream request timeout (30 seconds)
+ * Upstream timeouts used when the upstream doesn't configure them (seconds, 0 = disabled)
  */
-const UPSTREAM_TIMEOUT_MS = 30_000;
+const DEFAULT_TIMEOUTS: Required<UpstreamTimeouts> = {
+  connectSeconds: 10,
+  firstByteSeconds: 30,
+  idleSeconds: 30,
+  totalSeconds: 0,
+};
 
 /**
  * Maximum body excerpt length for error logging
  */
 const MAX_BODY_EXCERPT = 500;
 
+/**
+ * anthropic-version header sent for inbound OpenAI requests, which don't carry one
+ */
+const DEFAULT_ANTHROPIC_VERSION = "2023-06-01";
+
+/** Response header carrying the upstream model when the client's model is reported instead */
+const UPSTREAM_MODEL_HEADER = "x-cc-glm-upstream-model";
+
+/** Upstream response: an IncomingMessage, or an HTTP/2 stream carrying the response status and headers */
+type UpstreamResponse = Readable & Pick<IncomingMessage, "statusCode" | "headers">;
+
+/** Incremental SSE translator (see openai.ts) */
+interface StreamTranslator {
+  push(chunk: string): string;
+  end(): string;
+}
+
+/** Proxy server that can finish its in-flight requests before shutting down */
+export type ProxyServer = Server & {
+  /**
+   * Refuse new requests and wait for in-flight ones, then close the server
+   * Status queries are answered until the server closes. Requests still running
+   * at the deadline are cut off.
+   * @returns true when every request finished before the deadline
+   */
+  drain(deadlineSeconds: number): Promise<boolean>;
+};
+
 /** Create and start the proxy server */
-export function createProxyServer(config: Config, logger: Logger): Server {
+export function createProxyServer(config: Config, logger: Logger): ProxyServer {
   // Create signature store with configured max size
   const maxSize = config.signatureStore?.maxSize;
   const signatureStore = new SignatureStore(maxSize);
+  const sessions = new SessionRegistry(config);
   const log = logger.child({ component: "proxy" });
+  const breakers = new CircuitBreakerRegistry(log);
+  const pools = new ConnectionPools();
+  const limiters = new ConcurrencyLimiterRegistry();
+  const rateLimiters = new RateLimiterRegistry();
   log.info(`Signature store initialized`, { upstream: `maxSize=${maxSize ?? 1000}` });
 
+  const requests = new RequestDrain();
+
   const server = createServer(async (req, res) => {
-    await handleRequest(req, res, config, signatureStore, logger);
+    // Status queries are answered while draining and don't hold the drain up
+    const reqUrl = req.url ?? "/";
+    if (reqUrl.split("?")[0] !== STATUS_ENDPOINT) {
+      if (requests.isDraining) {
+        res.setHeader("connection", "close");
+        sendError(res, 503, "overloaded_error", "cc-glm proxy is shutting down", isChatCompletionsPath(reqUrl));
+        return;
+      }
+      requests.track(res);
+    }
+    await handleRequest(req, res, config, signatureStore, sessions, breakers, pools, limiters, rateLimiters, requests, logger);
   });
+  server.on("close", () => pools.close());
+
+  const drain = async (deadlineSeconds: number): Promise<boolean> => {
+    if (requests.isDraining) {
+      return requests.drain(deadlineSeconds);
+    }
+    const { inFlight } = requests.status();
+    log.info(`draining: ${inFlight} requests in flight, deadline ${deadlineSeconds}s`, { inFlight });
+
+    const finished = await requests.drain(deadlineSeconds);
+    if (finished) {
+      log.info("drained: all requests finished");
+    } else {
+      const { inFlight: cutOff } = requests.status();
+      log.warn(`drain deadline reached: closing ${cutOff} requests`, { inFlight: cutOff });
+    }
+    server.close();
+    server.closeAllConnections();
+    return finished;
+  };
 
   const { port, host } = config.proxy;
   server.listen(port, host, () => {
     log.info(`Claude Router Proxy on :${port}`);
-    log.info(`anthropic -> ${config.upstream.anthropic.url}`);
-    log.info(`zai       -> ${config.upstream.zai.url}`);
+    for (const [name, upstream] of Object.entries(config.upstream)) {
+      log.info(`${name.padEnd(9)} -> ${upstream.url}`);
+    }
     if (config.routing.rules.length > 0) {
       log.info(`routing rules: ${config.routing.rules.length}, default: ${config.routing.default}`);
     }
   });
 
-  return server;
+  return Object.assign(server, { drain });
+}
+
+/** Per-request state shared by the forwarding helpers */
+interface RequestContext {
+  req: IncomingMessage;
+  res: ServerResponse;
+  reqLog: ChildLogger;
+  startTime: number;
+  signatureStore: SignatureStore;
+  pools: ConnectionPools;
+  method: string;
+  reqUrl: string;
+  /** Model requested by the client ("no-model" when absent) */
+  model: string;
+  /** Name of the upstream currently being tried */
+  upstream?: string;
+  /** Client session the request belongs to, for fair queueing ("" when unknown) */
+  clientSession: string;
+  /** Inbound request uses the OpenAI chat completions format */
+  isOpenAIClient: boolean;
+  /** OpenAI client asked for usage in the final stream chunk */
+  includeUsage: boolean;
+  isAborted: boolean;
+  /** In-flight upstream request, destroyed when the client aborts */
+  proxyReq: ClientRequest | ClientHttp2Stream | null;
+  /** Connection that carried the upstream response, for the response log */
+  connection?: { connection: "new" | "reused"; ttfbMs: number };
+  /** Pause (or resume) the idle timeout of the upstream response */
+  pauseIdleTimeout?: (paused: boolean) => void;
+  /** Event stream sent to the client stopped in the middle of an event */
+  partialEvent?: boolean;
+  /** Detach the client abort handlers */
+  release: () => void;
+}
+
+/** Upstream request prepared for one route target */
+interface PreparedRequest {
+  url: URL;
+  headers: Record<string, string | string[]>;
+  /** Rewritten or buffered body, or the client body forwarded as it arrives */
+  body: Buffer | StreamedBody;
+}
+
+/** Phase of an upstream exchange a timeout applies to */
+type TimeoutPhase = "connect" | "firstByte" | "idle" | "total";
+
+/** Upstream error; timeouts have code ETIMEDOUT and the phase that expired */
+interface UpstreamError extends NodeJS.ErrnoException {
+  phase?: TimeoutPhase;
+}
+
+/** Request the route target cannot serve */
+interface RejectedRequest {
+  status: number;
+  type: AnthropicErrorType;
+  message: string;
 }
 
 /** Handle incoming HTTP request */
@@ -94,283 +259,1146 @@ async function handleRequest(
   res: ServerResponse,
   config: Config,
   signatureStore: SignatureStore,
+  sessions: SessionRegistry,
+  breakers: CircuitBreakerRegistry,
+  pools: ConnectionPools,
+  limiters: ConcurrencyLimiterRegistry,
+  rateLimiters: RateLimiterRegistry,
+  requests: RequestDrain,
   logger: Logger,
 ): Promise<void> {
   const reqId = Date.now().toString(36);
   const startTime = Date.now();
-  const reqLog = logger.child({ component: "proxy", reqId });
+  let reqLog = logger.child({ component: "proxy", reqId });
   let requestBody: Buffer | null = null;
-  let proxyReq: ReturnType<typeof httpsRequest | typeof httpRequest> | null = null;
-  let isAborted = false;
 
-  // Declare context variables early so error handlers can reference them via closure
-  let method: string | undefined;
-  let reqUrl: string | undefined;
-  let model: string | undefined;
-  let targetName: string | undefined;
+  // Session management endpoints used by the launcher
+  const rawUrl = req.url ?? "/";
+  if (rawUrl === SESSIONS_ENDPOINT || rawUrl.startsWith(SESSIONS_ENDPOINT + "/")) {
+    await handleSessionRequest(req, res, sessions, reqLog);
+    return;
+  }
+
+  // Upstream health for launchers and operators
+  if (rawUrl.split("?")[0] === STATUS_ENDPOINT) {
+    handleStatusRequest(req, res, config, breakers, pools, limiters, requests.status());
+    return;
+  }
+
+  // Requests under a session prefix are routed with the project's rules
+  let routingConfig = config;
+  let reqUrl = rawUrl;
+  const sessionPath = parseSessionPath(rawUrl);
+  if (sessionPath) {
+    const session = sessions.get(sessionPath.sessionId);
+    if (!session) {
+      // Never fall back to the global rules: the project may forbid some upstreams
+      reqLog.warn(`Unknown session: ${sessionPath.sessionId}`, { method: req.method, path: rawUrl, status: 404 });
+      sendError(res, 404, "not_found_error", `Unknown cc-glm session ${sessionPath.sessionId}. Restart cc-glm to register the project again.`);
+      return;
+    }
+    routingConfig = session.config;
+    reqUrl = sessionPath.path;
+    reqLog = reqLog.child({ session: session.id });
+  }
+
+  // Concurrency queues take turns between Claude Code sessions
+  const sessionHeader = req.headers[CLIENT_SESSION_HEADER];
+  const clientSession = Array.isArray(sessionHeader) ? sessionHeader[0] : sessionHeader;
+
+  const ctx: RequestContext = {
+    req,
+    res,
+    reqLog,
+    startTime,
+    signatureStore,
+    pools,
+    method: req.method ?? "GET",
+    reqUrl,
+    model: "no-model",
+    clientSession: clientSession || sessionPath?.sessionId || "",
+    // Inbound OpenAI chat completions requests are converted to Messages requests
+    isOpenAIClient: isChatCompletionsPath(reqUrl),
+    includeUsage: false,
+    isAborted: false,
+    proxyReq: null,
+    release: () => {},
+  };
 
   // Register abort handlers early to catch early disconnects
   const onAborted = () => {
-    reqLog.warn("Client aborted", { method, path: reqUrl, model, upstream: targetName, durationMs: Date.now() - startTime });
-    isAborted = true;
-    if (proxyReq) {
-      proxyReq.destroy();
-    }
+    reqLog.warn("Client aborted", { method: ctx.method, path: ctx.reqUrl, model: ctx.model, upstream: ctx.upstream, durationMs: Date.now() - startTime });
+    ctx.isAborted = true;
+    ctx.proxyReq?.destroy();
   };
 
   const onError = (err: Error) => {
-    reqLog.error(`Request error: ${err.message}`, { method, path: reqUrl, model, upstream: targetName, errorCode: (err as NodeJS.ErrnoException).code, durationMs: Date.now() - startTime });
-    isAborted = true;
-    if (proxyReq) {
-      proxyReq.destroy();
-    }
+    reqLog.error(`Request error: ${err.message}`, { method: ctx.method, path: ctx.reqUrl, model: ctx.model, upstream: ctx.upstream, errorCode: (err as NodeJS.ErrnoException).code, durationMs: Date.now() - startTime });
+    ctx.isAborted = true;
+    ctx.proxyReq?.destroy();
   };
 
   req.once("aborted", onAborted);
   req.once("error", onError);
+  ctx.release = () => {
+    req.off("aborted", onAborted);
+    req.off("error", onError);
+  };
 
   try {
     // Determine if we should buffer the body based on headers
-    method = req.method ?? "GET";
     const needsBody = hasRequestBody(req);
 
     // Parse model from request body if needed
-    let target: Route;
-    model = "no-model";
+    let route: Route;
     let bodyWasRewritten = false;
+    let streamedBody: StreamedBody | undefined;
 
     if (needsBody) {
-      // Buffer request body with size limit
-      const chunks: Buffer[] = [];
-      let totalSize = 0;
-
-      for await (const chunk of req) {
-        if (isAborted) return;
-        totalSize += (chunk as Buffer).length;
-        if (totalSize > MAX_BODY_SIZE) {
-          if (!res.headersSent) {
-            res.writeHead(413, { "content-type": "application/json" });
+      const maxBodySize = (config.proxy.maxBodyMB ?? DEFAULT_MAX_BODY_MB) * 1024 * 1024;
+      if (Number(req.headers["content-length"]) > maxBodySize) {
+        sendError(res, 413, "request_too_large", "Request body exceeds maximum size", ctx.isOpenAIClient);
+        return;
+      }
+
+      // Unless routing needs the whole body, read only until the fields it needs were seen:
+      // a body no target rewrites is then forwarded while the rest arrives
+      const scanFields = ctx.isOpenAIClient ? null : routingBodyFields(routingConfig);
+      const scanner = scanFields ? new JsonFieldScanner(["model", ...scanFields]) : undefined;
+      const head = await readBody(req, maxBodySize, scanner);
+      if (ctx.isAborted) return;
+      if (head.tooLarge) {
+        sendError(res, 413, "request_too_large", "Request body exceeds maximum size", ctx.isOpenAIClient);
+        return;
+      }
+
+      let parsed: Record<string, unknown> | null;
+      if (scanner) {
+        // Routing reads only the scanned fields
+        parsed = scanner.invalid ? null : scanner.fields;
+        requestBody = head.ended ? Buffer.concat(head.chunks) : null;
+      } else {
+        requestBody = Buffer.concat(head.chunks);
+        if (ctx.isOpenAIClient) {
+          const inbound = parseRequestBodyAsObject(requestBody);
+          if (!inbound) {
+            sendError(res, 400, "invalid_request_error", "Request body must be a JSON object", true);
+            return;
           }
-          res.end(JSON.stringify({ error: "payload_too_large", message: "Request body exceeds maximum size" }));
-          return;
+          ctx.includeUsage = !!(inbound.stream_options as { include_usage?: boolean } | undefined)?.include_usage;
+          requestBody = Buffer.from(JSON.stringify(fromOpenAIRequest(inbound)));
+          bodyWasRewritten = true;
         }
-        chunks.push(chunk as Buffer);
+        parsed = parseRequestBodyAsObject(requestBody);
       }
-      if (isAborted) return;
-      requestBody = Buffer.concat(chunks);
 
-      const parsed = parseRequestBody(requestBody);
-      if (parsed) {
-        model = parsed.model || "no-model";
+      const requestModel = typeof parsed?.model === "string" && parsed.model ? parsed.model : undefined;
+      ctx.model = requestModel ?? "no-model";
+      route = selectRoute(requestModel, routingConfig, reqLog, { path: ctx.reqUrl, headers: req.headers, body: parsed });
+
+      // The rest of a scanned body is read only when a target rewrites it
+      if (!requestBody) {
+        const targets = [route, ...(route.fallbacks ?? [])];
+        if (targets.some((target) => rewritesBody(ctx, target))) {
+          const rest = await readBody(req, maxBodySize - head.size);
+          if (ctx.isAborted) return;
+          if (rest.tooLarge) {
+            sendError(res, 413, "request_too_large", "Request body exceeds maximum size", ctx.isOpenAIClient);
+            return;
+          }
+          requestBody = Buffer.concat([...head.chunks, ...rest.chunks]);
+        } else {
+          // Keep a copy only when a retry or fallback may have to send the body again
+          const replay = targets.length > 1 || targets.some((target) => (target.retry?.maxRetries ?? 0) > 0);
+          streamedBody = new StreamedBody(head.chunks, req, maxBodySize, replay);
+          reqLog.debug("forwarding request body as it arrives", { model: ctx.model, upstream: route.name });
+        }
       }
-      target = selectRoute(parsed?.model, config, reqLog);
     } else {
-      target = selectRoute(undefined, config, reqLog);
+      route = selectRoute(undefined, routingConfig, reqLog, { path: ctx.reqUrl, headers: req.headers, body: null });
     }
 
-    // Rewrite model name in request body if route specifies a different model
-    let forwardBody: Buffer;
-    if (needsBody && requestBody && target.model) {
-      const bodyObj = parseRequestBodyAsObject(requestBody);
-      if (bodyObj) {
-        bodyObj.model = target.model;
-        forwardBody = Buffer.from(JSON.stringify(bodyObj));
-        bodyWasRewritten = true;
-        reqLog.info(`model rewrite: ${model} -> ${target.model}`, { model: target.model });
-      } else {
-        forwardBody = requestBody;
+    // Tag every log entry of split-routed requests with the chosen arm
+    if (route.arm) {
+      reqLog = reqLog.child({ arm: route.arm });
+      ctx.reqLog = reqLog;
+      reqLog.info(`split: ${route.arm}`, { model: ctx.model, upstream: route.name });
+    }
+
+    // Try the routed upstream, then its fallbacks, until one answers without a failover status.
+    // Nothing has been written to the client at this point, so each attempt starts from the client body.
+    const targets = [route, ...(route.fallbacks ?? [])];
+    for (let i = 0; i < targets.length; i++) {
+      if (ctx.isAborted) return;
+      const target = targets[i];
+      const next = targets[i + 1];
+      ctx.upstream = target.name;
+
+      // Answer count_tokens locally for upstreams without the endpoint
+      if (target.emulateCountTokens && ctx.method === "POST" && isCountTokensPath(ctx.reqUrl)) {
+        ctx.release();
+        emulateCountTokens(ctx, target, requestBody);
+        return;
       }
-    } else {
-      forwardBody = (needsBody && requestBody) || Buffer.alloc(0);
-    }
-
-    // Sanitize content blocks for Anthropic API
-    // Removes z.ai specific fields from thinking blocks in message history
-    // Converts z.ai-origin thinking blocks to text blocks (unrecorded signatures)
-    if (needsBody && forwardBody.length > 0) {
-      const contentType = req.headers["content-type"];
-      if (shouldTransformRequest(contentType, target.name)) {
-        const originalBody = forwardBody.toString();
-        const sanitized = sanitizeContentBlocksWithStore(originalBody, signatureStore);
-        if (sanitized !== originalBody) {
-          forwardBody = Buffer.from(sanitized);
-          bodyWasRewritten = true;
-          reqLog.debug("sanitized request content blocks for Anthropic");
+
+      // Skip upstreams whose breaker is open
+      const breaker = breakers.get(target.name, target.circuitBreaker);
+      const permit = breaker.acquire();
+      if (!permit) {
+        if (next) {
+          reqLog.warn(`circuit open, failover: ${target.name} -> ${next.name}`, { upstream: target.name, circuit: "open" });
+          continue;
         }
+        ctx.release();
+        reqLog.warn(`circuit open: ${target.name}`, { model: ctx.model, upstream: target.name, circuit: "open", status: 503 });
+        sendError(res, 503, "overloaded_error", `Upstream ${target.name} is unavailable (circuit open after repeated failures)`, ctx.isOpenAIClient);
+        return;
       }
-    }
 
-    // Build upstream URL (handle undefined req.url)
-    reqUrl = req.url ?? "/";
-    targetName = target.name;
-    const baseUrl = new URL(target.url);
-    const basePath = baseUrl.pathname.replace(/\/$/, "");
-    const upstreamUrl = new URL(basePath + reqUrl, baseUrl.origin);
-    const isHttps = upstreamUrl.protocol === "https:";
-    const doRequest = isHttps ? httpsRequest : httpRequest;
+      const prepared = prepareUpstreamRequest(ctx, target, requestBody, bodyWasRewritten, streamedBody);
+      if ("status" in prepared) {
+        permit("ignored");
+        if (next) {
+          reqLog.warn(`failover: ${target.name} -> ${next.name}`, { upstream: target.name, status: prepared.status });
+          continue;
+        }
+        ctx.release();
+        sendError(res, prepared.status, prepared.type, prepared.message, ctx.isOpenAIClient);
+        return;
+      }
 
-    reqLog.info(`${method} ${reqUrl}`, { model, upstream: target.name, method, path: reqUrl });
+      // Wait for a free slot when the upstream is at its concurrency limit
+      const limiter = limiters.get(target.name, target.concurrency);
+      // A client that leaves while queued gives up its place
+      const clientGone = new AbortController();
+      const onClientClose = () => clientGone.abort();
+      res.once("close", onClientClose);
+      const slot = await limiter.acquire(
+        target.model ?? ctx.model,
+        ctx.clientSession,
+        ({ inFlight, queued }) => {
+          reqLog.info(`queued: ${target.name} (${inFlight} in flight, ${queued} waiting)`, { model: ctx.model, upstream: target.name, inFlight, queueDepth: queued });
+        },
+        clientGone.signal
+      );
+      res.off("close", onClientClose);
+      if (typeof slot === "string") {
+        permit("ignored");
+        if (ctx.isAborted || slot === "client closed") return;
+        if (next) {
+          reqLog.warn(`concurrency limit (${slot}), failover: ${target.name} -> ${next.name}`, { upstream: target.name });
+          continue;
+        }
+        ctx.release();
+        reqLog.warn(`concurrency limit: ${target.name} (${slot})`, { model: ctx.model, upstream: target.name, status: 429 });
+        sendError(res, 429, "rate_limit_error", `Upstream ${target.name} is at its concurrency limit (${slot})`, ctx.isOpenAIClient);
+        return;
+      }
+      // The slot is held until the response to the client is done
+      res.once("close", slot.release);
+      if (ctx.isAborted) {
+        slot.release();
+        permit("ignored");
+        return;
+      }
+      if (slot.waitedMs > 0) {
+        reqLog.info(`dequeued: ${target.name} after ${slot.waitedMs}ms`, { model: ctx.model, upstream: target.name, waitMs: slot.waitedMs });
+      }
 
-    // Prepare headers with proper filtering
-    const forwardHeaders = buildForwardHeaders(req.headers, target, forwardBody, bodyWasRewritten);
+      // Keep to the upstream's request and token rates
+      const rateLimiter = rateLimiters.get(target.name, target.rateLimit);
+      const limited = await waitForRateLimit(ctx, target, rateLimiter);
+      if (limited) {
+        slot.release();
+        permit("ignored");
+        if (ctx.isAborted) return;
+        const retryAfter = Math.ceil(limited.waitMs / 1000);
+        if (next) {
+          reqLog.warn(`rate limited (${limited.limit}), failover: ${target.name} -> ${next.name}`, { upstream: target.name, limit: limited.limit });
+          continue;
+        }
+        ctx.release();
+        reqLog.warn(`rate limited: ${target.name} (${limited.limit}, retry in ${retryAfter}s)`, { model: ctx.model, upstream: target.name, limit: limited.limit, status: 429 });
+        // Claude Code waits for retry-after before trying again
+        res.setHeader("retry-after", String(retryAfter));
+        sendError(res, 429, "rate_limit_error", `Upstream ${target.name} ${RATE_LIMIT_NAMES[limited.limit]} rate limit reached, retry in ${retryAfter}s`, ctx.isOpenAIClient);
+        return;
+      }
 
-    // Forward request
-    proxyReq = doRequest(
-      upstreamUrl,
-      { method, headers: forwardHeaders, timeout: UPSTREAM_TIMEOUT_MS },
-      (proxyRes) => {
-        if (isAborted) {
-          proxyRes.destroy();
+      reqLog.info(`${ctx.method} ${ctx.reqUrl}`, { model: ctx.model, upstream: target.name, method: ctx.method, path: ctx.reqUrl });
+
+      let proxyRes: UpstreamResponse;
+      try {
+        proxyRes = await sendWithRetries(ctx, target, prepared, breaker, permit);
+      } catch (err) {
+        if (ctx.isAborted) return;
+        const error = err as UpstreamError;
+        // An oversized streamed body is the client's error; other targets would refuse it too
+        if (error.code === BODY_TOO_LARGE) {
+          ctx.release();
+          reqLog.warn("request body too large", { model: ctx.model, upstream: target.name, status: 413 });
+          sendError(res, 413, "request_too_large", "Request body exceeds maximum size", ctx.isOpenAIClient);
           return;
         }
-
-        const statusCode = proxyRes.statusCode || 0;
-
-        // Check if we need to transform the response
-        const contentType = proxyRes.headers["content-type"];
-        const needsTransform = shouldTransformResponse(contentType, target.name);
-        const isAnthropic = target.name === "anthropic";
-        const needsSignatureExtraction = isAnthropic && contentType?.includes("application/json");
-
-        // Build response headers, removing hop-by-hop headers
-        // When buffering response (for transform or signature extraction), remove transfer-encoding
-        const needsBuffering = needsTransform || !!needsSignatureExtraction;
-        const resHeaders = buildResponseHeaders(proxyRes.headers, needsBuffering);
-
-        if (needsTransform || needsSignatureExtraction) {
-          // Buffer the response for transformation with size limit
-          const chunks: Buffer[] = [];
-          let totalSize = 0;
-
-          proxyRes.on("data", (chunk) => {
-            if (isAborted) return;
-            totalSize += chunk.length;
-            if (totalSize > MAX_TRANSFORM_SIZE) {
-              reqLog.error("Transform buffer exceeded limit", { status: statusCode, durationMs: Date.now() - startTime });
-              proxyRes.destroy();
-              if (!res.headersSent) {
-                res.writeHead(502, { "content-type": "application/json" });
-              }
-              res.end(JSON.stringify({ error: "transform_error", message: "Response too large to transform" }));
-              return;
-            }
-            chunks.push(chunk);
-          });
-
-          proxyRes.on("end", () => {
-            req.off("aborted", onAborted);
-            req.off("error", onError);
-            if (isAborted) return;
-            try {
-              const body = Buffer.concat(chunks).toString();
-              let processed = body;
-
-              // Extract signatures from Anthropic responses
-              if (isAnthropic) {
-                processed = extractAndRecordSignatures(body, signatureStore);
-              }
-
-              // Transform z.ai responses
-              if (needsTransform) {
-                processed = transformThinkingBlocks(processed);
-              }
-
-              // Log non-2xx responses with body excerpt
-              const logFields = { status: statusCode, durationMs: Date.now() - startTime, upstream: target.name };
-              if (statusCode >= 400) {
-                const excerpt = body.length > MAX_BODY_EXCERPT ? body.slice(0, MAX_BODY_EXCERPT) : body;
-                reqLog.warn(`<- ${statusCode}`, { ...logFields, bodyExcerpt: excerpt });
-              } else {
-                reqLog.info(`<- ${statusCode}`, logFields);
-              }
-
-              resHeaders["content-length"] = String(Buffer.byteLength(processed));
-              res.writeHead(proxyRes.statusCode || 200, resHeaders);
-              res.end(processed);
-            } catch (err) {
-              const error = err as Error;
-              reqLog.error(`Transform error: ${error.message}`, { status: statusCode, durationMs: Date.now() - startTime });
-              if (!res.headersSent) {
-                res.writeHead(502, { "content-type": "application/json" });
-              }
-              res.end(JSON.stringify({ error: "transform_error", message: error.message }));
-            }
-          });
+        if (next) {
+          slot.release();
+          reqLog.warn(`failover: ${target.name} -> ${next.name}`, { upstream: target.name, errorCode: error.code, phase: error.phase, durationMs: Date.now() - startTime });
+          continue;
+        }
+        ctx.release();
+        if (error.code === "ETIMEDOUT") {
+          sendError(res, 504, "timeout_error", timeoutMessage(target, error), ctx.isOpenAIClient);
         } else {
-          req.off("aborted", onAborted);
-          req.off("error", onError);
-
-          // Log response status for streaming responses
-          const logFields = { status: statusCode, durationMs: Date.now() - startTime, upstream: target.name };
-          if (statusCode >= 400) {
-            reqLog.warn(`<- ${statusCode}`, logFields);
-          } else {
-            reqLog.info(`<- ${statusCode}`, logFields);
-          }
-
-          // Stream response directly without transformation
-          res.writeHead(proxyRes.statusCode || 200, resHeaders);
-          proxyRes.pipe(res);
+          sendError(res, 502, "api_error", `Upstream ${target.name} failed: ${error.message}`, ctx.isOpenAIClient);
         }
+        return;
       }
-    );
-
-    // Set up timeout for upstream request
-    if (proxyReq.setTimeout) {
-      proxyReq.setTimeout(UPSTREAM_TIMEOUT_MS, () => {
-        reqLog.error("Upstream timeout", { method, path: reqUrl, upstream: target.name, durationMs: Date.now() - startTime, errorCode: "ETIMEDOUT" });
-        isAborted = true;
-        proxyReq?.destroy();
-        req.off("aborted", onAborted);
-        req.off("error", onError);
-        if (!res.headersSent) {
-          res.writeHead(504, { "content-type": "application/json" });
-        }
-        res.end(JSON.stringify({ error: "gateway_timeout", message: "Upstream timeout" }));
-      });
+
+      if (ctx.isAborted) {
+        proxyRes.destroy();
+        return;
+      }
+
+      const statusCode = proxyRes.statusCode || 0;
+      if (next && isFailoverStatus(statusCode)) {
+        reqLog.warn(`<- ${statusCode}, failover: ${target.name} -> ${next.name}`, { status: statusCode, upstream: target.name, durationMs: Date.now() - startTime });
+        // Drain the discarded response so the socket is released
+        proxyRes.on("error", () => {});
+        proxyRes.resume();
+        slot.release();
+        continue;
+      }
+
+      if (rateLimiter.metersUsage) {
+        meterUsage(proxyRes, rateLimiter);
+      }
+      relayResponse(ctx, target, proxyRes);
+      return;
+    }
+  } catch (err) {
+    const error = err as Error;
+    reqLog.error(`ERROR: ${error.message}`, { method: ctx.method, path: ctx.reqUrl, model: ctx.model, upstream: ctx.upstream, durationMs: Date.now() - startTime });
+    ctx.proxyReq?.destroy();
+    ctx.release();
+    sendError(res, 502, "api_error", error.message, ctx.isOpenAIClient);
+  }
+}
+
+/**
+ * Send a prepared request, retrying transient failures with backoff
+ * Every attempt happens before anything is written to the client. Retries stop when
+ * the target's retries are used up or the next wait would exceed its time budget.
+ * @returns The last response, which can still carry an error status
+ * @throws The last request error
+ */
+async function sendWithRetries(
+  ctx: RequestContext,
+  target: Route,
+  prepared: PreparedRequest,
+  breaker: CircuitBreaker,
+  firstPermit: CircuitPermit
+): Promise<UpstreamResponse> {
+  const policy = { ...DEFAULT_RETRY, ...target.retry };
+  const deadline = Date.now() + policy.budgetSeconds * 1000;
+  let permit = firstPermit;
+
+  for (let retry = 1; ; retry++) {
+    const attemptStart = Date.now();
+    let proxyRes: UpstreamResponse | undefined;
+    let error: UpstreamError | undefined;
+    try {
+      proxyRes = await sendUpstreamRequest(ctx, target, prepared);
+    } catch (err) {
+      error = err as UpstreamError;
+    }
+    permit(error?.code === BODY_TOO_LARGE ? "ignored" : attemptOutcome(ctx, breaker, attemptStart, proxyRes));
+
+    const retryAfterMs = proxyRes ? parseRetryAfter(proxyRes.headers["retry-after"]) : undefined;
+    const retryable = proxyRes ? isRetryableStatus(proxyRes.statusCode || 0, retryAfterMs) : isRetryableError(error!);
+    const delayMs = retryDelay(retry, policy, retryAfterMs);
+    const stop = ctx.isAborted || !retryable || retry > policy.maxRetries || Date.now() + delayMs > deadline;
+    // A breaker that opened meanwhile ends the retries too
+    const nextPermit = stop ? null : breaker.acquire();
+    if (!nextPermit) {
+      if (proxyRes) return proxyRes;
+      throw error;
+    }
+    permit = nextPermit;
+
+    if (proxyRes) {
+      // Drain the discarded response so the socket is released
+      proxyRes.on("error", () => {});
+      proxyRes.resume();
+    }
+    ctx.reqLog.warn(`retry ${retry}/${policy.maxRetries}: ${target.name} in ${delayMs}ms`, {
+      upstream: target.name,
+      ...(proxyRes ? { status: proxyRes.statusCode } : { errorCode: error!.code, phase: error!.phase }),
+      attempt: retry + 1,
+      delayMs,
+    });
+    await new Promise((resolve) => setTimeout(resolve, delayMs));
+    if (ctx.isAborted) {
+      permit("ignored");
+      if (proxyRes) return proxyRes;
+      throw error;
+    }
+  }
+}
+
+/**
+ * Admit a request under the target's rate limits
+ * With onLimit "wait" the request is held until the buckets refill,
+ * unless that would take longer than maxWaitSeconds.
+ * @returns null once admitted, otherwise the bucket that refused the request
+ */
+async function waitForRateLimit(ctx: RequestContext, target: Route, limiter: RateLimiter): Promise<RateLimitWait | null> {
+  const policy = { ...DEFAULT_RATE_LIMIT, ...target.rateLimit };
+  const deadline = Date.now() + policy.maxWaitSeconds * 1000;
+  for (;;) {
+    const wait = limiter.acquire();
+    if (!wait || policy.onLimit === "reject" || ctx.isAborted || Date.now() + wait.waitMs > deadline) {
+      return wait;
+    }
+    ctx.reqLog.info(`rate limit wait: ${target.name} ${wait.waitMs}ms (${wait.limit})`, { upstream: target.name, limit: wait.limit, delayMs: wait.waitMs });
+    await new Promise((resolve) => setTimeout(resolve, wait.waitMs));
+  }
+}
+
+/**
+ * Charge the token usage of a response to the upstream's rate limits once it is done
+ * (responses cut short still count what the upstream reported so far)
+ */
+function meterUsage(proxyRes: UpstreamResponse, limiter: RateLimiter): void {
+  const meter = new UsageMeter(!!proxyRes.headers["content-type"]?.includes("text/event-stream"));
+  proxyRes.on("data", (chunk: Buffer) => meter.push(chunk));
+  proxyRes.once("close", () => limiter.record(meter.end()));
+}
+
+/**
+ * Classify an upstream attempt for the circuit breaker
+ * Request errors, 5xx responses and slow response headers are failures; client aborts don't count.
+ */
+function attemptOutcome(ctx: RequestContext, breaker: CircuitBreaker, attemptStart: number, proxyRes: UpstreamResponse | undefined): AttemptOutcome {
+  if (ctx.isAborted) return "ignored";
+  if (!proxyRes || (proxyRes.statusCode || 0) >= 500) return "failure";
+  return breaker.isSlow(Date.now() - attemptStart) ? "failure" : "success";
+}
+
+/**
+ * Check whether an upstream status should be retried on the next fallback target
+ * Rate limits and server errors are retried; other client errors are final
+ */
+function isFailoverStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Check whether preparing a request for a target reads or rewrites the client body
+ * Requests to other targets can forward the body unchanged as it arrives.
+ */
+function rewritesBody(ctx: RequestContext, target: Route): boolean {
+  const contentType = ctx.req.headers["content-type"];
+  return (
+    !!target.model ||
+    !!target.capabilities ||
+    target.type === "openai" ||
+    shouldTransformRequest(contentType, target) ||
+    shouldSanitizeForeignRequest(contentType, target) ||
+    (!!target.emulateCountTokens && isCountTokensPath(ctx.reqUrl))
+  );
+}
+
+/**
+ * Build the upstream request for a route target from the client body
+ * Applies the target's model rewrite, request sanitization, format translation and auth
+ */
+function prepareUpstreamRequest(
+  ctx: RequestContext,
+  target: Route,
+  requestBody: Buffer | null,
+  clientBodyRewritten: boolean,
+  streamedBody?: StreamedBody
+): PreparedRequest | RejectedRequest {
+  const { req, reqLog, reqUrl } = ctx;
+  let forwardBody = requestBody ?? Buffer.alloc(0);
+  let bodyWasRewritten = clientBodyRewritten;
+
+  // Rewrite model name in request body if route specifies a different model
+  if (requestBody && target.model) {
+    const bodyObj = parseRequestBodyAsObject(requestBody);
+    if (bodyObj) {
+      bodyObj.model = target.model;
+      forwardBody = Buffer.from(JSON.stringify(bodyObj));
+      bodyWasRewritten = true;
+      reqLog.info(`model rewrite: ${ctx.model} -> ${target.model}`, { model: target.model });
+    }
+  }
+
+  // Fit the request to what the upstream accepts (parameters, block types, tools)
+  if (requestBody && target.capabilities) {
+    const bodyObj = parseRequestBodyAsObject(forwardBody);
+    if (bodyObj) {
+      const fitted = applyCapabilities(bodyObj, target.capabilities);
+      if (fitted !== bodyObj) {
+        forwardBody = Buffer.from(JSON.stringify(fitted));
+        bodyWasRewritten = true;
+        reqLog.debug(`applied capability profile of ${target.name}`);
+      }
+    }
+  }
+
+  // Sanitize content blocks for Anthropic API
+  // Removes z.ai specific fields from thinking blocks in message history
+  // Represents z.ai-origin thinking blocks (unrecorded signatures) per foreign reasoning policy
+  if (forwardBody.length > 0 && shouldTransformRequest(req.headers["content-type"], target)) {
+    const originalBody = forwardBody.toString();
+    const sanitized = sanitizeContentBlocksWithStore(originalBody, ctx.signatureStore, target.foreignReasoning);
+    if (sanitized !== originalBody) {
+      forwardBody = Buffer.from(sanitized);
+      bodyWasRewritten = true;
+      reqLog.debug("sanitized request content blocks for Anthropic");
+    }
+  }
+
+  // Sanitize Anthropic conversation history for non-Anthropic upstreams
+  // Represents Anthropic thinking blocks per policy and repairs message structure
+  if (forwardBody.length > 0 && shouldSanitizeForeignRequest(req.headers["content-type"], target)) {
+    const originalBody = forwardBody.toString();
+    const sanitized = sanitizeForeignContentBlocks(originalBody, target.foreignReasoning);
+    if (sanitized !== originalBody) {
+      forwardBody = Buffer.from(sanitized);
+      bodyWasRewritten = true;
+      reqLog.debug(`sanitized request content blocks for ${target.name}`);
+    }
+  }
+
+  // Translate Messages requests for OpenAI Chat Completions upstreams
+  const isOpenAI = target.type === "openai";
+  if (isOpenAI) {
+    if (!ctx.isOpenAIClient && !isMessagesPath(reqUrl)) {
+      reqLog.warn(`${ctx.method} ${reqUrl} is not supported by OpenAI upstream`, { model: ctx.model, upstream: target.name, method: ctx.method, path: reqUrl, status: 404 });
+      return { status: 404, type: "not_found_error", message: `${reqUrl} is not supported by upstream ${target.name}` };
+    }
+    const bodyObj = parseRequestBodyAsObject(forwardBody);
+    if (!bodyObj) {
+      return { status: 400, type: "invalid_request_error", message: "Request body must be a JSON object" };
     }
+    forwardBody = Buffer.from(JSON.stringify(toOpenAIRequest(bodyObj)));
+    bodyWasRewritten = true;
+  }
+
+  const baseUrl = new URL(target.url);
+  const basePath = baseUrl.pathname.replace(/\/$/, "");
+  const upstreamPath = isOpenAI ? "/chat/completions" : ctx.isOpenAIClient ? "/v1/messages" : reqUrl;
+
+  // Prepare headers with proper filtering
+  const headers = buildForwardHeaders(req.headers, target, forwardBody, bodyWasRewritten);
+  if (ctx.isOpenAIClient && !isOpenAI && !headers["anthropic-version"]) {
+    headers["anthropic-version"] = DEFAULT_ANTHROPIC_VERSION;
+  }
+
+  // Forward only the anthropic-beta values the upstream accepts
+  const beta = headers["anthropic-beta"];
+  if (beta !== undefined && target.capabilities?.betas) {
+    const fitted = applyBetaCapabilities(Array.isArray(beta) ? beta.join(",") : beta, target.capabilities.betas);
+    if (fitted === undefined) {
+      delete headers["anthropic-beta"];
+    } else {
+      headers["anthropic-beta"] = fitted;
+    }
+  }
+
+  return { url: new URL(basePath + upstreamPath, baseUrl.origin), headers, body: streamedBody ?? forwardBody };
+}
+
+/**
+ * Send a prepared request upstream
+ * Resolves with the response once headers arrive; rejects on connection errors and
+ * connect/first-byte/total timeouts. Idle and total timeouts after that destroy the
+ * response with an UpstreamError.
+ */
+function sendUpstreamRequest(ctx: RequestContext, target: Route, prepared: PreparedRequest): Promise<UpstreamResponse> {
+  const connection = { ...DEFAULT_CONNECTION, ...target.connection };
+  if (connection.http2) {
+    return sendHttp2Request(ctx, target, prepared, connection);
+  }
+
+  const { reqLog, method, reqUrl, startTime } = ctx;
+  const isHttps = prepared.url.protocol === "https:";
+  const doRequest = isHttps ? httpsRequest : httpRequest;
+  const timeouts = { ...DEFAULT_TIMEOUTS, ...target.timeouts };
+  const sentAt = Date.now();
+
+  return new Promise((resolve, reject) => {
+    const agent = ctx.pools.agent(target.name, prepared.url, connection);
+    const proxyReq = doRequest(prepared.url, { method, headers: prepared.headers, agent });
+    ctx.proxyReq = proxyReq;
+    let response: IncomingMessage | null = null;
+    let reused = false;
+
+    // Fail the request (or the response, once it arrived) when a phase takes too long
+    const timers = startPhaseTimers(ctx, target, timeouts, (err) => {
+      if (response) {
+        response.destroy(err);
+      } else {
+        proxyReq.destroy(err);
+      }
+    });
+
+    // Connect, then wait for the first byte; reused keep-alive sockets are already connected
+    timers.phase("connect", timeouts.connectSeconds);
+    proxyReq.once("socket", (socket) => {
+      reused = ctx.pools.record(target.name, socket);
+      const connected = () => timers.phase("firstByte", timeouts.firstByteSeconds);
+      if (socket.connecting) {
+        socket.once(isHttps ? "secureConnect" : "connect", connected);
+      } else {
+        connected();
+      }
+    });
+
+    proxyReq.once("response", (proxyRes) => {
+      response = proxyRes;
+      timers.phase(null);
+      ctx.connection = { connection: reused ? "reused" : "new", ttfbMs: Date.now() - sentAt };
+      // Idle: socket inactivity between response body chunks
+      if (timeouts.idleSeconds > 0) {
+        proxyReq.setTimeout(timeouts.idleSeconds * 1000, () => timers.expire("idle"));
+        ctx.pauseIdleTimeout = (paused) => proxyReq.setTimeout(paused ? 0 : timeouts.idleSeconds * 1000);
+      }
+      proxyRes.once("close", timers.clear);
+      resolve(proxyRes);
+    });
 
     // Handle upstream request errors
-    proxyReq.on("error", (err) => {
-      if (isAborted) return;
-      const errnoErr = err as NodeJS.ErrnoException;
-      reqLog.error(`Upstream error: ${err.message}`, { method, path: reqUrl, upstream: target.name, errorCode: errnoErr.code, durationMs: Date.now() - startTime });
-      req.off("aborted", onAborted);
-      req.off("error", onError);
-      if (!res.headersSent) {
-        res.writeHead(502, { "content-type": "application/json" });
-      }
-      res.end(JSON.stringify({ error: "proxy_error", message: err.message }));
+    proxyReq.on("error", (err: UpstreamError) => {
+      timers.clear();
+      if (!ctx.isAborted && err.code !== "ETIMEDOUT" && err.code !== BODY_TOO_LARGE) {
+        reqLog.error(`Upstream error: ${err.message}`, { method, path: reqUrl, upstream: target.name, errorCode: err.code, durationMs: Date.now() - startTime });
+      }
+      reject(err);
     });
 
-    // Handle proxy response errors
-    proxyReq.on("response", (proxyRes) => {
-      proxyRes.on("error", (err) => {
-        reqLog.error(`Response error: ${err.message}`, { method, path: reqUrl, upstream: target.name, status: proxyRes.statusCode, durationMs: Date.now() - startTime });
-        if (!res.writableEnded) {
-          res.end();
+    // Send body if present
+    if (prepared.body instanceof StreamedBody) {
+      prepared.body.writeTo(proxyReq);
+    } else {
+      if (prepared.body.length > 0) {
+        proxyReq.write(prepared.body);
+      }
+      proxyReq.end();
+    }
+  });
+}
+
+/**
+ * Send a prepared request as a stream of the upstream's HTTP/2 session
+ * Same contract as sendUpstreamRequest; the resolved response is the stream itself,
+ * carrying the status code and headers of the response.
+ */
+function sendHttp2Request(
+  ctx: RequestContext,
+  target: Route,
+  prepared: PreparedRequest,
+  connection: Required<UpstreamConnection>
+): Promise<UpstreamResponse> {
+  const { reqLog, method, reqUrl, startTime } = ctx;
+  const timeouts = { ...DEFAULT_TIMEOUTS, ...target.timeouts };
+  const sentAt = Date.now();
+
+  return new Promise((resolve, reject) => {
+    const session = ctx.pools.http2Session(target.name, prepared.url, connection);
+    const reused = ctx.pools.record(target.name, session);
+    const stream = session.request({
+      ...prepared.headers,
+      ":method": method,
+      ":path": prepared.url.pathname + prepared.url.search,
+    });
+    ctx.proxyReq = stream;
+
+    // The stream is both the request and the response
+    const timers = startPhaseTimers(ctx, target, timeouts, (err) => stream.destroy(err));
+
+    if (session.connecting) {
+      timers.phase("connect", timeouts.connectSeconds);
+      session.once("connect", () => timers.phase("firstByte", timeouts.firstByteSeconds));
+    } else {
+      timers.phase("firstByte", timeouts.firstByteSeconds);
+    }
+
+    stream.once("response", (responseHeaders) => {
+      timers.phase(null);
+      ctx.connection = { connection: reused ? "reused" : "new", ttfbMs: Date.now() - sentAt };
+      // Idle: stream inactivity between response body chunks
+      if (timeouts.idleSeconds > 0) {
+        stream.setTimeout(timeouts.idleSeconds * 1000, () => timers.expire("idle"));
+        ctx.pauseIdleTimeout = (paused) => stream.setTimeout(paused ? 0 : timeouts.idleSeconds * 1000);
+      }
+      stream.once("close", timers.clear);
+
+      // Pseudo-headers (":status") are not HTTP/1.1 headers
+      const headers: IncomingMessage["headers"] = {};
+      for (const [key, value] of Object.entries(responseHeaders)) {
+        if (!key.startsWith(":")) headers[key] = value;
+      }
+      resolve(Object.assign(stream, { statusCode: Number(responseHeaders[":status"]), headers }));
+    });
+
+    stream.on("error", (err: UpstreamError) => {
+      timers.clear();
+      if (!ctx.isAborted && err.code !== "ETIMEDOUT" && err.code !== BODY_TOO_LARGE) {
+        reqLog.error(`Upstream error: ${err.message}`, { method, path: reqUrl, upstream: target.name, errorCode: err.code, durationMs: Date.now() - startTime });
+      }
+      reject(err);
+    });
+
+    if (prepared.body instanceof StreamedBody) {
+      prepared.body.writeTo(stream);
+    } else {
+      stream.end(prepared.body);
+    }
+  });
+}
+
+/** Timers of the phases of one upstream exchange */
+interface PhaseTimers {
+  /** Start timing a phase (0 seconds = untimed), or stop the phase timer with null */
+  phase(phase: TimeoutPhase | null, seconds?: number): void;
+  /** Fail the exchange as timed out in a phase */
+  expire(phase: TimeoutPhase): void;
+  /** Stop all timers */
+  clear(): void;
+}
+
+/**
+ * Start the total timer of an upstream exchange; phases are timed through the returned handle
+ * Expired phases are logged and reported to fail as an UpstreamError with code ETIMEDOUT.
+ */
+function startPhaseTimers(
+  ctx: RequestContext,
+  target: Route,
+  timeouts: Required<UpstreamTimeouts>,
+  fail: (err: UpstreamError) => void
+): PhaseTimers {
+  const { reqLog, method, reqUrl, startTime } = ctx;
+  let phaseTimer: NodeJS.Timeout | undefined;
+
+  const expire = (phase: TimeoutPhase) => {
+    reqLog.error(`Upstream ${phase} timeout`, { method, path: reqUrl, upstream: target.name, durationMs: Date.now() - startTime, errorCode: "ETIMEDOUT", phase });
+    const err: UpstreamError = new Error(`Upstream ${phase} timeout`);
+    err.code = "ETIMEDOUT";
+    err.phase = phase;
+    fail(err);
+  };
+  const totalTimer = timeouts.totalSeconds > 0 ? setTimeout(() => expire("total"), timeouts.totalSeconds * 1000) : undefined;
+
+  return {
+    phase(phase, seconds = 0) {
+      clearTimeout(phaseTimer);
+      phaseTimer = phase && seconds > 0 ? setTimeout(() => expire(phase), seconds * 1000) : undefined;
+    },
+    expire,
+    clear() {
+      clearTimeout(phaseTimer);
+      clearTimeout(totalTimer);
+    },
+  };
+}
+
+/**
+ * Relay an upstream response to the client
+ * Applies response transforms, signature recording and client format translation
+ */
+function relayResponse(ctx: RequestContext, target: Route, proxyRes: UpstreamResponse): void {
+  const { res, startTime, signatureStore } = ctx;
+  const reqLog = ctx.connection ? ctx.reqLog.child(ctx.connection) : ctx.reqLog;
+  const statusCode = proxyRes.statusCode || 0;
+
+  // Handle proxy response errors (including timeouts after headers arrived)
+  proxyRes.on("error", (err: UpstreamError) => {
+    const timedOut = err.code === "ETIMEDOUT";
+    if (!timedOut) {
+      // Timeouts are logged with their phase when they expire
+      reqLog.error(`Response error: ${err.message}`, { method: ctx.method, path: ctx.reqUrl, upstream: target.name, status: proxyRes.statusCode, errorCode: err.code, durationMs: Date.now() - startTime });
+    }
+    ctx.release();
+    const type = timedOut ? "timeout_error" : "api_error";
+    const message = timedOut ? timeoutMessage(target, err) : `Upstream ${target.name} response failed: ${err.message}`;
+    if (res.headersSent && proxyRes.headers["content-type"]?.includes("text/event-stream")) {
+      // Mid-stream: end the event stream with an error event
+      sendStreamError(res, type, message, ctx.isOpenAIClient, ctx.partialEvent);
+    } else {
+      sendError(res, timedOut ? 504 : 502, type, message, ctx.isOpenAIClient);
+    }
+  });
+
+  // OpenAI responses are translated back to Anthropic format
+  // (OpenAI clients get them as-is through the regular path below)
+  const isOpenAI = target.type === "openai";
+  // Model names reported back to the client instead of the rewritten one
+  const restoredModel = restoredModelFor(ctx, target);
+  const upstreamModelFields = restoredModel ? { upstreamModel: target.model } : {};
+
+  if (isOpenAI && !ctx.isOpenAIClient) {
+    ctx.release();
+    const upstreamModel = target.model ?? (ctx.model !== "no-model" ? ctx.model : undefined);
+    relayOpenAIResponse(ctx, proxyRes, upstreamModel, reqLog, target.name, startTime, restoredModel);
+    return;
+  }
+
+  // Check if we need to transform the response
+  const contentType = proxyRes.headers["content-type"];
+  const needsTransform = shouldTransformResponse(contentType, target);
+  const recordsSignatures = target.sanitizeRequest;
+  const needsSignatureExtraction = recordsSignatures && contentType?.includes("application/json");
+
+  // Anthropic responses to OpenAI clients are translated: JSON is buffered, SSE is streamed
+  const translateForClient = ctx.isOpenAIClient && !isOpenAI;
+  const isEventStream = !!contentType?.includes("text/event-stream");
+
+  // Build response headers, removing hop-by-hop headers
+  // When buffering response (for transform or signature extraction), remove transfer-encoding
+  // (event streams are transformed incrementally instead)
+  // Error bodies are rewritten as Anthropic error envelopes
+  // (OpenAI upstream errors already reach OpenAI clients in their own format)
+  const normalizesError = statusCode >= 400 && !isEventStream && !(ctx.isOpenAIClient && isOpenAI);
+  const needsBuffering = (!isEventStream && (needsTransform || !!restoredModel || translateForClient || normalizesError)) || !!needsSignatureExtraction;
+  const resHeaders = buildResponseHeaders(proxyRes.headers, needsBuffering);
+  if (restoredModel) {
+    resHeaders[UPSTREAM_MODEL_HEADER] = target.model as string;
+  }
+
+  if (needsBuffering) {
+    // Buffer the response for transformation with size limit
+    const chunks: Buffer[] = [];
+    let totalSize = 0;
+
+    proxyRes.on("data", (chunk) => {
+      if (ctx.isAborted) return;
+      totalSize += chunk.length;
+      if (totalSize > MAX_TRANSFORM_SIZE) {
+        reqLog.error("Transform buffer exceeded limit", { status: statusCode, durationMs: Date.now() - startTime });
+        ctx.isAborted = true;
+        proxyRes.destroy();
+        sendError(res, 502, "api_error", "Response too large to transform", ctx.isOpenAIClient);
+        return;
+      }
+      chunks.push(chunk);
+    });
+
+    proxyRes.on("end", () => {
+      ctx.release();
+      if (ctx.isAborted) return;
+      try {
+        const body = Buffer.concat(chunks).toString();
+        let processed = body;
+
+        // Extract signatures from Anthropic responses
+        if (recordsSignatures) {
+          processed = extractAndRecordSignatures(body, signatureStore);
+        }
+
+        // Transform z.ai responses
+        if (needsTransform) {
+          processed = transformThinkingBlocks(processed);
+        }
+
+        // Report the client's model instead of the rewritten one
+        if (restoredModel) {
+          processed = restoreResponseModel(processed, restoredModel);
+        }
+
+        // Report upstream errors as Anthropic error envelopes, keeping the original error
+        if (normalizesError) {
+          const normalized = normalizeErrorBody(processed, statusCode, target.name);
+          if (normalized !== processed) {
+            processed = normalized;
+            resHeaders["content-type"] = "application/json";
+          }
+        }
+
+        // Translate to OpenAI chat completion (or error) format
+        if (translateForClient) {
+          processed = toOpenAIResponseBody(processed, statusCode);
+          resHeaders["content-type"] = "application/json";
         }
-      });
+
+        // Log non-2xx responses with body excerpt
+        const logFields = { status: statusCode, durationMs: Date.now() - startTime, upstream: target.name, ...upstreamModelFields };
+        if (statusCode >= 400) {
+          const excerpt = body.length > MAX_BODY_EXCERPT ? body.slice(0, MAX_BODY_EXCERPT) : body;
+          reqLog.warn(`<- ${statusCode}`, { ...logFields, bodyExcerpt: excerpt });
+        } else {
+          reqLog.info(`<- ${statusCode}`, logFields);
+        }
+
+        resHeaders["content-length"] = String(Buffer.byteLength(processed));
+        res.writeHead(proxyRes.statusCode || 200, resHeaders);
+        res.end(processed);
+      } catch (err) {
+        const error = err as Error;
+        reqLog.error(`Transform error: ${error.message}`, { status: statusCode, durationMs: Date.now() - startTime });
+        sendError(res, 502, "api_error", `Transform error: ${error.message}`, ctx.isOpenAIClient);
+      }
     });
+    return;
+  }
 
-    // Send body if present
-    if (forwardBody && forwardBody.length > 0) {
-      proxyReq.write(forwardBody);
+  ctx.release();
+
+  // Log response status for streaming responses
+  const logFields = { status: statusCode, durationMs: Date.now() - startTime, upstream: target.name, ...upstreamModelFields };
+  if (statusCode >= 400) {
+    reqLog.warn(`<- ${statusCode}`, logFields);
+  } else {
+    reqLog.info(`<- ${statusCode}`, logFields);
+  }
+
+  // Record signatures from Anthropic event streams as they pass through
+  if (recordsSignatures && isEventStream) {
+    const recorder = new SignatureStreamRecorder(signatureStore);
+    proxyRes.on("data", (chunk: Buffer | string) => recorder.push(chunk));
+    proxyRes.on("end", () => recorder.end());
+  }
+
+  // Rewrite events as they stream through: z.ai thinking, restored model, OpenAI client format
+  const translators: StreamTranslator[] = [];
+  if (needsTransform) {
+    translators.push(new ThinkingStreamTransformer());
+  }
+  if (restoredModel && isEventStream) {
+    translators.push(new ModelRestoreStream(restoredModel));
+  }
+  if (translateForClient) {
+    translators.push(new AnthropicStreamTranslator(ctx.includeUsage));
+  }
+  if (translators.length > 0) {
+    delete resHeaders["content-length"];
+    res.writeHead(proxyRes.statusCode || 200, resHeaders);
+    pipeResponse(ctx, proxyRes, true, translators.reduce(chainTranslators));
+    return;
+  }
+
+  // Stream response directly without transformation
+  res.writeHead(proxyRes.statusCode || 200, resHeaders);
+  pipeResponse(ctx, proxyRes, isEventStream);
+}
+
+/**
+ * Stream an upstream response to the client, through an incremental translator if given
+ * The idle timeout is paused while the client is not draining: a slow client
+ * holds the upstream back, which is not the upstream going idle.
+ */
+function pipeResponse(ctx: RequestContext, proxyRes: UpstreamResponse, isEventStream: boolean, translator?: StreamTranslator): void {
+  const { res } = ctx;
+  // Last bytes written, to tell whether the event stream stopped mid-event
+  let tail = "";
+
+  const write = (chunk: Buffer | string): boolean => {
+    if (isEventStream) {
+      tail = (tail + (typeof chunk === "string" ? chunk : chunk.toString("latin1"))).slice(-4);
+      ctx.partialEvent = !/\r?\n\r?\n$/.test(tail);
     }
-    proxyReq.end();
-  } catch (err) {
-    const error = err as Error;
-    reqLog.error(`ERROR: ${error.message}`, { method, path: reqUrl, model, upstream: targetName, durationMs: Date.now() - startTime });
-    if (proxyReq) {
-      proxyReq.destroy();
+    return res.write(chunk);
+  };
+  const resume = () => {
+    ctx.pauseIdleTimeout?.(false);
+    proxyRes.resume();
+  };
+
+  if (translator) {
+    proxyRes.setEncoding("utf8");
+  }
+  proxyRes.on("data", (chunk: Buffer | string) => {
+    const output = translator ? translator.push(chunk as string) : chunk;
+    if (output.length > 0 && !write(output)) {
+      proxyRes.pause();
+      ctx.pauseIdleTimeout?.(true);
+      res.once("drain", resume);
     }
-    req.off("aborted", onAborted);
-    req.off("error", onError);
-    if (!res.headersSent) {
-      res.writeHead(502, { "content-type": "application/json" });
+  });
+  proxyRes.on("end", () => {
+    const rest = translator?.end();
+    if (rest) {
+      write(rest);
     }
-    res.end(JSON.stringify({ error: "proxy_error", message: error.message }));
+    res.end();
+  });
+  // A paused upstream response would otherwise stay open after the client is gone
+  res.once("close", () => {
+    res.off("drain", resume);
+    if (!proxyRes.readableEnded) proxyRes.destroy();
+  });
+}
+
+/**
+ * Client model to report in responses of a target, if the target rewrote it
+ * and the routing rule asked for the original name to be restored
+ */
+function restoredModelFor(ctx: RequestContext, target: Route): string | undefined {
+  if (!target.restoreModel || !target.model || ctx.model === "no-model" || ctx.model === target.model) {
+    return undefined;
   }
+  return ctx.model;
+}
+
+/**
+ * Send a JSON response
+ */
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  const payload = JSON.stringify(body);
+  res.writeHead(status, { "content-type": "application/json", "content-length": String(Buffer.byteLength(payload)) });
+  res.end(payload);
+}
+
+/**
+ * Answer a count_tokens request with an offline estimate in Anthropic's format
+ */
+function emulateCountTokens(ctx: RequestContext, target: Route, requestBody: Buffer | null): void {
+  const { res, reqLog, startTime } = ctx;
+  reqLog.info(`${ctx.method} ${ctx.reqUrl}`, { model: ctx.model, upstream: target.name, method: ctx.method, path: ctx.reqUrl });
+
+  const body = requestBody ? parseRequestBodyAsObject(requestBody) : null;
+  if (!body) {
+    reqLog.warn("<- 400", { status: 400, durationMs: Date.now() - startTime, upstream: target.name, emulated: true });
+    sendError(res, 400, "invalid_request_error", "Request body must be a JSON object");
+    return;
+  }
+
+  const inputTokens = estimateInputTokens(body);
+  reqLog.info("<- 200", { status: 200, durationMs: Date.now() - startTime, upstream: target.name, emulated: true, inputTokens });
+  sendJson(res, 200, { input_tokens: inputTokens });
+}
+
+/**
+ * Send a proxy-generated error as an Anthropic error envelope
+ * (translated to an OpenAI error envelope for OpenAI clients)
+ * A response that has already started is only ended.
+ */
+function sendError(res: ServerResponse, status: number, type: AnthropicErrorType, message: string, isOpenAIClient = false): void {
+  if (res.headersSent) {
+    if (!res.writableEnded) {
+      res.end();
+    }
+    return;
+  }
+  const body = JSON.stringify(anthropicError(type, message));
+  const payload = isOpenAIClient ? toOpenAIResponseBody(body, status) : body;
+  res.writeHead(status, { "content-type": "application/json", "content-length": String(Buffer.byteLength(payload)) });
+  res.end(payload);
+}
+
+/**
+ * Describe an upstream timeout for the client
+ * (OS-level connection timeouts carry no phase)
+ */
+function timeoutMessage(target: Route, err: UpstreamError): string {
+  return err.phase ? `Upstream ${target.name} ${err.phase} timeout` : `Upstream ${target.name} timed out`;
+}
+
+/**
+ * End a started event stream with an error event
+ * (an error chunk for OpenAI clients)
+ * A partially sent event is terminated first so the error event parses on its own.
+ */
+function sendStreamError(res: ServerResponse, type: AnthropicErrorType, message: string, isOpenAIClient: boolean, partialEvent = false): void {
+  if (res.writableEnded) return;
+  const body = JSON.stringify(anthropicError(type, message));
+  const event = isOpenAIClient ? `data: ${toOpenAIResponseBody(body, 500)}\n\n` : `event: error\ndata: ${body}\n\n`;
+  res.end(partialEvent ? "\n\n" + event : event);
+}
+
+/**
+ * Report proxy and upstream health: whether the proxy is draining, and circuit breaker
+ * state and connection counters of every configured upstream
+ */
+function handleStatusRequest(
+  req: IncomingMessage,
+  res: ServerResponse,
+  config: Config,
+  breakers: CircuitBreakerRegistry,
+  pools: ConnectionPools,
+  limiters: ConcurrencyLimiterRegistry,
+  drain: DrainStatus
+): void {
+  if (req.method !== "GET") {
+    sendJson(res, 405, { error: "method_not_allowed", message: `${req.method} ${STATUS_ENDPOINT} is not supported` });
+    return;
+  }
+
+  const upstreams: Record<string, { circuit: CircuitStatus; pool: PoolStats; concurrency: ConcurrencyStats }> = {};
+  for (const [name, upstream] of Object.entries(config.upstream)) {
+    upstreams[name] = {
+      circuit: breakers.get(name, upstream.circuitBreaker).status(),
+      pool: pools.stats(name),
+      concurrency: limiters.stats(name),
+    };
+  }
+  sendJson(res, 200, { ...drain, upstreams });
+}
+
+/**
+ * Handle session management requests from the launcher
+ * POST registers project routing, GET lists sessions, DELETE /<id> removes one
+ */
+async function handleSessionRequest(
+  req: IncomingMessage,
+  res: ServerResponse,
+  sessions: SessionRegistry,
+  reqLog: ChildLogger
+): Promise<void> {
+  const method = req.method ?? "GET";
+  const path = (req.url ?? "/").split("?")[0];
+
+  if (path === SESSIONS_ENDPOINT && method === "GET") {
+    sendJson(res, 200, { sessions: sessions.list().map(({ id, project, createdAt }) => ({ id, project, createdAt })) });
+    return;
+  }
+
+  if (path === SESSIONS_ENDPOINT && method === "POST") {
+    const chunks: Buffer[] = [];
+    let totalSize = 0;
+    for await (const chunk of req) {
+      totalSize += (chunk as Buffer).length;
+      if (totalSize > MAX_SESSION_BODY_SIZE) {
+        sendJson(res, 413, { error: "payload_too_large", message: "Request body exceeds maximum size" });
+        return;
+      }
+      chunks.push(chunk as Buffer);
+    }
+
+    const body = parseRequestBodyAsObject(Buffer.concat(chunks));
+    if (!body) {
+      sendJson(res, 400, { error: "invalid_request", message: "Request body must be a JSON object" });
+      return;
+    }
+
+    const project = typeof body.project === "string" ? body.project : undefined;
+    try {
+      const session = sessions.register(body.routing, project);
+      reqLog.info(`session registered`, { session: session.id, project });
+      sendJson(res, 201, { id: session.id, prefix: sessionPathPrefix(session.id) });
+    } catch (err) {
+      const error = err as Error;
+      reqLog.warn(`session rejected: ${error.message}`, { project, status: 400 });
+      sendJson(res, 400, { error: "invalid_request", message: error.message });
+    }
+    return;
+  }
+
+  const id = path.slice(SESSIONS_ENDPOINT.length + 1);
+  if (method === "DELETE" && id && !id.includes("/")) {
+    if (sessions.remove(id)) {
+      reqLog.info(`session removed`, { session: id });
+      res.writeHead(204);
+      res.end();
+    } else {
+      sendJson(res, 404, { error: "not_found", message: `Unknown cc-glm session ${id}` });
+    }
+    return;
+  }
+
+  sendJson(res, 405, { error: "method_not_allowed", message: `${method} ${path} is not supported` });
 }
 
 /**
@@ -397,6 +1425,116 @@ function hasRequestBody(req: IncomingMessage): boolean {
   );
 }
 
+/**
+ * Check whether a request URL targets the Messages API endpoint
+ */
+function isMessagesPath(reqUrl: string): boolean {
+  return reqUrl.split("?")[0].replace(/\/$/, "") === "/v1/messages";
+}
+
+/**
+ * Check whether a request URL targets the Messages token counting endpoint
+ */
+function isCountTokensPath(reqUrl: string): boolean {
+  return reqUrl.split("?")[0].replace(/\/$/, "") === "/v1/messages/count_tokens";
+}
+
+/**
+ * Check whether a request URL targets the OpenAI chat completions endpoint
+ */
+function isChatCompletionsPath(reqUrl: string): boolean {
+  return reqUrl.split("?")[0].replace(/\/$/, "") === "/v1/chat/completions";
+}
+
+/**
+ * Feed the output of one stream translator into another
+ */
+function chainTranslators(first: StreamTranslator, second: StreamTranslator): StreamTranslator {
+  return {
+    push: (chunk) => second.push(first.push(chunk)),
+    end: () => second.push(first.end()) + second.end(),
+  };
+}
+
+/**
+ * Relay an OpenAI Chat Completions response to the client in Anthropic format
+ * Streaming responses are translated incrementally; JSON responses are buffered
+ */
+function relayOpenAIResponse(
+  ctx: RequestContext,
+  proxyRes: UpstreamResponse,
+  requestModel: string | undefined,
+  reqLog: ChildLogger,
+  upstreamName: string,
+  startTime: number,
+  restoredModel?: string
+): void {
+  const { res } = ctx;
+  const statusCode = proxyRes.statusCode || 0;
+  const contentType = proxyRes.headers["content-type"] ?? "";
+  const upstreamModelFields = restoredModel ? { upstreamModel: requestModel } : {};
+  const logFields = () => ({ status: statusCode, durationMs: Date.now() - startTime, upstream: upstreamName, ...upstreamModelFields });
+  const modelHeaders: Record<string, string> = restoredModel && requestModel ? { [UPSTREAM_MODEL_HEADER]: requestModel } : {};
+
+  if (statusCode < 400 && contentType.includes("text/event-stream")) {
+    reqLog.info(`<- ${statusCode}`, logFields());
+    res.writeHead(statusCode, { "content-type": "text/event-stream", "cache-control": "no-cache", ...modelHeaders });
+    const translator = new OpenAIStreamTranslator(requestModel);
+    pipeResponse(ctx, proxyRes, true, restoredModel ? chainTranslators(translator, new ModelRestoreStream(restoredModel)) : translator);
+    return;
+  }
+
+  // Buffer JSON (or error) responses with size limit
+  const chunks: Buffer[] = [];
+  let totalSize = 0;
+
+  proxyRes.on("data", (chunk: Buffer) => {
+    totalSize += chunk.length;
+    if (totalSize > MAX_TRANSFORM_SIZE) {
+      reqLog.error("Transform buffer exceeded limit", logFields());
+      proxyRes.destroy();
+      sendError(res, 502, "api_error", "Response too large to transform");
+      return;
+    }
+    chunks.push(chunk);
+  });
+
+  proxyRes.on("end", () => {
+    if (res.writableEnded) return;
+    const body = Buffer.concat(chunks).toString();
+    let processed: string;
+
+    if (statusCode >= 400) {
+      const excerpt = body.length > MAX_BODY_EXCERPT ? body.slice(0, MAX_BODY_EXCERPT) : body;
+      reqLog.warn(`<- ${statusCode}`, { ...logFields(), bodyExcerpt: excerpt });
+      processed = JSON.stringify(fromOpenAIError(statusCode, body));
+    } else {
+      try {
+        processed = JSON.stringify(fromOpenAIResponse(JSON.parse(body), requestModel));
+        if (restoredModel) {
+          processed = restoreResponseModel(processed, restoredModel);
+        }
+      } catch (err) {
+        const error = err as Error;
+        reqLog.error(`Transform error: ${error.message}`, logFields());
+        sendError(res, 502, "api_error", `Transform error: ${error.message}`);
+        return;
+      }
+      reqLog.info(`<- ${statusCode}`, logFields());
+    }
+
+    // Keep retry-after so clients back off as the upstream asks
+    const retryAfter = proxyRes.headers["retry-after"];
+    res.writeHead(statusCode || 200, {
+      "content-type": "application/json",
+      "content-length": String(Buffer.byteLength(processed)),
+      ...(statusCode >= 400 && retryAfter ? { "retry-after": retryAfter } : {}),
+      ...modelHeaders,
+    });
+    res.end(processed);
+  });
+}
+
 /**
  * Parse Connection header to extract additional hop-by-hop header names
  * per RFC 7230 Section 6.1
@@ -480,15 +1618,20 @@ function buildForwardHeaders(
     forwardHeaders["content-length"] = String(Buffer.byteLength(forwardBody));
   }
 
-  // Replace authorization for z.ai
-  // Always delete authorization when routing to z.ai to prevent OAuth token leakage
-  if (target.name === "zai") {
-    delete forwardHeaders["authorization"];
-    if (target.apiKey) {
-      forwardHeaders["x-api-key"] = target.apiKey;
+  // OpenAI-compatible backends don't understand Anthropic-specific headers
+  if (target.type === "openai") {
+    for (const key of Object.keys(forwardHeaders)) {
+      const keyLower = key.toLowerCase();
+      if (keyLower.startsWith("anthropic-") || keyLower === "x-api-key") {
+        delete forwardHeaders[key];
+      }
     }
+    forwardHeaders["content-type"] = "application/json";
   }
 
+  // Apply upstream credentials (keyed modes always drop client credentials to prevent OAuth token leakage)
+  applyAuth(forwardHeaders, target);
+
   return forwardHeaders;
 }
 
@@ -536,7 +1679,7 @@ function buildResponseHeaders(
 }
 
 /** Export for standalone usage */
-export async function startProxy(config: Config, logger: Logger): Promise<Server> {
+export async function startProxy(config: Config, logger: Logger): Promise<ProxyServer> {
   return createProxyServer(config, logger);
 }
 
@@ -546,7 +1689,19 @@ if (import.meta.url === `file://${process.argv[1]}`) {
     .then(({ config }) => {
       const logFilePath = config.logging.file ?? join(config.lifecycle.stateDir, "cc-glm.jsonl");
       const logger = new Logger(config.logging, { logFilePath, stderr: false });
-      createProxyServer(config, logger);
+      const server = createProxyServer(config, logger);
+
+      // SingletonProxy.stop() sends SIGTERM: let other sessions' streams finish, then exit
+      const drainSeconds = config.lifecycle.drainSeconds ?? DEFAULT_DRAIN_SECONDS;
+      const shutdown = (signal: NodeJS.Signals) => {
+        logger.log("info", `${signal} received, shutting down`, { component: "proxy" });
+        void server.drain(drainSeconds).then(() => {
+          // Log file writes are synchronous; flush stdout and stderr (proxy.log) before exiting
+          process.stdout.write("", () => process.stderr.write("", () => process.exit(0)));
+        });
+      };
+      process.on("SIGTERM", shutdown);
+      process.on("SIGINT", shutdown);
     })
     .catch((err) => {
       process.stderr.write(`Failed to start proxy: ${err}\n`);
@@ -0,0 +1,104 @@
+/**
+ * Project sessions
+ * Launchers register per-project routing with the shared proxy and send
+ * requests under a session path prefix that selects that routing.
+ */
+
+import { randomBytes } from "node:crypto";
+import type { Config } from "../config/types.js";
+import { mergeProjectRouting } from "../config/loader.js";
+
+/** Endpoint for registering (POST), listing (GET) and removing (DELETE /:id) sessions */
+export const SESSIONS_ENDPOINT = "/_cc-glm/sessions";
+
+/** Path prefix for requests of a session: /_cc-glm/s/<id>/v1/messages */
+const SESSION_PATH_PREFIX = "/_cc-glm/s/";
+
+/** Maximum number of registered sessions (oldest are evicted) */
+const MAX_SESSIONS = 256;
+
+/** Registered project session */
+export interface ProjectSession {
+  id: string;
+  /** Project directory the routing came from */
+  project?: string;
+  /** Global config with the project's routing applied */
+  config: Config;
+  createdAt: string;
+}
+
+/**
+ * Build the path prefix for a session ID
+ */
+export function sessionPathPrefix(id: string): string {
+  return SESSION_PATH_PREFIX + id;
+}
+
+/**
+ * Split a session-prefixed request URL into the session ID and the upstream path
+ * Returns null for URLs without a session prefix
+ */
+export function parseSessionPath(reqUrl: string): { sessionId: string; path: string } | null {
+  if (!reqUrl.startsWith(SESSION_PATH_PREFIX)) {
+    return null;
+  }
+  const rest = reqUrl.slice(SESSION_PATH_PREFIX.length);
+  const end = rest.search(/[/?]/);
+  const sessionId = end === -1 ? rest : rest.slice(0, end);
+  const path = end === -1 ? "/" : rest.slice(end);
+  return { sessionId, path: path.startsWith("?") ? "/" + path : path };
+}
+
+/**
+ * In-memory registry of project sessions
+ * Sessions are lost when the proxy restarts; requests for unknown sessions are
+ * rejected rather than routed with the global rules.
+ */
+export class SessionRegistry {
+  private sessions: Map<string, ProjectSession>;
+  private config: Config;
+
+  constructor(config: Config) {
+    this.config = config;
+    this.sessions = new Map();
+  }
+
+  /**
+   * Validate project routing and register a new session
+   * Throws when the routing is invalid for the proxy's upstreams
+   */
+  register(routing: unknown, project?: string): ProjectSession {
+    const merged = mergeProjectRouting(routing, this.config);
+
+    if (this.sessions.size >= MAX_SESSIONS) {
+      const oldest = this.sessions.keys().next().value;
+      if (oldest !== undefined) {
+        this.sessions.delete(oldest);
+      }
+    }
+
+    const session: ProjectSession = {
+      id: randomBytes(12).toString("hex"),
+      ...(project !== undefined ? { project } : {}),
+      config: { ...this.config, routing: merged },
+      createdAt: new Date().toISOString(),
+    };
+    this.sessions.set(session.id, session);
+    return session;
+  }
+
+  /** Look up a session by ID */
+  get(id: string): ProjectSession | undefined {
+    return this.sessions.get(id);
+  }
+
+  /** Remove a session; returns false when it was not registered */
+  remove(id: string): boolean {
+    return this.sessions.delete(id);
+  }
+
+  /** List registered sessions in registration order */
+  list(): ProjectSession[] {
+    return [...this.sessions.values()];
+  }
+}
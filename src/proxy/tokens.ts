@@ -0,0 +1,49 @@
+/**
+ * Input token estimation
+ * Approximates Messages request sizes without a tokenizer
+ */
+
+/** Average characters per token for mixed prose and code */
+const CHARS_PER_TOKEN = 4;
+
+/** Approximate cost of one image (a full-size image is about 1600 tokens) */
+const IMAGE_TOKENS = 1600;
+
+/** Block fields that are not sent to the model as text */
+const IGNORED_FIELDS = new Set(["type", "role", "id", "tool_use_id", "signature", "cache_control", "source"]);
+
+/**
+ * Estimate the input tokens of a Messages request
+ * Counts system prompt, message content and tool definitions
+ */
+export function estimateInputTokens(body: Record<string, unknown>): number {
+  let chars = 0;
+  let images = 0;
+
+  const visit = (value: unknown): void => {
+    if (typeof value === "string") {
+      chars += value.length;
+    } else if (Array.isArray(value)) {
+      value.forEach(visit);
+    } else if (value && typeof value === "object") {
+      const block = value as Record<string, unknown>;
+      if (block.type === "image") {
+        images++;
+        return;
+      }
+      for (const [key, field] of Object.entries(block)) {
+        if (!IGNORED_FIELDS.has(key)) {
+          visit(field);
+        }
+      }
+    }
+  };
+
+  visit(body.system);
+  visit(body.messages);
+  if (Array.isArray(body.tools)) {
+    chars += JSON.stringify(body.tools).length;
+  }
+
+  return Math.ceil(chars / CHARS_PER_TOKEN) + images * IMAGE_TOKENS;
+}
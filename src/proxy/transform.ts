@@ -3,7 +3,9 @@
  * Handles conversion between different API response formats
  */
 
-import type { ContentBlock, MessageRequestBody, Message } from "./types.js";
+import { StringDecoder } from "node:string_decoder";
+import type { ForeignReasoningPolicy } from "../config/types.js";
+import type { ContentBlock, MessageRequestBody, Message, Route } from "./types.js";
 import type { SignatureStore } from "./signature-store.js";
 
 /**
@@ -170,13 +172,30 @@ function sanitizeThinkingBlock(block: ContentBlock): ContentBlock {
 
 /**
  * Check if a request should be transformed
- * Only transform requests to Anthropic upstream
+ * Only transform requests to upstreams with sanitizeRequest enabled
+ * (a plain upstream name refers to the built-in default: "anthropic")
  */
 export function shouldTransformRequest(
   contentType: string | undefined,
-  upstream: string
+  upstream: string | Pick<Route, "sanitizeRequest">
 ): boolean {
-  if (upstream !== "anthropic") return false;
+  const enabled = typeof upstream === "string" ? upstream === "anthropic" : upstream.sanitizeRequest;
+  if (!enabled) return false;
+  if (!contentType) return false;
+  return contentType.includes("application/json");
+}
+
+/**
+ * Check if a request to a non-Anthropic upstream should be sanitized
+ * Only sanitize requests to upstreams with sanitizeForeignRequest enabled
+ * (a plain upstream name refers to the built-in default: "zai")
+ */
+export function shouldSanitizeForeignRequest(
+  contentType: string | undefined,
+  upstream: string | Pick<Route, "sanitizeForeignRequest">
+): boolean {
+  const enabled = typeof upstream === "string" ? upstream === "zai" : upstream.sanitizeForeignRequest;
+  if (!enabled) return false;
   if (!contentType) return false;
   return contentType.includes("application/json");
 }
@@ -214,18 +233,108 @@ export function extractAndRecordSignatures(
   }
 }
 
+/**
+ * Record signatures from an Anthropic Messages SSE stream
+ * Observes the stream without modifying it: feed the raw upstream chunks to push()
+ * while they are forwarded to the client. Signatures arrive in signature_delta
+ * events and are recorded when their thinking block completes (content_block_stop),
+ * so blocks cut off by an aborted stream are never recorded.
+ */
+export class SignatureStreamRecorder {
+  private buffer = "";
+  private decoder = new StringDecoder("utf8");
+  private store: SignatureStore;
+  /** Signatures of open thinking blocks by content block index */
+  private pending = new Map<number, string>();
+
+  constructor(store: SignatureStore) {
+    this.store = store;
+  }
+
+  /**
+   * Observe a chunk of upstream SSE data
+   */
+  push(chunk: Buffer | string): void {
+    this.buffer += typeof chunk === "string" ? chunk : this.decoder.write(chunk);
+
+    let newlineIndex: number;
+    while ((newlineIndex = this.buffer.indexOf("\n")) >= 0) {
+      const line = this.buffer.slice(0, newlineIndex).replace(/\r$/, "");
+      this.buffer = this.buffer.slice(newlineIndex + 1);
+      this.processLine(line);
+    }
+  }
+
+  /**
+   * Process any trailing line when the upstream stream ends
+   */
+  end(): void {
+    this.buffer += this.decoder.end();
+    if (this.buffer) {
+      this.processLine(this.buffer.replace(/\r$/, ""));
+      this.buffer = "";
+    }
+    this.pending.clear();
+  }
+
+  private processLine(line: string): void {
+    // Event type is repeated in the data payload, so only data lines matter
+    if (!line.startsWith("data:")) return;
+
+    let event: Record<string, unknown>;
+    try {
+      event = JSON.parse(line.slice(5).trim()) as Record<string, unknown>;
+    } catch {
+      return;
+    }
+
+    const index = event.index;
+    if (typeof index !== "number") return;
+
+    switch (event.type) {
+      case "content_block_start": {
+        const block = (event.content_block ?? {}) as ContentBlock;
+        if (block.type === "thinking") {
+          this.pending.set(index, typeof block.signature === "string" ? block.signature : "");
+        }
+        break;
+      }
+      case "content_block_delta": {
+        const delta = (event.delta ?? {}) as Record<string, unknown>;
+        const signature = this.pending.get(index);
+        if (delta.type === "signature_delta" && signature !== undefined && typeof delta.signature === "string") {
+          this.pending.set(index, signature + delta.signature);
+        }
+        break;
+      }
+      case "content_block_stop": {
+        const signature = this.pending.get(index);
+        this.pending.delete(index);
+        if (signature) {
+          this.store.add(signature);
+        }
+        break;
+      }
+    }
+  }
+}
+
 /**
  * Sanitize request body content blocks for Anthropic API with signature checking
- * Converts thinking blocks with unrecorded signatures (z.ai origin) to text blocks
+ * Converts thinking blocks with unrecorded signatures (z.ai origin) to text blocks,
+ * or removes them, according to the policy
  * Preserves thinking blocks with recorded signatures (Anthropic origin)
  *
  * @param requestBody - The request body string
  * @param store - The SignatureStore to check signatures against
+ * @param policy - How z.ai reasoning is represented; mode "keep" is treated as "text"
+ *   because unsigned thinking blocks fail signature validation
  * @returns The sanitized request body string
  */
 export function sanitizeContentBlocksWithStore(
   requestBody: string,
-  store: SignatureStore
+  store: SignatureStore,
+  policy: ForeignReasoningPolicy = {}
 ): string {
   try {
     const parsed = JSON.parse(requestBody) as MessageRequestBody;
@@ -235,33 +344,25 @@ export function sanitizeContentBlocksWithStore(
       return requestBody;
     }
 
+    const renderer = new ForeignReasoningRenderer(
+      policy.mode === "keep" ? { ...policy, mode: "text" } : policy,
+      GLM_REASONING_TEMPLATE,
+      parsed.messages
+    );
     let sanitized = false;
 
-    // Process each message
-    const newMessages = parsed.messages.map((msg) => {
-      const result = sanitizeMessageWithStore(msg, store);
+    // Process messages newest first so the character budget favors recent reasoning
+    const newMessages = [...parsed.messages];
+    for (let i = newMessages.length - 1; i >= 0; i--) {
+      const msg = newMessages[i];
+      const result = sanitizeMessageWithStore(msg, store, (block) => renderer.render(block, extractThinkingText(block), i));
       if (result !== msg) {
         sanitized = true;
+        newMessages[i] = result;
       }
-      return result;
-    });
-
-    let messages = sanitized ? newMessages : parsed.messages;
-
-    // Structural validation (order matters):
-    // 1. sanitizeMessageStructure: remove leading non-user, merge consecutive same-role, remove empty
-    // 2. removeOrphanedToolResults: convert orphaned tool_results to text
-    // sanitizeMessageStructure runs first because removing leading assistant messages
-    // can create new orphaned tool_results in the following user messages.
-    const structureSanitized = sanitizeMessageStructure(messages);
-    if (structureSanitized !== messages) {
-      messages = structureSanitized;
     }
 
-    const validatedMessages = removeOrphanedToolResults(messages);
-    if (validatedMessages !== messages) {
-      messages = validatedMessages;
-    }
+    const messages = repairMessageStructure(sanitized ? newMessages : parsed.messages);
 
     if (messages !== parsed.messages) {
       parsed.messages = messages;
@@ -279,11 +380,191 @@ export function sanitizeContentBlocksWithStore(
   }
 }
 
+/**
+ * Repair message structure broken by context compaction or removed blocks
+ * Order matters:
+ * 1. sanitizeMessageStructure: remove leading non-user, merge consecutive same-role, remove empty
+ * 2. removeOrphanedToolResults: convert orphaned tool_results to text
+ * sanitizeMessageStructure runs first because removing leading assistant messages
+ * can create new orphaned tool_results in the following user messages.
+ */
+function repairMessageStructure(messages: Message[]): Message[] {
+  return removeOrphanedToolResults(sanitizeMessageStructure(messages));
+}
+
+/** Default text of converted z.ai reasoning */
+const GLM_REASONING_TEMPLATE = "<previous-glm-reasoning>\n{reasoning}\n</previous-glm-reasoning>";
+
+/** Default text of converted Anthropic reasoning */
+const CLAUDE_REASONING_TEMPLATE = "<previous-claude-reasoning>\n{reasoning}\n</previous-claude-reasoning>";
+
+/** Placeholder replaced with the reasoning in templates */
+export const REASONING_PLACEHOLDER = "{reasoning}";
+
+/** Appended to reasoning cut off by the character budget */
+const TRUNCATION_MARKER = "\n[truncated]";
+
+/** Replacement of a foreign thinking block; null removes it */
+type ReasoningConverter = (block: ContentBlock) => ContentBlock | null;
+
+/**
+ * Applies a foreign reasoning policy to the reasoning blocks of one request
+ * Blocks should be rendered newest first: the character budget is spent in call order.
+ */
+class ForeignReasoningRenderer {
+  private policy: ForeignReasoningPolicy;
+  private template: string;
+  /** Turn of each message, counted from the end (0 = the current turn) */
+  private turns: number[];
+  private remaining: number;
+
+  constructor(policy: ForeignReasoningPolicy, defaultTemplate: string, messages: Message[]) {
+    this.policy = policy;
+    this.template = policy.template ?? defaultTemplate;
+    this.remaining = policy.maxChars ?? Infinity;
+
+    // A turn starts with a user prompt; tool_result-only user messages continue it
+    this.turns = new Array<number>(messages.length);
+    let turn = 0;
+    for (let i = messages.length - 1; i >= 0; i--) {
+      this.turns[i] = turn;
+      if (isUserPrompt(messages[i])) {
+        turn++;
+      }
+    }
+  }
+
+  /**
+   * Represent the reasoning of a thinking block in the message at the given index
+   * @returns The replacement block, or null to remove the block
+   */
+  render(block: ContentBlock, text: string, messageIndex: number): ContentBlock | null {
+    const { mode = "text", keepTurns } = this.policy;
+    if (mode === "drop") return null;
+    if (keepTurns !== undefined && this.turns[messageIndex] >= keepTurns) return null;
+    if (this.remaining <= 0) return null;
+
+    let reasoning = text;
+    if (reasoning.length > this.remaining) {
+      reasoning = reasoning.slice(0, this.remaining) + TRUNCATION_MARKER;
+      this.remaining = 0;
+    } else {
+      this.remaining -= reasoning.length;
+    }
+
+    if (mode === "keep") {
+      const { signature: _signature, ...rest } = block;
+      return reasoning === text ? (rest as ContentBlock) : ({ ...rest, thinking: reasoning } as ContentBlock);
+    }
+    return { type: "text", text: this.template.replaceAll(REASONING_PLACEHOLDER, () => reasoning) };
+  }
+}
+
+/**
+ * Check whether a message is a user prompt rather than only tool results
+ */
+function isUserPrompt(message: Message): boolean {
+  if (message?.role !== "user") return false;
+  if (!Array.isArray(message.content)) return true;
+  return message.content.some((block) => block?.type !== "tool_result");
+}
+
+/**
+ * Sanitize request body content blocks for a non-Anthropic upstream (e.g. z.ai)
+ * Anthropic thinking blocks (non-empty signature; z.ai blocks lose theirs in
+ * transformThinkingBlocks) are represented according to the policy mode:
+ * - keep: forwarded as thinking blocks without the signature
+ * - text: converted to text blocks (<previous-claude-reasoning> by default)
+ * - drop: removed
+ * keepTurns and maxChars limit how much of the reasoning is sent.
+ * redacted_thinking blocks carry no readable content and are always removed.
+ * The message structure is repaired afterwards, as for Anthropic requests.
+ *
+ * @param requestBody - The request body string
+ * @param policy - How Anthropic reasoning is represented
+ * @returns The sanitized request body string
+ */
+export function sanitizeForeignContentBlocks(requestBody: string, policy: ForeignReasoningPolicy = {}): string {
+  try {
+    const parsed = JSON.parse(requestBody) as MessageRequestBody;
+
+    // Check if we have messages array to process
+    if (!parsed.messages || !Array.isArray(parsed.messages)) {
+      return requestBody;
+    }
+
+    const renderer = new ForeignReasoningRenderer(policy, CLAUDE_REASONING_TEMPLATE, parsed.messages);
+    let sanitized = false;
+
+    // Process messages newest first so the character budget favors recent reasoning
+    const newMessages = [...parsed.messages];
+    for (let i = newMessages.length - 1; i >= 0; i--) {
+      const msg = newMessages[i];
+      if (!Array.isArray(msg.content)) continue;
+      const content = sanitizeForeignBlocks(msg.content, (block) => renderer.render(block, extractThinkingText(block), i));
+      if (content !== msg.content) {
+        sanitized = true;
+        newMessages[i] = { ...msg, content };
+      }
+    }
+
+    const messages = repairMessageStructure(sanitized ? newMessages : parsed.messages);
+
+    if (messages !== parsed.messages) {
+      parsed.messages = messages;
+      return JSON.stringify(parsed);
+    }
+
+    return requestBody;
+  } catch {
+    // Not JSON or parse error, return as-is
+    return requestBody;
+  }
+}
+
+/**
+ * Represent Anthropic reasoning blocks of a content array (including tool_result content)
+ * @returns The array (same reference if unchanged) or a rewritten copy
+ */
+function sanitizeForeignBlocks(content: ContentBlock[], convert: ReasoningConverter): ContentBlock[] {
+  let wasModified = false;
+  const newContent: ContentBlock[] = [];
+
+  for (const block of content) {
+    if (block?.type === "redacted_thinking") {
+      wasModified = true;
+      continue;
+    }
+
+    if (block?.type === "thinking" && typeof block.signature === "string" && block.signature) {
+      wasModified = true;
+      const converted = convert(block);
+      if (converted) {
+        newContent.push(converted);
+      }
+      continue;
+    }
+
+    if (block?.type === "tool_result" && Array.isArray(block.content)) {
+      const nested = sanitizeForeignBlocks(block.content as ContentBlock[], convert);
+      if (nested !== block.content) {
+        wasModified = true;
+        newContent.push({ ...block, content: nested });
+        continue;
+      }
+    }
+
+    newContent.push(block);
+  }
+
+  return wasModified ? newContent : content;
+}
+
 /**
  * Sanitize a single message with signature checking
- * Converts unrecorded thinking blocks to text blocks
+ * Converts unrecorded thinking blocks with the converter
  */
-function sanitizeMessageWithStore(message: Message, store: SignatureStore): Message {
+function sanitizeMessageWithStore(message: Message, store: SignatureStore, convert: ReasoningConverter): Message {
   // If content is a string, no processing needed
   if (typeof message.content === "string") {
     return message;
@@ -299,11 +580,13 @@ function sanitizeMessageWithStore(message: Message, store: SignatureStore): Mess
   const newContent: ContentBlock[] = [];
 
   for (const block of message.content) {
-    const sanitized = sanitizeContentBlockWithStore(block, store);
+    const sanitized = sanitizeContentBlockWithStore(block, store, convert);
     if (sanitized !== block) {
       wasModified = true;
     }
-    newContent.push(sanitized);
+    if (sanitized) {
+      newContent.push(sanitized);
+    }
   }
 
   if (wasModified) {
@@ -315,7 +598,8 @@ function sanitizeMessageWithStore(message: Message, store: SignatureStore): Mess
 
 /**
  * Sanitize a single content block with signature checking
- * Converts thinking blocks with unrecorded signatures to text blocks
+ * Converts thinking blocks with unrecorded signatures with the converter
+ * @returns The block, its replacement, or null when it is removed
  *
  * Detection logic (order matters):
  * 1. Signature in store → keep as-is (confirmed Anthropic origin)
@@ -325,8 +609,9 @@ function sanitizeMessageWithStore(message: Message, store: SignatureStore): Mess
  */
 function sanitizeContentBlockWithStore(
   block: ContentBlock,
-  store: SignatureStore
-): ContentBlock {
+  store: SignatureStore,
+  convert: ReasoningConverter
+): ContentBlock | null {
   // Handle thinking blocks - check signature
   if (block.type === "thinking") {
     const signature = block.signature;
@@ -338,7 +623,7 @@ function sanitizeContentBlockWithStore(
 
     // 2. Has "thinking" sub-field → z.ai specific structure
     if (block.thinking !== undefined) {
-      return convertThinkingToText(block);
+      return convert(block);
     }
 
     // 3. Has non-empty signature string → likely Anthropic origin
@@ -350,7 +635,7 @@ function sanitizeContentBlockWithStore(
     }
 
     // 4. No signature, no thinking sub-field → z.ai origin
-    return convertThinkingToText(block);
+    return convert(block);
   }
 
   // Handle tool_result blocks which may contain nested content
@@ -361,11 +646,13 @@ function sanitizeContentBlockWithStore(
       const newContent: ContentBlock[] = [];
 
       for (const nestedBlock of content) {
-        const sanitized = sanitizeContentBlockWithStore(nestedBlock, store);
+        const sanitized = sanitizeContentBlockWithStore(nestedBlock, store, convert);
         if (sanitized !== nestedBlock) {
           wasModified = true;
         }
-        newContent.push(sanitized);
+        if (sanitized) {
+          newContent.push(sanitized);
+        }
       }
 
       if (wasModified) {
@@ -569,45 +856,6 @@ function convertToolResultToText(block: ContentBlock): ContentBlock {
   return { type: "text", text };
 }
 
-/**
- * Convert a thinking block to a text block
- * Extracts the thinking content and wraps it in a text block with a prefix
- */
-function convertThinkingToText(block: ContentBlock): ContentBlock {
-  // Extract thinking content
-  let thinkingText = "";
-
-  if (typeof block.thinking === "string") {
-    thinkingText = block.thinking;
-  } else if (typeof block.content === "string") {
-    thinkingText = block.content;
-  } else if (typeof block.thinking === "object" && block.thinking !== null) {
-    const thinkingObj = block.thinking as Record<string, unknown>;
-    if (typeof thinkingObj.content === "string") {
-      thinkingText = thinkingObj.content;
-    } else if (typeof thinkingObj.thinking === "string") {
-      thinkingText = thinkingObj.thinking;
-    } else if (typeof thinkingObj.text === "string") {
-      thinkingText = thinkingObj.text;
-    } else {
-      thinkingText = JSON.stringify(thinkingObj);
-    }
-  } else if (typeof block.content === "object" && block.content !== null) {
-    const contentObj = block.content as Record<string, unknown>;
-    if (typeof contentObj.text === "string") {
-      thinkingText = contentObj.text;
-    } else {
-      thinkingText = JSON.stringify(contentObj);
-    }
-  }
-
-  // Create text block with XML tag wrapper
-  return {
-    type: "text",
-    text: `<previous-glm-reasoning>\n${thinkingText}\n</previous-glm-reasoning>`,
-  };
-}
-
 interface AnthropicMessageResponse {
   id?: string;
   type?: string;
@@ -622,6 +870,45 @@ interface AnthropicMessageResponse {
   [key: string]: unknown;
 }
 
+/**
+ * Extract the reasoning text of a z.ai thinking block
+ * Used for responses (buffered and streamed) and for requests alike, so the same
+ * block always yields the same text. Precedence: the thinking field as a string,
+ * then content as a string, then a nested thinking object (content, thinking, text),
+ * then a nested content object (text).
+ */
+function extractThinkingText(block: ContentBlock): string {
+  if (typeof block.thinking === "string") {
+    return block.thinking;
+  }
+  if (typeof block.content === "string") {
+    return block.content;
+  }
+  if (typeof block.thinking === "object" && block.thinking !== null) {
+    // thinking is an object - extract from nested properties
+    const thinkingObj = block.thinking as Record<string, unknown>;
+    // Try multiple possible properties in order of preference
+    if (typeof thinkingObj.content === "string") {
+      return thinkingObj.content;
+    }
+    if (typeof thinkingObj.thinking === "string") {
+      // Handle nested thinking.thinking structure
+      return thinkingObj.thinking;
+    }
+    if (typeof thinkingObj.text === "string") {
+      return thinkingObj.text;
+    }
+    // Stringify the object as fallback
+    return JSON.stringify(thinkingObj);
+  }
+  if (typeof block.content === "object" && block.content !== null) {
+    const contentObj = block.content as Record<string, unknown>;
+    return typeof contentObj.text === "string" ? contentObj.text : JSON.stringify(contentObj);
+  }
+  // No content found, use empty string
+  return "";
+}
+
 /**
  * Transform z.ai thinking blocks to Anthropic-compatible format
  * Handles invalid signature fields and format differences
@@ -643,37 +930,10 @@ export function transformThinkingBlocks(response: string): string {
       for (const block of parsed.content) {
         if (block.type === "thinking") {
           // Transform thinking block to Anthropic-compatible format
-          const newBlock: ContentBlock = { type: "thinking" };
-
-          // Copy safe fields - prioritize existing content field
-          if (typeof block.content === "string") {
-            newBlock.content = block.content;
-          } else if (typeof block.thinking === "string") {
-            newBlock.content = block.thinking;
-          } else if (typeof block.thinking === "object" && block.thinking !== null) {
-            // thinking is an object - extract from nested properties
-            const thinkingObj = block.thinking as Record<string, unknown>;
-            // Try multiple possible properties in order of preference
-            if (typeof thinkingObj.content === "string") {
-              newBlock.content = thinkingObj.content;
-            } else if (typeof thinkingObj.thinking === "string") {
-              // Handle nested thinking.thinking structure
-              newBlock.content = thinkingObj.thinking;
-            } else if (typeof thinkingObj.text === "string") {
-              newBlock.content = thinkingObj.text;
-            } else {
-              // Stringify the object as fallback
-              newBlock.content = JSON.stringify(thinkingObj);
-            }
-          } else {
-            // No content found, use empty string
-            newBlock.content = "";
-          }
-
-          // Only include valid Anthropic fields
-          // Anthropic expects: { type: "thinking", content: "..." }
+          // Anthropic expects: { type: "thinking", thinking: "..." } (the shape
+          // ThinkingStreamTransformer produces for streamed responses)
           // Remove z.ai specific fields like invalid signature
-          newContent.push(newBlock);
+          newContent.push({ type: "thinking", thinking: extractThinkingText(block) });
           transformed = true;
         } else {
           // Keep non-thinking blocks as-is
@@ -711,13 +971,169 @@ export function transformThinkingBlocks(response: string): string {
 
 /**
  * Check if a response should be transformed
- * Only transform responses from z.ai upstream
+ * Only transform responses from upstreams with transformResponse enabled
+ * (a plain upstream name refers to the built-in default: "zai")
  */
 export function shouldTransformResponse(
   contentType: string | undefined,
-  upstream: string
+  upstream: string | Pick<Route, "transformResponse">
 ): boolean {
-  if (upstream !== "zai") return false;
+  const enabled = typeof upstream === "string" ? upstream === "zai" : upstream.transformResponse;
+  if (!enabled) return false;
   if (!contentType) return false;
-  return contentType.includes("application/json");
+  return contentType.includes("application/json") || contentType.includes("text/event-stream");
+}
+
+/** Rewrite of a single SSE event payload: same reference if unchanged, a new payload, or null to drop the event */
+type SseEventRewrite = (event: Record<string, unknown>) => Record<string, unknown> | null;
+
+/**
+ * Incremental event-by-event rewriter for Messages SSE streams
+ * Events the rewrite leaves unchanged are passed through byte for byte.
+ * Feed raw upstream chunks to push() and write the returned text to the client.
+ */
+class SseEventRewriter {
+  private buffer = "";
+  private eventLines: string[] = [];
+  private rewrite: SseEventRewrite;
+
+  constructor(rewrite: SseEventRewrite) {
+    this.rewrite = rewrite;
+  }
+
+  /**
+   * Process a chunk of upstream SSE text
+   * @returns SSE text for the client (complete events only, may be empty)
+   */
+  push(chunk: string): string {
+    this.buffer += chunk;
+    let output = "";
+
+    let newlineIndex: number;
+    while ((newlineIndex = this.buffer.indexOf("\n")) >= 0) {
+      const line = this.buffer.slice(0, newlineIndex).replace(/\r$/, "");
+      this.buffer = this.buffer.slice(newlineIndex + 1);
+      output += this.processLine(line);
+    }
+
+    return output;
+  }
+
+  /**
+   * Flush a trailing event that wasn't terminated by a blank line
+   */
+  end(): string {
+    if (this.buffer) {
+      this.eventLines.push(this.buffer.replace(/\r$/, ""));
+      this.buffer = "";
+    }
+    return this.flushEvent();
+  }
+
+  private processLine(line: string): string {
+    if (line === "") {
+      return this.flushEvent();
+    }
+    this.eventLines.push(line);
+    return "";
+  }
+
+  private flushEvent(): string {
+    const lines = this.eventLines;
+    this.eventLines = [];
+    if (lines.length === 0) return "";
+
+    const dataLines = lines.filter((line) => line.startsWith("data:"));
+    if (dataLines.length === 0) {
+      return lines.join("\n") + "\n\n";
+    }
+
+    let event: Record<string, unknown>;
+    try {
+      event = JSON.parse(dataLines.map((line) => line.slice(5).trim()).join("\n")) as Record<string, unknown>;
+    } catch {
+      // Not JSON (e.g. keep-alive payloads): pass through as-is
+      return lines.join("\n") + "\n\n";
+    }
+
+    const transformed = this.rewrite(event);
+    if (transformed === null) return "";
+    if (transformed === event) {
+      return lines.join("\n") + "\n\n";
+    }
+
+    const fieldLines = lines.filter((line) => !line.startsWith("data:"));
+    return [...fieldLines, `data: ${JSON.stringify(transformed)}`].join("\n") + "\n\n";
+  }
+}
+
+/**
+ * Incremental rewriter for z.ai Messages SSE streams
+ * Applies the guarantees of transformThinkingBlocks event by event:
+ * - thinking content_block_start blocks are reduced to { type: "thinking", thinking: "..." }
+ * - thinking_delta payloads are flattened to strings and lose any signature
+ * - signature_delta events are dropped (z.ai signatures are not valid for Anthropic)
+ * Other events are passed through unchanged.
+ */
+export class ThinkingStreamTransformer extends SseEventRewriter {
+  constructor() {
+    super(transformThinkingEvent);
+  }
+}
+
+/**
+ * Normalize a single z.ai stream event
+ * @returns The event (same reference if unchanged), a rewritten copy, or null to drop it
+ */
+function transformThinkingEvent(event: Record<string, unknown>): Record<string, unknown> | null {
+  if (event.type === "content_block_start") {
+    const block = event.content_block as ContentBlock | undefined;
+    if (block?.type !== "thinking") return event;
+    return { ...event, content_block: { type: "thinking", thinking: extractThinkingText(block) } };
+  }
+
+  if (event.type === "content_block_delta") {
+    const delta = event.delta as Record<string, unknown> | undefined;
+    if (delta?.type === "signature_delta") return null;
+    if (delta?.type !== "thinking_delta") return event;
+    if (typeof delta.thinking === "string" && Object.keys(delta).length === 2) return event;
+    return { ...event, delta: { type: "thinking_delta", thinking: extractThinkingText({ ...delta, type: "thinking" }) } };
+  }
+
+  return event;
+}
+
+/**
+ * Replace the model name of a Messages response with the client's model
+ * Used when a routing rule rewrote the model and the client should not see the upstream's name.
+ * Bodies that aren't Messages responses (e.g. errors) are returned unchanged.
+ */
+export function restoreResponseModel(response: string, model: string): string {
+  try {
+    const parsed = JSON.parse(response) as AnthropicMessageResponse;
+    if (parsed.type !== "message" || parsed.model === model) {
+      return response;
+    }
+    parsed.model = model;
+    return JSON.stringify(parsed);
+  } catch {
+    // Not JSON or parse error, return as-is
+    return response;
+  }
+}
+
+/**
+ * Incremental rewriter that replaces the model in the message_start event of a
+ * Messages SSE stream with the client's model (see restoreResponseModel)
+ */
+export class ModelRestoreStream extends SseEventRewriter {
+  constructor(model: string) {
+    super((event) => {
+      const message = event.message as AnthropicMessageResponse | undefined;
+      if (event.type !== "message_start" || !message || message.model === model) {
+        return event;
+      }
+      return { ...event, message: { ...message, model } };
+    });
+  }
 }
@@ -2,7 +2,8 @@
  * Type definitions for proxy functionality
  */
 
-import type { IncomingMessage, ServerResponse } from "node:http";
+import type { IncomingHttpHeaders, IncomingMessage, ServerResponse } from "node:http";
+import type { CapabilityProfile, ForeignReasoningPolicy, CircuitBreakerPolicy, UpstreamConnection, UpstreamConcurrency, UpstreamRateLimit, UpstreamRetry, UpstreamTimeouts, UpstreamAuthMode, UpstreamType } from "../config/types.js";
 
 /** Upstream route target */
 export interface Route {
@@ -10,6 +11,49 @@ export interface Route {
   url: string;
   apiKey?: string;
   model?: string;
+  type: UpstreamType;
+  auth: UpstreamAuthMode;
+  /** Header name and value template for auth mode "header" */
+  authHeader?: string;
+  authTemplate?: string;
+  /** Sanitize foreign thinking blocks in requests and record response signatures */
+  sanitizeRequest: boolean;
+  /** Normalize thinking blocks in responses */
+  transformResponse: boolean;
+  /** Represent Anthropic thinking blocks and repair message structure in requests */
+  sanitizeForeignRequest: boolean;
+  /** Answer count_tokens requests locally instead of forwarding them */
+  emulateCountTokens: boolean;
+  /** How reasoning from another provider is sent (default: mode "text" without limits) */
+  foreignReasoning?: ForeignReasoningPolicy;
+  /** Request fields, block types and betas the upstream accepts */
+  capabilities?: CapabilityProfile;
+  /** Per-phase request timeouts */
+  timeouts?: UpstreamTimeouts;
+  /** Retries of transient failures */
+  retry?: UpstreamRetry;
+  /** Circuit breaker settings */
+  circuitBreaker?: CircuitBreakerPolicy;
+  /** Connection pool settings */
+  connection?: UpstreamConnection;
+  /** Limits on requests in flight */
+  concurrency?: UpstreamConcurrency;
+  /** Request and token rate limits */
+  rateLimit?: UpstreamRateLimit;
+  /** Targets tried in order when this one fails before responding */
+  fallbacks?: Route[];
+  /** Traffic split arm that selected this route */
+  arm?: string;
+  /** Report the client's model name in responses when `model` rewrites it */
+  restoreModel?: boolean;
+}
+
+/** Request attributes evaluated by routing conditions */
+export interface RoutingRequest {
+  path: string;
+  headers: IncomingHttpHeaders;
+  /** Parsed Messages request body, or null when absent or not a JSON object */
+  body: Record<string, unknown> | null;
 }
 
 /** Request body with model field */
@@ -9,6 +9,7 @@ export interface LogEntry {
   component?: "proxy" | "lifecycle" | "config" | "router" | "cli";
   reqId?: string; // Per-request tracking ID
   model?: string;
+  upstreamModel?: string; // Model sent upstream when the response reports the client's model
   upstream?: string;
   method?: string;
   path?: string;
@@ -16,6 +17,20 @@ export interface LogEntry {
   bodyExcerpt?: string; // Response body excerpt (max 500 chars)
   durationMs?: number;
   errorCode?: string; // e.g. "ECONNREFUSED", "ETIMEDOUT"
+  phase?: string; // Timeout that expired: "connect", "firstByte", "idle" or "total"
+  attempt?: number; // Upstream attempt about to start when retrying (2 = first retry)
+  delayMs?: number; // Wait before the retry
+  circuit?: string; // Circuit breaker state: "closed", "open" or "half-open"
+  connection?: string; // Upstream connection of the response: "new" or "reused"
+  ttfbMs?: number; // Time from sending the upstream request to its response headers
+  inFlight?: number; // Requests holding a concurrency slot of the upstream
+  queueDepth?: number; // Requests waiting for a concurrency slot of the upstream
+  waitMs?: number; // Time a request waited for a concurrency slot
+  limit?: string; // Rate limit bucket that was empty: "requests", "inputTokens" or "outputTokens"
+  arm?: string; // Traffic split arm, e.g. "zai:GLM-4.7"
+  session?: string; // Project session ID for requests under a session prefix
+  emulated?: boolean; // Answered by the proxy without contacting the upstream
+  inputTokens?: number; // Estimated input tokens of an emulated count_tokens request
   [key: string]: unknown;
 }
 
@@ -139,6 +139,11 @@ export class ChildLogger {
     this.ctx = ctx;
   }
 
+  /** Create a child logger with additional bound context */
+  child(ctx: LogContext): ChildLogger {
+    return new ChildLogger(this.parent, { ...this.ctx, ...ctx });
+  }
+
   /** Log debug message */
   debug(msg: string, fields?: LogContext): void {
     this.parent.log("debug", msg, { ...this.ctx, ...fields });
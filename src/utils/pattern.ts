@@ -0,0 +1,102 @@
+/**
+ * Pattern matching for routing rules
+ *
+ * Supported syntax:
+ * - glob: `*` (any characters), `?` (one character), `[abc]`, `[a-z]`, `[!abc]`
+ * - regular expression: `/^claude-(sonnet|opus)-4/` with optional `i`, `m`, `s`, `u` flags
+ * - negation: a leading `!` excludes values matching the rest of the pattern
+ */
+
+/** Regular expression literal: /body/flags */
+const REGEX_LITERAL = /^\/(.+)\/([a-z]*)$/s;
+
+/** Flags allowed on regex patterns (`g` and `y` make RegExp.test stateful) */
+const ALLOWED_REGEX_FLAGS = /^[imsu]*$/;
+
+/**
+ * Convert a glob-style pattern to an anchored RegExp
+ * Throws on malformed character classes
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = "^";
+
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    if (ch === "*") {
+      source += ".*";
+    } else if (ch === "?") {
+      source += ".";
+    } else if (ch === "[") {
+      const end = pattern.indexOf("]", i + 1);
+      if (end === -1) {
+        throw new Error(`Invalid pattern "${pattern}": unterminated character class`);
+      }
+      let body = pattern.slice(i + 1, end);
+      const negated = body.startsWith("!");
+      if (negated) {
+        body = body.slice(1);
+      }
+      if (body === "") {
+        throw new Error(`Invalid pattern "${pattern}": empty character class`);
+      }
+      source += (negated ? "[^" : "[") + body.replace(/[\\^[]/g, "\\$&") + "]";
+      i = end;
+    } else {
+      source += ch.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+
+  return new RegExp(source + "$");
+}
+
+/**
+ * Compile a single pattern (glob or /regex/) without negation
+ */
+export function compilePattern(pattern: string): RegExp {
+  const literal = REGEX_LITERAL.exec(pattern);
+  if (!literal) {
+    return globToRegExp(pattern);
+  }
+
+  const [, body, flags] = literal;
+  if (!ALLOWED_REGEX_FLAGS.test(flags)) {
+    throw new Error(`Invalid pattern "${pattern}": unsupported flags "${flags}"`);
+  }
+  try {
+    return new RegExp(body, flags);
+  } catch (err) {
+    throw new Error(`Invalid pattern "${pattern}": ${(err as Error).message}`);
+  }
+}
+
+/**
+ * Compile a pattern list into a predicate
+ * A value matches when it matches any positive pattern (or there are none)
+ * and no negated pattern.
+ */
+export function compileMatcher(match: string | string[]): (value: string) => boolean {
+  const patterns = Array.isArray(match) ? match : [match];
+  if (patterns.length === 0) {
+    throw new Error("Invalid pattern list: must not be empty");
+  }
+
+  const include: RegExp[] = [];
+  const exclude: RegExp[] = [];
+  for (const pattern of patterns) {
+    if (typeof pattern !== "string") {
+      throw new Error("Invalid pattern list: patterns must be strings");
+    }
+    if (pattern.startsWith("!")) {
+      if (pattern.length === 1) {
+        throw new Error(`Invalid pattern "${pattern}": negation needs a pattern`);
+      }
+      exclude.push(compilePattern(pattern.slice(1)));
+    } else {
+      include.push(compilePattern(pattern));
+    }
+  }
+
+  return (value) =>
+    (include.length === 0 || include.some((regex) => regex.test(value))) &&
+    !exclude.some((regex) => regex.test(value));
+}
@@ -9,13 +9,30 @@ import { mkdir, writeFile, unlink } from "node:fs/promises";
 /** Minimum valid PID (PIDs are always > 0) */
 const MIN_VALID_PID = 1;
 
-/** Execute a command and return its output */
-export async function execCommand(command: string, args: string[]): Promise<string> {
+/**
+ * Execute a command and return its output
+ * The command gets no stdin, so it cannot wait for input. With timeoutMs it is
+ * killed when it runs longer, failing with code ETIMEDOUT.
+ */
+export async function execCommand(command: string, args: string[], options?: { timeoutMs?: number }): Promise<string> {
   return new Promise((resolve, reject) => {
-    const proc = spawn(command, args);
+    const proc = spawn(command, args, { stdio: ["ignore", "pipe", "pipe"] });
     let stdout = "";
     let stderr = "";
 
+    const timer = options?.timeoutMs
+      ? setTimeout(() => {
+          proc.kill("SIGKILL");
+          // Children of the command may keep the pipes open
+          proc.stdout?.destroy();
+          proc.stderr?.destroy();
+          const error = new Error(`${command} timed out after ${options.timeoutMs}ms`) as Error & { code?: string; command?: string };
+          error.code = "ETIMEDOUT";
+          error.command = command;
+          reject(error);
+        }, options.timeoutMs)
+      : undefined;
+
     proc.stdout?.on("data", (data) => {
       stdout += data.toString();
     });
@@ -25,6 +42,7 @@ export async function execCommand(command: string, args: string[]): Promise<stri
     });
 
     proc.on("close", (code) => {
+      clearTimeout(timer);
       if (code === 0) {
         resolve(stdout.trim());
       } else {
@@ -36,6 +54,7 @@ export async function execCommand(command: string, args: string[]): Promise<stri
     });
 
     proc.on("error", (err) => {
+      clearTimeout(timer);
       // ENOENT = command not found
       const error = err as Error & { code?: string };
       if (error.code === "ENOENT") {
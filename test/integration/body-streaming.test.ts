@@ -0,0 +1,133 @@
+/**
+ * Integration tests for request body pass-through
+ * Checks that bodies no target rewrites are forwarded while they arrive,
+ * replayed for retries, and cut off at the configured size limit
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { createServer, request, type Server, type IncomingMessage } from "node:http";
+import type { AddressInfo } from "node:net";
+import { close, listen, makeConfig, startProxy } from "./helpers.js";
+
+let stub: Server;
+let proxy: Server;
+let proxyPort: number;
+let firstChunkSeen: () => void = () => {};
+let flakyAttempts = 0;
+
+/**
+ * Start a chunked POST /v1/messages to the proxy
+ */
+function startRequest(): { req: ReturnType<typeof request>; response: Promise<{ status: number; body: string }> } {
+  const req = request({
+    host: "127.0.0.1",
+    port: proxyPort,
+    path: "/v1/messages",
+    method: "POST",
+    headers: { "content-type": "application/json", "anthropic-version": "2023-06-01" },
+  });
+  const response = new Promise<{ status: number; body: string }>((resolve, reject) => {
+    req.on("response", async (res: IncomingMessage) => {
+      const chunks: Buffer[] = [];
+      for await (const chunk of res) chunks.push(chunk as Buffer);
+      resolve({ status: res.statusCode || 0, body: Buffer.concat(chunks).toString() });
+    });
+    req.on("error", reject);
+  });
+  return { req, response };
+}
+
+beforeAll(async () => {
+  // Echoes the received body; the flaky path fails its first attempt after reading the body
+  stub = createServer(async (req, res) => {
+    const chunks: Buffer[] = [];
+    try {
+      for await (const chunk of req) {
+        if (chunks.length === 0) firstChunkSeen();
+        chunks.push(chunk as Buffer);
+      }
+    } catch {
+      // The proxy aborts bodies over the size limit
+      return;
+    }
+    if (req.url === "/flaky/v1/messages" && ++flakyAttempts === 1) {
+      res.writeHead(503, { "content-type": "application/json" });
+      res.end(JSON.stringify({ type: "error", error: { type: "overloaded_error", message: "Overloaded" } }));
+      return;
+    }
+    res.writeHead(200, { "content-type": "application/json" });
+    res.end(JSON.stringify({ size: Buffer.concat(chunks).length, body: Buffer.concat(chunks).toString() }));
+  });
+  const stubPort = await listen(stub);
+
+  const config = makeConfig({
+    proxy: { maxBodyMB: 1 },
+    upstream: {
+      passthrough: { url: `http://127.0.0.1:${stubPort}` },
+      flaky: { url: `http://127.0.0.1:${stubPort}/flaky`, retry: { maxRetries: 1, baseDelaySeconds: 0.01 }, circuitBreaker: { enabled: false } },
+    },
+    routing: {
+      rules: [
+        { match: "pass-*", upstream: "passthrough" },
+        { match: "flaky-*", upstream: "flaky" },
+      ],
+    },
+  });
+  ({ proxy } = await startProxy(config));
+  proxyPort = (proxy.address() as AddressInfo).port;
+});
+
+afterAll(async () => {
+  await close(proxy);
+  await close(stub);
+});
+
+describe("Request body pass-through", () => {
+  it("forwards the body before the client finished sending it", async () => {
+    const { req, response } = startRequest();
+    const seen = new Promise<void>((resolve) => (firstChunkSeen = resolve));
+    const rest = `"messages":[{"role":"user","content":"${"x".repeat(200_000)}"}]}`;
+
+    req.write('{"model":"pass-a",');
+    // The upstream sees the first bytes while the client still holds back the rest
+    await seen;
+    req.end(rest);
+
+    const { status, body } = await response;
+    expect(status).toBe(200);
+    expect(JSON.parse(body).body).toBe('{"model":"pass-a",' + rest);
+  });
+
+  it("replays the streamed body when the first attempt is retried", async () => {
+    const { req, response } = startRequest();
+    const body = JSON.stringify({ model: "flaky-a", max_tokens: 10, messages: [{ role: "user", content: "Hi" }] });
+    req.end(body);
+
+    const result = await response;
+    expect(result.status).toBe(200);
+    expect(JSON.parse(result.body).body).toBe(body);
+    expect(flakyAttempts).toBe(2);
+  });
+
+  it("answers 413 when a streamed body exceeds maxBodyMB", async () => {
+    const { req, response } = startRequest();
+    req.on("error", () => {});
+    req.write('{"model":"pass-a","messages":[{"role":"user","content":"');
+    req.end("x".repeat(1024 * 1024) + '"}]}');
+
+    const { status, body } = await response;
+    expect(status).toBe(413);
+    expect(JSON.parse(body).error.type).toBe("request_too_large");
+  });
+
+  it("rejects a declared content-length over the limit before reading", async () => {
+    const res = await fetch(`http://127.0.0.1:${proxyPort}/v1/messages`, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ model: "pass-a", content: "x".repeat(1024 * 1024) }),
+    });
+
+    expect(res.status).toBe(413);
+    expect((await res.json()).error.type).toBe("request_too_large");
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Integration tests for upstream capability profiles
+ * Checks what a stub upstream receives after the proxy fitted the request
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { createServer, type Server, type IncomingHttpHeaders } from "node:http";
+import { close, listen, makeConfig, startProxy } from "./helpers.js";
+
+let glm: Server;
+let proxy: Server;
+let proxyUrl: string;
+const received: Array<{ headers: IncomingHttpHeaders; body: Record<string, unknown> }> = [];
+
+beforeAll(async () => {
+  glm = createServer(async (req, res) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    const raw = Buffer.concat(chunks);
+    expect(Number(req.headers["content-length"])).toBe(raw.length);
+    received.push({ headers: req.headers, body: JSON.parse(raw.toString()) as Record<string, unknown> });
+    res.writeHead(200, { "content-type": "application/json" });
+    res.end(JSON.stringify({ id: "msg_1", type: "message", role: "assistant", model: "GLM-4.7", content: [] }));
+  });
+  const glmPort = await listen(glm);
+
+  const config = makeConfig({
+    upstream: {
+      glm: {
+        url: `http://127.0.0.1:${glmPort}`,
+        apiKey: "glm-key",
+        capabilities: {
+          params: { drop: ["metadata", "context_management"] },
+          blocks: { stripFields: ["cache_control"] },
+          betas: { keep: ["interleaved-thinking-*"] },
+        },
+      },
+    },
+    routing: { rules: [{ match: "claude-*", upstream: "glm", model: "GLM-4.7" }] },
+  });
+  ({ proxy, url: proxyUrl } = await startProxy(config));
+});
+
+afterAll(async () => {
+  await close(proxy);
+  await close(glm);
+});
+
+describe("Capability profiles", () => {
+  it("forwards only what the upstream accepts", async () => {
+    const res = await fetch(proxyUrl + "/v1/messages", {
+      method: "POST",
+      headers: {
+        "content-type": "application/json",
+        "anthropic-beta": "interleaved-thinking-2025-05-14,context-management-2025-06-27",
+        authorization: "Bearer oauth-token",
+      },
+      body: JSON.stringify({
+        model: "claude-sonnet-4-5",
+        max_tokens: 10,
+        metadata: { user_id: "u" },
+        context_management: { edits: [] },
+        messages: [{ role: "user", content: [{ type: "text", text: "Hi", cache_control: { type: "ephemeral" } }] }],
+      }),
+    });
+
+    expect(res.status).toBe(200);
+    expect(received[0].headers["anthropic-beta"]).toBe("interleaved-thinking-2025-05-14");
+    expect(received[0].body).toEqual({
+      model: "GLM-4.7",
+      max_tokens: 10,
+      messages: [{ role: "user", content: [{ type: "text", text: "Hi" }] }],
+    });
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Integration tests for upstream circuit breakers
+ * Runs the proxy against a stub that can be switched between failing and healthy
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { createServer, type Server } from "node:http";
+import { close, listen, makeConfig, startProxy } from "./helpers.js";
+
+let stub: Server;
+let backup: Server;
+let proxy: Server;
+let proxyUrl: string;
+let healthy = false;
+let stubRequests = 0;
+
+/** Stub upstream that answers 500 until it is switched to healthy */
+function createStub(name: string, isHealthy: () => boolean): Server {
+  return createServer(async (req, res) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    if (name === "down") stubRequests++;
+    if (!isHealthy()) {
+      res.writeHead(500, { "content-type": "application/json" });
+      res.end(JSON.stringify({ type: "error", error: { type: "api_error", message: "Internal error" } }));
+      return;
+    }
+    res.writeHead(200, { "content-type": "application/json" });
+    res.end(JSON.stringify({ type: "message", content: [{ type: "text", text: `from ${name}` }] }));
+  });
+}
+
+async function postMessages(model: string): Promise<Response> {
+  return fetch(proxyUrl + "/v1/messages", {
+    method: "POST",
+    headers: { "content-type": "application/json", "anthropic-version": "2023-06-01" },
+    body: JSON.stringify({ model, max_tokens: 10, messages: [{ role: "user", content: "Hi" }] }),
+  });
+}
+
+async function circuitState(upstream: string): Promise<string> {
+  const status = await (await fetch(proxyUrl + "/_cc-glm/status")).json();
+  return status.upstreams[upstream].circuit.state;
+}
+
+beforeAll(async () => {
+  stub = createStub("down", () => healthy);
+  backup = createStub("backup", () => true);
+  const stubPort = await listen(stub);
+  const backupPort = await listen(backup);
+
+  const config = makeConfig({
+    upstream: {
+      down: { url: `http://127.0.0.1:${stubPort}`, circuitBreaker: { minRequests: 2, errorRate: 1, openSeconds: 0.3 } },
+      backup: { url: `http://127.0.0.1:${backupPort}` },
+    },
+    routing: {
+      rules: [
+        { match: "down-fallback", upstream: "down", fallback: [{ upstream: "backup" }] },
+        { match: "down-*", upstream: "down" },
+      ],
+    },
+  });
+  ({ proxy, url: proxyUrl } = await startProxy(config));
+});
+
+afterAll(async () => {
+  await close(proxy);
+  await close(stub);
+  await close(backup);
+});
+
+describe("Circuit breaker", () => {
+  it("opens after repeated failures, then fails fast or fails over, and recovers", async () => {
+    expect(await circuitState("down")).toBe("closed");
+    expect((await postMessages("down-model")).status).toBe(500);
+    expect((await postMessages("down-model")).status).toBe(500);
+    expect(await circuitState("down")).toBe("open");
+
+    // Open: the upstream isn't contacted
+    stubRequests = 0;
+    const rejected = await postMessages("down-model");
+    expect(rejected.status).toBe(503);
+    expect((await rejected.json()).error).toEqual({
+      type: "overloaded_error",
+      message: "Upstream down is unavailable (circuit open after repeated failures)",
+    });
+    const failedOver = await postMessages("down-fallback");
+    expect((await failedOver.json()).content[0].text).toBe("from backup");
+    expect(stubRequests).toBe(0);
+
+    // After openSeconds a successful probe closes the breaker
+    healthy = true;
+    await new Promise((resolve) => setTimeout(resolve, 350));
+    const probe = await postMessages("down-model");
+    expect(probe.status).toBe(200);
+    expect(await circuitState("down")).toBe("closed");
+  });
+
+  it("reports every configured upstream and only answers GET", async () => {
+    const status = await (await fetch(proxyUrl + "/_cc-glm/status")).json();
+    expect(Object.keys(status.upstreams)).toEqual(["anthropic", "zai", "down", "backup"]);
+    expect(status.upstreams.backup.circuit).toEqual({ state: "closed", requests: 1, failures: 0 });
+
+    const res = await fetch(proxyUrl + "/_cc-glm/status", { method: "POST" });
+    expect(res.status).toBe(405);
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Integration tests for upstream concurrency limits
+ * Checks queueing behind the limit, refusals when the queue is full or the
+ * wait is too long, failover to fallbacks, and clients leaving the queue
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { createServer, type Server } from "node:http";
+import { close, listen, makeConfig, startProxy } from "./helpers.js";
+
+let stub: Server;
+let proxy: Server;
+let proxyUrl: string;
+let active = 0;
+let maxActive = 0;
+
+async function postMessages(model: string, session: string, signal?: AbortSignal): Promise<Response> {
+  return fetch(proxyUrl + "/v1/messages", {
+    method: "POST",
+    signal,
+    headers: { "content-type": "application/json", "anthropic-version": "2023-06-01", "x-claude-code-session-id": session },
+    body: JSON.stringify({ model, max_tokens: 10, messages: [{ role: "user", content: "Hi" }] }),
+  });
+}
+
+beforeAll(async () => {
+  // Answers after 150ms, tracking the highest number of requests in flight
+  stub = createServer(async (req, res) => {
+    for await (const _chunk of req) {
+      // Drain the body
+    }
+    active++;
+    maxActive = Math.max(maxActive, active);
+    await new Promise((resolve) => setTimeout(resolve, 150));
+    active--;
+    res.writeHead(200, { "content-type": "application/json" });
+    res.end(JSON.stringify({ type: "message", content: [{ type: "text", text: `from ${req.url}` }] }));
+  });
+  const stubPort = await listen(stub);
+
+  const config = makeConfig({
+    upstream: {
+      limited: { url: `http://127.0.0.1:${stubPort}/limited`, concurrency: { maxRequests: 1, maxQueue: 2, maxWaitSeconds: 5 } },
+      impatient: { url: `http://127.0.0.1:${stubPort}/impatient`, concurrency: { maxRequests: 1, maxWaitSeconds: 0.05 } },
+      spare: { url: `http://127.0.0.1:${stubPort}/spare` },
+    },
+    routing: {
+      rules: [
+        { match: "limited-*", upstream: "limited" },
+        { match: "impatient-fallback", upstream: "impatient", fallback: [{ upstream: "spare" }] },
+        { match: "impatient-*", upstream: "impatient" },
+      ],
+    },
+  });
+  ({ proxy, url: proxyUrl } = await startProxy(config));
+});
+
+afterAll(async () => {
+  await close(proxy);
+  await close(stub);
+});
+
+describe("Concurrency limits", () => {
+  it("queues requests beyond the limit and refuses them when the queue is full", async () => {
+    maxActive = 0;
+    const requests = [postMessages("limited-a", "s1"), postMessages("limited-b", "s1"), postMessages("limited-c", "s2")];
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    const status = await (await fetch(proxyUrl + "/_cc-glm/status")).json();
+    expect(status.upstreams.limited.concurrency).toEqual({ inFlight: 1, queued: 2 });
+
+    const refused = await postMessages("limited-d", "s3");
+    expect(refused.status).toBe(429);
+    expect((await refused.json()).error).toEqual({
+      type: "rate_limit_error",
+      message: "Upstream limited is at its concurrency limit (queue full)",
+    });
+
+    const responses = await Promise.all(requests);
+    expect(responses.map((res) => res.status)).toEqual([200, 200, 200]);
+    expect(maxActive).toBe(1);
+  });
+
+  it("gives up after maxWaitSeconds, failing over when the rule has fallbacks", async () => {
+    const first = postMessages("impatient-a", "s1");
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    const timedOut = await postMessages("impatient-b", "s2");
+    expect(timedOut.status).toBe(429);
+    expect((await timedOut.json()).error.message).toBe("Upstream impatient is at its concurrency limit (wait timeout)");
+
+    const failedOver = await postMessages("impatient-fallback", "s2");
+    expect((await failedOver.json()).content[0].text).toBe("from /spare/v1/messages");
+    expect((await first).status).toBe(200);
+  });
+
+  it("takes queued requests out of the queue when their client disconnects", async () => {
+    const first = postMessages("limited-a", "s1");
+    const clientGone = new AbortController();
+    const abandoned = postMessages("limited-b", "s2", clientGone.signal).catch(() => null);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    clientGone.abort();
+    await abandoned;
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    const status = await (await fetch(proxyUrl + "/_cc-glm/status")).json();
+    expect(status.upstreams.limited.concurrency).toEqual({ inFlight: 1, queued: 0 });
+    expect((await first).status).toBe(200);
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Integration tests for upstream connection pools
+ * Checks keep-alive reuse, socket limits and HTTP/2 (h2c) upstreams
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { createServer, type Server } from "node:http";
+import { createServer as createHttp2Server, type Http2Server } from "node:http2";
+import { close, listen, makeConfig, startProxy } from "./helpers.js";
+
+let stub: Server;
+let h2stub: Http2Server;
+let proxy: Server;
+let proxyUrl: string;
+const clientPorts = new Set<number>();
+
+async function postMessages(model: string, stream = false): Promise<Response> {
+  return fetch(proxyUrl + "/v1/messages", {
+    method: "POST",
+    headers: { "content-type": "application/json", "anthropic-version": "2023-06-01" },
+    body: JSON.stringify({ model, max_tokens: 10, stream, messages: [{ role: "user", content: "Hi" }] }),
+  });
+}
+
+async function poolStats(upstream: string): Promise<{ newConnections: number; reusedConnections: number; openConnections: number }> {
+  const status = await (await fetch(proxyUrl + "/_cc-glm/status")).json();
+  return status.upstreams[upstream].pool;
+}
+
+beforeAll(async () => {
+  // HTTP/1.1 stub that records the client ports it was connected from
+  stub = createServer(async (req, res) => {
+    clientPorts.add(req.socket.remotePort as number);
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    res.writeHead(200, { "content-type": "application/json" });
+    res.end(JSON.stringify({ type: "message", content: [{ type: "text", text: "from h1" }] }));
+  });
+
+  // HTTP/2 stub without TLS (h2c)
+  h2stub = createHttp2Server();
+  h2stub.on("stream", (stream, headers) => {
+    const chunks: Buffer[] = [];
+    stream.on("data", (chunk: Buffer) => chunks.push(chunk));
+    stream.on("end", () => {
+      const body = JSON.parse(Buffer.concat(chunks).toString());
+      if (body.stream) {
+        stream.respond({ ":status": 200, "content-type": "text/event-stream" });
+        stream.write('event: message_start\ndata: {"type":"message_start","message":{"id":"msg_1","model":"GLM-4.7"}}\n\n');
+        stream.end('event: message_stop\ndata: {"type":"message_stop"}\n\n');
+        return;
+      }
+      stream.respond({ ":status": 200, "content-type": "application/json", "x-path": headers[":path"] as string });
+      stream.end(JSON.stringify({ type: "message", content: [{ type: "text", text: `from h2 ${body.model}` }] }));
+    });
+  });
+
+  const stubPort = await listen(stub);
+  const h2Port = await listen(h2stub);
+  const closed = createServer();
+  const closedPort = await listen(closed);
+  await close(closed);
+
+  const config = makeConfig({
+    upstream: {
+      pooled: { url: `http://127.0.0.1:${stubPort}`, connection: { maxSockets: 1 } },
+      multiplexed: { url: `http://127.0.0.1:${h2Port}/api`, connection: { http2: true } },
+      unreachable: { url: `http://127.0.0.1:${closedPort}`, connection: { http2: true } },
+    },
+    routing: {
+      rules: [
+        { match: "pooled-*", upstream: "pooled" },
+        { match: "h2-*", upstream: "multiplexed" },
+        { match: "down-*", upstream: "unreachable" },
+      ],
+    },
+  });
+  ({ proxy, url: proxyUrl } = await startProxy(config));
+});
+
+afterAll(async () => {
+  await close(proxy);
+  await close(stub);
+  await new Promise<void>((resolve) => h2stub.close(() => resolve()));
+});
+
+describe("Connection pools", () => {
+  it("reuses keep-alive connections within the socket limit", async () => {
+    const responses = await Promise.all([postMessages("pooled-a"), postMessages("pooled-b"), postMessages("pooled-c")]);
+
+    for (const res of responses) {
+      expect((await res.json()).content[0].text).toBe("from h1");
+    }
+    expect(clientPorts.size).toBe(1);
+    expect(await poolStats("pooled")).toEqual({ newConnections: 1, reusedConnections: 2, openConnections: 1 });
+  });
+
+  it("sends requests over one HTTP/2 session", async () => {
+    const first = await postMessages("h2-model");
+    expect(first.status).toBe(200);
+    expect(first.headers.get("x-path")).toBe("/api/v1/messages");
+    expect((await first.json()).content[0].text).toBe("from h2 h2-model");
+
+    const streamed = await postMessages("h2-model", true);
+    const text = await streamed.text();
+    expect(text).toContain("event: message_start");
+    expect(text).toContain("event: message_stop");
+
+    expect(await poolStats("multiplexed")).toEqual({ newConnections: 1, reusedConnections: 1, openConnections: 1 });
+  });
+
+  it("reports a refused HTTP/2 connection as an upstream failure", async () => {
+    const res = await postMessages("down-model");
+
+    expect(res.status).toBe(502);
+    expect((await res.json()).error.type).toBe("api_error");
+  });
+});
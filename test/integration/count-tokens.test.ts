@@ -0,0 +1,91 @@
+/**
+ * Integration tests for count_tokens emulation
+ * Upstreams without the endpoint are answered locally; others receive the request
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { createServer, type Server } from "node:http";
+import { close, listen, makeConfig, startProxy } from "./helpers.js";
+
+let zai: Server;
+let claude: Server;
+let proxy: Server;
+let proxyUrl: string;
+const received: Array<{ upstream: string; url?: string }> = [];
+
+/** Stub upstream that answers count_tokens with a fixed count */
+function createStub(name: string): Server {
+  return createServer(async (req, res) => {
+    for await (const _chunk of req);
+    received.push({ upstream: name, url: req.url });
+    res.writeHead(200, { "content-type": "application/json" });
+    res.end(JSON.stringify({ input_tokens: 42 }));
+  });
+}
+
+async function countTokens(body: unknown): Promise<Response> {
+  return fetch(proxyUrl + "/v1/messages/count_tokens?beta=true", {
+    method: "POST",
+    headers: { "content-type": "application/json", "anthropic-version": "2023-06-01" },
+    body: typeof body === "string" ? body : JSON.stringify(body),
+  });
+}
+
+beforeAll(async () => {
+  zai = createStub("zai");
+  claude = createStub("claude");
+  const zaiPort = await listen(zai);
+  const claudePort = await listen(claude);
+
+  const config = makeConfig({
+    upstream: {
+      zai: { url: `http://127.0.0.1:${zaiPort}`, apiKey: "zai-key" },
+      claude: { url: `http://127.0.0.1:${claudePort}` },
+    },
+    routing: { rules: [{ match: "glm-*", upstream: "zai" }], default: "claude" },
+  });
+  ({ proxy, url: proxyUrl } = await startProxy(config));
+});
+
+afterAll(async () => {
+  await close(proxy);
+  await close(zai);
+  await close(claude);
+});
+
+describe("count_tokens emulation", () => {
+  it("estimates tokens over system, messages, tools and images for zai", async () => {
+    received.length = 0;
+    const tools = [{ name: "Read", input_schema: { type: "object" } }];
+    const res = await countTokens({
+      model: "glm-4.7",
+      system: "You are terse.",
+      messages: [
+        {
+          role: "user",
+          content: [
+            { type: "text", text: "What is in this picture?" },
+            { type: "image", source: { type: "base64", media_type: "image/png", data: "iVBORw0KGgo=" } },
+          ],
+        },
+      ],
+      tools,
+    });
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get("content-type")).toBe("application/json");
+    const body = await res.json();
+    expect(Object.keys(body)).toEqual(["input_tokens"]);
+    // System and message text, tool definitions as JSON, one image
+    expect(body.input_tokens).toBe(Math.ceil((14 + 24 + JSON.stringify(tools).length) / 4) + 1600);
+    expect(received).toHaveLength(0);
+  });
+
+  it("forwards count_tokens to upstreams with the endpoint", async () => {
+    received.length = 0;
+    const res = await countTokens({ model: "claude-sonnet-4-5", messages: [{ role: "user", content: "Hi" }] });
+
+    expect(await res.json()).toEqual({ input_tokens: 42 });
+    expect(received).toEqual([{ upstream: "claude", url: "/v1/messages/count_tokens?beta=true" }]);
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Integration tests for graceful shutdown
+ * Checks that in-flight streams finish while new requests are refused, that
+ * status queries are answered while draining, the drain deadline, and that
+ * the launcher replaces a proxy that keeps draining past it
+ */
+
+import { describe, it, expect, beforeAll, afterAll, afterEach } from "vitest";
+import { spawn } from "node:child_process";
+import { once } from "node:events";
+import { createServer, type Server } from "node:http";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { ProxyServer } from "../../src/proxy/server.js";
+import { SingletonProxy } from "../../src/lifecycle/singleton.js";
+import { pidIsAlive } from "../../src/utils/process.js";
+import { Logger } from "../../src/utils/logger.js";
+import { close, listen, makeConfig, startProxy } from "./helpers.js";
+
+let stub: Server;
+let stubPort: number;
+let proxy: ProxyServer;
+let proxyUrl: string;
+
+async function startLocalProxy(): Promise<void> {
+  const config = makeConfig({
+    upstream: {
+      local: { url: `http://127.0.0.1:${stubPort}` },
+    },
+    routing: { rules: [{ match: "local-*", upstream: "local" }] },
+  });
+  ({ proxy, url: proxyUrl } = await startProxy(config));
+}
+
+async function postMessages(model: string): Promise<Response> {
+  return fetch(proxyUrl + "/v1/messages", {
+    method: "POST",
+    headers: { "content-type": "application/json", "anthropic-version": "2023-06-01" },
+    body: JSON.stringify({ model, max_tokens: 10, stream: true, messages: [{ role: "user", content: "Hi" }] }),
+  });
+}
+
+beforeAll(async () => {
+  // Streams two events 300ms apart; "local-hang" never finishes its stream
+  stub = createServer(async (req, res) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    const body = JSON.parse(Buffer.concat(chunks).toString());
+    res.writeHead(200, { "content-type": "text/event-stream" });
+    res.write('event: message_start\ndata: {"type":"message_start","message":{"id":"msg_1"}}\n\n');
+    if (body.model === "local-hang") return;
+    await new Promise((resolve) => setTimeout(resolve, 300));
+    res.end('event: message_stop\ndata: {"type":"message_stop"}\n\n');
+  });
+  stubPort = await listen(stub);
+});
+
+afterEach(async () => {
+  if (proxy?.listening) {
+    await close(proxy);
+  }
+});
+
+afterAll(async () => {
+  await close(stub);
+});
+
+describe("Graceful shutdown", () => {
+  it("lets in-flight streams finish while refusing new requests and answering status", async () => {
+    await startLocalProxy();
+    const streaming = await postMessages("local-a");
+    expect(streaming.status).toBe(200);
+
+    const drained = proxy.drain(5);
+    const status = await (await fetch(proxyUrl + "/_cc-glm/status")).json();
+    expect(status).toMatchObject({ state: "draining", inFlight: 1 });
+
+    const refused = await postMessages("local-b");
+    expect(refused.status).toBe(503);
+    expect(refused.headers.get("connection")).toBe("close");
+    expect((await refused.json()).error).toEqual({ type: "overloaded_error", message: "cc-glm proxy is shutting down" });
+
+    expect(await streaming.text()).toContain("message_stop");
+    expect(await drained).toBe(true);
+    expect(proxy.listening).toBe(false);
+  });
+
+  it("cuts off streams still running at the deadline", async () => {
+    await startLocalProxy();
+    const status = await (await fetch(proxyUrl + "/_cc-glm/status")).json();
+    expect(status).toMatchObject({ state: "running", inFlight: 0 });
+
+    const hanging = await postMessages("local-hang");
+    expect(hanging.status).toBe(200);
+
+    expect(await proxy.drain(0.2)).toBe(false);
+    await expect(hanging.text()).rejects.toThrow();
+    expect(proxy.listening).toBe(false);
+  });
+
+  it("kills a proxy still draining past its deadline instead of reusing it", async () => {
+    // Stand-in proxy process that reports draining and ignores SIGTERM
+    const script = `
+      process.on("SIGTERM", () => {});
+      const server = require("node:http").createServer((req, res) => {
+        res.writeHead(req.url === "/_cc-glm/status" ? 200 : 503, { "content-type": "application/json" });
+        res.end(JSON.stringify({ state: "draining", inFlight: 1 }));
+      });
+      server.listen(0, "127.0.0.1", () => console.log(server.address().port));
+    `;
+    const draining = spawn(process.execPath, ["-e", script], { stdio: ["ignore", "pipe", "inherit"] });
+    const stateDir = await mkdtemp(join(tmpdir(), "cc-glm-drain-"));
+    try {
+      const [output] = (await once(draining.stdout, "data")) as [Buffer];
+      const config = makeConfig({ proxy: { port: Number(output.toString()) } });
+      config.lifecycle = { ...config.lifecycle, stateDir, drainSeconds: 0 };
+      await writeFile(join(stateDir, "proxy.pid"), String(draining.pid));
+
+      // The replacement cannot be spawned from the source tree, which shows start() got past the old proxy
+      const launcher = new SingletonProxy(config, new Logger(config.logging, { stderr: false }));
+      await expect(launcher.start()).rejects.toThrow("Proxy entry not found");
+      expect(pidIsAlive(draining.pid!)).toBe(false);
+    } finally {
+      draining.kill("SIGKILL");
+      await rm(stateDir, { recursive: true, force: true });
+    }
+  }, 15000);
+});
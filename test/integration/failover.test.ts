@@ -0,0 +1,162 @@
+/**
+ * Integration tests for upstream failover
+ * Runs the proxy against local stub servers that fail on demand
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import { createServer, type Server, type IncomingHttpHeaders } from "node:http";
+import { close, listen, makeConfig, startProxy } from "./helpers.js";
+
+interface StubRequest {
+  headers: IncomingHttpHeaders;
+  body: Record<string, unknown>;
+}
+
+let flaky: Server;
+let backup: Server;
+let proxy: Server;
+let proxyUrl: string;
+const flakyReceived: StubRequest[] = [];
+const backupReceived: StubRequest[] = [];
+
+/** Stub Anthropic-compatible server; when failing, the last user message selects the response status */
+function createStub(name: string, received: StubRequest[], failing: boolean): Server {
+  return createServer(async (req, res) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    const body = JSON.parse(Buffer.concat(chunks).toString()) as Record<string, unknown>;
+    received.push({ headers: req.headers, body });
+
+    const messages = body.messages as Array<{ content: unknown }>;
+    const last = messages[messages.length - 1]?.content;
+    if (failing && last === "limited") {
+      res.writeHead(429, { "content-type": "application/json", "retry-after": "7" });
+      res.end(JSON.stringify({ error: { code: "1302", message: "High concurrency usage of this API" } }));
+      return;
+    }
+    const status = !failing ? 200 : last === "busy" ? 529 : last === "bad" ? 400 : 200;
+    res.writeHead(status, { "content-type": "application/json" });
+    res.end(JSON.stringify({
+      id: "msg_1",
+      type: "message",
+      role: "assistant",
+      model: body.model,
+      content: [{ type: "text", text: `from ${name}` }],
+      stop_reason: "end_turn",
+      usage: { input_tokens: 1, output_tokens: 1 },
+    }));
+  });
+}
+
+async function postMessages(model: string, content: unknown, history: unknown[] = []): Promise<Response> {
+  return fetch(proxyUrl + "/v1/messages", {
+    method: "POST",
+    headers: {
+      "content-type": "application/json",
+      "anthropic-version": "2023-06-01",
+      authorization: "Bearer oauth-token",
+    },
+    body: JSON.stringify({ model, max_tokens: 10, messages: [...history, { role: "user", content }] }),
+  });
+}
+
+beforeAll(async () => {
+  flaky = createStub("flaky", flakyReceived, true);
+  backup = createStub("backup", backupReceived, false);
+  const flakyPort = await listen(flaky);
+  const backupPort = await listen(backup);
+
+  // Reserve a port and close it so connections are refused
+  const dead = createServer();
+  const deadPort = await listen(dead);
+  await close(dead);
+
+  const config = makeConfig({
+    upstream: {
+      flaky: { url: `http://127.0.0.1:${flakyPort}`, apiKey: "flaky-key" },
+      backup: { url: `http://127.0.0.1:${backupPort}`, auth: "oauth", sanitizeRequest: true },
+      dead: { url: `http://127.0.0.1:${deadPort}`, apiKey: "dead-key" },
+    },
+    routing: {
+      rules: [
+        { match: "claude-sonnet-*", upstream: "flaky", model: "GLM-4.7", fallback: [{ upstream: "backup" }] },
+        { match: "claude-opus-*", upstream: "dead", model: "GLM-4.7", fallback: [{ upstream: "backup", model: "claude-sonnet-4-5" }] },
+        { match: "claude-haiku-*", upstream: "flaky", fallback: [{ upstream: "dead" }] },
+        { match: "glm-*", upstream: "flaky" },
+      ],
+    },
+  });
+  ({ proxy, url: proxyUrl } = await startProxy(config));
+});
+
+afterAll(async () => {
+  await close(proxy);
+  await close(flaky);
+  await close(backup);
+});
+
+beforeEach(() => {
+  flakyReceived.length = 0;
+  backupReceived.length = 0;
+});
+
+describe("Upstream failover", () => {
+  it("fails over on overloaded responses with the request re-prepared for the fallback", async () => {
+    const history = [
+      { role: "user", content: "Hi" },
+      { role: "assistant", content: [{ type: "thinking", thinking: "z.ai thoughts", signature: "unrecorded" }, { type: "text", text: "Hello" }] },
+    ];
+    const res = await postMessages("claude-sonnet-4-5", "busy", history);
+
+    expect(res.status).toBe(200);
+    expect((await res.json()).content[0].text).toBe("from backup");
+
+    expect(flakyReceived).toHaveLength(1);
+    expect(flakyReceived[0].body.model).toBe("GLM-4.7");
+    expect(flakyReceived[0].headers["x-api-key"]).toBe("flaky-key");
+    expect(flakyReceived[0].headers.authorization).toBeUndefined();
+
+    expect(backupReceived).toHaveLength(1);
+    expect(backupReceived[0].body.model).toBe("claude-sonnet-4-5");
+    expect(backupReceived[0].headers.authorization).toBe("Bearer oauth-token");
+    expect(backupReceived[0].headers["x-api-key"]).toBeUndefined();
+    const messages = backupReceived[0].body.messages as Array<{ content: Array<{ type: string }> | string }>;
+    const assistant = messages[1].content as Array<{ type: string }>;
+    expect(assistant.some((block) => block.type === "thinking")).toBe(false);
+  });
+
+  it("does not fail over on client errors", async () => {
+    const res = await postMessages("claude-sonnet-4-5", "bad");
+
+    expect(res.status).toBe(400);
+    expect(flakyReceived).toHaveLength(1);
+    expect(backupReceived).toHaveLength(0);
+  });
+
+  it("fails over when the connection is refused", async () => {
+    const res = await postMessages("claude-opus-4-5", "Hi");
+
+    expect(res.status).toBe(200);
+    expect((await res.json()).model).toBe("claude-sonnet-4-5");
+    expect(backupReceived).toHaveLength(1);
+  });
+
+  it("reports upstream errors as Anthropic error envelopes with retry-after", async () => {
+    const res = await postMessages("glm-4.7", "limited");
+
+    expect(res.status).toBe(429);
+    expect(res.headers.get("retry-after")).toBe("7");
+    expect(await res.json()).toEqual({
+      type: "error",
+      error: { type: "rate_limit_error", message: "High concurrency usage of this API (flaky 429, code 1302)" },
+    });
+  });
+
+  it("returns the last error when every target fails", async () => {
+    const res = await postMessages("claude-haiku-4-5", "busy");
+
+    expect(res.status).toBe(502);
+    expect(await res.json()).toMatchObject({ type: "error", error: { type: "api_error" } });
+    expect(flakyReceived).toHaveLength(1);
+  });
+});
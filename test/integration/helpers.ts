@@ -0,0 +1,63 @@
+/**
+ * Shared fixtures for integration tests
+ * Stub servers on ephemeral ports and proxy configs built from one base
+ */
+
+import type { Server } from "node:http";
+import type { Http2Server } from "node:http2";
+import type { AddressInfo } from "node:net";
+import { createProxyServer, type ProxyServer } from "../../src/proxy/server.js";
+import { Logger } from "../../src/utils/logger.js";
+import type { Config, ProxyConfig, RoutingConfig, UpstreamConfig } from "../../src/config/types.js";
+
+/** Parts of the base config a test changes */
+export interface ConfigOverrides {
+  proxy?: Partial<ProxyConfig>;
+  /** Upstreams added to (or replacing) the built-in anthropic and zai */
+  upstream?: UpstreamConfig;
+  routing?: Partial<RoutingConfig>;
+}
+
+/**
+ * Listen on an ephemeral local port
+ */
+export function listen(server: Server | Http2Server): Promise<number> {
+  return new Promise((resolve) => {
+    server.listen(0, "127.0.0.1", () => resolve((server.address() as AddressInfo).port));
+  });
+}
+
+/**
+ * Close a server, dropping kept-alive connections
+ */
+export function close(server: Server): Promise<void> {
+  server.closeAllConnections();
+  return new Promise((resolve) => server.close(() => resolve()));
+}
+
+/**
+ * Build a proxy config on an ephemeral port with quiet logging
+ */
+export function makeConfig(overrides: ConfigOverrides = {}): Config {
+  return {
+    proxy: { port: 0, host: "127.0.0.1", ...overrides.proxy },
+    upstream: {
+      anthropic: { url: "https://api.anthropic.com" },
+      zai: { url: "https://api.z.ai/api/anthropic", apiKey: "zai-test" },
+      ...overrides.upstream,
+    },
+    lifecycle: { stopGraceSeconds: 8, startWaitSeconds: 8, stateDir: "/tmp/test-proxy" },
+    logging: { level: "error" },
+    routing: { rules: [], default: "anthropic", ...overrides.routing },
+    claude: { path: "" },
+  };
+}
+
+/**
+ * Start a proxy and wait until it listens
+ */
+export async function startProxy(config: Config): Promise<{ proxy: ProxyServer; url: string }> {
+  const proxy = createProxyServer(config, new Logger(config.logging, { stderr: false }));
+  await new Promise<void>((resolve) => proxy.on("listening", () => resolve()));
+  return { proxy, url: `http://127.0.0.1:${(proxy.address() as AddressInfo).port}` };
+}
@@ -0,0 +1,151 @@
+/**
+ * Integration tests for the inbound OpenAI-compatible endpoint
+ * Runs the proxy against a local stub Anthropic-compatible server
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { createServer, type Server, type IncomingHttpHeaders } from "node:http";
+import { close, listen, makeConfig, startProxy } from "./helpers.js";
+
+interface StubRequest {
+  url?: string;
+  headers: IncomingHttpHeaders;
+  body: Record<string, unknown>;
+}
+
+let stub: Server;
+let proxy: Server;
+let proxyUrl: string;
+const received: StubRequest[] = [];
+
+async function postChat(body: Record<string, unknown>): Promise<Response> {
+  return fetch(proxyUrl + "/v1/chat/completions", {
+    method: "POST",
+    headers: { "content-type": "application/json", authorization: "Bearer client-token" },
+    body: JSON.stringify(body),
+  });
+}
+
+beforeAll(async () => {
+  stub = createServer(async (req, res) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    const body = JSON.parse(Buffer.concat(chunks).toString()) as Record<string, unknown>;
+    received.push({ url: req.url, headers: req.headers, body });
+
+    if (body.max_tokens === 1) {
+      res.writeHead(429, { "content-type": "application/json" });
+      res.end(JSON.stringify({ type: "error", error: { type: "rate_limit_error", message: "Slow down" } }));
+      return;
+    }
+
+    if (body.stream) {
+      res.writeHead(200, { "content-type": "text/event-stream" });
+      res.write(`event: message_start\ndata: ${JSON.stringify({ type: "message_start", message: { id: "msg_s", model: body.model, usage: { input_tokens: 5, output_tokens: 0 } } })}\n\n`);
+      res.write(`event: content_block_start\ndata: ${JSON.stringify({ type: "content_block_start", index: 0, content_block: { type: "text", text: "" } })}\n\n`);
+      res.write(`event: content_block_delta\ndata: ${JSON.stringify({ type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "Streamed" } })}\n\n`);
+      res.write(`event: content_block_stop\ndata: ${JSON.stringify({ type: "content_block_stop", index: 0 })}\n\n`);
+      res.write(`event: message_delta\ndata: ${JSON.stringify({ type: "message_delta", delta: { stop_reason: "end_turn" }, usage: { output_tokens: 1 } })}\n\n`);
+      res.end(`event: message_stop\ndata: ${JSON.stringify({ type: "message_stop" })}\n\n`);
+      return;
+    }
+
+    res.writeHead(200, { "content-type": "application/json" });
+    res.end(JSON.stringify({
+      id: "msg_1",
+      type: "message",
+      role: "assistant",
+      model: body.model,
+      content: [
+        { type: "thinking", thinking: "z.ai reasoning", signature: "bogus" },
+        { type: "text", text: "Hello from GLM" },
+      ],
+      stop_reason: "end_turn",
+      usage: { input_tokens: 8, output_tokens: 3 },
+    }));
+  });
+  const stubPort = await listen(stub);
+
+  const config = makeConfig({
+    upstream: {
+      glm: { url: `http://127.0.0.1:${stubPort}/api/anthropic`, apiKey: "glm-key", transformResponse: true },
+    },
+    routing: { rules: [{ match: "gpt-*", upstream: "glm", model: "GLM-4.7" }] },
+  });
+  ({ proxy, url: proxyUrl } = await startProxy(config));
+});
+
+afterAll(async () => {
+  await close(proxy);
+  await close(stub);
+});
+
+describe("Inbound OpenAI endpoint", () => {
+  it("routes chat completions through Messages routing and transforms", async () => {
+    const res = await postChat({
+      model: "gpt-4o",
+      messages: [
+        { role: "system", content: "Be brief." },
+        { role: "user", content: "Hi" },
+      ],
+    });
+
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.object).toBe("chat.completion");
+    expect(body.model).toBe("GLM-4.7");
+    expect(body.choices[0].message).toEqual({
+      role: "assistant",
+      content: "Hello from GLM",
+      reasoning_content: "z.ai reasoning",
+    });
+    expect(body.usage).toEqual({ prompt_tokens: 8, completion_tokens: 3, total_tokens: 11 });
+
+    const upstreamReq = received[received.length - 1];
+    expect(upstreamReq.url).toBe("/api/anthropic/v1/messages");
+    expect(upstreamReq.headers["x-api-key"]).toBe("glm-key");
+    expect(upstreamReq.headers.authorization).toBeUndefined();
+    expect(upstreamReq.headers["anthropic-version"]).toBe("2023-06-01");
+    expect(upstreamReq.body).toEqual({
+      model: "GLM-4.7",
+      max_tokens: 4096,
+      system: "Be brief.",
+      messages: [{ role: "user", content: [{ type: "text", text: "Hi" }] }],
+    });
+  });
+
+  it("translates streaming responses to chat completion chunks", async () => {
+    const res = await postChat({
+      model: "gpt-4o",
+      stream: true,
+      stream_options: { include_usage: true },
+      messages: [{ role: "user", content: "Hi" }],
+    });
+
+    expect(res.status).toBe(200);
+    const text = await res.text();
+    const payloads = text.split("\n\n").filter((line) => line).map((line) => line.slice(6));
+    expect(payloads[payloads.length - 1]).toBe("[DONE]");
+    const chunks = payloads.slice(0, -1).map((payload) => JSON.parse(payload));
+    expect(chunks.every((chunk) => chunk.object === "chat.completion.chunk")).toBe(true);
+    expect(chunks[1].choices[0].delta).toEqual({ content: "Streamed" });
+    expect(chunks[chunks.length - 1].usage).toEqual({ prompt_tokens: 5, completion_tokens: 1, total_tokens: 6 });
+  });
+
+  it("translates upstream errors to OpenAI error format", async () => {
+    const res = await postChat({ model: "gpt-4o", max_tokens: 1, messages: [{ role: "user", content: "Hi" }] });
+
+    expect(res.status).toBe(429);
+    expect(await res.json()).toEqual({ error: { message: "Slow down", type: "rate_limit_error", code: null } });
+  });
+
+  it("rejects non-object request bodies", async () => {
+    const res = await fetch(proxyUrl + "/v1/chat/completions", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: "[]",
+    });
+
+    expect(res.status).toBe(400);
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * Integration tests for OpenAI Chat Completions upstreams
+ * Runs the proxy against a local stub OpenAI-compatible server
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { createServer, type Server, type IncomingHttpHeaders } from "node:http";
+import { close, listen, makeConfig, startProxy } from "./helpers.js";
+
+interface StubRequest {
+  url?: string;
+  headers: IncomingHttpHeaders;
+  body: Record<string, unknown>;
+}
+
+let stub: Server;
+let proxy: Server;
+let proxyUrl: string;
+const received: StubRequest[] = [];
+
+async function postMessages(body: Record<string, unknown>, path = "/v1/messages"): Promise<Response> {
+  return fetch(proxyUrl + path, {
+    method: "POST",
+    headers: {
+      "content-type": "application/json",
+      "anthropic-version": "2023-06-01",
+      authorization: "Bearer oauth-token",
+    },
+    body: JSON.stringify(body),
+  });
+}
+
+beforeAll(async () => {
+  stub = createServer(async (req, res) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    const body = JSON.parse(Buffer.concat(chunks).toString()) as Record<string, unknown>;
+    received.push({ url: req.url, headers: req.headers, body });
+
+    const messages = body.messages as Array<{ content: unknown }>;
+    if (messages[messages.length - 1]?.content === "unknown model") {
+      res.writeHead(400, { "content-type": "application/json" });
+      res.end(JSON.stringify({ error: { message: "The model does not exist", type: "invalid_request_error", param: null, code: "model_not_found" } }));
+      return;
+    }
+    if (messages[messages.length - 1]?.content === "fail") {
+      res.writeHead(503, { "content-type": "application/json" });
+      res.end(JSON.stringify({ error: { message: "model is loading" } }));
+      return;
+    }
+
+    if (body.stream) {
+      res.writeHead(200, { "content-type": "text/event-stream" });
+      res.write('data: {"id":"s1","model":"local-model","choices":[{"delta":{"content":"Hello"}}]}\n\n');
+      res.write('data: {"id":"s1","choices":[{"delta":{"content":" world"},"finish_reason":"stop"}]}\n\n');
+      res.end("data: [DONE]\n\n");
+      return;
+    }
+
+    res.writeHead(200, { "content-type": "application/json" });
+    res.end(JSON.stringify({
+      id: "c1",
+      model: "local-model",
+      choices: [{ message: { content: "Hello world" }, finish_reason: "stop" }],
+      usage: { prompt_tokens: 3, completion_tokens: 2 },
+    }));
+  });
+  const stubPort = await listen(stub);
+
+  const config = makeConfig({
+    upstream: {
+      local: { url: `http://127.0.0.1:${stubPort}/v1`, type: "openai", apiKey: "local-key" },
+    },
+    routing: { rules: [{ match: "*", upstream: "local", model: "local-model" }] },
+  });
+  ({ proxy, url: proxyUrl } = await startProxy(config));
+});
+
+afterAll(async () => {
+  await close(proxy);
+  await close(stub);
+});
+
+describe("OpenAI upstream", () => {
+  it("translates JSON requests and responses", async () => {
+    const res = await postMessages({
+      model: "claude-haiku-4-5",
+      max_tokens: 100,
+      system: "Be brief.",
+      messages: [{ role: "user", content: "Hi" }],
+    });
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({
+      id: "msg_c1",
+      type: "message",
+      role: "assistant",
+      model: "local-model",
+      content: [{ type: "text", text: "Hello world" }],
+      stop_reason: "end_turn",
+      stop_sequence: null,
+      usage: { input_tokens: 3, output_tokens: 2 },
+    });
+
+    const upstreamReq = received[received.length - 1];
+    expect(upstreamReq.url).toBe("/v1/chat/completions");
+    expect(upstreamReq.headers.authorization).toBe("Bearer local-key");
+    expect(upstreamReq.headers["anthropic-version"]).toBeUndefined();
+    expect(upstreamReq.body).toEqual({
+      model: "local-model",
+      max_tokens: 100,
+      messages: [
+        { role: "system", content: "Be brief." },
+        { role: "user", content: "Hi" },
+      ],
+    });
+  });
+
+  it("translates streaming responses to Anthropic SSE", async () => {
+    const res = await postMessages({
+      model: "claude-haiku-4-5",
+      max_tokens: 100,
+      stream: true,
+      messages: [{ role: "user", content: "Hi" }],
+    });
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get("content-type")).toBe("text/event-stream");
+    const text = await res.text();
+    const types = text.match(/^event: (.+)$/gm)!.map((line) => line.slice(7));
+    expect(types).toEqual([
+      "message_start",
+      "content_block_start",
+      "content_block_delta",
+      "content_block_delta",
+      "content_block_stop",
+      "message_delta",
+      "message_stop",
+    ]);
+    expect(text).toContain('"text":" world"');
+  });
+
+  it("translates upstream errors to Anthropic error envelopes", async () => {
+    const res = await postMessages({ model: "claude-haiku-4-5", max_tokens: 10, messages: [{ role: "user", content: "fail" }] });
+
+    expect(res.status).toBe(503);
+    expect(await res.json()).toEqual({
+      type: "error",
+      error: { type: "overloaded_error", message: "model is loading" },
+    });
+  });
+
+  it("relays upstream errors to OpenAI clients in OpenAI format", async () => {
+    const chat = (content: string) =>
+      fetch(proxyUrl + "/v1/chat/completions", {
+        method: "POST",
+        headers: { "content-type": "application/json", authorization: "Bearer client-token" },
+        body: JSON.stringify({ model: "gpt-4o", messages: [{ role: "user", content }] }),
+      });
+
+    const notFound = await chat("unknown model");
+    expect(notFound.status).toBe(400);
+    expect(await notFound.json()).toEqual({
+      error: { message: "The model does not exist", type: "invalid_request_error", param: null, code: "model_not_found" },
+    });
+
+    const loading = await chat("fail");
+    expect(loading.status).toBe(503);
+    expect(await loading.json()).toEqual({ error: { message: "model is loading" } });
+  });
+
+  it("rejects non-Messages endpoints", async () => {
+    const res = await postMessages({ model: "claude-haiku-4-5", messages: [] }, "/v1/messages/batches");
+
+    expect(res.status).toBe(404);
+  });
+
+  it("answers count_tokens locally", async () => {
+    received.length = 0;
+    const res = await postMessages({ model: "claude-haiku-4-5", messages: [{ role: "user", content: "Hello there" }] }, "/v1/messages/count_tokens");
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ input_tokens: 3 });
+    expect(received).toHaveLength(0);
+  });
+});
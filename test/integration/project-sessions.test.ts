@@ -0,0 +1,100 @@
+/**
+ * Integration tests for per-project routing sessions
+ * Registers project routing through the launcher client and routes requests under the session prefix
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { SingletonProxy } from "../../src/lifecycle/singleton.js";
+import { Logger } from "../../src/utils/logger.js";
+import { close, listen, makeConfig, startProxy } from "./helpers.js";
+
+let glm: Server;
+let claude: Server;
+let proxy: Server;
+let proxyUrl: string;
+let launcher: SingletonProxy;
+const received: Array<{ upstream: string; url?: string; model: unknown }> = [];
+
+/** Stub upstream that reports its name in the response */
+function createStub(name: string): Server {
+  return createServer(async (req, res) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    const body = JSON.parse(Buffer.concat(chunks).toString()) as Record<string, unknown>;
+    received.push({ upstream: name, url: req.url, model: body.model });
+    res.writeHead(200, { "content-type": "application/json" });
+    res.end(JSON.stringify({ type: "message", model: body.model, content: [{ type: "text", text: name }] }));
+  });
+}
+
+async function postMessages(baseUrl: string): Promise<Response> {
+  return fetch(baseUrl + "/v1/messages?beta=true", {
+    method: "POST",
+    headers: { "content-type": "application/json", authorization: "Bearer oauth-token" },
+    body: JSON.stringify({ model: "claude-sonnet-4-5", max_tokens: 10, messages: [{ role: "user", content: "Hi" }] }),
+  });
+}
+
+beforeAll(async () => {
+  glm = createStub("glm");
+  claude = createStub("claude");
+  const glmPort = await listen(glm);
+  const claudePort = await listen(claude);
+
+  const config = makeConfig({
+    upstream: {
+      glm: { url: `http://127.0.0.1:${glmPort}`, apiKey: "glm-key" },
+      claude: { url: `http://127.0.0.1:${claudePort}` },
+    },
+    routing: { rules: [{ match: "claude-*", upstream: "glm", model: "GLM-4.7" }], default: "claude" },
+  });
+  ({ proxy, url: proxyUrl } = await startProxy(config));
+  const port = (proxy.address() as AddressInfo).port;
+  launcher = new SingletonProxy({ ...config, proxy: { ...config.proxy, port } }, new Logger(config.logging, { stderr: false }));
+});
+
+afterAll(async () => {
+  await close(proxy);
+  await close(glm);
+  await close(claude);
+});
+
+describe("Project sessions", () => {
+  it("routes session requests with the project's rules", async () => {
+    const session = await launcher.registerSession({ rules: [], default: "claude" }, "/work/client-repo");
+    expect(session.baseUrl).toBe(`${proxyUrl}/_cc-glm/s/${session.id}`);
+
+    received.length = 0;
+    const projectRes = await postMessages(session.baseUrl);
+    expect(projectRes.status).toBe(200);
+    expect(received[0]).toEqual({ upstream: "claude", url: "/v1/messages?beta=true", model: "claude-sonnet-4-5" });
+
+    // Requests without the prefix keep using the global rules
+    const globalRes = await postMessages(proxyUrl);
+    expect(globalRes.status).toBe(200);
+    expect(received[1]).toMatchObject({ upstream: "glm", model: "GLM-4.7" });
+
+    const list = await (await fetch(proxyUrl + "/_cc-glm/sessions")).json();
+    expect(list.sessions).toContainEqual(expect.objectContaining({ id: session.id, project: "/work/client-repo" }));
+
+    await launcher.unregisterSession(session.id);
+  });
+
+  it("rejects requests for unknown sessions instead of using global rules", async () => {
+    const session = await launcher.registerSession({ rules: [], default: "claude" }, "/work/client-repo");
+    await launcher.unregisterSession(session.id);
+
+    received.length = 0;
+    const res = await postMessages(session.baseUrl);
+    expect(res.status).toBe(404);
+    expect(received).toHaveLength(0);
+  });
+
+  it("rejects invalid project routing", async () => {
+    await expect(launcher.registerSession({ rules: [], default: "missing" }, "/work/x")).rejects.toThrow(
+      /Proxy rejected project routing: Invalid routing.default: "missing" is not valid/
+    );
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Integration tests for upstream rate limits
+ * Checks local 429s with retry-after, buckets fed by response usage,
+ * waiting for a refill and failover to fallbacks
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { createServer, type Server } from "node:http";
+import { close, listen, makeConfig, startProxy } from "./helpers.js";
+
+let stub: Server;
+let proxy: Server;
+let proxyUrl: string;
+let stubRequests = 0;
+
+async function postMessages(model: string, stream = false): Promise<Response> {
+  return fetch(proxyUrl + "/v1/messages", {
+    method: "POST",
+    headers: { "content-type": "application/json", "anthropic-version": "2023-06-01" },
+    body: JSON.stringify({ model, max_tokens: 10, stream, messages: [{ role: "user", content: "Hi" }] }),
+  });
+}
+
+beforeAll(async () => {
+  // Reports 100 input and 900 output tokens, as JSON or as an event stream
+  stub = createServer(async (req, res) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    stubRequests++;
+    const body = JSON.parse(Buffer.concat(chunks).toString());
+    if (body.stream) {
+      res.writeHead(200, { "content-type": "text/event-stream" });
+      res.write('event: message_start\ndata: {"type":"message_start","message":{"id":"msg_1","usage":{"input_tokens":100,"output_tokens":1}}}\n\n');
+      res.write('event: message_delta\ndata: {"type":"message_delta","delta":{"stop_reason":"end_turn"},"usage":{"output_tokens":900}}\n\n');
+      res.end('event: message_stop\ndata: {"type":"message_stop"}\n\n');
+      return;
+    }
+    res.writeHead(200, { "content-type": "application/json" });
+    res.end(JSON.stringify({ type: "message", content: [{ type: "text", text: `from ${req.url}` }], usage: { input_tokens: 100, output_tokens: 900 } }));
+  });
+  const stubPort = await listen(stub);
+
+  const config = makeConfig({
+    upstream: {
+      rpm: { url: `http://127.0.0.1:${stubPort}/rpm`, rateLimit: { requestsPerMinute: 1 } },
+      tpm: { url: `http://127.0.0.1:${stubPort}/tpm`, rateLimit: { outputTokensPerMinute: 600 } },
+      patient: { url: `http://127.0.0.1:${stubPort}/patient`, rateLimit: { outputTokensPerMinute: 898, onLimit: "wait" } },
+      spare: { url: `http://127.0.0.1:${stubPort}/spare` },
+    },
+    routing: {
+      rules: [
+        { match: "rpm-fallback", upstream: "rpm", fallback: [{ upstream: "spare" }] },
+        { match: "rpm-*", upstream: "rpm" },
+        { match: "tpm-*", upstream: "tpm" },
+        { match: "patient-*", upstream: "patient" },
+      ],
+    },
+  });
+  ({ proxy, url: proxyUrl } = await startProxy(config));
+});
+
+afterAll(async () => {
+  await close(proxy);
+  await close(stub);
+});
+
+describe("Rate limits", () => {
+  it("answers 429 with retry-after once the request bucket is empty, or fails over", async () => {
+    expect((await postMessages("rpm-a")).status).toBe(200);
+
+    stubRequests = 0;
+    const limited = await postMessages("rpm-a");
+    expect(limited.status).toBe(429);
+    expect(Number(limited.headers.get("retry-after"))).toBeGreaterThan(55);
+    expect((await limited.json()).error).toEqual({
+      type: "rate_limit_error",
+      message: expect.stringMatching(/^Upstream rpm request rate limit reached, retry in \d+s$/),
+    });
+    expect(stubRequests).toBe(0);
+
+    const failedOver = await postMessages("rpm-fallback");
+    expect((await failedOver.json()).content[0].text).toBe("from /spare/v1/messages");
+  });
+
+  it("charges token buckets with the usage of streamed responses", async () => {
+    const streamed = await postMessages("tpm-a", true);
+    expect(streamed.status).toBe(200);
+    await streamed.text();
+
+    // 900 output tokens against 600 per minute: 301 to recover at 10 per second
+    const limited = await postMessages("tpm-a");
+    expect(limited.status).toBe(429);
+    expect([30, 31]).toContain(Number(limited.headers.get("retry-after")));
+  });
+
+  it("holds requests until the bucket refills with onLimit wait", async () => {
+    expect((await postMessages("patient-a")).status).toBe(200);
+
+    // 900 output tokens against 898 per minute: 3 to recover, about 200ms
+    const start = Date.now();
+    const held = await postMessages("patient-a");
+    expect(held.status).toBe(200);
+    expect(Date.now() - start).toBeGreaterThanOrEqual(190);
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Integration tests for retries of transient upstream failures
+ * Runs the proxy against a stub that fails a set number of times before answering
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import { createServer, type Server } from "node:http";
+import { close, listen, makeConfig, startProxy } from "./helpers.js";
+
+let stub: Server;
+let proxy: Server;
+let proxyUrl: string;
+let attempts = 0;
+
+/**
+ * Stub upstream; the last user message is "<failure>:<count>" and selects how the
+ * first <count> attempts fail
+ */
+function createStub(): Server {
+  return createServer(async (req, res) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    const body = JSON.parse(Buffer.concat(chunks).toString()) as { messages: Array<{ content: string }> };
+    const [failure, count] = body.messages[body.messages.length - 1].content.split(":");
+    attempts++;
+
+    if (attempts <= Number(count)) {
+      if (failure === "reset") {
+        req.socket.destroy();
+      } else if (failure === "overloaded") {
+        res.writeHead(529, { "content-type": "application/json" });
+        res.end(JSON.stringify({ type: "error", error: { type: "overloaded_error", message: "Overloaded" } }));
+      } else if (failure === "limited") {
+        res.writeHead(429, { "content-type": "application/json", "retry-after": "0.3" });
+        res.end(JSON.stringify({ type: "error", error: { type: "rate_limit_error", message: "Slow down" } }));
+      } else {
+        res.writeHead(429, { "content-type": "application/json" });
+        res.end(JSON.stringify({ type: "error", error: { type: "rate_limit_error", message: "Quota exceeded" } }));
+      }
+      return;
+    }
+
+    res.writeHead(200, { "content-type": "application/json" });
+    res.end(JSON.stringify({ type: "message", content: [{ type: "text", text: `attempt ${attempts}` }] }));
+  });
+}
+
+async function postMessages(model: string, content: string): Promise<Response> {
+  return fetch(proxyUrl + "/v1/messages", {
+    method: "POST",
+    headers: { "content-type": "application/json", "anthropic-version": "2023-06-01" },
+    body: JSON.stringify({ model, max_tokens: 10, messages: [{ role: "user", content }] }),
+  });
+}
+
+beforeAll(async () => {
+  stub = createStub();
+  const stubPort = await listen(stub);
+
+  const config = makeConfig({
+    upstream: {
+      // The stub fails on purpose; keep the breaker out of the way
+      flaky: { url: `http://127.0.0.1:${stubPort}`, retry: { maxRetries: 2, baseDelaySeconds: 0.02 }, circuitBreaker: { enabled: false } },
+      hurried: { url: `http://127.0.0.1:${stubPort}`, retry: { maxRetries: 2, budgetSeconds: 0.1 } },
+      plain: { url: `http://127.0.0.1:${stubPort}` },
+    },
+    routing: {
+      rules: [
+        { match: "flaky-*", upstream: "flaky" },
+        { match: "hurried-*", upstream: "hurried" },
+        { match: "plain-*", upstream: "plain" },
+      ],
+    },
+  });
+  ({ proxy, url: proxyUrl } = await startProxy(config));
+});
+
+afterAll(async () => {
+  await close(proxy);
+  await close(stub);
+});
+
+beforeEach(() => {
+  attempts = 0;
+});
+
+describe("Upstream retries", () => {
+  it("retries a reset connection", async () => {
+    const res = await postMessages("flaky-model", "reset:1");
+
+    expect(res.status).toBe(200);
+    expect((await res.json()).content[0].text).toBe("attempt 2");
+  });
+
+  it("retries overloaded responses until the retries are used up", async () => {
+    const recovered = await postMessages("flaky-model", "overloaded:2");
+    expect(recovered.status).toBe(200);
+    expect((await recovered.json()).content[0].text).toBe("attempt 3");
+
+    attempts = 0;
+    const exhausted = await postMessages("flaky-model", "overloaded:5");
+    expect(exhausted.status).toBe(529);
+    expect((await exhausted.json()).error.type).toBe("overloaded_error");
+    expect(attempts).toBe(3);
+  });
+
+  it("waits for retry-after before retrying a rate limit", async () => {
+    const start = Date.now();
+    const res = await postMessages("flaky-model", "limited:1");
+
+    expect(res.status).toBe(200);
+    expect(Date.now() - start).toBeGreaterThanOrEqual(300);
+  });
+
+  it("doesn't retry a rate limit without retry-after", async () => {
+    const res = await postMessages("flaky-model", "quota:1");
+
+    expect(res.status).toBe(429);
+    expect(attempts).toBe(1);
+  });
+
+  it("stops when the wait would exceed the time budget", async () => {
+    const res = await postMessages("hurried-model", "limited:1");
+
+    expect(res.status).toBe(429);
+    expect(res.headers.get("retry-after")).toBe("0.3");
+    expect(attempts).toBe(1);
+  });
+
+  it("doesn't retry upstreams without retries configured", async () => {
+    const res = await postMessages("plain-model", "overloaded:1");
+
+    expect(res.status).toBe(529);
+    expect(attempts).toBe(1);
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * Integration tests for streaming responses
+ * Runs the proxy against a local stub that streams SSE in small chunks
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { createServer, type Server } from "node:http";
+import { close, listen, makeConfig, startProxy } from "./helpers.js";
+
+let glm: Server;
+let claude: Server;
+let proxy: Server;
+let proxyUrl: string;
+
+function sse(type: string, data: Record<string, unknown>): string {
+  return `event: ${type}\ndata: ${JSON.stringify({ type, ...data })}\n\n`;
+}
+
+/** z.ai-style stream with signed thinking, sent in 7-byte chunks */
+const GLM_STREAM =
+  sse("message_start", { message: { id: "msg_1", type: "message", role: "assistant", model: "glm-4.7", content: [] } }) +
+  sse("content_block_start", { index: 0, content_block: { type: "thinking", thinking: "", signature: "zai-sig" } }) +
+  sse("content_block_delta", { index: 0, delta: { type: "thinking_delta", thinking: "Let me think" } }) +
+  sse("content_block_delta", { index: 0, delta: { type: "signature_delta", signature: "zai-sig" } }) +
+  sse("content_block_stop", { index: 0 }) +
+  sse("content_block_start", { index: 1, content_block: { type: "text", text: "" } }) +
+  sse("content_block_delta", { index: 1, delta: { type: "text_delta", text: "Hello" } }) +
+  sse("content_block_stop", { index: 1 }) +
+  sse("message_stop", {});
+
+/** Anthropic-style stream with a signature split over two signature_delta events */
+const CLAUDE_STREAM =
+  sse("message_start", { message: { id: "msg_2", type: "message", role: "assistant", model: "claude-opus-4-5", content: [] } }) +
+  sse("content_block_start", { index: 0, content_block: { type: "thinking", thinking: "", signature: "" } }) +
+  sse("content_block_delta", { index: 0, delta: { type: "thinking_delta", thinking: "Deep thought" } }) +
+  sse("content_block_delta", { index: 0, delta: { type: "signature_delta", signature: "EqQBCkYI" } }) +
+  sse("content_block_delta", { index: 0, delta: { type: "signature_delta", signature: "ARgCKkD3" } }) +
+  sse("content_block_stop", { index: 0 }) +
+  sse("message_stop", {});
+
+const claudeReceived: Array<Record<string, unknown>> = [];
+/** Called when the proxy hangs up on an endless z.ai stream */
+let onEndlessClose: (() => void) | undefined;
+
+beforeAll(async () => {
+  glm = createServer(async (req, res) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    const body = JSON.parse(Buffer.concat(chunks).toString()) as Record<string, unknown>;
+    if (!body.stream) {
+      res.writeHead(200, { "content-type": "application/json" });
+      res.end(JSON.stringify({ id: "msg_3", type: "message", role: "assistant", model: "glm-4.5-air", content: [] }));
+      return;
+    }
+    res.writeHead(200, { "content-type": "text/event-stream" });
+    const messages = body.messages as Array<{ content: unknown }>;
+    if (messages[messages.length - 1]?.content === "endless") {
+      // Keeps generating until the proxy hangs up
+      const timer = setInterval(() => res.write(sse("ping", {})), 20);
+      res.on("close", () => {
+        clearInterval(timer);
+        onEndlessClose?.();
+      });
+      return;
+    }
+    for (let i = 0; i < GLM_STREAM.length; i += 7) {
+      res.write(GLM_STREAM.slice(i, i + 7));
+    }
+    res.end();
+  });
+  const glmPort = await listen(glm);
+
+  claude = createServer(async (req, res) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    claudeReceived.push(JSON.parse(Buffer.concat(chunks).toString()) as Record<string, unknown>);
+    res.writeHead(200, { "content-type": "text/event-stream" });
+    res.end(CLAUDE_STREAM);
+  });
+  const claudePort = await listen(claude);
+
+  const config = makeConfig({
+    upstream: {
+      zai: { url: `http://127.0.0.1:${glmPort}`, apiKey: "zai-test" },
+      claude: { url: `http://127.0.0.1:${claudePort}`, sanitizeRequest: true },
+    },
+    routing: {
+      rules: [
+        { match: "claude-sonnet-*", upstream: "zai", model: "GLM-4.7" },
+        { match: "claude-haiku-*", upstream: "zai", model: "GLM-4.5-Air", restoreModel: true },
+      ],
+      default: "claude",
+    },
+  });
+  ({ proxy, url: proxyUrl } = await startProxy(config));
+});
+
+afterAll(async () => {
+  await close(proxy);
+  await close(glm);
+  await close(claude);
+});
+
+async function postMessages(model: string, messages: unknown[], stream = true): Promise<Response> {
+  return fetch(proxyUrl + "/v1/messages", {
+    method: "POST",
+    headers: { "content-type": "application/json", authorization: "Bearer oauth-token" },
+    body: JSON.stringify({ model, max_tokens: 10, stream, messages }),
+  });
+}
+
+describe("Streaming responses", () => {
+  it("rewrites z.ai thinking events while streaming", async () => {
+    const res = await postMessages("claude-sonnet-4-5", [{ role: "user", content: "Hi" }]);
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get("content-type")).toBe("text/event-stream");
+    const text = await res.text();
+    const events = text
+      .split("\n\n")
+      .filter(Boolean)
+      .map((event) => JSON.parse(event.split("\n")[1].slice(5)));
+
+    expect(text).not.toContain("zai-sig");
+    expect(events.map((event) => event.type)).toEqual([
+      "message_start",
+      "content_block_start",
+      "content_block_delta",
+      "content_block_stop",
+      "content_block_start",
+      "content_block_delta",
+      "content_block_stop",
+      "message_stop",
+    ]);
+    expect(events[1].content_block).toEqual({ type: "thinking", thinking: "" });
+    expect(events[0].message.model).toBe("glm-4.7");
+    expect(res.headers.get("x-cc-glm-upstream-model")).toBeNull();
+  });
+
+  it("stops the upstream stream when the client disconnects", async () => {
+    const upstreamClosed = new Promise<void>((resolve) => (onEndlessClose = resolve));
+    const controller = new AbortController();
+    const res = await fetch(proxyUrl + "/v1/messages", {
+      method: "POST",
+      headers: { "content-type": "application/json", authorization: "Bearer oauth-token" },
+      body: JSON.stringify({ model: "claude-sonnet-4-5", max_tokens: 10, stream: true, messages: [{ role: "user", content: "endless" }] }),
+      signal: controller.signal,
+    });
+    await res.body!.getReader().read();
+
+    controller.abort();
+    await upstreamClosed;
+  });
+
+  it("reports the client's model when the rule restores it", async () => {
+    const streamRes = await postMessages("claude-haiku-4-5", [{ role: "user", content: "Hi" }]);
+    expect(streamRes.headers.get("x-cc-glm-upstream-model")).toBe("GLM-4.5-Air");
+    const start = JSON.parse((await streamRes.text()).split("\n")[1].slice(5));
+    expect(start.message.model).toBe("claude-haiku-4-5");
+
+    const jsonRes = await postMessages("claude-haiku-4-5", [{ role: "user", content: "Hi" }], false);
+    expect(jsonRes.headers.get("x-cc-glm-upstream-model")).toBe("GLM-4.5-Air");
+    expect((await jsonRes.json()).model).toBe("claude-haiku-4-5");
+  });
+
+  it("records signatures from Anthropic streams so their thinking blocks are kept", async () => {
+    const res = await postMessages("claude-opus-4-5", [{ role: "user", content: "Hi" }]);
+    expect(await res.text()).toBe(CLAUDE_STREAM);
+
+    claudeReceived.length = 0;
+    const history = [
+      { role: "user", content: "Hi" },
+      { role: "assistant", content: [{ type: "thinking", thinking: "Deep thought", signature: "EqQBCkYIARgCKkD3" }] },
+      { role: "user", content: "And then?" },
+    ];
+    await (await postMessages("claude-opus-4-5", history)).text();
+
+    const messages = claudeReceived[0].messages as Array<{ content: unknown }>;
+    expect(messages[1].content).toEqual([{ type: "thinking", thinking: "Deep thought", signature: "EqQBCkYIARgCKkD3" }]);
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Integration tests for per-upstream timeouts
+ * Runs the proxy against stub servers that stall before or during the response
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { createServer, type Server } from "node:http";
+import { close, listen, makeConfig, startProxy } from "./helpers.js";
+
+let stub: Server;
+let backup: Server;
+let proxy: Server;
+let proxyUrl: string;
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** Stub upstream; the last user message selects how it stalls */
+function createStub(): Server {
+  return createServer(async (req, res) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    const body = JSON.parse(Buffer.concat(chunks).toString()) as { messages: Array<{ content: unknown }> };
+    const last = body.messages[body.messages.length - 1]?.content;
+
+    if (last === "stall") {
+      return; // never answers
+    }
+
+    res.writeHead(200, { "content-type": "text/event-stream" });
+    res.write('event: message_start\ndata: {"type":"message_start","message":{"id":"msg_1","model":"GLM-4.7"}}\n\n');
+    if (last === "partial") {
+      // Stalls in the middle of an event
+      res.write('event: content_block_delta\ndata: {"type":"content_block_delta"');
+      return;
+    }
+    if (last === "flood") {
+      // More than the sockets buffer, so the proxy has to wait for a slow client
+      const ping = "event: ping\ndata: {\"type\":\"ping\"}\n\n";
+      res.write(ping.repeat(Math.ceil(16 * 1024 * 1024 / ping.length)));
+      res.end('event: message_stop\ndata: {"type":"message_stop"}\n\n');
+      return;
+    }
+    if (last === "trickle") {
+      // Keeps sending, but never finishes
+      const timer = setInterval(() => res.write("event: ping\ndata: {\"type\":\"ping\"}\n\n"), 50);
+      res.on("close", () => clearInterval(timer));
+      return;
+    }
+    await delay(300);
+    res.end('event: message_stop\ndata: {"type":"message_stop"}\n\n');
+  });
+}
+
+async function postMessages(model: string, content: string): Promise<Response> {
+  return fetch(proxyUrl + "/v1/messages", {
+    method: "POST",
+    headers: { "content-type": "application/json", "anthropic-version": "2023-06-01" },
+    body: JSON.stringify({ model, max_tokens: 10, stream: true, messages: [{ role: "user", content }] }),
+  });
+}
+
+beforeAll(async () => {
+  stub = createStub();
+  backup = createServer((_req, res) => {
+    res.writeHead(200, { "content-type": "application/json" });
+    res.end(JSON.stringify({ type: "message", content: [{ type: "text", text: "from backup" }] }));
+  });
+  const stubPort = await listen(stub);
+  const backupPort = await listen(backup);
+
+  const config = makeConfig({
+    upstream: {
+      strict: { url: `http://127.0.0.1:${stubPort}`, timeouts: { firstByteSeconds: 0.2, idleSeconds: 0.1, totalSeconds: 0.5 } },
+      patient: { url: `http://127.0.0.1:${stubPort}`, timeouts: { idleSeconds: 2 } },
+      paced: { url: `http://127.0.0.1:${stubPort}`, timeouts: { idleSeconds: 0.2 } },
+      pacedZai: { url: `http://127.0.0.1:${stubPort}`, transformResponse: true, timeouts: { idleSeconds: 0.2 } },
+      backup: { url: `http://127.0.0.1:${backupPort}` },
+    },
+    routing: {
+      rules: [
+        { match: "strict-fallback", upstream: "strict", fallback: [{ upstream: "backup" }] },
+        { match: "strict-*", upstream: "strict" },
+        { match: "patient-*", upstream: "patient" },
+        { match: "paced-zai-*", upstream: "pacedZai" },
+        { match: "paced-*", upstream: "paced" },
+      ],
+    },
+  });
+  ({ proxy, url: proxyUrl } = await startProxy(config));
+});
+
+afterAll(async () => {
+  await close(proxy);
+  await close(stub);
+  await close(backup);
+});
+
+describe("Upstream timeouts", () => {
+  it("answers 504 when the first byte doesn't arrive in time", async () => {
+    const res = await postMessages("strict-model", "stall");
+
+    expect(res.status).toBe(504);
+    expect(await res.json()).toEqual({ type: "error", error: { type: "timeout_error", message: "Upstream strict firstByte timeout" } });
+  });
+
+  it("fails over on a first-byte timeout", async () => {
+    const res = await postMessages("strict-fallback", "stall");
+
+    expect(res.status).toBe(200);
+    expect((await res.json()).content[0].text).toBe("from backup");
+  });
+
+  it("ends the stream with an error event when the upstream goes idle", async () => {
+    const res = await postMessages("strict-model", "pause");
+    const text = await res.text();
+
+    expect(res.status).toBe(200);
+    expect(text).toContain("event: message_start");
+    expect(text).not.toContain("message_stop");
+    expect(text).toMatch(/event: error\ndata: \{"type":"error","error":\{"type":"timeout_error","message":"Upstream strict idle timeout"\}\}\n\n$/);
+  });
+
+  it("ends a partially sent event before the error event", async () => {
+    const res = await postMessages("strict-model", "partial");
+    const text = await res.text();
+
+    expect(text).toMatch(/data: \{"type":"content_block_delta"\n\nevent: error\ndata: .*"Upstream strict idle timeout"\}\}\n\n$/);
+  });
+
+  it("does not count a slow client as an idle upstream", async () => {
+    const res = await postMessages("paced-model", "flood");
+    await delay(1000);
+    const text = await res.text();
+
+    expect(text).toContain("event: message_stop");
+    expect(text).not.toContain("event: error");
+  });
+
+  it("does not count a slow client as an idle upstream on transformed streams", async () => {
+    const res = await postMessages("paced-zai-model", "flood");
+    await delay(1000);
+    const text = await res.text();
+
+    expect(text).toContain("event: message_stop");
+    expect(text).not.toContain("event: error");
+  });
+
+  it("ends the stream when the total timeout expires", async () => {
+    const res = await postMessages("strict-model", "trickle");
+    const text = await res.text();
+
+    expect(text).toContain("event: ping");
+    expect(text).toContain('"message":"Upstream strict total timeout"');
+  });
+
+  it("keeps streams with pauses shorter than the idle timeout", async () => {
+    const res = await postMessages("patient-model", "pause");
+    const text = await res.text();
+
+    expect(text).toContain("event: message_stop");
+    expect(text).not.toContain("event: error");
+  });
+});
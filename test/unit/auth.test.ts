@@ -0,0 +1,86 @@
+/**
+ * Unit tests for upstream authentication strategies
+ */
+
+import { describe, it, expect } from "vitest";
+import { applyAuth } from "../../src/proxy/auth.js";
+import type { Route } from "../../src/proxy/types.js";
+
+function route(overrides: Partial<Route>): Route {
+  return {
+    name: "test",
+    url: "https://example.com",
+    type: "anthropic",
+    auth: "oauth",
+    sanitizeRequest: false,
+    transformResponse: false,
+    ...overrides,
+  };
+}
+
+function clientHeaders(): Record<string, string | string[]> {
+  return {
+    authorization: "Bearer oauth-token",
+    "x-api-key": "client-key",
+    "content-type": "application/json",
+  };
+}
+
+describe("applyAuth", () => {
+  it("forwards client credentials for oauth", () => {
+    const headers = clientHeaders();
+    applyAuth(headers, route({ auth: "oauth" }));
+
+    expect(headers.authorization).toBe("Bearer oauth-token");
+    expect(headers["x-api-key"]).toBe("client-key");
+  });
+
+  it("replaces client credentials with x-api-key", () => {
+    const headers = clientHeaders();
+    applyAuth(headers, route({ auth: "api-key", apiKey: "upstream-key" }));
+
+    expect(headers.authorization).toBeUndefined();
+    expect(headers["x-api-key"]).toBe("upstream-key");
+  });
+
+  it("replaces client credentials with a bearer token", () => {
+    const headers = clientHeaders();
+    applyAuth(headers, route({ auth: "bearer", apiKey: "upstream-key" }));
+
+    expect(headers.authorization).toBe("Bearer upstream-key");
+    expect(headers["x-api-key"]).toBeUndefined();
+  });
+
+  it("drops client credentials for none", () => {
+    const headers = clientHeaders();
+    applyAuth(headers, route({ auth: "none" }));
+
+    expect(headers.authorization).toBeUndefined();
+    expect(headers["x-api-key"]).toBeUndefined();
+    expect(headers["content-type"]).toBe("application/json");
+  });
+
+  it("sets a templated custom header", () => {
+    const headers = clientHeaders();
+    applyAuth(headers, route({ auth: "header", apiKey: "upstream-key", authHeader: "X-Gateway-Token", authTemplate: "Token {key}" }));
+
+    expect(headers["x-gateway-token"]).toBe("Token upstream-key");
+    expect(headers.authorization).toBeUndefined();
+    expect(headers["x-api-key"]).toBeUndefined();
+  });
+
+  it("uses the bare key when no template is set", () => {
+    const headers = clientHeaders();
+    applyAuth(headers, route({ auth: "header", apiKey: "upstream-key", authHeader: "api-key" }));
+
+    expect(headers["api-key"]).toBe("upstream-key");
+  });
+
+  it("drops client credentials even without a key", () => {
+    const headers = clientHeaders();
+    applyAuth(headers, route({ auth: "api-key" }));
+
+    expect(headers.authorization).toBeUndefined();
+    expect(headers["x-api-key"]).toBeUndefined();
+  });
+});
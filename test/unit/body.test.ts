@@ -0,0 +1,173 @@
+/**
+ * Tests for request body scanning and pass-through
+ */
+
+import { describe, it, expect } from "vitest";
+import { PassThrough } from "node:stream";
+import { BODY_TOO_LARGE, JsonFieldScanner, StreamedBody, readBody } from "../../src/proxy/body.js";
+
+/**
+ * Feed a body to a scanner in chunks of the given size
+ */
+function scan(body: string, fields: string[], chunkSize = body.length): JsonFieldScanner {
+  const scanner = new JsonFieldScanner(fields);
+  const bytes = Buffer.from(body);
+  for (let i = 0; i < bytes.length && !scanner.done; i += chunkSize) {
+    scanner.push(bytes.subarray(i, i + chunkSize));
+  }
+  return scanner;
+}
+
+/**
+ * Collect everything written to a stream until it ends, fails or is destroyed
+ */
+function collect(stream: PassThrough): Promise<{ body: string; error?: NodeJS.ErrnoException }> {
+  return new Promise((resolve) => {
+    const chunks: Buffer[] = [];
+    stream.on("data", (chunk: Buffer) => chunks.push(chunk));
+    stream.on("end", () => resolve({ body: Buffer.concat(chunks).toString() }));
+    stream.on("error", (error) => resolve({ body: Buffer.concat(chunks).toString(), error }));
+    stream.on("close", () => resolve({ body: Buffer.concat(chunks).toString() }));
+  });
+}
+
+describe("JsonFieldScanner", () => {
+  const body = JSON.stringify({
+    model: "claude-sonnet-4-5",
+    max_tokens: 1024,
+    system: [{ type: "text", text: 'say "hi" {not a brace}' }],
+    stream: true,
+    thinking: { type: "enabled", budget_tokens: 2048 },
+    messages: [{ role: "user", content: "Hello" }],
+  });
+
+  it("reads wanted fields of every value type", () => {
+    const scanner = scan(body, ["model", "max_tokens", "system", "stream", "thinking"]);
+    expect(scanner.done).toBe(true);
+    expect(scanner.invalid).toBe(false);
+    expect(scanner.fields).toEqual({
+      model: "claude-sonnet-4-5",
+      max_tokens: 1024,
+      system: [{ type: "text", text: 'say "hi" {not a brace}' }],
+      stream: true,
+      thinking: { type: "enabled", budget_tokens: 2048 },
+    });
+  });
+
+  it("gives the same result for any chunk split", () => {
+    for (const chunkSize of [1, 2, 3, 7, 16]) {
+      const scanner = scan(body, ["model", "system", "thinking"], chunkSize);
+      expect(scanner.fields).toEqual({
+        model: "claude-sonnet-4-5",
+        system: [{ type: "text", text: 'say "hi" {not a brace}' }],
+        thinking: { type: "enabled", budget_tokens: 2048 },
+      });
+    }
+  });
+
+  it("stops once all wanted fields were seen", () => {
+    const scanner = new JsonFieldScanner(["model"]);
+    scanner.push(Buffer.from('{"model":"glm-4.7","messages":['));
+    expect(scanner.done).toBe(true);
+    expect(scanner.fields).toEqual({ model: "glm-4.7" });
+  });
+
+  it("finishes at the end of the object when fields are missing", () => {
+    const scanner = scan('{"messages":[{"role":"user","content":"model"}]}', ["model", "tools"]);
+    expect(scanner.done).toBe(true);
+    expect(scanner.invalid).toBe(false);
+    expect(scanner.fields).toEqual({});
+  });
+
+  it("decodes escaped keys and strings, keeping the first occurrence", () => {
+    const scanner = scan('{"mo\\u0064el":"a\\"b\\\\","model":"second","tools":[]}', ["model", "tools"], 3);
+    expect(scanner.fields).toEqual({ model: 'a"b\\', tools: [] });
+  });
+
+  it("decodes multi-byte characters split across chunks", () => {
+    const scanner = scan('{"system":"こんにちは","model":"glm"}', ["system", "model"], 1);
+    expect(scanner.fields).toEqual({ system: "こんにちは", model: "glm" });
+  });
+
+  it("flags bodies that are not JSON objects", () => {
+    expect(scan("[1,2]", ["model"]).invalid).toBe(true);
+    expect(scan("not json", ["model"]).invalid).toBe(true);
+    expect(scan('{"model" "x"}', ["model"]).invalid).toBe(true);
+    expect(scan('{"model":tru}', ["model"]).invalid).toBe(true);
+  });
+});
+
+describe("readBody", () => {
+  it("reads the whole body without a scanner", async () => {
+    const source = new PassThrough();
+    source.end('{"model":"glm"}');
+    const read = await readBody(source, 1024);
+    expect(read.ended).toBe(true);
+    expect(read.tooLarge).toBe(false);
+    expect(Buffer.concat(read.chunks).toString()).toBe('{"model":"glm"}');
+  });
+
+  it("stops early once the scanner is done and leaves the rest unread", async () => {
+    const source = new PassThrough();
+    source.write('{"model":"glm",');
+    const read = await readBody(source, 1024, new JsonFieldScanner(["model"]));
+    expect(read.ended).toBe(false);
+    expect(read.size).toBe(15);
+    expect(source.isPaused()).toBe(true);
+  });
+
+  it("stops at the size limit", async () => {
+    const source = new PassThrough();
+    source.end("x".repeat(100));
+    const read = await readBody(source, 10);
+    expect(read.tooLarge).toBe(true);
+  });
+});
+
+describe("StreamedBody", () => {
+  it("forwards the head and the rest of the client stream", async () => {
+    const source = new PassThrough();
+    source.write('{"model":"glm",');
+    const head = await readBody(source, 1024, new JsonFieldScanner(["model"]));
+
+    const body = new StreamedBody(head.chunks, source, 1024, false);
+    const dest = new PassThrough();
+    const received = collect(dest);
+    body.writeTo(dest);
+    source.end('"messages":[]}');
+
+    expect((await received).body).toBe('{"model":"glm","messages":[]}');
+    expect(() => body.writeTo(new PassThrough())).toThrow("Request body was already forwarded");
+  });
+
+  it("replays the body to a later destination", async () => {
+    const source = new PassThrough();
+    const body = new StreamedBody([Buffer.from("{")], source, 1024, true);
+
+    const first = new PassThrough();
+    const firstReceived = collect(first);
+    body.writeTo(first);
+    source.write('"a":1');
+    // The first attempt fails mid-body; the retry gets everything so far and the rest
+    await new Promise((resolve) => setImmediate(resolve));
+    first.destroy();
+    expect((await firstReceived).body).toBe('{"a":1');
+
+    const second = new PassThrough();
+    const secondReceived = collect(second);
+    body.writeTo(second);
+    source.end("}");
+    expect((await secondReceived).body).toBe('{"a":1}');
+  });
+
+  it("fails the destination when the body exceeds the limit", async () => {
+    const source = new PassThrough();
+    const body = new StreamedBody([Buffer.from("{")], source, 8, false);
+    const dest = new PassThrough();
+    const received = collect(dest);
+    body.writeTo(dest);
+    source.end('"x":"too long"}');
+
+    expect((await received).error?.code).toBe(BODY_TOO_LARGE);
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * Unit tests for upstream capability profiles
+ */
+
+import { describe, it, expect } from "vitest";
+import { applyCapabilities, applyBetaCapabilities, ZAI_CAPABILITIES } from "../../src/proxy/capabilities.js";
+
+describe("applyCapabilities", () => {
+  describe("params", () => {
+    it("drops top-level and nested parameters", () => {
+      const body = {
+        model: "GLM-4.7",
+        messages: [{ role: "user", content: "Hi" }],
+        metadata: { user_id: "u" },
+        thinking: { type: "enabled", budget_tokens: 1024 },
+      };
+      const result = applyCapabilities(body, { params: { drop: ["metadata", "thinking.budget_tokens"] } });
+
+      expect(result).toEqual({
+        model: "GLM-4.7",
+        messages: [{ role: "user", content: "Hi" }],
+        thinking: { type: "enabled" },
+      });
+      expect(body.thinking.budget_tokens).toBe(1024);
+    });
+
+    it("keeps only allowed parameters but never model and messages", () => {
+      const body = { model: "m", messages: [], max_tokens: 10, temperature: 1, top_k: 5 };
+      const result = applyCapabilities(body, { params: { keep: ["max_tokens", "temp*"] } });
+
+      expect(result).toEqual({ model: "m", messages: [], max_tokens: 10, temperature: 1 });
+    });
+
+    it("sets values by path", () => {
+      const body = { model: "m", messages: [], thinking: { type: "enabled", budget_tokens: 1024 } };
+      const result = applyCapabilities(body, { params: { set: { "thinking.type": "disabled", stream: false } } });
+
+      expect(result.thinking).toEqual({ type: "disabled", budget_tokens: 1024 });
+      expect(result.stream).toBe(false);
+      expect(body.thinking.type).toBe("enabled");
+    });
+
+    it("returns the same body when nothing changes", () => {
+      const body = { model: "m", messages: [], max_tokens: 10 };
+      expect(applyCapabilities(body, { params: { drop: ["metadata"] } })).toBe(body);
+    });
+  });
+
+  describe("tools", () => {
+    const tools = [
+      { name: "Read", input_schema: { type: "object" }, cache_control: { type: "ephemeral" } },
+      { type: "web_search_20250305", name: "web_search" },
+    ];
+
+    it("drops server tools and a tool_choice naming them", () => {
+      const body = { model: "m", messages: [], tools, tool_choice: { type: "tool", name: "web_search" } };
+      const result = applyCapabilities(body, { tools: { keep: ["custom"] } });
+
+      expect(result.tools).toEqual([tools[0]]);
+      expect(result.tool_choice).toBeUndefined();
+    });
+
+    it("removes tools and tool_choice when no tool remains", () => {
+      const body = { model: "m", messages: [], tools: [tools[1]], tool_choice: { type: "auto" } };
+      const result = applyCapabilities(body, { tools: { drop: ["web_search_*"] } });
+
+      expect(result).toEqual({ model: "m", messages: [] });
+    });
+
+    it("strips block fields from tool definitions", () => {
+      const body = { model: "m", messages: [], tools: [tools[0]] };
+      const result = applyCapabilities(body, { blocks: { stripFields: ["cache_control"] } });
+
+      expect(result.tools).toEqual([{ name: "Read", input_schema: { type: "object" } }]);
+    });
+  });
+
+  describe("blocks", () => {
+    it("strips fields from system, message and nested tool_result blocks", () => {
+      const body = {
+        model: "m",
+        system: [{ type: "text", text: "sys", cache_control: { type: "ephemeral" } }],
+        messages: [
+          {
+            role: "user",
+            content: [
+              { type: "tool_result", tool_use_id: "t1", content: [{ type: "text", text: "out", cache_control: { type: "ephemeral" } }] },
+              { type: "text", text: "Hi", citations: [] },
+            ],
+          },
+        ],
+      };
+      const result = applyCapabilities(body, { blocks: { stripFields: ["cache_control", "citations"] } });
+
+      expect(result.system).toEqual([{ type: "text", text: "sys" }]);
+      expect(result.messages).toEqual([
+        {
+          role: "user",
+          content: [
+            { type: "tool_result", tool_use_id: "t1", content: [{ type: "text", text: "out" }] },
+            { type: "text", text: "Hi" },
+          ],
+        },
+      ]);
+    });
+
+    it("drops blocks and repairs the message structure", () => {
+      const body = {
+        model: "m",
+        messages: [
+          { role: "user", content: "Search" },
+          { role: "assistant", content: [{ type: "server_tool_use", id: "s1", name: "web_search", input: {} }] },
+          { role: "user", content: "Thanks" },
+        ],
+      };
+      const result = applyCapabilities(body, { blocks: { drop: ["server_tool_use"] } });
+
+      expect(result.messages).toEqual([{ role: "user", content: "Search\n\nThanks" }]);
+    });
+
+    it("converts tool results of dropped tool uses to text", () => {
+      const body = {
+        model: "m",
+        messages: [
+          { role: "user", content: "Read it" },
+          {
+            role: "assistant",
+            content: [
+              { type: "text", text: "Reading" },
+              { type: "tool_use", id: "t1", name: "read", input: {} },
+            ],
+          },
+          { role: "user", content: [{ type: "tool_result", tool_use_id: "t1", content: "file body" }] },
+        ],
+      };
+      const result = applyCapabilities(body, { blocks: { drop: ["tool_use"] } });
+
+      expect(result.messages).toEqual([
+        { role: "user", content: "Read it" },
+        { role: "assistant", content: [{ type: "text", text: "Reading" }] },
+        { role: "user", content: [{ type: "text", text: "[previous tool result]\nfile body" }] },
+      ]);
+    });
+
+    it("converts blocks to text", () => {
+      const body = {
+        model: "m",
+        messages: [
+          {
+            role: "user",
+            content: [
+              { type: "document", title: "Notes", source: { type: "text", media_type: "text/plain", data: "hello" } },
+              { type: "search_result", title: "Result", source: "https://example.com", content: [{ type: "text", text: "snippet" }] },
+            ],
+          },
+        ],
+      };
+      const result = applyCapabilities(body, { blocks: { text: ["document", "search_result"] } });
+
+      expect(result.messages).toEqual([
+        {
+          role: "user",
+          content: [
+            { type: "text", text: "[document]\nNotes\nhello" },
+            { type: "text", text: "[search_result]\nResult\nsnippet" },
+          ],
+        },
+      ]);
+    });
+
+    it("drops block types not in keep", () => {
+      const body = {
+        model: "m",
+        messages: [{ role: "user", content: [{ type: "text", text: "Hi" }, { type: "image", source: {} }] }],
+      };
+      const result = applyCapabilities(body, { blocks: { keep: ["text", "tool_*"] } });
+
+      expect(result.messages).toEqual([{ role: "user", content: [{ type: "text", text: "Hi" }] }]);
+    });
+  });
+
+  it("built-in z.ai profile drops Anthropic-only parameters and server tools", () => {
+    const body = {
+      model: "GLM-4.7",
+      messages: [{ role: "user", content: "Hi" }],
+      context_management: { edits: [] },
+      tools: [{ name: "Read", input_schema: {} }, { type: "web_fetch_20250910", name: "web_fetch" }],
+    };
+    const result = applyCapabilities(body, ZAI_CAPABILITIES);
+
+    expect(result).toEqual({
+      model: "GLM-4.7",
+      messages: [{ role: "user", content: "Hi" }],
+      tools: [{ name: "Read", input_schema: {} }],
+    });
+  });
+});
+
+describe("applyBetaCapabilities", () => {
+  it("filters and renames beta values", () => {
+    const betas = { drop: ["context-management-*"], rename: { "old-beta": "new-beta" } };
+    expect(applyBetaCapabilities("interleaved-thinking-2025-05-14, context-management-2025-06-27,old-beta", betas)).toBe(
+      "interleaved-thinking-2025-05-14,new-beta"
+    );
+  });
+
+  it("returns undefined when no value remains", () => {
+    expect(applyBetaCapabilities("a,b", { keep: [] })).toBeUndefined();
+  });
+
+  it("keeps the header without a betas section", () => {
+    expect(applyBetaCapabilities("a, b", undefined)).toBe("a, b");
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Tests for upstream circuit breakers
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { CircuitBreaker, CircuitBreakerRegistry, DEFAULT_CIRCUIT_BREAKER } from "../../src/proxy/circuit-breaker.js";
+import { Logger } from "../../src/utils/logger.js";
+
+const log = new Logger({ level: "error" }, { stderr: false }).child({ component: "proxy" });
+
+let now = 0;
+const clock = () => now;
+
+function createBreaker(policy = {}): CircuitBreaker {
+  return new CircuitBreaker("zai", { ...DEFAULT_CIRCUIT_BREAKER, ...policy }, log, clock);
+}
+
+/** Send attempts with the given outcomes */
+function send(breaker: CircuitBreaker, ...outcomes: Array<"success" | "failure">): void {
+  for (const outcome of outcomes) {
+    const permit = breaker.acquire();
+    expect(permit).not.toBeNull();
+    permit!(outcome);
+  }
+}
+
+beforeEach(() => {
+  now = Date.parse("2026-01-01T00:00:00Z");
+});
+
+describe("CircuitBreaker", () => {
+  it("opens when the error rate is reached after the minimum attempts", () => {
+    const breaker = createBreaker({ minRequests: 4, errorRate: 0.5 });
+
+    send(breaker, "failure", "failure", "failure");
+    expect(breaker.status().state).toBe("closed");
+
+    send(breaker, "success");
+    expect(breaker.status()).toEqual({ state: "open", requests: 0, failures: 0, openedAt: "2026-01-01T00:00:00.000Z", retryInSeconds: 30 });
+    expect(breaker.acquire()).toBeNull();
+  });
+
+  it("stays closed below the error rate", () => {
+    const breaker = createBreaker({ minRequests: 4, errorRate: 0.5 });
+
+    send(breaker, "failure", "success", "success", "success", "success");
+    expect(breaker.status()).toEqual({ state: "closed", requests: 5, failures: 1 });
+  });
+
+  it("forgets attempts outside the window", () => {
+    const breaker = createBreaker({ minRequests: 4, windowSeconds: 10 });
+
+    send(breaker, "failure", "failure", "failure");
+    now += 11_000;
+    send(breaker, "failure");
+    expect(breaker.status()).toMatchObject({ state: "closed", requests: 1, failures: 1 });
+  });
+
+  it("lets a limited number of probes through once open time has passed", () => {
+    const breaker = createBreaker({ minRequests: 1, openSeconds: 5 });
+    send(breaker, "failure");
+
+    now += 5_000;
+    const probe = breaker.acquire();
+    expect(probe).not.toBeNull();
+    expect(breaker.status().state).toBe("half-open");
+    expect(breaker.acquire()).toBeNull();
+
+    probe!("success");
+    expect(breaker.status().state).toBe("closed");
+    expect(breaker.acquire()).not.toBeNull();
+  });
+
+  it("reopens when a probe fails", () => {
+    const breaker = createBreaker({ minRequests: 1, openSeconds: 5 });
+    send(breaker, "failure");
+
+    now += 5_000;
+    breaker.acquire()!("failure");
+    expect(breaker.status()).toMatchObject({ state: "open", retryInSeconds: 5 });
+  });
+
+  it("frees the probe slot for ignored outcomes", () => {
+    const breaker = createBreaker({ minRequests: 1, openSeconds: 5 });
+    send(breaker, "failure");
+
+    now += 5_000;
+    breaker.acquire()!("ignored");
+    expect(breaker.status().state).toBe("half-open");
+    expect(breaker.acquire()).not.toBeNull();
+  });
+
+  it("doesn't count attempts that were in flight when it opened", () => {
+    const breaker = createBreaker({ minRequests: 1, openSeconds: 5 });
+    const inFlight = breaker.acquire()!;
+    send(breaker, "failure");
+
+    now += 5_000;
+    const probe = breaker.acquire()!;
+    inFlight("success");
+    expect(breaker.status().state).toBe("half-open");
+    probe("failure");
+    expect(breaker.status().state).toBe("open");
+  });
+
+  it("counts slow responses only when slowSeconds is set", () => {
+    expect(createBreaker().isSlow(120_000)).toBe(false);
+    expect(createBreaker({ slowSeconds: 10 }).isSlow(10_000)).toBe(false);
+    expect(createBreaker({ slowSeconds: 10 }).isSlow(10_001)).toBe(true);
+  });
+
+  it("always allows requests when disabled", () => {
+    const breaker = createBreaker({ enabled: false, minRequests: 1 });
+
+    send(breaker, "failure", "failure");
+    expect(breaker.status().state).toBe("closed");
+  });
+});
+
+describe("CircuitBreakerRegistry", () => {
+  it("keeps one breaker per upstream name", () => {
+    const registry = new CircuitBreakerRegistry(log, clock);
+
+    const breaker = registry.get("zai", { minRequests: 1 });
+    expect(registry.get("zai")).toBe(breaker);
+    expect(registry.get("anthropic")).not.toBe(breaker);
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Tests for upstream concurrency limits
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { ConcurrencyLimiter, ConcurrencyLimiterRegistry, DEFAULT_CONCURRENCY, type ConcurrencySlot } from "../../src/proxy/concurrency.js";
+
+function createLimiter(policy = {}): ConcurrencyLimiter {
+  return new ConcurrencyLimiter({ ...DEFAULT_CONCURRENCY, ...policy }, Date.now);
+}
+
+/** Acquire a slot that must be granted */
+async function take(limiter: ConcurrencyLimiter, model = "glm", session = "a"): Promise<ConcurrencySlot> {
+  const slot = await limiter.acquire(model, session);
+  if (typeof slot === "string") throw new Error(`no slot: ${slot}`);
+  return slot;
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("ConcurrencyLimiter", () => {
+  it("grants slots without limits", async () => {
+    const limiter = createLimiter();
+    await Promise.all([take(limiter), take(limiter), take(limiter)]);
+    expect(limiter.stats()).toEqual({ inFlight: 3, queued: 0 });
+  });
+
+  it("queues requests beyond the limit until a slot is released", async () => {
+    const limiter = createLimiter({ maxRequests: 1 });
+    const first = await take(limiter);
+    const onQueued = vi.fn();
+
+    const waiting = limiter.acquire("glm", "a", onQueued);
+    expect(onQueued).toHaveBeenCalledWith({ inFlight: 1, queued: 1 });
+
+    vi.advanceTimersByTime(250);
+    first.release();
+    first.release();
+    const slot = await waiting;
+    expect(slot).toMatchObject({ waitedMs: 250 });
+    expect(limiter.stats()).toEqual({ inFlight: 1, queued: 0 });
+  });
+
+  it("serves waiting sessions in turn", async () => {
+    const limiter = createLimiter({ maxRequests: 1 });
+    const first = await take(limiter, "glm", "fan-out");
+    const order: string[] = [];
+    const acquire = (session: string) =>
+      limiter.acquire("glm", session).then((slot) => {
+        order.push(session);
+        return slot as ConcurrencySlot;
+      });
+
+    // A burst from one session, then the interactive session
+    const burst = [acquire("fan-out"), acquire("fan-out"), acquire("fan-out")];
+    const interactive = acquire("interactive");
+
+    first.release();
+    (await burst[0]).release();
+    (await interactive).release();
+    (await burst[1]).release();
+    (await burst[2]).release();
+    expect(order).toEqual(["fan-out", "interactive", "fan-out", "fan-out"]);
+  });
+
+  it("limits requests per model without blocking other models", async () => {
+    const limiter = createLimiter({ maxRequests: 3, maxRequestsPerModel: 1 });
+    const glm = await take(limiter, "glm");
+
+    const blocked = limiter.acquire("glm", "a");
+    const other = await take(limiter, "glm-air");
+    expect(limiter.stats()).toEqual({ inFlight: 2, queued: 1 });
+
+    other.release();
+    expect(limiter.stats()).toEqual({ inFlight: 1, queued: 1 });
+    glm.release();
+    expect(await blocked).toMatchObject({ waitedMs: 0 });
+  });
+
+  it("refuses requests when the queue is full", async () => {
+    const limiter = createLimiter({ maxRequests: 1, maxQueue: 1 });
+    await take(limiter);
+    void limiter.acquire("glm", "a");
+
+    expect(await limiter.acquire("glm", "b")).toBe("queue full");
+    expect(limiter.stats()).toEqual({ inFlight: 1, queued: 1 });
+  });
+
+  it("gives up after the maximum wait", async () => {
+    const limiter = createLimiter({ maxRequests: 1, maxWaitSeconds: 2 });
+    const first = await take(limiter);
+    const waiting = limiter.acquire("glm", "a");
+
+    vi.advanceTimersByTime(2000);
+    expect(await waiting).toBe("wait timeout");
+    expect(limiter.stats()).toEqual({ inFlight: 1, queued: 0 });
+
+    first.release();
+    expect(limiter.stats()).toEqual({ inFlight: 0, queued: 0 });
+  });
+
+  it("drops waiters whose client went away", async () => {
+    const limiter = createLimiter({ maxRequests: 1 });
+    const first = await take(limiter);
+    const clientGone = new AbortController();
+    const waiting = limiter.acquire("glm", "a", undefined, clientGone.signal);
+    const next = limiter.acquire("glm", "b");
+
+    clientGone.abort();
+    expect(await waiting).toBe("client closed");
+    expect(limiter.stats()).toEqual({ inFlight: 1, queued: 1 });
+    expect(await limiter.acquire("glm", "c", undefined, clientGone.signal)).toBe("client closed");
+
+    first.release();
+    expect(await next).toMatchObject({ waitedMs: 0 });
+    expect(limiter.stats()).toEqual({ inFlight: 1, queued: 0 });
+  });
+});
+
+describe("ConcurrencyLimiterRegistry", () => {
+  it("shares one limiter per upstream and reports unused upstreams as idle", async () => {
+    const registry = new ConcurrencyLimiterRegistry();
+    const limiter = registry.get("zai", { maxRequests: 2 });
+
+    expect(registry.get("zai")).toBe(limiter);
+    await take(limiter);
+    expect(registry.stats("zai")).toEqual({ inFlight: 1, queued: 0 });
+    expect(registry.stats("anthropic")).toEqual({ inFlight: 0, queued: 0 });
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Tests for in-flight request tracking during shutdown
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { EventEmitter } from "node:events";
+import type { ServerResponse } from "node:http";
+import { RequestDrain } from "../../src/proxy/drain.js";
+
+/** Response stand-in that only emits close */
+function response(): ServerResponse & EventEmitter {
+  return new EventEmitter() as ServerResponse & EventEmitter;
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("RequestDrain", () => {
+  it("counts requests until their responses close", () => {
+    const requests = new RequestDrain();
+    const res = response();
+    requests.track(res);
+    requests.track(response());
+    expect(requests.status()).toEqual({ state: "running", inFlight: 2 });
+
+    res.emit("close");
+    expect(requests.status()).toEqual({ state: "running", inFlight: 1 });
+  });
+
+  it("finishes at once without requests in flight", async () => {
+    const requests = new RequestDrain();
+    expect(await requests.drain(30)).toBe(true);
+    expect(requests.status()).toEqual({ state: "draining", inFlight: 0 });
+  });
+
+  it("waits for the last request to finish", async () => {
+    const requests = new RequestDrain();
+    const first = response();
+    const second = response();
+    requests.track(first);
+    requests.track(second);
+
+    let finished: boolean | undefined;
+    void requests.drain(30).then((result) => (finished = result));
+    expect(requests.isDraining).toBe(true);
+
+    first.emit("close");
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(finished).toBeUndefined();
+
+    second.emit("close");
+    await vi.advanceTimersByTimeAsync(0);
+    expect(finished).toBe(true);
+  });
+
+  it("gives up at the deadline and returns the same result to later calls", async () => {
+    const requests = new RequestDrain();
+    requests.track(response());
+
+    const drained = requests.drain(2);
+    vi.advanceTimersByTime(2000);
+    expect(await drained).toBe(false);
+    expect(await requests.drain(60)).toBe(false);
+    expect(requests.status()).toEqual({ state: "draining", inFlight: 1 });
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Unit tests for Anthropic error envelopes
+ */
+
+import { describe, it, expect } from "vitest";
+import { anthropicError, errorTypeForStatus, normalizeErrorBody } from "../../src/proxy/errors.js";
+
+describe("errorTypeForStatus", () => {
+  it("maps statuses to Anthropic error types", () => {
+    expect(errorTypeForStatus(400)).toBe("invalid_request_error");
+    expect(errorTypeForStatus(413)).toBe("request_too_large");
+    expect(errorTypeForStatus(429)).toBe("rate_limit_error");
+    expect(errorTypeForStatus(504)).toBe("timeout_error");
+    expect(errorTypeForStatus(529)).toBe("overloaded_error");
+    expect(errorTypeForStatus(502)).toBe("api_error");
+  });
+});
+
+describe("normalizeErrorBody", () => {
+  it("passes Anthropic error envelopes through unchanged", () => {
+    const body = JSON.stringify(anthropicError("overloaded_error", "Overloaded"));
+
+    expect(normalizeErrorBody(body, 529, "anthropic")).toBe(body);
+  });
+
+  it("maps z.ai error codes and keeps the original message", () => {
+    const body = JSON.stringify({ error: { code: "1302", message: "High concurrency usage of this API" } });
+
+    expect(JSON.parse(normalizeErrorBody(body, 429, "zai"))).toEqual({
+      type: "error",
+      error: { type: "rate_limit_error", message: "High concurrency usage of this API (zai 429, code 1302)" },
+    });
+  });
+
+  it("maps z.ai overload codes reported as the error type", () => {
+    const body = JSON.stringify({ type: "error", error: { type: "1305", message: "Service overloaded" } });
+
+    expect(JSON.parse(normalizeErrorBody(body, 429, "zai")).error).toEqual({
+      type: "overloaded_error",
+      message: "Service overloaded (zai 429, code 1305)",
+    });
+  });
+
+  it("handles { code, msg } bodies", () => {
+    const body = JSON.stringify({ code: 1001, msg: "Authorization header missing", success: false });
+
+    expect(JSON.parse(normalizeErrorBody(body, 401, "zai")).error).toEqual({
+      type: "authentication_error",
+      message: "Authorization header missing (zai 401, code 1001)",
+    });
+  });
+
+  it("falls back to the status for unknown shapes and plain text", () => {
+    expect(JSON.parse(normalizeErrorBody("<html>Bad Gateway</html>", 502, "gateway")).error).toEqual({
+      type: "api_error",
+      message: "<html>Bad Gateway</html> (gateway 502)",
+    });
+    expect(JSON.parse(normalizeErrorBody("", 503, "gateway")).error).toEqual({
+      type: "overloaded_error",
+      message: "Upstream returned an error (gateway 503)",
+    });
+  });
+
+  it("truncates long bodies quoted without a message field", () => {
+    const detail = "x".repeat(600);
+    const body = JSON.stringify({ detail });
+
+    expect(JSON.parse(normalizeErrorBody(body, 500, "gateway")).error.message).toBe(
+      `${body.slice(0, 500)}... (gateway 500)`
+    );
+    expect(JSON.parse(normalizeErrorBody(detail, 500, "gateway")).error.message).toBe(
+      `${detail.slice(0, 500)}... (gateway 500)`
+    );
+  });
+});
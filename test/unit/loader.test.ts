@@ -3,8 +3,19 @@
  * Tests signatureStore config merging and validation
  */
 
-import { describe, it, expect } from "vitest";
-import { loadConfig } from "../../src/config/loader.js";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { loadConfig, findProjectConfig, loadProjectRouting, PROJECT_CONFIG_FILE } from "../../src/config/loader.js";
+
+let tempDir: string;
+
+function writeConfig(content: string): string {
+  const filePath = join(tempDir, "config.yml");
+  writeFileSync(filePath, content);
+  return filePath;
+}
 
 describe("loadConfig", () => {
   describe("signatureStore defaults", () => {
@@ -23,4 +34,1147 @@ describe("loadConfig", () => {
       expect(warnings).toContain("zai API key is not set. Requests to z.ai will fail without ZAI_API_KEY.");
     });
   });
+
+  describe("proxy body size limit", () => {
+    beforeEach(() => {
+      tempDir = mkdtempSync(join(tmpdir(), "cc-glm-loader-"));
+    });
+
+    afterEach(() => {
+      rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it("parses maxBodyMB and leaves it unset by default", async () => {
+      const { config } = await loadConfig(writeConfig(`
+proxy:
+  maxBodyMB: 32
+`));
+      expect(config.proxy.maxBodyMB).toBe(32);
+
+      const { config: defaults } = await loadConfig("/nonexistent/path/config.yml");
+      expect(defaults.proxy.maxBodyMB).toBeUndefined();
+    });
+
+    it("rejects non-positive values", async () => {
+      await expect(loadConfig(writeConfig("proxy:\n  maxBodyMB: 0\n"))).rejects.toThrow("Invalid maxBodyMB: 0. Must be a positive number.");
+      await expect(loadConfig(writeConfig('proxy:\n  maxBodyMB: "big"\n'))).rejects.toThrow("Invalid maxBodyMB: big. Must be a positive number.");
+    });
+  });
+
+  describe("lifecycle drain deadline", () => {
+    beforeEach(() => {
+      tempDir = mkdtempSync(join(tmpdir(), "cc-glm-loader-"));
+    });
+
+    afterEach(() => {
+      rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it("parses drainSeconds and leaves it unset by default", async () => {
+      const { config } = await loadConfig(writeConfig(`
+lifecycle:
+  drainSeconds: 0
+`));
+      expect(config.lifecycle.drainSeconds).toBe(0);
+
+      const { config: defaults } = await loadConfig("/nonexistent/path/config.yml");
+      expect(defaults.lifecycle.drainSeconds).toBeUndefined();
+    });
+
+    it("rejects fractional and out of range values", async () => {
+      await expect(loadConfig(writeConfig("lifecycle:\n  drainSeconds: 1.5\n"))).rejects.toThrow("Invalid drainSeconds: 1.5. Must be an integer.");
+      await expect(loadConfig(writeConfig("lifecycle:\n  drainSeconds: 301\n"))).rejects.toThrow("Invalid drainSeconds: 301. Must be between 0 and 300.");
+    });
+  });
+
+  describe("named upstreams", () => {
+    beforeEach(() => {
+      tempDir = mkdtempSync(join(tmpdir(), "cc-glm-loader-"));
+    });
+
+    afterEach(() => {
+      rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it("keeps built-in upstreams when custom ones are declared", async () => {
+      const { config } = await loadConfig(writeConfig(`
+upstream:
+  zai-cn:
+    url: "https://open.bigmodel.cn/api/anthropic"
+    apiKey: "cn-key"
+    transformResponse: true
+`));
+
+      expect(Object.keys(config.upstream)).toEqual(["anthropic", "zai", "zai-cn"]);
+      expect(config.upstream["zai-cn"]).toEqual({
+        url: "https://open.bigmodel.cn/api/anthropic",
+        auth: "api-key",
+        apiKey: "cn-key",
+        transformResponse: true,
+      });
+      expect(config.upstream.anthropic.url).toBe("https://api.anthropic.com");
+    });
+
+    it("defaults custom upstreams without apiKey to sending no credentials", async () => {
+      const { config, warnings } = await loadConfig(writeConfig(`
+upstream:
+  gateway:
+    url: "http://127.0.0.1:9000"
+  local:
+    url: "http://127.0.0.1:8000/v1"
+    type: openai
+routing:
+  default: local
+`));
+
+      expect(config.upstream.gateway.auth).toBe("none");
+      expect(config.upstream.gateway.apiKey).toBeUndefined();
+      expect(config.upstream.local.auth).toBe("none");
+      expect(config.upstream.anthropic.auth).toBe("oauth");
+      expect(warnings.join("\n")).not.toMatch(/gateway|local/);
+    });
+
+    it("accepts custom upstreams in routing rules and default", async () => {
+      const { config } = await loadConfig(writeConfig(`
+upstream:
+  gateway:
+    url: "http://127.0.0.1:9000"
+routing:
+  rules:
+    - match: "claude-*"
+      upstream: gateway
+  default: gateway
+`));
+
+      expect(config.routing.rules[0].upstream).toBe("gateway");
+      expect(config.routing.default).toBe("gateway");
+    });
+
+    it("rejects routing rules pointing at unknown upstreams", async () => {
+      const filePath = writeConfig(`
+routing:
+  rules:
+    - match: "claude-*"
+      upstream: missing
+`);
+
+      await expect(loadConfig(filePath)).rejects.toThrow(/upstream "missing" is not valid/);
+    });
+
+    it("rejects custom upstreams without url", async () => {
+      const filePath = writeConfig(`
+upstream:
+  gateway:
+    apiKey: "key"
+`);
+
+      await expect(loadConfig(filePath)).rejects.toThrow("Invalid upstream.gateway: url is required");
+    });
+
+    it("rejects unknown auth modes", async () => {
+      const filePath = writeConfig(`
+upstream:
+  gateway:
+    url: "http://127.0.0.1:9000"
+    auth: "magic"
+`);
+
+      await expect(loadConfig(filePath)).rejects.toThrow(/Invalid upstream.gateway.auth/);
+    });
+
+    it("warns when a custom API key upstream has no key", async () => {
+      const { warnings } = await loadConfig(writeConfig(`
+upstream:
+  gateway:
+    url: "http://127.0.0.1:9000"
+    auth: "api-key"
+`));
+
+      expect(warnings).toContain("gateway API key is not set. Requests to gateway will fail without upstream.gateway.apiKey.");
+    });
+  });
+
+  describe("auth strategies", () => {
+    beforeEach(() => {
+      tempDir = mkdtempSync(join(tmpdir(), "cc-glm-loader-"));
+    });
+
+    afterEach(() => {
+      rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it("reads the API key from a file", async () => {
+      const keyFile = join(tempDir, "key.txt");
+      writeFileSync(keyFile, "file-key\n");
+      const { config } = await loadConfig(writeConfig(`
+upstream:
+  gateway:
+    url: "http://127.0.0.1:9000"
+    auth: bearer
+    apiKeyFile: "${keyFile}"
+`));
+
+      expect(config.upstream.gateway.apiKey).toBe("file-key");
+      expect(config.upstream.gateway.auth).toBe("bearer");
+    });
+
+    it("reads the API key from a command", async () => {
+      const { config } = await loadConfig(writeConfig(`
+upstream:
+  zai:
+    apiKeyCommand: "echo command-key"
+`));
+
+      expect(config.upstream.zai.apiKey).toBe("command-key");
+      expect(config.upstream.zai.auth).toBe("api-key");
+    });
+
+    it("defaults keyed openai upstreams to bearer auth", async () => {
+      const { config } = await loadConfig(writeConfig(`
+upstream:
+  local:
+    type: openai
+    url: "http://127.0.0.1:1234/v1"
+    apiKey: "key"
+`));
+
+      expect(config.upstream.local.auth).toBe("bearer");
+    });
+
+    it("derives auth from the key and type set on built-in upstreams", async () => {
+      const { config } = await loadConfig(writeConfig(`
+upstream:
+  anthropic:
+    apiKey: "sk-ant-key"
+  zai:
+    type: openai
+    url: "https://api.z.ai/api/paas/v4"
+    apiKey: "zai-key"
+`));
+
+      expect(config.upstream.anthropic.auth).toBe("api-key");
+      expect(config.upstream.zai.auth).toBe("bearer");
+    });
+
+    it("accepts header auth with a template", async () => {
+      const { config } = await loadConfig(writeConfig(`
+upstream:
+  gateway:
+    url: "http://127.0.0.1:9000"
+    auth: header
+    authHeader: "X-Gateway-Token"
+    authTemplate: "Token {key}"
+    apiKey: "key"
+`));
+
+      expect(config.upstream.gateway.authHeader).toBe("X-Gateway-Token");
+      expect(config.upstream.gateway.authTemplate).toBe("Token {key}");
+    });
+
+    it("rejects header auth without authHeader", async () => {
+      const filePath = writeConfig(`
+upstream:
+  gateway:
+    url: "http://127.0.0.1:9000"
+    auth: header
+    apiKey: "key"
+`);
+
+      await expect(loadConfig(filePath)).rejects.toThrow(/authHeader is required/);
+    });
+
+    it("rejects templates without the key placeholder", async () => {
+      const filePath = writeConfig(`
+upstream:
+  gateway:
+    url: "http://127.0.0.1:9000"
+    auth: header
+    authHeader: "X-Gateway-Token"
+    authTemplate: "Token"
+    apiKey: "key"
+`);
+
+      await expect(loadConfig(filePath)).rejects.toThrow(/must contain \{key\}/);
+    });
+
+    it("rejects multiple key sources", async () => {
+      const filePath = writeConfig(`
+upstream:
+  gateway:
+    url: "http://127.0.0.1:9000"
+    apiKey: "key"
+    apiKeyCommand: "echo other"
+`);
+
+      await expect(loadConfig(filePath)).rejects.toThrow(/only one of apiKey, apiKeyCommand may be set/);
+    });
+
+    it("rejects routed upstreams without usable credentials", async () => {
+      const filePath = writeConfig(`
+upstream:
+  gateway:
+    url: "http://127.0.0.1:9000"
+    apiKeyFile: "${join(tempDir, "missing.txt")}"
+routing:
+  rules:
+    - match: "claude-*"
+      upstream: gateway
+`);
+
+      await expect(loadConfig(filePath)).rejects.toThrow(/Upstream "gateway" is used by routing but has no usable credentials: failed to read apiKeyFile/);
+    });
+
+    it("rejects routed upstreams whose key command fails", async () => {
+      const filePath = writeConfig(`
+upstream:
+  gateway:
+    url: "http://127.0.0.1:9000"
+    apiKeyCommand: "exit 3"
+routing:
+  default: gateway
+`);
+
+      await expect(loadConfig(filePath)).rejects.toThrow(/apiKeyCommand failed/);
+    });
+
+    it("gives key commands no stdin", async () => {
+      const { warnings } = await loadConfig(writeConfig(`
+upstream:
+  gateway:
+    url: "http://127.0.0.1:9000"
+    apiKeyCommand: "read key && echo $key"
+`));
+
+      expect(warnings.some((warning) => warning.startsWith("gateway has no usable credentials: apiKeyCommand failed"))).toBe(true);
+    });
+
+    it("kills key commands that never exit", async () => {
+      vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout"] });
+      try {
+        const loading = loadConfig(writeConfig(`
+upstream:
+  gateway:
+    url: "http://127.0.0.1:9000"
+    apiKeyCommand: "sleep 600"
+`));
+        let settled = false;
+        loading.catch(() => {}).finally(() => (settled = true));
+        // Let the command start, then run the clock past the timeout
+        while (!settled) {
+          await new Promise((resolve) => setImmediate(resolve));
+          await vi.advanceTimersByTimeAsync(1000);
+        }
+
+        await expect(loading).rejects.toThrow("Invalid upstream.gateway.apiKeyCommand: did not finish within 10s.");
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it("only warns for unrouted upstreams without credentials", async () => {
+      const { warnings } = await loadConfig(writeConfig(`
+upstream:
+  gateway:
+    url: "http://127.0.0.1:9000"
+    apiKeyCommand: "exit 3"
+`));
+
+      expect(warnings.some((warning) => warning.startsWith("gateway has no usable credentials: apiKeyCommand failed"))).toBe(true);
+    });
+  });
+
+  describe("foreign request sanitization", () => {
+    beforeEach(() => {
+      tempDir = mkdtempSync(join(tmpdir(), "cc-glm-loader-"));
+    });
+
+    afterEach(() => {
+      rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it("parses sanitizeForeignRequest and foreignReasoning", async () => {
+      const { config } = await loadConfig(writeConfig(`
+upstream:
+  zai:
+    apiKey: "zai-key"
+    foreignReasoning: drop
+  gateway:
+    url: "http://127.0.0.1:9000"
+    sanitizeForeignRequest: true
+`));
+
+      expect(config.upstream.zai.foreignReasoning).toBe("drop");
+      expect(config.upstream.gateway.sanitizeForeignRequest).toBe(true);
+    });
+
+    it("rejects unknown foreignReasoning modes", async () => {
+      await expect(loadConfig(writeConfig(`
+upstream:
+  zai:
+    foreignReasoning: summarize
+`))).rejects.toThrow('Invalid upstream.zai.foreignReasoning: "summarize" is not valid. Must be one of: keep, text, drop');
+    });
+
+    it("parses foreignReasoning policies", async () => {
+      const { config } = await loadConfig(writeConfig(`
+upstream:
+  anthropic:
+    foreignReasoning:
+      keepTurns: 2
+      maxChars: 4000
+      template: "<glm>{reasoning}</glm>"
+`));
+
+      expect(config.upstream.anthropic.foreignReasoning).toEqual({ keepTurns: 2, maxChars: 4000, template: "<glm>{reasoning}</glm>" });
+    });
+
+    it("rejects invalid foreignReasoning policies", async () => {
+      const policy = (field: string) => loadConfig(writeConfig(`
+upstream:
+  zai:
+    foreignReasoning:
+      ${field}
+`));
+
+      await expect(policy("mode: summarize")).rejects.toThrow('Invalid upstream.zai.foreignReasoning.mode: "summarize" is not valid');
+      await expect(policy("keepTurns: 0")).rejects.toThrow("Invalid upstream.zai.foreignReasoning.keepTurns: must be a positive integer");
+      await expect(policy("maxChars: 1.5")).rejects.toThrow("Invalid upstream.zai.foreignReasoning.maxChars: must be a positive integer");
+      await expect(policy('template: "<r></r>"')).rejects.toThrow(
+        "Invalid upstream.zai.foreignReasoning.template: must be a string containing {reasoning}"
+      );
+      await expect(policy("budget: 10")).rejects.toThrow(
+        'Invalid upstream.zai.foreignReasoning: unknown field "budget". Must be one of: mode, keepTurns, maxChars, template'
+      );
+    });
+  });
+
+  describe("upstream timeouts", () => {
+    beforeEach(() => {
+      tempDir = mkdtempSync(join(tmpdir(), "cc-glm-loader-"));
+    });
+
+    afterEach(() => {
+      rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it("parses per-phase timeouts", async () => {
+      const { config } = await loadConfig(writeConfig(`
+upstream:
+  zai:
+    apiKey: "zai-key"
+    timeouts:
+      connectSeconds: 5
+      idleSeconds: 180
+      totalSeconds: 0
+`));
+
+      expect(config.upstream.zai.timeouts).toEqual({ connectSeconds: 5, idleSeconds: 180, totalSeconds: 0 });
+    });
+
+    it("rejects unknown fields and invalid values", async () => {
+      await expect(loadConfig(writeConfig(`
+upstream:
+  zai:
+    timeouts:
+      readSeconds: 5
+`))).rejects.toThrow('Invalid upstream.zai.timeouts: unknown field "readSeconds". Must be one of: connectSeconds, firstByteSeconds, idleSeconds, totalSeconds');
+
+      await expect(loadConfig(writeConfig(`
+upstream:
+  zai:
+    timeouts:
+      idleSeconds: -1
+`))).rejects.toThrow("Invalid upstream.zai.timeouts.idleSeconds: must be a non-negative number");
+    });
+  });
+
+  describe("upstream retries", () => {
+    beforeEach(() => {
+      tempDir = mkdtempSync(join(tmpdir(), "cc-glm-loader-"));
+    });
+
+    afterEach(() => {
+      rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it("parses retry settings", async () => {
+      const { config } = await loadConfig(writeConfig(`
+upstream:
+  zai:
+    apiKey: "zai-key"
+    retry:
+      maxRetries: 4
+      budgetSeconds: 60
+      maxDelaySeconds: 10
+`));
+
+      expect(config.upstream.zai.retry).toEqual({ maxRetries: 4, budgetSeconds: 60, maxDelaySeconds: 10 });
+    });
+
+    it("rejects unknown fields and invalid values", async () => {
+      await expect(loadConfig(writeConfig(`
+upstream:
+  zai:
+    retry:
+      attempts: 3
+`))).rejects.toThrow('Invalid upstream.zai.retry: unknown field "attempts". Must be one of: maxRetries, budgetSeconds, baseDelaySeconds, maxDelaySeconds');
+
+      await expect(loadConfig(writeConfig(`
+upstream:
+  zai:
+    retry:
+      maxRetries: 1.5
+`))).rejects.toThrow("Invalid upstream.zai.retry.maxRetries: must be a non-negative integer");
+
+      await expect(loadConfig(writeConfig(`
+upstream:
+  zai:
+    retry:
+      baseDelaySeconds: -1
+`))).rejects.toThrow("Invalid upstream.zai.retry.baseDelaySeconds: must be a non-negative number");
+    });
+  });
+
+  describe("upstream circuit breakers", () => {
+    beforeEach(() => {
+      tempDir = mkdtempSync(join(tmpdir(), "cc-glm-loader-"));
+    });
+
+    afterEach(() => {
+      rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it("parses circuit breaker settings", async () => {
+      const { config } = await loadConfig(writeConfig(`
+upstream:
+  zai:
+    apiKey: "zai-key"
+    circuitBreaker:
+      minRequests: 10
+      errorRate: 0.8
+      slowSeconds: 20
+`));
+
+      expect(config.upstream.zai.circuitBreaker).toEqual({ minRequests: 10, errorRate: 0.8, slowSeconds: 20 });
+    });
+
+    it("rejects unknown fields and invalid values", async () => {
+      const breaker = (body: string) => loadConfig(writeConfig(`
+upstream:
+  zai:
+    circuitBreaker:
+      ${body}
+`));
+
+      await expect(breaker("threshold: 3")).rejects.toThrow(
+        'Invalid upstream.zai.circuitBreaker: unknown field "threshold". Must be one of: enabled, windowSeconds, minRequests, errorRate, slowSeconds, openSeconds, halfOpenRequests'
+      );
+      await expect(breaker("enabled: \"no\"")).rejects.toThrow("Invalid upstream.zai.circuitBreaker.enabled: must be a boolean");
+      await expect(breaker("minRequests: 0")).rejects.toThrow("Invalid upstream.zai.circuitBreaker.minRequests: must be a positive integer");
+      await expect(breaker("errorRate: 1.5")).rejects.toThrow("Invalid upstream.zai.circuitBreaker.errorRate: must be a number greater than 0 and at most 1");
+      await expect(breaker("openSeconds: 0")).rejects.toThrow("Invalid upstream.zai.circuitBreaker.openSeconds: must be a positive number");
+    });
+  });
+
+  describe("upstream connection pools", () => {
+    beforeEach(() => {
+      tempDir = mkdtempSync(join(tmpdir(), "cc-glm-loader-"));
+    });
+
+    afterEach(() => {
+      rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it("parses connection settings", async () => {
+      const { config } = await loadConfig(writeConfig(`
+upstream:
+  zai:
+    apiKey: "zai-key"
+    connection:
+      maxSockets: 8
+      keepAliveSeconds: 60
+      http2: true
+`));
+
+      expect(config.upstream.zai.connection).toEqual({ maxSockets: 8, keepAliveSeconds: 60, http2: true });
+    });
+
+    it("rejects unknown fields and invalid values", async () => {
+      const connection = (body: string) => loadConfig(writeConfig(`
+upstream:
+  zai:
+    connection:
+      ${body}
+`));
+
+      await expect(connection("poolSize: 4")).rejects.toThrow(
+        'Invalid upstream.zai.connection: unknown field "poolSize". Must be one of: maxSockets, keepAliveSeconds, http2'
+      );
+      await expect(connection("maxSockets: -1")).rejects.toThrow("Invalid upstream.zai.connection.maxSockets: must be a non-negative integer");
+      await expect(connection("http2: 1")).rejects.toThrow("Invalid upstream.zai.connection.http2: must be a boolean");
+    });
+  });
+
+  describe("upstream concurrency limits", () => {
+    beforeEach(() => {
+      tempDir = mkdtempSync(join(tmpdir(), "cc-glm-loader-"));
+    });
+
+    afterEach(() => {
+      rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it("parses concurrency settings", async () => {
+      const { config } = await loadConfig(writeConfig(`
+upstream:
+  zai:
+    apiKey: "zai-key"
+    concurrency:
+      maxRequests: 4
+      maxRequestsPerModel: 2
+      maxQueue: 20
+      maxWaitSeconds: 30
+`));
+
+      expect(config.upstream.zai.concurrency).toEqual({ maxRequests: 4, maxRequestsPerModel: 2, maxQueue: 20, maxWaitSeconds: 30 });
+    });
+
+    it("rejects unknown fields and invalid values", async () => {
+      const concurrency = (body: string) => loadConfig(writeConfig(`
+upstream:
+  zai:
+    concurrency:
+      ${body}
+`));
+
+      await expect(concurrency("limit: 4")).rejects.toThrow(
+        'Invalid upstream.zai.concurrency: unknown field "limit". Must be one of: maxRequests, maxRequestsPerModel, maxQueue, maxWaitSeconds'
+      );
+      await expect(concurrency("maxRequests: 1.5")).rejects.toThrow("Invalid upstream.zai.concurrency.maxRequests: must be a non-negative integer");
+      await expect(concurrency("maxWaitSeconds: 0")).rejects.toThrow("Invalid upstream.zai.concurrency.maxWaitSeconds: must be a positive number");
+    });
+  });
+
+  describe("upstream rate limits", () => {
+    beforeEach(() => {
+      tempDir = mkdtempSync(join(tmpdir(), "cc-glm-loader-"));
+    });
+
+    afterEach(() => {
+      rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it("parses rate limit settings", async () => {
+      const { config } = await loadConfig(writeConfig(`
+upstream:
+  zai:
+    apiKey: "zai-key"
+    rateLimit:
+      requestsPerMinute: 60
+      inputTokensPerMinute: 400000
+      outputTokensPerMinute: 80000
+      onLimit: wait
+      maxWaitSeconds: 20
+`));
+
+      expect(config.upstream.zai.rateLimit).toEqual({
+        requestsPerMinute: 60,
+        inputTokensPerMinute: 400000,
+        outputTokensPerMinute: 80000,
+        onLimit: "wait",
+        maxWaitSeconds: 20,
+      });
+    });
+
+    it("rejects unknown fields and invalid values", async () => {
+      const rateLimit = (body: string) => loadConfig(writeConfig(`
+upstream:
+  zai:
+    rateLimit:
+      ${body}
+`));
+
+      await expect(rateLimit("rpm: 60")).rejects.toThrow(
+        'Invalid upstream.zai.rateLimit: unknown field "rpm". Must be one of: requestsPerMinute, inputTokensPerMinute, outputTokensPerMinute, onLimit, maxWaitSeconds'
+      );
+      await expect(rateLimit("requestsPerMinute: -1")).rejects.toThrow("Invalid upstream.zai.rateLimit.requestsPerMinute: must be a non-negative number");
+      await expect(rateLimit("onLimit: queue")).rejects.toThrow('Invalid upstream.zai.rateLimit.onLimit: "queue" is not valid. Must be one of: reject, wait');
+    });
+  });
+
+  describe("capability profiles", () => {
+    beforeEach(() => {
+      tempDir = mkdtempSync(join(tmpdir(), "cc-glm-loader-"));
+    });
+
+    afterEach(() => {
+      rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it("parses a capability profile", async () => {
+      const { config } = await loadConfig(writeConfig(`
+upstream:
+  zai:
+    apiKey: "zai-key"
+    capabilities:
+      params:
+        drop: [metadata, thinking.budget_tokens]
+      blocks:
+        text: [document]
+        stripFields: [cache_control]
+      betas:
+        keep: ["interleaved-thinking-*"]
+        rename:
+          old-beta: new-beta
+`));
+
+      expect(config.upstream.zai.capabilities).toEqual({
+        params: { drop: ["metadata", "thinking.budget_tokens"] },
+        blocks: { text: ["document"], stripFields: ["cache_control"] },
+        betas: { keep: ["interleaved-thinking-*"], rename: { "old-beta": "new-beta" } },
+      });
+    });
+
+    it("rejects unknown sections and fields", async () => {
+      await expect(loadConfig(writeConfig(`
+upstream:
+  zai:
+    capabilities:
+      headers:
+        drop: [x]
+`))).rejects.toThrow('Invalid upstream.zai.capabilities: unknown section "headers". Must be one of: params, blocks, tools, betas');
+
+      await expect(loadConfig(writeConfig(`
+upstream:
+  zai:
+    capabilities:
+      tools:
+        text: [x]
+`))).rejects.toThrow('Invalid upstream.zai.capabilities.tools: unknown field "text". Must be one of: keep, drop');
+    });
+
+    it("rejects invalid lists and patterns", async () => {
+      await expect(loadConfig(writeConfig(`
+upstream:
+  zai:
+    capabilities:
+      blocks:
+        drop: document
+`))).rejects.toThrow("Invalid upstream.zai.capabilities.blocks.drop: must be a list of strings");
+
+      await expect(loadConfig(writeConfig(`
+upstream:
+  zai:
+    capabilities:
+      betas:
+        drop: ["[abc"]
+`))).rejects.toThrow("Invalid upstream.zai.capabilities.betas.drop: Invalid pattern");
+    });
+  });
+
+  describe("routing fallback", () => {
+    beforeEach(() => {
+      tempDir = mkdtempSync(join(tmpdir(), "cc-glm-loader-"));
+    });
+
+    afterEach(() => {
+      rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it("normalizes shorthand and object fallback targets", async () => {
+      const { config } = await loadConfig(writeConfig(`
+upstream:
+  zai:
+    apiKey: "zai-key"
+routing:
+  rules:
+    - match: "claude-*"
+      upstream: anthropic
+      fallback:
+        - "zai:GLM-4.7"
+        - upstream: zai
+        - anthropic
+`));
+
+      expect(config.routing.rules[0].fallback).toEqual([
+        { upstream: "zai", model: "GLM-4.7" },
+        { upstream: "zai" },
+        { upstream: "anthropic" },
+      ]);
+    });
+
+    it("rejects unknown fallback upstreams", async () => {
+      const filePath = writeConfig(`
+routing:
+  rules:
+    - match: "*"
+      upstream: anthropic
+      fallback: ["missing:GLM-4.7"]
+`);
+
+      await expect(loadConfig(filePath)).rejects.toThrow(/fallback\[0\]: upstream "missing" is not valid/);
+    });
+
+    it("rejects non-array fallback", async () => {
+      const filePath = writeConfig(`
+routing:
+  rules:
+    - match: "*"
+      upstream: anthropic
+      fallback: "zai"
+`);
+
+      await expect(loadConfig(filePath)).rejects.toThrow("Invalid routing rule at index 0: fallback must be an array if provided");
+    });
+
+    it("requires credentials for fallback upstreams", async () => {
+      const filePath = writeConfig(`
+upstream:
+  gateway:
+    url: "http://127.0.0.1:9000"
+    auth: "bearer"
+routing:
+  rules:
+    - match: "*"
+      upstream: anthropic
+      fallback: [gateway]
+`);
+
+      await expect(loadConfig(filePath)).rejects.toThrow(/Upstream "gateway" is used by routing but has no usable credentials/);
+    });
+  });
+
+  describe("routing conditions", () => {
+    beforeEach(() => {
+      tempDir = mkdtempSync(join(tmpdir(), "cc-glm-loader-"));
+    });
+
+    afterEach(() => {
+      rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it("accepts nested conditions and defaults match to *", async () => {
+      const { config } = await loadConfig(writeConfig(`
+routing:
+  rules:
+    - upstream: anthropic
+      when:
+        any:
+          - hasImages: true
+          - minInputTokens: 100000
+          - headers:
+              anthropic-beta: "*context-1m*"
+`));
+
+      expect(config.routing.rules[0].match).toBe("*");
+      expect(config.routing.rules[0].when?.any).toHaveLength(3);
+    });
+
+    it("rejects unknown condition fields", async () => {
+      const filePath = writeConfig(`
+routing:
+  rules:
+    - match: "*"
+      upstream: anthropic
+      when:
+        hasTool: true
+`);
+
+      await expect(loadConfig(filePath)).rejects.toThrow(/when: unknown condition "hasTool"/);
+    });
+
+    it("rejects invalid system prompt regex", async () => {
+      const filePath = writeConfig(`
+routing:
+  rules:
+    - match: "*"
+      upstream: anthropic
+      when:
+        all:
+          - system: "(unclosed"
+`);
+
+      await expect(loadConfig(filePath)).rejects.toThrow(/Invalid routing rule at index 0: when.all\[0\].system/);
+    });
+
+    it("rejects negative token limits", async () => {
+      const filePath = writeConfig(`
+routing:
+  rules:
+    - match: "*"
+      upstream: anthropic
+      when:
+        maxInputTokens: -1
+`);
+
+      await expect(loadConfig(filePath)).rejects.toThrow("Invalid routing rule at index 0: when.maxInputTokens: must be a non-negative integer");
+    });
+  });
+
+  describe("routing patterns", () => {
+    beforeEach(() => {
+      tempDir = mkdtempSync(join(tmpdir(), "cc-glm-loader-"));
+    });
+
+    afterEach(() => {
+      rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it("accepts pattern lists", async () => {
+      const { config } = await loadConfig(writeConfig(`
+routing:
+  rules:
+    - match: ["claude-*", "!claude-opus-*", '/^glm-4\\.[5-9]$/']
+      upstream: anthropic
+`));
+
+      expect(config.routing.rules[0].match).toEqual(["claude-*", "!claude-opus-*", "/^glm-4\\.[5-9]$/"]);
+    });
+
+    it("rejects invalid regex patterns", async () => {
+      const filePath = writeConfig(`
+routing:
+  rules:
+    - match: "/claude-(/"
+      upstream: anthropic
+`);
+
+      await expect(loadConfig(filePath)).rejects.toThrow(/Invalid routing rule at index 0: Invalid pattern "\/claude-\(\/"/);
+    });
+
+    it("rejects malformed globs in lists and conditions", async () => {
+      const listPath = writeConfig(`
+routing:
+  rules:
+    - match: ["claude-*", "glm-[4"]
+      upstream: anthropic
+`);
+      await expect(loadConfig(listPath)).rejects.toThrow("unterminated character class");
+
+      const conditionPath = writeConfig(`
+routing:
+  rules:
+    - upstream: anthropic
+      when:
+        path: "/v1/[messages"
+`);
+      await expect(loadConfig(conditionPath)).rejects.toThrow("Invalid routing rule at index 0: when.path: Invalid pattern");
+    });
+
+    it("rejects non-string match", async () => {
+      const filePath = writeConfig(`
+routing:
+  rules:
+    - match: 42
+      upstream: anthropic
+`);
+
+      await expect(loadConfig(filePath)).rejects.toThrow("match must be a string or a list of strings");
+    });
+  });
+
+  describe("traffic split", () => {
+    beforeEach(() => {
+      tempDir = mkdtempSync(join(tmpdir(), "cc-glm-loader-"));
+    });
+
+    afterEach(() => {
+      rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it("parses weighted arms", async () => {
+      const { config } = await loadConfig(writeConfig(`
+upstream:
+  zai:
+    apiKey: "zai-key"
+routing:
+  rules:
+    - match: "claude-sonnet-*"
+      split:
+        - upstream: zai
+          model: "GLM-4.7"
+          weight: 70
+        - upstream: anthropic
+          weight: 30
+          name: claude
+`));
+
+      expect(config.routing.rules[0].upstream).toBeUndefined();
+      expect(config.routing.rules[0].split).toEqual([
+        { upstream: "zai", model: "GLM-4.7", weight: 70 },
+        { upstream: "anthropic", weight: 30, name: "claude" },
+      ]);
+    });
+
+    it("rejects split combined with upstream", async () => {
+      const filePath = writeConfig(`
+routing:
+  rules:
+    - match: "*"
+      upstream: anthropic
+      split:
+        - upstream: anthropic
+          weight: 1
+`);
+
+      await expect(loadConfig(filePath)).rejects.toThrow("split cannot be combined with upstream or model");
+    });
+
+    it("rejects non-positive weights", async () => {
+      const filePath = writeConfig(`
+routing:
+  rules:
+    - match: "*"
+      split:
+        - upstream: anthropic
+          weight: 0
+`);
+
+      await expect(loadConfig(filePath)).rejects.toThrow("Invalid routing rule at index 0: split[0].weight: must be a positive number");
+    });
+
+    it("requires credentials for split upstreams", async () => {
+      const filePath = writeConfig(`
+upstream:
+  gateway:
+    url: "http://127.0.0.1:9000"
+    auth: "bearer"
+routing:
+  rules:
+    - match: "*"
+      split:
+        - upstream: gateway
+          weight: 1
+`);
+
+      await expect(loadConfig(filePath)).rejects.toThrow(/Upstream "gateway" is used by routing/);
+    });
+  });
+
+  describe("model restore", () => {
+    beforeEach(() => {
+      tempDir = mkdtempSync(join(tmpdir(), "cc-glm-loader-"));
+    });
+
+    afterEach(() => {
+      rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it("parses routing and rule restoreModel flags", async () => {
+      const { config } = await loadConfig(writeConfig(`
+upstream:
+  zai:
+    apiKey: "zai-key"
+routing:
+  restoreModel: true
+  rules:
+    - match: "claude-*"
+      upstream: zai
+      model: "GLM-4.7"
+      restoreModel: false
+`));
+
+      expect(config.routing.restoreModel).toBe(true);
+      expect(config.routing.rules[0].restoreModel).toBe(false);
+    });
+
+    it("leaves restoreModel unset by default", async () => {
+      const { config } = await loadConfig(writeConfig(`
+routing:
+  rules: []
+`));
+
+      expect(config.routing.restoreModel).toBeUndefined();
+    });
+
+    it("rejects non-boolean values", async () => {
+      await expect(loadConfig(writeConfig(`
+routing:
+  restoreModel: "yes"
+`))).rejects.toThrow("Invalid routing.restoreModel: must be a boolean, got string");
+
+      await expect(loadConfig(writeConfig(`
+routing:
+  rules:
+    - match: "*"
+      upstream: anthropic
+      restoreModel: 1
+`))).rejects.toThrow("Invalid routing rule at index 0: restoreModel must be a boolean if provided");
+    });
+  });
+
+  describe("project config", () => {
+    beforeEach(() => {
+      tempDir = mkdtempSync(join(tmpdir(), "cc-glm-loader-"));
+    });
+
+    afterEach(() => {
+      rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    function writeProjectConfig(dir: string, content: string): string {
+      mkdirSync(dir, { recursive: true });
+      const filePath = join(dir, PROJECT_CONFIG_FILE);
+      writeFileSync(filePath, content);
+      return filePath;
+    }
+
+    it("finds the nearest project config in parent directories", () => {
+      const projectFile = writeProjectConfig(join(tempDir, "repo"), "routing: {}\n");
+      const nested = join(tempDir, "repo", "src", "lib");
+      mkdirSync(nested, { recursive: true });
+
+      expect(findProjectConfig(nested)).toBe(projectFile);
+      expect(findProjectConfig(join(tempDir, "repo"))).toBe(projectFile);
+      expect(findProjectConfig(tempDir)).toBeNull();
+    });
+
+    it("replaces rules and inherits the global default", async () => {
+      const { config } = await loadConfig(writeConfig(`
+upstream:
+  zai:
+    apiKey: "zai-key"
+routing:
+  rules:
+    - match: "claude-*"
+      upstream: zai
+  default: zai
+`));
+      const projectFile = writeProjectConfig(tempDir, `
+routing:
+  rules:
+    - match: "claude-haiku-*"
+      upstream: anthropic
+`);
+
+      const routing = await loadProjectRouting(projectFile, config);
+
+      expect(routing).toEqual({ rules: [{ match: "claude-haiku-*", upstream: "anthropic" }], default: "zai" });
+    });
+
+    it("treats an empty routing section as no rules", async () => {
+      const { config } = await loadConfig(writeConfig(""));
+      const projectFile = writeProjectConfig(tempDir, "routing:\n  default: anthropic\n");
+
+      expect(await loadProjectRouting(projectFile, config)).toEqual({ rules: [], default: "anthropic" });
+    });
+
+    it("rejects sections other than routing", async () => {
+      const { config } = await loadConfig(writeConfig(""));
+      const projectFile = writeProjectConfig(tempDir, "upstream:\n  zai:\n    apiKey: leaked\n");
+
+      await expect(loadProjectRouting(projectFile, config)).rejects.toThrow('unsupported section "upstream"');
+    });
+
+    it("rejects upstreams unknown to the global config or without credentials", async () => {
+      const { config } = await loadConfig(writeConfig(""));
+      config.upstream.zai.apiKey = "";
+
+      const unknown = writeProjectConfig(join(tempDir, "a"), "routing:\n  default: gateway\n");
+      await expect(loadProjectRouting(unknown, config)).rejects.toThrow(/routing.default: "gateway" is not valid/);
+
+      const keyless = writeProjectConfig(join(tempDir, "b"), "routing:\n  default: zai\n");
+      await expect(loadProjectRouting(keyless, config)).rejects.toThrow('Upstream "zai" is used by routing but has no usable credentials');
+    });
+  });
 });
@@ -118,6 +118,18 @@ describe("Logger", () => {
 
       expect(entry.upstream).toBe("zai");
     });
+
+    it("nested children extend the bound context", () => {
+      const logger = new Logger({ level: "debug" }, { logFilePath: logFile, stderr: false });
+      const child = logger.child({ component: "proxy", reqId: "abc123" }).child({ arm: "zai:GLM-4.7" });
+
+      child.info("split");
+
+      const entry = JSON.parse(readFileSync(logFile, "utf-8").trim()) as LogEntry;
+
+      expect(entry.reqId).toBe("abc123");
+      expect(entry.arm).toBe("zai:GLM-4.7");
+    });
   });
 
   describe("setLevel", () => {
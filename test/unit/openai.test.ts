@@ -0,0 +1,516 @@
+/**
+ * Unit tests for OpenAI Chat Completions adapter
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  toOpenAIRequest,
+  fromOpenAIResponse,
+  fromOpenAIError,
+  OpenAIStreamTranslator,
+  fromOpenAIRequest,
+  toOpenAIResponse,
+  toOpenAIResponseBody,
+  AnthropicStreamTranslator,
+} from "../../src/proxy/openai.js";
+
+/** Parse Anthropic SSE text into event objects */
+function parseEvents(sse: string): Array<Record<string, unknown>> {
+  return sse
+    .split("\n\n")
+    .filter((event) => event.trim())
+    .map((event) => {
+      const dataLine = event.split("\n").find((line) => line.startsWith("data: "))!;
+      return JSON.parse(dataLine.slice(6)) as Record<string, unknown>;
+    });
+}
+
+describe("toOpenAIRequest", () => {
+  it("converts system prompt and text messages", () => {
+    const result = toOpenAIRequest({
+      model: "qwen3",
+      max_tokens: 1024,
+      system: [{ type: "text", text: "You are helpful." }, { type: "text", text: "Be brief." }],
+      messages: [
+        { role: "user", content: "Hello" },
+        { role: "assistant", content: [{ type: "text", text: "Hi!" }] },
+      ],
+    });
+
+    expect(result).toEqual({
+      model: "qwen3",
+      max_tokens: 1024,
+      messages: [
+        { role: "system", content: "You are helpful.\n\nBe brief." },
+        { role: "user", content: "Hello" },
+        { role: "assistant", content: "Hi!" },
+      ],
+    });
+  });
+
+  it("converts tool_use and tool_result blocks", () => {
+    const result = toOpenAIRequest({
+      messages: [
+        { role: "user", content: "List files" },
+        {
+          role: "assistant",
+          content: [
+            { type: "thinking", thinking: "I should call ls", signature: "sig" },
+            { type: "tool_use", id: "toolu_1", name: "Bash", input: { command: "ls" } },
+          ],
+        },
+        {
+          role: "user",
+          content: [
+            { type: "tool_result", tool_use_id: "toolu_1", content: [{ type: "text", text: "a.txt" }] },
+            { type: "text", text: "What now?" },
+          ],
+        },
+      ],
+    });
+
+    expect(result.messages).toEqual([
+      { role: "user", content: "List files" },
+      {
+        role: "assistant",
+        content: null,
+        tool_calls: [{ id: "toolu_1", type: "function", function: { name: "Bash", arguments: '{"command":"ls"}' } }],
+      },
+      { role: "tool", tool_call_id: "toolu_1", content: "a.txt" },
+      { role: "user", content: "What now?" },
+    ]);
+  });
+
+  it("marks errored tool results", () => {
+    const result = toOpenAIRequest({
+      messages: [
+        { role: "user", content: [{ type: "tool_result", tool_use_id: "toolu_1", content: "boom", is_error: true }] },
+      ],
+    });
+
+    expect(result.messages).toEqual([{ role: "tool", tool_call_id: "toolu_1", content: "[error] boom" }]);
+  });
+
+  it("converts images to image_url parts", () => {
+    const result = toOpenAIRequest({
+      messages: [
+        {
+          role: "user",
+          content: [
+            { type: "text", text: "What is this?" },
+            { type: "image", source: { type: "base64", media_type: "image/jpeg", data: "AAAA" } },
+            { type: "image", source: { type: "url", url: "https://example.com/a.png" } },
+          ],
+        },
+      ],
+    });
+
+    expect(result.messages[0].content).toEqual([
+      { type: "text", text: "What is this?" },
+      { type: "image_url", image_url: { url: "data:image/jpeg;base64,AAAA" } },
+      { type: "image_url", image_url: { url: "https://example.com/a.png" } },
+    ]);
+  });
+
+  it("converts tools, tool_choice and sampling parameters", () => {
+    const result = toOpenAIRequest({
+      messages: [{ role: "user", content: "hi" }],
+      temperature: 0.5,
+      top_p: 0.9,
+      stop_sequences: ["END"],
+      tools: [
+        { name: "Bash", description: "Run a command", input_schema: { type: "object" } },
+        { type: "web_search_20250305", name: "web_search" },
+      ],
+      tool_choice: { type: "tool", name: "Bash", disable_parallel_tool_use: true },
+      metadata: { user_id: "user-1" },
+    });
+
+    expect(result.temperature).toBe(0.5);
+    expect(result.top_p).toBe(0.9);
+    expect(result.stop).toEqual(["END"]);
+    expect(result.tools).toEqual([
+      { type: "function", function: { name: "Bash", description: "Run a command", parameters: { type: "object" } } },
+    ]);
+    expect(result.tool_choice).toEqual({ type: "function", function: { name: "Bash" } });
+    expect(result.parallel_tool_calls).toBe(false);
+    expect(result.user).toBe("user-1");
+  });
+
+  it("maps thinking budget to reasoning effort", () => {
+    const low = toOpenAIRequest({ messages: [], thinking: { type: "enabled", budget_tokens: 1024 } });
+    const high = toOpenAIRequest({ messages: [], thinking: { type: "enabled", budget_tokens: 31999 } });
+    const disabled = toOpenAIRequest({ messages: [], thinking: { type: "disabled" } });
+
+    expect(low.reasoning_effort).toBe("low");
+    expect(high.reasoning_effort).toBe("high");
+    expect(disabled.reasoning_effort).toBeUndefined();
+  });
+
+  it("requests usage in streaming mode", () => {
+    const result = toOpenAIRequest({ messages: [], stream: true });
+
+    expect(result.stream).toBe(true);
+    expect(result.stream_options).toEqual({ include_usage: true });
+  });
+});
+
+describe("fromOpenAIResponse", () => {
+  it("converts text, reasoning and tool calls", () => {
+    const result = fromOpenAIResponse({
+      id: "chatcmpl-1",
+      model: "qwen3",
+      choices: [
+        {
+          message: {
+            content: "Running ls",
+            reasoning_content: "Need to list files",
+            tool_calls: [{ id: "call_1", type: "function", function: { name: "Bash", arguments: '{"command":"ls"}' } }],
+          },
+          finish_reason: "tool_calls",
+        },
+      ],
+      usage: { prompt_tokens: 12, completion_tokens: 5 },
+    });
+
+    expect(result).toEqual({
+      id: "msg_chatcmpl-1",
+      type: "message",
+      role: "assistant",
+      model: "qwen3",
+      content: [
+        { type: "thinking", thinking: "Need to list files" },
+        { type: "text", text: "Running ls" },
+        { type: "tool_use", id: "call_1", name: "Bash", input: { command: "ls" } },
+      ],
+      stop_reason: "tool_use",
+      stop_sequence: null,
+      usage: { input_tokens: 12, output_tokens: 5 },
+    });
+  });
+
+  it("maps length finish reason to max_tokens and falls back to request model", () => {
+    const result = fromOpenAIResponse({ choices: [{ message: { content: "cut" }, finish_reason: "length" }] }, "local");
+
+    expect(result.stop_reason).toBe("max_tokens");
+    expect(result.model).toBe("local");
+  });
+});
+
+describe("fromOpenAIError", () => {
+  it("extracts OpenAI error message and maps status", () => {
+    const result = fromOpenAIError(429, JSON.stringify({ error: { message: "Slow down", type: "rate_limit" } }));
+
+    expect(result).toEqual({ type: "error", error: { type: "rate_limit_error", message: "Slow down" } });
+  });
+
+  it("uses raw body for non-JSON errors", () => {
+    const result = fromOpenAIError(500, "Internal Server Error");
+
+    expect(result).toEqual({ type: "error", error: { type: "api_error", message: "Internal Server Error" } });
+  });
+});
+
+describe("OpenAIStreamTranslator", () => {
+  it("translates text stream to Anthropic events", () => {
+    const translator = new OpenAIStreamTranslator("qwen3");
+    let output = "";
+    output += translator.push('data: {"id":"c1","choices":[{"delta":{"role":"assistant","content":"Hel"}}]}\n\n');
+    output += translator.push('data: {"id":"c1","choices":[{"delta":{"content":"lo"},"finish_reason":"stop"}]}\n\n');
+    output += translator.push('data: {"id":"c1","choices":[],"usage":{"prompt_tokens":7,"completion_tokens":2}}\n\ndata: [DONE]\n\n');
+    output += translator.end();
+
+    const events = parseEvents(output);
+    expect(events.map((event) => event.type)).toEqual([
+      "message_start",
+      "content_block_start",
+      "content_block_delta",
+      "content_block_delta",
+      "content_block_stop",
+      "message_delta",
+      "message_stop",
+    ]);
+    expect((events[0].message as Record<string, unknown>).model).toBe("qwen3");
+    expect(events[2].delta).toEqual({ type: "text_delta", text: "Hel" });
+    expect(events[5]).toEqual({
+      type: "message_delta",
+      delta: { stop_reason: "end_turn", stop_sequence: null },
+      usage: { input_tokens: 7, output_tokens: 2 },
+    });
+  });
+
+  it("handles chunks split mid-line", () => {
+    const translator = new OpenAIStreamTranslator();
+    let output = translator.push('data: {"choices":[{"delta":{"con');
+    expect(output).toBe("");
+    output += translator.push('tent":"Hi"}}]}\r\n\r\n');
+    output += translator.end();
+
+    const events = parseEvents(output);
+    expect(events[2].delta).toEqual({ type: "text_delta", text: "Hi" });
+    expect(events[events.length - 1].type).toBe("message_stop");
+  });
+
+  it("translates reasoning and tool calls into separate blocks", () => {
+    const translator = new OpenAIStreamTranslator();
+    let output = "";
+    output += translator.push('data: {"choices":[{"delta":{"reasoning_content":"Think"}}]}\n');
+    output += translator.push('data: {"choices":[{"delta":{"tool_calls":[{"index":0,"id":"call_1","function":{"name":"Bash","arguments":""}}]}}]}\n');
+    output += translator.push('data: {"choices":[{"delta":{"tool_calls":[{"index":0,"function":{"arguments":"{\\"command\\":\\"ls\\"}"}}]},"finish_reason":"tool_calls"}]}\n');
+    output += translator.push("data: [DONE]\n");
+
+    const events = parseEvents(output);
+    expect(events.map((event) => event.type)).toEqual([
+      "message_start",
+      "content_block_start",
+      "content_block_delta",
+      "content_block_stop",
+      "content_block_start",
+      "content_block_delta",
+      "content_block_stop",
+      "message_delta",
+      "message_stop",
+    ]);
+    expect(events[1].content_block).toEqual({ type: "thinking", thinking: "" });
+    expect(events[2].delta).toEqual({ type: "thinking_delta", thinking: "Think" });
+    expect(events[4]).toEqual({
+      type: "content_block_start",
+      index: 1,
+      content_block: { type: "tool_use", id: "call_1", name: "Bash", input: {} },
+    });
+    expect(events[5].delta).toEqual({ type: "input_json_delta", partial_json: '{"command":"ls"}' });
+    expect((events[7].delta as Record<string, unknown>).stop_reason).toBe("tool_use");
+  });
+
+  it("emits an error event for in-stream errors", () => {
+    const translator = new OpenAIStreamTranslator();
+    const output = translator.push('data: {"error":{"message":"model crashed"}}\n\n') + translator.end();
+
+    expect(parseEvents(output)).toEqual([
+      { type: "error", error: { type: "api_error", message: "model crashed" } },
+    ]);
+  });
+
+  it("closes the message when the stream ends without [DONE]", () => {
+    const translator = new OpenAIStreamTranslator();
+    const output = translator.push('data: {"choices":[{"delta":{"content":"x"}}]}\n') + translator.end();
+
+    const types = parseEvents(output).map((event) => event.type);
+    expect(types.slice(-3)).toEqual(["content_block_stop", "message_delta", "message_stop"]);
+  });
+});
+
+describe("fromOpenAIRequest", () => {
+  it("converts system, user and assistant messages", () => {
+    const result = fromOpenAIRequest({
+      model: "claude-sonnet-4-5",
+      messages: [
+        { role: "system", content: "Be brief." },
+        { role: "developer", content: "Use English." },
+        { role: "user", content: "Hi" },
+        { role: "assistant", content: "Hello!" },
+        { role: "user", content: [{ type: "text", text: "Look" }, { type: "image_url", image_url: { url: "data:image/png;base64,AAAA" } }] },
+      ],
+    });
+
+    expect(result).toEqual({
+      model: "claude-sonnet-4-5",
+      max_tokens: 4096,
+      system: "Be brief.\n\nUse English.",
+      messages: [
+        { role: "user", content: [{ type: "text", text: "Hi" }] },
+        { role: "assistant", content: [{ type: "text", text: "Hello!" }] },
+        {
+          role: "user",
+          content: [
+            { type: "text", text: "Look" },
+            { type: "image", source: { type: "base64", media_type: "image/png", data: "AAAA" } },
+          ],
+        },
+      ],
+    });
+  });
+
+  it("converts tool calls and merges tool results into one user message", () => {
+    const result = fromOpenAIRequest({
+      messages: [
+        { role: "user", content: "Check both" },
+        {
+          role: "assistant",
+          content: null,
+          tool_calls: [
+            { id: "call_1", type: "function", function: { name: "Read", arguments: '{"path":"a"}' } },
+            { id: "call_2", type: "function", function: { name: "Read", arguments: '{"path":"b"}' } },
+          ],
+        },
+        { role: "tool", tool_call_id: "call_1", content: "A" },
+        { role: "tool", tool_call_id: "call_2", content: "B" },
+      ],
+    });
+
+    expect(result.messages).toEqual([
+      { role: "user", content: [{ type: "text", text: "Check both" }] },
+      {
+        role: "assistant",
+        content: [
+          { type: "tool_use", id: "call_1", name: "Read", input: { path: "a" } },
+          { type: "tool_use", id: "call_2", name: "Read", input: { path: "b" } },
+        ],
+      },
+      {
+        role: "user",
+        content: [
+          { type: "tool_result", tool_use_id: "call_1", content: "A" },
+          { type: "tool_result", tool_use_id: "call_2", content: "B" },
+        ],
+      },
+    ]);
+  });
+
+  it("converts tools, tool_choice, stop and sampling parameters", () => {
+    const result = fromOpenAIRequest({
+      messages: [{ role: "user", content: "hi" }],
+      max_completion_tokens: 2000,
+      temperature: 0.2,
+      stop: "END",
+      stream: true,
+      tools: [{ type: "function", function: { name: "Bash", description: "Run", parameters: { type: "object" } } }],
+      tool_choice: "required",
+      parallel_tool_calls: false,
+      user: "user-1",
+    });
+
+    expect(result.max_tokens).toBe(2000);
+    expect(result.temperature).toBe(0.2);
+    expect(result.stop_sequences).toEqual(["END"]);
+    expect(result.stream).toBe(true);
+    expect(result.tools).toEqual([{ name: "Bash", description: "Run", input_schema: { type: "object" } }]);
+    expect(result.tool_choice).toEqual({ type: "any", disable_parallel_tool_use: true });
+    expect(result.metadata).toEqual({ user_id: "user-1" });
+  });
+
+  it("maps reasoning effort to a thinking budget below max_tokens", () => {
+    const high = fromOpenAIRequest({ messages: [], max_tokens: 32000, reasoning_effort: "high" });
+    const clamped = fromOpenAIRequest({ messages: [], max_tokens: 4000, reasoning_effort: "medium" });
+    const tooSmall = fromOpenAIRequest({ messages: [], max_tokens: 500, reasoning_effort: "low" });
+
+    expect(high.thinking).toEqual({ type: "enabled", budget_tokens: 24576 });
+    expect(clamped.thinking).toEqual({ type: "enabled", budget_tokens: 3999 });
+    expect(tooSmall.thinking).toBeUndefined();
+  });
+});
+
+describe("toOpenAIResponse", () => {
+  it("converts text, thinking and tool_use blocks", () => {
+    const result = toOpenAIResponse({
+      id: "msg_1",
+      model: "GLM-4.7",
+      content: [
+        { type: "thinking", content: "normalized reasoning" },
+        { type: "text", text: "Calling tool" },
+        { type: "tool_use", id: "toolu_1", name: "Bash", input: { command: "ls" } },
+      ],
+      stop_reason: "tool_use",
+      usage: { input_tokens: 10, output_tokens: 4 },
+    });
+
+    expect(result.id).toBe("chatcmpl-msg_1");
+    expect(result.object).toBe("chat.completion");
+    expect(result.model).toBe("GLM-4.7");
+    expect(result.choices).toEqual([{
+      index: 0,
+      message: {
+        role: "assistant",
+        content: "Calling tool",
+        reasoning_content: "normalized reasoning",
+        tool_calls: [{ id: "toolu_1", type: "function", function: { name: "Bash", arguments: '{"command":"ls"}' } }],
+      },
+      finish_reason: "tool_calls",
+    }]);
+    expect(result.usage).toEqual({ prompt_tokens: 10, completion_tokens: 4, total_tokens: 14 });
+  });
+});
+
+describe("toOpenAIResponseBody", () => {
+  it("converts Anthropic error envelopes to OpenAI errors", () => {
+    const body = JSON.stringify({ type: "error", error: { type: "rate_limit_error", message: "Too many requests" } });
+
+    expect(JSON.parse(toOpenAIResponseBody(body, 429))).toEqual({
+      error: { message: "Too many requests", type: "rate_limit_error", code: null },
+    });
+  });
+
+  it("returns non-JSON bodies unchanged", () => {
+    expect(toOpenAIResponseBody("Bad Gateway", 502)).toBe("Bad Gateway");
+  });
+});
+
+describe("AnthropicStreamTranslator", () => {
+  function anthropicEvent(data: Record<string, unknown>): string {
+    return `event: ${data.type}\ndata: ${JSON.stringify(data)}\n\n`;
+  }
+
+  function parseChunks(sse: string): Array<Record<string, unknown> | string> {
+    return sse
+      .split("\n\n")
+      .filter((event) => event.trim())
+      .map((event) => {
+        const payload = event.slice(6);
+        return payload === "[DONE]" ? payload : (JSON.parse(payload) as Record<string, unknown>);
+      });
+  }
+
+  it("translates text and tool_use streams to chat completion chunks", () => {
+    const translator = new AnthropicStreamTranslator(true);
+    let output = "";
+    output += translator.push(anthropicEvent({ type: "message_start", message: { id: "msg_1", model: "GLM-4.7", usage: { input_tokens: 9, output_tokens: 1 } } }));
+    output += translator.push(anthropicEvent({ type: "content_block_start", index: 0, content_block: { type: "text", text: "" } }));
+    output += translator.push(anthropicEvent({ type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "Hi" } }));
+    output += translator.push(anthropicEvent({ type: "content_block_stop", index: 0 }));
+    output += translator.push(anthropicEvent({ type: "content_block_start", index: 1, content_block: { type: "tool_use", id: "toolu_1", name: "Bash", input: {} } }));
+    output += translator.push(anthropicEvent({ type: "content_block_delta", index: 1, delta: { type: "input_json_delta", partial_json: '{"command":"ls"}' } }));
+    output += translator.push(anthropicEvent({ type: "content_block_stop", index: 1 }));
+    output += translator.push(anthropicEvent({ type: "message_delta", delta: { stop_reason: "tool_use" }, usage: { output_tokens: 6 } }));
+    output += translator.push(anthropicEvent({ type: "message_stop" }));
+    output += translator.end();
+
+    const chunks = parseChunks(output);
+    const deltas = chunks
+      .filter((chunk): chunk is Record<string, unknown> => typeof chunk === "object" && Array.isArray(chunk.choices) && (chunk.choices as unknown[]).length > 0)
+      .map((chunk) => (chunk.choices as Array<Record<string, unknown>>)[0]);
+
+    expect(deltas.map((choice) => choice.delta)).toEqual([
+      { role: "assistant", content: "" },
+      { content: "Hi" },
+      { tool_calls: [{ index: 0, id: "toolu_1", type: "function", function: { name: "Bash", arguments: "" } }] },
+      { tool_calls: [{ index: 0, function: { arguments: '{"command":"ls"}' } }] },
+      {},
+    ]);
+    expect(deltas[deltas.length - 1].finish_reason).toBe("tool_calls");
+    expect(chunks[chunks.length - 2]).toMatchObject({
+      id: "chatcmpl-msg_1",
+      model: "GLM-4.7",
+      choices: [],
+      usage: { prompt_tokens: 9, completion_tokens: 6, total_tokens: 15 },
+    });
+    expect(chunks[chunks.length - 1]).toBe("[DONE]");
+  });
+
+  it("translates thinking deltas to reasoning_content", () => {
+    const translator = new AnthropicStreamTranslator();
+    const output = translator.push(anthropicEvent({ type: "content_block_delta", index: 0, delta: { type: "thinking_delta", thinking: "hmm" } }));
+
+    const chunk = parseChunks(output)[0] as Record<string, unknown>;
+    expect((chunk.choices as Array<Record<string, unknown>>)[0].delta).toEqual({ reasoning_content: "hmm" });
+  });
+
+  it("translates error events and terminates the stream", () => {
+    const translator = new AnthropicStreamTranslator();
+    const output = translator.push(anthropicEvent({ type: "error", error: { type: "overloaded_error", message: "Overloaded" } })) + translator.end();
+
+    const chunks = parseChunks(output);
+    expect(chunks).toHaveLength(2);
+    expect((chunks[0] as Record<string, unknown>).error).toEqual({ message: "Overloaded", type: "overloaded_error", code: null });
+    expect(chunks[1]).toBe("[DONE]");
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Unit tests for routing pattern matching
+ */
+
+import { describe, it, expect } from "vitest";
+import { globToRegExp, compilePattern, compileMatcher } from "../../src/utils/pattern.js";
+
+describe("globToRegExp", () => {
+  it("supports * and ?", () => {
+    expect(globToRegExp("claude-*").test("claude-sonnet-4-5")).toBe(true);
+    expect(globToRegExp("glm-4.?").test("glm-4.7")).toBe(true);
+    expect(globToRegExp("glm-4.?").test("glm-4.10")).toBe(false);
+  });
+
+  it("escapes regex metacharacters", () => {
+    expect(globToRegExp("glm-4.7").test("glm-4x7")).toBe(false);
+    expect(globToRegExp("a+b(c)").test("a+b(c)")).toBe(true);
+  });
+
+  it("supports character classes and negated classes", () => {
+    expect(globToRegExp("claude-[so]*").test("claude-sonnet-4-5")).toBe(true);
+    expect(globToRegExp("claude-[so]*").test("claude-haiku-4-5")).toBe(false);
+    expect(globToRegExp("glm-[0-9]*").test("glm-4")).toBe(true);
+    expect(globToRegExp("claude-[!h]*").test("claude-haiku-4-5")).toBe(false);
+    expect(globToRegExp("claude-[!h]*").test("claude-opus-4-5")).toBe(true);
+  });
+
+  it("rejects malformed character classes", () => {
+    expect(() => globToRegExp("claude-[so")).toThrow('Invalid pattern "claude-[so": unterminated character class');
+    expect(() => globToRegExp("claude-[!]")).toThrow("empty character class");
+  });
+});
+
+describe("compilePattern", () => {
+  it("treats /.../ as a regular expression", () => {
+    const regex = compilePattern("/^claude-(sonnet|opus)-4/");
+    expect(regex.test("claude-sonnet-4-5")).toBe(true);
+    expect(regex.test("claude-haiku-4-5")).toBe(false);
+  });
+
+  it("supports case-insensitive flag", () => {
+    expect(compilePattern("/^GLM-/i").test("glm-4.7")).toBe(true);
+  });
+
+  it("rejects stateful flags and invalid expressions", () => {
+    expect(() => compilePattern("/claude/g")).toThrow('unsupported flags "g"');
+    expect(() => compilePattern("/claude-(/")).toThrow('Invalid pattern "/claude-(/"');
+  });
+});
+
+describe("compileMatcher", () => {
+  it("matches any pattern in a list", () => {
+    const matches = compileMatcher(["claude-sonnet-*", "/^claude-haiku/"]);
+    expect(matches("claude-sonnet-4-5")).toBe(true);
+    expect(matches("claude-haiku-4-5")).toBe(true);
+    expect(matches("claude-opus-4-5")).toBe(false);
+  });
+
+  it("excludes negated patterns", () => {
+    const matches = compileMatcher(["claude-*", "!claude-opus-*"]);
+    expect(matches("claude-sonnet-4-5")).toBe(true);
+    expect(matches("claude-opus-4-5")).toBe(false);
+  });
+
+  it("treats a list of only exclusions as match-all-except", () => {
+    const matches = compileMatcher("!claude-opus-*");
+    expect(matches("glm-4.7")).toBe(true);
+    expect(matches("")).toBe(true);
+    expect(matches("claude-opus-4-5")).toBe(false);
+  });
+
+  it("rejects empty lists and bare negation", () => {
+    expect(() => compileMatcher([])).toThrow("must not be empty");
+    expect(() => compileMatcher("!")).toThrow("negation needs a pattern");
+  });
+});
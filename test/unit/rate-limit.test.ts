@@ -0,0 +1,110 @@
+/**
+ * Tests for upstream rate limits and response usage metering
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { DEFAULT_RATE_LIMIT, RateLimiter, TokenBucket, UsageMeter } from "../../src/proxy/rate-limit.js";
+
+let now = 0;
+const clock = () => now;
+
+function createLimiter(policy = {}): RateLimiter {
+  return new RateLimiter({ ...DEFAULT_RATE_LIMIT, ...policy }, clock);
+}
+
+/** Meter a body split into chunks of the given size */
+function meter(body: string, eventStream: boolean, chunkSize = body.length) {
+  const usageMeter = new UsageMeter(eventStream);
+  const bytes = Buffer.from(body);
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    usageMeter.push(bytes.subarray(i, i + chunkSize));
+  }
+  return usageMeter.end();
+}
+
+beforeEach(() => {
+  now = Date.parse("2026-01-01T00:00:00Z");
+});
+
+describe("TokenBucket", () => {
+  it("starts full and refills evenly over a minute", () => {
+    const bucket = new TokenBucket(60, clock);
+    bucket.take(60);
+    expect(bucket.waitMs()).toBe(1000);
+
+    now += 500;
+    expect(bucket.waitMs()).toBe(500);
+    now += 500;
+    expect(bucket.waitMs()).toBe(0);
+  });
+
+  it("goes into debt and never refills beyond its size", () => {
+    const bucket = new TokenBucket(600, clock);
+    bucket.take(1000);
+    // 401 tokens to recover at 10 per second
+    expect(bucket.waitMs()).toBe(40_100);
+
+    now += 10 * 60_000;
+    bucket.take(600);
+    expect(bucket.waitMs()).toBe(100);
+  });
+});
+
+describe("RateLimiter", () => {
+  it("admits everything without limits", () => {
+    const limiter = createLimiter();
+    expect(limiter.metersUsage).toBe(false);
+    for (let i = 0; i < 100; i++) {
+      expect(limiter.acquire()).toBeNull();
+    }
+  });
+
+  it("takes one request per admission", () => {
+    const limiter = createLimiter({ requestsPerMinute: 2 });
+    expect(limiter.acquire()).toBeNull();
+    expect(limiter.acquire()).toBeNull();
+    expect(limiter.acquire()).toEqual({ limit: "requests", waitMs: 30_000 });
+  });
+
+  it("refuses requests while a token bucket is in debt, reporting the longest wait", () => {
+    const limiter = createLimiter({ requestsPerMinute: 60, inputTokensPerMinute: 6000, outputTokensPerMinute: 600 });
+    expect(limiter.metersUsage).toBe(true);
+    expect(limiter.acquire()).toBeNull();
+
+    limiter.record({ inputTokens: 6500, outputTokens: 605 });
+    expect(limiter.acquire()).toEqual({ limit: "inputTokens", waitMs: 5010 });
+
+    now += 5010;
+    expect(limiter.acquire()).toBeNull();
+  });
+});
+
+describe("UsageMeter", () => {
+  it("reads Anthropic JSON usage including cache tokens", () => {
+    const body = JSON.stringify({
+      type: "message",
+      content: [{ type: "text", text: "Hi" }],
+      usage: { input_tokens: 100, cache_creation_input_tokens: 20, cache_read_input_tokens: 300, output_tokens: 42 },
+    });
+    expect(meter(body, false, 7)).toEqual({ inputTokens: 420, outputTokens: 42 });
+  });
+
+  it("reads running totals from Anthropic event streams", () => {
+    const body = [
+      'event: message_start\ndata: {"type":"message_start","message":{"id":"msg_1","usage":{"input_tokens":1200,"output_tokens":1}}}\n\n',
+      'event: content_block_delta\ndata: {"type":"content_block_delta","index":0,"delta":{"type":"text_delta","text":"usage"}}\n\n',
+      'event: message_delta\ndata: {"type":"message_delta","delta":{"stop_reason":"end_turn"},"usage":{"output_tokens":310}}\n\n',
+      'event: message_stop\ndata: {"type":"message_stop"}\n\n',
+    ].join("");
+    for (const chunkSize of [5, 64, body.length]) {
+      expect(meter(body, true, chunkSize)).toEqual({ inputTokens: 1200, outputTokens: 310 });
+    }
+  });
+
+  it("reads OpenAI usage chunks and ignores bodies without usage", () => {
+    const stream = 'data: {"choices":[],"usage":{"prompt_tokens":50,"completion_tokens":8}}\n\ndata: [DONE]\n\n';
+    expect(meter(stream, true)).toEqual({ inputTokens: 50, outputTokens: 8 });
+    expect(meter('{"type":"error","error":{"type":"api_error","message":"x"}}', false)).toEqual({ inputTokens: 0, outputTokens: 0 });
+    expect(meter("<html>Bad gateway</html>", false)).toEqual({ inputTokens: 0, outputTokens: 0 });
+  });
+});
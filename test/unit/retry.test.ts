@@ -0,0 +1,70 @@
+/**
+ * Tests for upstream retry decisions and backoff
+ */
+
+import { describe, it, expect } from "vitest";
+import { DEFAULT_RETRY, isRetryableError, isRetryableStatus, parseRetryAfter, retryDelay } from "../../src/proxy/retry.js";
+
+describe("parseRetryAfter", () => {
+  it("parses seconds and HTTP dates", () => {
+    const now = Date.parse("2026-01-01T00:00:00Z");
+    expect(parseRetryAfter("7", now)).toBe(7000);
+    expect(parseRetryAfter("0.5", now)).toBe(500);
+    expect(parseRetryAfter("Thu, 01 Jan 2026 00:00:03 GMT", now)).toBe(3000);
+    expect(parseRetryAfter("Wed, 31 Dec 2025 23:59:00 GMT", now)).toBe(0);
+  });
+
+  it("ignores missing and malformed values", () => {
+    expect(parseRetryAfter(undefined)).toBeUndefined();
+    expect(parseRetryAfter("")).toBeUndefined();
+    expect(parseRetryAfter("soon")).toBeUndefined();
+  });
+});
+
+describe("isRetryableStatus", () => {
+  it("retries overloaded and unavailable upstreams", () => {
+    expect(isRetryableStatus(529, undefined)).toBe(true);
+    expect(isRetryableStatus(503, undefined)).toBe(true);
+    expect(isRetryableStatus(502, undefined)).toBe(true);
+  });
+
+  it("retries 429 only with retry-after", () => {
+    expect(isRetryableStatus(429, 1000)).toBe(true);
+    expect(isRetryableStatus(429, undefined)).toBe(false);
+  });
+
+  it("doesn't retry client errors or internal errors", () => {
+    expect(isRetryableStatus(400, undefined)).toBe(false);
+    expect(isRetryableStatus(401, 1000)).toBe(false);
+    expect(isRetryableStatus(500, undefined)).toBe(false);
+  });
+});
+
+describe("isRetryableError", () => {
+  it("retries connection failures", () => {
+    expect(isRetryableError({ code: "ECONNRESET" })).toBe(true);
+    expect(isRetryableError({ code: "ECONNREFUSED" })).toBe(true);
+    expect(isRetryableError({ code: "ENOTFOUND" })).toBe(false);
+    expect(isRetryableError({})).toBe(false);
+  });
+
+  it("retries connect timeouts only", () => {
+    expect(isRetryableError({ code: "ETIMEDOUT", phase: "connect" })).toBe(true);
+    expect(isRetryableError({ code: "ETIMEDOUT", phase: "firstByte" })).toBe(false);
+    expect(isRetryableError({ code: "ETIMEDOUT", phase: "total" })).toBe(false);
+  });
+});
+
+describe("retryDelay", () => {
+  it("doubles the backoff up to the maximum, with jitter in its upper half", () => {
+    expect(retryDelay(1, DEFAULT_RETRY, undefined, () => 0)).toBe(250);
+    expect(retryDelay(1, DEFAULT_RETRY, undefined, () => 0.999999)).toBe(500);
+    expect(retryDelay(3, DEFAULT_RETRY, undefined, () => 0)).toBe(1000);
+    expect(retryDelay(10, DEFAULT_RETRY, undefined, () => 0)).toBe(4000);
+  });
+
+  it("waits at least as long as retry-after", () => {
+    expect(retryDelay(1, DEFAULT_RETRY, 7000, () => 0.5)).toBe(7000);
+    expect(retryDelay(1, DEFAULT_RETRY, 100, () => 0)).toBe(250);
+  });
+});
@@ -2,9 +2,12 @@
  * Unit tests for router
  */
 
-import { describe, it, expect } from "vitest";
-import { selectRoute } from "../../src/proxy/router.js";
+import { describe, it, expect, vi } from "vitest";
+import { selectRoute, routingBodyFields } from "../../src/proxy/router.js";
+import { ZAI_CAPABILITIES } from "../../src/proxy/capabilities.js";
 import type { Config } from "../../src/config/types.js";
+import type { ChildLogger } from "../../src/utils/logger.js";
+import type { RoutingRequest } from "../../src/proxy/types.js";
 
 const baseConfig: Config = {
   proxy: { port: 8787, host: "127.0.0.1" },
@@ -24,7 +27,7 @@ const baseConfig: Config = {
   },
 };
 
-function configWithRules(rules: Config["routing"]["rules"], defaultUpstream: "anthropic" | "zai" = "anthropic"): Config {
+function configWithRules(rules: Config["routing"]["rules"], defaultUpstream: string = "anthropic"): Config {
   return {
     ...baseConfig,
     routing: { rules, default: defaultUpstream },
@@ -177,6 +180,75 @@ describe("selectRoute", () => {
       expect(result.url).toBe("https://api.anthropic.com");
       expect(result.apiKey).toBeUndefined();
     });
+
+    it("sanitizes foreign requests for zai by default", () => {
+      const config = configWithRules([{ match: "glm-*", upstream: "zai" }]);
+      expect(selectRoute("glm-4", config).sanitizeForeignRequest).toBe(true);
+      expect(selectRoute("claude-opus-4-5", config).sanitizeForeignRequest).toBe(false);
+    });
+
+    it("emulates count_tokens for zai and openai upstreams by default", () => {
+      const config: Config = {
+        ...configWithRules([
+          { match: "glm-*", upstream: "zai" },
+          { match: "local-*", upstream: "local" },
+          { match: "gw-*", upstream: "gateway" },
+        ]),
+        upstream: {
+          ...baseConfig.upstream,
+          local: { url: "http://127.0.0.1:8000/v1", type: "openai" },
+          gateway: { url: "http://127.0.0.1:9000", emulateCountTokens: true },
+        },
+      };
+      expect(selectRoute("glm-4", config).emulateCountTokens).toBe(true);
+      expect(selectRoute("local-model", config).emulateCountTokens).toBe(true);
+      expect(selectRoute("gw-model", config).emulateCountTokens).toBe(true);
+      expect(selectRoute("claude-opus-4-5", config).emulateCountTokens).toBe(false);
+    });
+
+    it("retries the built-in upstreams by default", () => {
+      const config: Config = {
+        ...configWithRules([
+          { match: "glm-*", upstream: "zai" },
+          { match: "local-*", upstream: "local" },
+          { match: "gw-*", upstream: "gateway" },
+        ]),
+        upstream: {
+          ...baseConfig.upstream,
+          local: { url: "http://127.0.0.1:8000/v1" },
+          gateway: { url: "http://127.0.0.1:9000", retry: { maxRetries: 5, budgetSeconds: 60 } },
+        },
+      };
+      expect(selectRoute("glm-4", config).retry).toEqual({ maxRetries: 2 });
+      expect(selectRoute("claude-opus-4-5", config).retry).toEqual({ maxRetries: 2 });
+      expect(selectRoute("local-model", config).retry).toEqual({ maxRetries: 0 });
+      expect(selectRoute("gw-model", config).retry).toEqual({ maxRetries: 5, budgetSeconds: 60 });
+    });
+
+    it("normalizes a foreignReasoning mode to a policy", () => {
+      const config: Config = {
+        ...configWithRules([{ match: "glm-*", upstream: "zai" }]),
+        upstream: {
+          anthropic: { ...baseConfig.upstream.anthropic, foreignReasoning: { keepTurns: 1 } },
+          zai: { ...baseConfig.upstream.zai, foreignReasoning: "drop" },
+        },
+      };
+      expect(selectRoute("glm-4", config).foreignReasoning).toEqual({ mode: "drop" });
+      expect(selectRoute("claude-opus-4-5", config).foreignReasoning).toEqual({ keepTurns: 1 });
+    });
+
+    it("uses the built-in capability profile for zai unless one is configured", () => {
+      const config = configWithRules([{ match: "glm-*", upstream: "zai" }]);
+      expect(selectRoute("glm-4", config).capabilities).toEqual(ZAI_CAPABILITIES);
+      expect(selectRoute("claude-opus-4-5", config).capabilities).toBeUndefined();
+
+      const custom = { params: { drop: ["metadata"] } };
+      const configured: Config = {
+        ...config,
+        upstream: { ...config.upstream, zai: { ...config.upstream.zai, capabilities: custom } },
+      };
+      expect(selectRoute("glm-4", configured).capabilities).toBe(custom);
+    });
   });
 
   describe("model-less requests", () => {
@@ -193,4 +265,345 @@ describe("selectRoute", () => {
       expect(result.name).toBe("anthropic");
     });
   });
+
+  describe("custom upstreams", () => {
+    const customConfig: Config = {
+      ...baseConfig,
+      upstream: {
+        ...baseConfig.upstream,
+        "zai-cn": { url: "https://open.bigmodel.cn/api/anthropic", apiKey: "cn-key", transformResponse: true },
+        gateway: { url: "http://127.0.0.1:9000", auth: "oauth", sanitizeRequest: true },
+        local: { url: "http://127.0.0.1:8000/v1", type: "openai" },
+      },
+      routing: {
+        rules: [
+          { match: "glm-*", upstream: "zai-cn" },
+          { match: "claude-opus-*", upstream: "gateway" },
+          { match: "qwen-*", upstream: "local" },
+        ],
+        default: "anthropic",
+      },
+    };
+
+    it("routes to a custom API key upstream by name", () => {
+      const result = selectRoute("glm-4.7", customConfig);
+      expect(result.name).toBe("zai-cn");
+      expect(result.url).toBe("https://open.bigmodel.cn/api/anthropic");
+      expect(result.auth).toBe("api-key");
+      expect(result.apiKey).toBe("cn-key");
+      expect(result.transformResponse).toBe(true);
+      expect(result.sanitizeRequest).toBe(false);
+    });
+
+    it("routes to a custom OAuth upstream by name", () => {
+      const result = selectRoute("claude-opus-4-5", customConfig);
+      expect(result.name).toBe("gateway");
+      expect(result.auth).toBe("oauth");
+      expect(result.apiKey).toBeUndefined();
+      expect(result.sanitizeRequest).toBe(true);
+      expect(result.transformResponse).toBe(false);
+    });
+
+    it("sends no credentials to keyless custom upstreams by default", () => {
+      const result = selectRoute("qwen-3", customConfig);
+      expect(result.name).toBe("local");
+      expect(result.auth).toBe("none");
+    });
+
+    it("uses a custom upstream as default", () => {
+      const config: Config = { ...customConfig, routing: { rules: [], default: "gateway" } };
+      const result = selectRoute("claude-sonnet-4-5", config);
+      expect(result.name).toBe("gateway");
+      expect(result.url).toBe("http://127.0.0.1:9000");
+    });
+
+    it("skips rules pointing at unknown upstreams", () => {
+      const config: Config = {
+        ...customConfig,
+        routing: { rules: [{ match: "*", upstream: "missing" }], default: "zai" },
+      };
+      const result = selectRoute("claude-sonnet-4-5", config);
+      expect(result.name).toBe("zai");
+    });
+
+    it("falls back to anthropic when default upstream is unknown", () => {
+      const config: Config = { ...customConfig, routing: { rules: [], default: "missing" } };
+      const result = selectRoute("claude-sonnet-4-5", config);
+      expect(result.name).toBe("anthropic");
+    });
+
+    it("applies built-in flags to anthropic and zai", () => {
+      const anthropic = selectRoute("claude-sonnet-4-5", baseConfig);
+      expect(anthropic.auth).toBe("oauth");
+      expect(anthropic.sanitizeRequest).toBe(true);
+      expect(anthropic.transformResponse).toBe(false);
+
+      const zai = selectRoute("claude-sonnet-4-5", configWithRules([], "zai"));
+      expect(zai.auth).toBe("api-key");
+      expect(zai.sanitizeRequest).toBe(false);
+      expect(zai.transformResponse).toBe(true);
+    });
+  });
+
+  describe("fallback chains", () => {
+    it("resolves fallback targets in order", () => {
+      const config = configWithRules([
+        { match: "claude-*", upstream: "zai", model: "GLM-4.7", fallback: [{ upstream: "anthropic" }] },
+      ]);
+      const result = selectRoute("claude-sonnet-4-5", config);
+      expect(result.name).toBe("zai");
+      expect(result.model).toBe("GLM-4.7");
+      expect(result.fallbacks).toHaveLength(1);
+      expect(result.fallbacks![0].name).toBe("anthropic");
+      expect(result.fallbacks![0].model).toBeUndefined();
+      expect(result.fallbacks![0].sanitizeRequest).toBe(true);
+    });
+
+    it("keeps fallback model overrides", () => {
+      const config = configWithRules([
+        { match: "claude-*", upstream: "anthropic", fallback: [{ upstream: "zai", model: "GLM-4.7" }] },
+      ]);
+      const result = selectRoute("claude-opus-4-5", config);
+      expect(result.fallbacks![0]).toMatchObject({ name: "zai", model: "GLM-4.7", apiKey: "zai-test" });
+    });
+
+    it("skips fallback targets pointing at unknown upstreams", () => {
+      const config = configWithRules([
+        { match: "*", upstream: "zai", fallback: [{ upstream: "missing" }] },
+      ]);
+      const result = selectRoute("claude-sonnet-4-5", config);
+      expect(result.fallbacks).toBeUndefined();
+    });
+
+    it("has no fallbacks for the default upstream", () => {
+      const result = selectRoute("claude-sonnet-4-5", baseConfig);
+      expect(result.fallbacks).toBeUndefined();
+    });
+  });
+
+  describe("request conditions", () => {
+    const request = (body: Record<string, unknown> | null, extra: Partial<RoutingRequest> = {}): RoutingRequest => ({
+      path: "/v1/messages",
+      headers: {},
+      body,
+      ...extra,
+    });
+    const text = (content: string) => ({ model: "claude-sonnet-4-5", messages: [{ role: "user", content }] });
+
+    it("matches request path", () => {
+      const config = configWithRules([{ match: "*", upstream: "zai", when: { path: "/v1/messages/count_tokens" } }]);
+      expect(selectRoute("claude-sonnet-4-5", config, undefined, request(null, { path: "/v1/messages/count_tokens?beta=true" })).name).toBe("zai");
+      expect(selectRoute("claude-sonnet-4-5", config, undefined, request(null)).name).toBe("anthropic");
+    });
+
+    it("matches header value patterns and requires the header", () => {
+      const config = configWithRules([{ match: "*", upstream: "zai", when: { headers: { "Anthropic-Beta": "*context-1m*" } } }]);
+      const withBeta = request(null, { headers: { "anthropic-beta": "interleaved-thinking-2025-05-14,context-1m-2025-08-07" } });
+      expect(selectRoute("claude-sonnet-4-5", config, undefined, withBeta).name).toBe("zai");
+      expect(selectRoute("claude-sonnet-4-5", config, undefined, request(null)).name).toBe("anthropic");
+    });
+
+    it("matches tools, images and thinking presence", () => {
+      const config = configWithRules([
+        { match: "*", upstream: "anthropic", when: { hasImages: true } },
+        { match: "*", upstream: "zai", when: { hasTools: true, hasThinking: true } },
+      ], "anthropic");
+      const image = { type: "image", source: { type: "base64", media_type: "image/png", data: "AAAA" } };
+      const toolsAndThinking = { ...text("Hi"), tools: [{ name: "Read" }], thinking: { type: "enabled", budget_tokens: 2048 } };
+
+      expect(selectRoute("claude-sonnet-4-5", config, undefined, request(toolsAndThinking)).name).toBe("zai");
+      expect(selectRoute("claude-sonnet-4-5", config, undefined, request({ ...toolsAndThinking, thinking: { type: "disabled" } })).name).toBe("anthropic");
+
+      const nestedImage = {
+        ...toolsAndThinking,
+        messages: [{ role: "user", content: [{ type: "tool_result", tool_use_id: "t1", content: [image] }] }],
+      };
+      const result = selectRoute("claude-sonnet-4-5", configWithRules([
+        { match: "*", upstream: "zai", when: { hasImages: false } },
+      ]), undefined, request(nestedImage));
+      expect(result.name).toBe("anthropic");
+    });
+
+    it("matches estimated input token ranges", () => {
+      const config = configWithRules([{ match: "*", upstream: "zai", when: { maxInputTokens: 100 } }]);
+      expect(selectRoute("claude-sonnet-4-5", config, undefined, request(text("short"))).name).toBe("zai");
+      expect(selectRoute("claude-sonnet-4-5", config, undefined, request(text("x".repeat(1000)))).name).toBe("anthropic");
+    });
+
+    it("matches system prompt regex for string and block prompts", () => {
+      const config = configWithRules([{ match: "*", upstream: "zai", when: { system: "^You are Claude Code" } }]);
+      expect(selectRoute("claude-sonnet-4-5", config, undefined, request({ ...text("Hi"), system: "You are Claude Code." })).name).toBe("zai");
+      expect(selectRoute("claude-sonnet-4-5", config, undefined, request({ ...text("Hi"), system: [{ type: "text", text: "You are Claude Code." }] })).name).toBe("zai");
+      expect(selectRoute("claude-sonnet-4-5", config, undefined, request({ ...text("Hi"), system: "Summarize" })).name).toBe("anthropic");
+    });
+
+    it("combines conditions with all and any", () => {
+      const config = configWithRules([{
+        match: "claude-*",
+        upstream: "zai",
+        when: { any: [{ path: "/v1/messages/count_tokens" }, { all: [{ hasTools: true }, { maxInputTokens: 1000 }] }] },
+      }]);
+      expect(selectRoute("claude-sonnet-4-5", config, undefined, request({ ...text("Hi"), tools: [{ name: "Read" }] })).name).toBe("zai");
+      expect(selectRoute("claude-sonnet-4-5", config, undefined, request(text("Hi"), { path: "/v1/messages/count_tokens" })).name).toBe("zai");
+      expect(selectRoute("claude-sonnet-4-5", config, undefined, request(text("Hi"))).name).toBe("anthropic");
+      expect(selectRoute("gpt-4o", config, undefined, request(text("Hi"), { path: "/v1/messages/count_tokens" })).name).toBe("anthropic");
+    });
+
+    it("evaluates conditions against an empty request when none is given", () => {
+      const config = configWithRules([{ match: "*", upstream: "zai", when: { hasTools: false } }]);
+      expect(selectRoute("claude-sonnet-4-5", config).name).toBe("zai");
+    });
+
+    it("skips rules whose condition patterns do not compile", () => {
+      const warn = vi.fn();
+      const logger = { warn } as unknown as ChildLogger;
+      const config = configWithRules([
+        { match: "*", upstream: "zai", when: { hasTools: true, system: "(" } },
+        { match: "*", upstream: "zai", when: { any: [{ path: "/v1/[" }] } },
+      ]);
+
+      expect(selectRoute("claude-sonnet-4-5", config, logger, request(text("Hi"))).name).toBe("anthropic");
+      expect(warn).toHaveBeenCalledTimes(2);
+      expect(warn.mock.calls[0][0]).toContain("Invalid regular expression");
+      expect(warn.mock.calls[1][0]).toContain("unterminated character class");
+    });
+  });
+
+  describe("pattern lists", () => {
+    it("matches lists with exclusions", () => {
+      const config = configWithRules([
+        { match: ["claude-*", "!claude-opus-*"], upstream: "zai", model: "GLM-4.7" },
+      ]);
+      expect(selectRoute("claude-sonnet-4-5", config).name).toBe("zai");
+      expect(selectRoute("claude-opus-4-5", config).name).toBe("anthropic");
+    });
+
+    it("matches regex patterns", () => {
+      const config = configWithRules([{ match: "/^claude-(sonnet|haiku)-4/", upstream: "zai" }]);
+      expect(selectRoute("claude-haiku-4-5", config).name).toBe("zai");
+      expect(selectRoute("claude-3-5-haiku", config).name).toBe("anthropic");
+    });
+
+    it("skips rules with invalid patterns", () => {
+      const config = configWithRules([
+        { match: "claude-[", upstream: "zai" },
+        { match: "claude-*", upstream: "zai", model: "second" },
+      ]);
+      expect(selectRoute("claude-sonnet-4-5", config).model).toBe("second");
+    });
+  });
+
+  describe("traffic split", () => {
+    const splitConfig = configWithRules([{
+      match: "claude-sonnet-*",
+      split: [
+        { upstream: "zai", model: "GLM-4.7", weight: 70 },
+        { upstream: "anthropic", weight: 30 },
+      ],
+      fallback: [{ upstream: "anthropic" }],
+    }]);
+    const session = (userId: string): RoutingRequest => ({
+      path: "/v1/messages",
+      headers: {},
+      body: { model: "claude-sonnet-4-5", metadata: { user_id: userId }, messages: [] },
+    });
+
+    it("labels the chosen arm and keeps fallbacks", () => {
+      const result = selectRoute("claude-sonnet-4-5", splitConfig, undefined, session("user_a_session_1"));
+      expect(["zai:GLM-4.7", "anthropic"]).toContain(result.arm);
+      expect(result.name).toBe(result.arm === "anthropic" ? "anthropic" : "zai");
+      expect(result.fallbacks?.[0].name).toBe("anthropic");
+    });
+
+    it("sticks to one arm per conversation", () => {
+      for (let i = 0; i < 20; i++) {
+        const first = selectRoute("claude-sonnet-4-5", splitConfig, undefined, session(`user_x_session_${i}`));
+        for (let turn = 0; turn < 5; turn++) {
+          expect(selectRoute("claude-sonnet-4-5", splitConfig, undefined, session(`user_x_session_${i}`)).arm).toBe(first.arm);
+        }
+      }
+    });
+
+    it("keys conversations without metadata by their first message", () => {
+      const request = (first: string, last: string): RoutingRequest => ({
+        path: "/v1/messages",
+        headers: {},
+        body: { messages: [{ role: "user", content: first }, { role: "assistant", content: "ok" }, { role: "user", content: last }] },
+      });
+      for (let i = 0; i < 10; i++) {
+        const a = selectRoute("claude-sonnet-4-5", splitConfig, undefined, request(`task ${i}`, "next"));
+        const b = selectRoute("claude-sonnet-4-5", splitConfig, undefined, request(`task ${i}`, "another turn"));
+        expect(b.arm).toBe(a.arm);
+      }
+    });
+
+    it("distributes conversations by weight", () => {
+      let zai = 0;
+      for (let i = 0; i < 1000; i++) {
+        if (selectRoute("claude-sonnet-4-5", splitConfig, undefined, session(`user_${i}`)).name === "zai") zai++;
+      }
+      expect(zai).toBeGreaterThan(620);
+      expect(zai).toBeLessThan(780);
+    });
+
+    it("uses arm names as labels", () => {
+      const config = configWithRules([{ match: "*", split: [{ upstream: "zai", weight: 1, name: "glm" }] }]);
+      expect(selectRoute("claude-sonnet-4-5", config).arm).toBe("glm");
+    });
+
+    it("skips split rules with unknown upstreams", () => {
+      const config = configWithRules([{ match: "*", split: [{ upstream: "missing", weight: 1 }] }], "zai");
+      expect(selectRoute("claude-sonnet-4-5", config).name).toBe("zai");
+    });
+  });
+
+  describe("model restore", () => {
+    it("marks the route and its fallbacks when the rule restores the model", () => {
+      const config = configWithRules([
+        { match: "claude-*", upstream: "zai", model: "GLM-4.7", restoreModel: true, fallback: [{ upstream: "anthropic" }] },
+      ]);
+      const result = selectRoute("claude-sonnet-4-5", config);
+      expect(result.restoreModel).toBe(true);
+      expect(result.fallbacks![0].restoreModel).toBe(true);
+    });
+
+    it("inherits routing.restoreModel and lets rules opt out", () => {
+      const config: Config = {
+        ...baseConfig,
+        routing: {
+          rules: [
+            { match: "claude-haiku-*", upstream: "zai", model: "GLM-4.5-Air", restoreModel: false },
+            { match: "claude-*", upstream: "zai", model: "GLM-4.7" },
+          ],
+          default: "anthropic",
+          restoreModel: true,
+        },
+      };
+      expect(selectRoute("claude-sonnet-4-5", config).restoreModel).toBe(true);
+      expect(selectRoute("claude-haiku-4-5", config).restoreModel).toBeUndefined();
+    });
+
+    it("is off by default", () => {
+      const config = configWithRules([{ match: "claude-*", upstream: "zai", model: "GLM-4.7" }]);
+      expect(selectRoute("claude-sonnet-4-5", config).restoreModel).toBeUndefined();
+    });
+  });
+});
+
+describe("routingBodyFields", () => {
+  it("lists the body fields read by rule conditions", () => {
+    expect(routingBodyFields(baseConfig)).toEqual([]);
+    expect(routingBodyFields(configWithRules([
+      { match: "*", upstream: "zai", when: { path: "/v1/messages/count_tokens" } },
+      { match: "*", upstream: "zai", when: { any: [{ hasTools: true }, { all: [{ hasThinking: true }, { system: "^You" }] }] } },
+    ]))).toEqual(["tools", "thinking", "system"]);
+  });
+
+  it("needs the whole body for message conditions and traffic splits", () => {
+    expect(routingBodyFields(configWithRules([{ match: "*", upstream: "zai", when: { any: [{ hasTools: true }, { hasImages: true }] } }]))).toBeNull();
+    expect(routingBodyFields(configWithRules([{ match: "*", upstream: "zai", when: { minInputTokens: 1000 } }]))).toBeNull();
+    expect(routingBodyFields(configWithRules([
+      { match: "*", split: [{ upstream: "zai", weight: 1 }, { upstream: "anthropic", weight: 1 }] },
+    ]))).toBeNull();
+  });
 });
@@ -0,0 +1,78 @@
+/**
+ * Unit tests for project sessions
+ */
+
+import { describe, it, expect } from "vitest";
+import { SessionRegistry, parseSessionPath, sessionPathPrefix } from "../../src/proxy/sessions.js";
+import type { Config } from "../../src/config/types.js";
+
+const config: Config = {
+  proxy: { port: 8787, host: "127.0.0.1" },
+  upstream: {
+    anthropic: { url: "https://api.anthropic.com" },
+    zai: { url: "https://api.z.ai/api/anthropic", apiKey: "zai-test" },
+  },
+  lifecycle: { stopGraceSeconds: 8, startWaitSeconds: 8, stateDir: "/tmp/test" },
+  logging: { level: "error" },
+  routing: { rules: [{ match: "claude-*", upstream: "zai" }], default: "zai" },
+  claude: { path: "" },
+};
+
+describe("parseSessionPath", () => {
+  it("splits the session ID from the upstream path", () => {
+    expect(parseSessionPath(sessionPathPrefix("abc123") + "/v1/messages?beta=true")).toEqual({
+      sessionId: "abc123",
+      path: "/v1/messages?beta=true",
+    });
+  });
+
+  it("maps a bare prefix to the root path", () => {
+    expect(parseSessionPath("/_cc-glm/s/abc123")).toEqual({ sessionId: "abc123", path: "/" });
+    expect(parseSessionPath("/_cc-glm/s/abc123?x=1")).toEqual({ sessionId: "abc123", path: "/?x=1" });
+  });
+
+  it("returns null for regular paths", () => {
+    expect(parseSessionPath("/v1/messages")).toBeNull();
+  });
+});
+
+describe("SessionRegistry", () => {
+  it("registers sessions with project routing applied", () => {
+    const registry = new SessionRegistry(config);
+    const session = registry.register({ default: "anthropic" }, "/work/client-repo");
+
+    expect(session.id).toMatch(/^[0-9a-f]{24}$/);
+    expect(session.project).toBe("/work/client-repo");
+    expect(session.config.routing).toEqual({ rules: [], default: "anthropic" });
+    expect(session.config.upstream).toBe(config.upstream);
+    expect(registry.get(session.id)).toBe(session);
+    expect(config.routing.default).toBe("zai");
+  });
+
+  it("rejects invalid routing", () => {
+    const registry = new SessionRegistry(config);
+    expect(() => registry.register({ rules: [{ match: "*", upstream: "missing" }] })).toThrow(/upstream "missing" is not valid/);
+    expect(() => registry.register("anthropic")).toThrow("Invalid routing: must be a mapping");
+    expect(registry.list()).toHaveLength(0);
+  });
+
+  it("removes sessions", () => {
+    const registry = new SessionRegistry(config);
+    const session = registry.register({});
+
+    expect(registry.remove(session.id)).toBe(true);
+    expect(registry.remove(session.id)).toBe(false);
+    expect(registry.get(session.id)).toBeUndefined();
+  });
+
+  it("evicts the oldest session when full", () => {
+    const registry = new SessionRegistry(config);
+    const first = registry.register({});
+    for (let i = 0; i < 256; i++) {
+      registry.register({});
+    }
+
+    expect(registry.list()).toHaveLength(256);
+    expect(registry.get(first.id)).toBeUndefined();
+  });
+});
@@ -0,0 +1,36 @@
+/**
+ * Unit tests for input token estimation
+ */
+
+import { describe, it, expect } from "vitest";
+import { estimateInputTokens } from "../../src/proxy/tokens.js";
+
+describe("estimateInputTokens", () => {
+  it("counts system prompt and message text", () => {
+    const tokens = estimateInputTokens({
+      system: "x".repeat(40),
+      messages: [{ role: "user", content: [{ type: "text", text: "y".repeat(80) }] }],
+    });
+
+    expect(tokens).toBe(30);
+  });
+
+  it("ignores signatures and counts images at a fixed cost", () => {
+    const tokens = estimateInputTokens({
+      messages: [{
+        role: "assistant",
+        content: [
+          { type: "thinking", thinking: "", signature: "s".repeat(4000) },
+          { type: "image", source: { type: "base64", media_type: "image/png", data: "A".repeat(4000) } },
+        ],
+      }],
+    });
+
+    expect(tokens).toBe(1600);
+  });
+
+  it("counts tool definitions", () => {
+    const tools = [{ name: "Read", description: "Read a file", input_schema: { type: "object" } }];
+    expect(estimateInputTokens({ messages: [], tools })).toBe(Math.ceil(JSON.stringify(tools).length / 4));
+  });
+});
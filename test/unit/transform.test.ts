@@ -3,12 +3,12 @@
  */
 
 import { describe, it, expect, beforeEach } from "vitest";
-import { transformThinkingBlocks, shouldTransformResponse, sanitizeContentBlocks, shouldTransformRequest, extractAndRecordSignatures, sanitizeContentBlocksWithStore, removeOrphanedToolResults, sanitizeMessageStructure } from "../../src/proxy/transform.js";
+import { transformThinkingBlocks, shouldTransformResponse, ThinkingStreamTransformer, SignatureStreamRecorder, ModelRestoreStream, restoreResponseModel, sanitizeContentBlocks, shouldTransformRequest, shouldSanitizeForeignRequest, sanitizeForeignContentBlocks, extractAndRecordSignatures, sanitizeContentBlocksWithStore, removeOrphanedToolResults, sanitizeMessageStructure } from "../../src/proxy/transform.js";
 import { SignatureStore } from "../../src/proxy/signature-store.js";
 
 describe("transformThinkingBlocks", () => {
   describe("Anthropic-compatible thinking block", () => {
-    it("preserves valid thinking blocks with content field", () => {
+    it("moves the content field of thinking blocks to the thinking field", () => {
       const response = JSON.stringify({
         id: "msg_123",
         type: "message",
@@ -22,10 +22,10 @@ describe("transformThinkingBlocks", () => {
       const result = transformThinkingBlocks(response);
       const parsed = JSON.parse(result);
 
-      expect(parsed.content[0]).toEqual({ type: "thinking", content: "Let me think..." });
+      expect(parsed.content[0]).toEqual({ type: "thinking", thinking: "Let me think..." });
     });
 
-    it("transforms thinking block with thinking field to content field", () => {
+    it("keeps the thinking field of thinking blocks", () => {
       const response = JSON.stringify({
         id: "msg_123",
         content: [
@@ -38,7 +38,7 @@ describe("transformThinkingBlocks", () => {
 
       expect(parsed.content[0]).toEqual({
         type: "thinking",
-        content: "Original thinking content",
+        thinking: "Original thinking content",
       });
       expect(parsed.content[0].signature).toBeUndefined();
     });
@@ -60,9 +60,9 @@ describe("transformThinkingBlocks", () => {
       const parsed = JSON.parse(result);
 
       expect(parsed.content[0].type).toBe("thinking");
-      expect(parsed.content[0].content).toBe("思考内容");
+      expect(parsed.content[0].thinking).toBe("思考内容");
       expect(parsed.content[0].signature).toBeUndefined();
-      expect(parsed.content[0].thinking).toBeUndefined();
+      expect(parsed.content[0].content).toBeUndefined();
     });
 
     it("handles thinking field as object with text property", () => {
@@ -82,9 +82,9 @@ describe("transformThinkingBlocks", () => {
       const parsed = JSON.parse(result);
 
       expect(parsed.content[0].type).toBe("thinking");
-      expect(parsed.content[0].content).toBe("思考内容");
+      expect(parsed.content[0].thinking).toBe("思考内容");
       expect(parsed.content[0].signature).toBeUndefined();
-      expect(parsed.content[0].thinking).toBeUndefined();
+      expect(parsed.content[0].content).toBeUndefined();
     });
 
     it("handles thinking field as object with content property", () => {
@@ -104,9 +104,9 @@ describe("transformThinkingBlocks", () => {
       const parsed = JSON.parse(result);
 
       expect(parsed.content[0].type).toBe("thinking");
-      expect(parsed.content[0].content).toBe("ネストされたコンテンツ");
+      expect(parsed.content[0].thinking).toBe("ネストされたコンテンツ");
       expect(parsed.content[0].signature).toBeUndefined();
-      expect(parsed.content[0].thinking).toBeUndefined();
+      expect(parsed.content[0].content).toBeUndefined();
     });
 
     it("handles thinking field as object with nested thinking property", () => {
@@ -126,9 +126,9 @@ describe("transformThinkingBlocks", () => {
       const parsed = JSON.parse(result);
 
       expect(parsed.content[0].type).toBe("thinking");
-      expect(parsed.content[0].content).toBe("ネストされたthinking内容");
+      expect(parsed.content[0].thinking).toBe("ネストされたthinking内容");
       expect(parsed.content[0].signature).toBeUndefined();
-      expect(parsed.content[0].thinking).toBeUndefined();
+      expect(parsed.content[0].content).toBeUndefined();
     });
 
     it("preserves non-thinking blocks", () => {
@@ -158,7 +158,7 @@ describe("transformThinkingBlocks", () => {
       const result = transformThinkingBlocks(response);
       const parsed = JSON.parse(result);
 
-      expect(parsed.content[0]).toEqual({ type: "thinking", content: "Thinking..." });
+      expect(parsed.content[0]).toEqual({ type: "thinking", thinking: "Thinking..." });
       expect(parsed.content[1]).toEqual({ type: "text", text: "Answer" });
     });
   });
@@ -240,6 +240,122 @@ describe("shouldTransformResponse", () => {
   it("returns true for JSON with charset", () => {
     expect(shouldTransformResponse("application/json; charset=utf-8", "zai")).toBe(true);
   });
+
+  it("returns true for z.ai event streams", () => {
+    expect(shouldTransformResponse("text/event-stream", "zai")).toBe(true);
+    expect(shouldTransformResponse("text/event-stream", "anthropic")).toBe(false);
+  });
+});
+
+describe("ThinkingStreamTransformer", () => {
+  const sse = (type: string, data: Record<string, unknown>) =>
+    `event: ${type}\ndata: ${JSON.stringify({ type, ...data })}\n\n`;
+
+  const parseEvents = (output: string) =>
+    output
+      .split("\n\n")
+      .filter(Boolean)
+      .map((event) => JSON.parse(event.split("\n").find((line) => line.startsWith("data:"))!.slice(5)));
+
+  it("passes non-thinking events through byte for byte", () => {
+    const input =
+      sse("message_start", { message: { id: "msg_1", model: "glm-4.7" } }) +
+      sse("content_block_start", { index: 0, content_block: { type: "text", text: "" } }) +
+      sse("content_block_delta", { index: 0, delta: { type: "text_delta", text: "Hi" } }) +
+      ": keep-alive\n\n" +
+      sse("message_stop", {});
+
+    const transformer = new ThinkingStreamTransformer();
+    expect(transformer.push(input) + transformer.end()).toBe(input);
+  });
+
+  it("strips signatures from thinking block starts", () => {
+    const transformer = new ThinkingStreamTransformer();
+    const output = transformer.push(
+      sse("content_block_start", { index: 0, content_block: { type: "thinking", thinking: "", signature: "zai-sig" } })
+    );
+
+    expect(output.startsWith("event: content_block_start\n")).toBe(true);
+    expect(parseEvents(output)).toEqual([
+      { type: "content_block_start", index: 0, content_block: { type: "thinking", thinking: "" } },
+    ]);
+  });
+
+  it("flattens nested thinking objects in block starts and deltas", () => {
+    const transformer = new ThinkingStreamTransformer();
+    const output = transformer.push(
+      sse("content_block_start", { index: 0, content_block: { type: "thinking", thinking: { text: "a", signature: "x" } } }) +
+        sse("content_block_delta", { index: 0, delta: { type: "thinking_delta", thinking: { thinking: "b" } } }) +
+        sse("content_block_delta", { index: 0, delta: { type: "thinking_delta", thinking: "c", signature: "x" } })
+    );
+
+    expect(parseEvents(output)).toEqual([
+      { type: "content_block_start", index: 0, content_block: { type: "thinking", thinking: "a" } },
+      { type: "content_block_delta", index: 0, delta: { type: "thinking_delta", thinking: "b" } },
+      { type: "content_block_delta", index: 0, delta: { type: "thinking_delta", thinking: "c" } },
+    ]);
+  });
+
+  it("drops signature_delta events", () => {
+    const transformer = new ThinkingStreamTransformer();
+    const output = transformer.push(
+      sse("content_block_delta", { index: 0, delta: { type: "thinking_delta", thinking: "hmm" } }) +
+        sse("content_block_delta", { index: 0, delta: { type: "signature_delta", signature: "zai-sig" } }) +
+        sse("content_block_stop", { index: 0 })
+    );
+
+    expect(parseEvents(output).map((event) => event.type)).toEqual(["content_block_delta", "content_block_stop"]);
+    expect(output).not.toContain("zai-sig");
+  });
+
+  it("handles events split across chunks and CRLF line endings", () => {
+    const input = sse("content_block_start", { index: 0, content_block: { type: "thinking", thinking: "", signature: "s" } })
+      .replace(/\n/g, "\r\n");
+    const transformer = new ThinkingStreamTransformer();
+
+    let output = "";
+    for (const ch of input) {
+      output += transformer.push(ch);
+    }
+    output += transformer.end();
+
+    expect(parseEvents(output)).toEqual([
+      { type: "content_block_start", index: 0, content_block: { type: "thinking", thinking: "" } },
+    ]);
+  });
+
+  it("emits nothing until an event is complete", () => {
+    const transformer = new ThinkingStreamTransformer();
+    expect(transformer.push('event: content_block_delta\ndata: {"type":"content_block_delta",')).toBe("");
+    expect(parseEvents(transformer.push('"index":0,"delta":{"type":"signature_delta","signature":"s"}}\n\n'))).toEqual([]);
+  });
+
+  it("flushes an unterminated trailing event on end", () => {
+    const transformer = new ThinkingStreamTransformer();
+    expect(transformer.push('data: {"type":"message_stop"}')).toBe("");
+    expect(transformer.end()).toBe('data: {"type":"message_stop"}\n\n');
+  });
+
+  it("produces the same thinking blocks as the buffered transform", () => {
+    const zaiBlocks = [
+      { type: "thinking", thinking: "plain", signature: "zai-sig" },
+      { type: "thinking", thinking: { text: "nested", signature: "zai-sig" } },
+      { type: "thinking", content: "content field" },
+    ];
+    const buffered = JSON.parse(transformThinkingBlocks(JSON.stringify({ type: "message", content: zaiBlocks }))).content;
+
+    const transformer = new ThinkingStreamTransformer();
+    const streamed = parseEvents(
+      transformer.push(zaiBlocks.map((block, index) => sse("content_block_start", { index, content_block: block })).join(""))
+    ).map((event) => event.content_block);
+
+    expect(streamed).toEqual(buffered);
+    expect(buffered).toEqual([
+      { type: "thinking", thinking: "plain" },
+      { type: "thinking", thinking: "nested" },
+      { type: "thinking", thinking: "content field" },
+    ]);
+  });
 });
 
 describe("sanitizeContentBlocks", () => {
@@ -834,6 +950,170 @@ describe("shouldTransformRequest", () => {
   });
 });
 
+describe("shouldSanitizeForeignRequest", () => {
+  it("returns true for zai with JSON content type", () => {
+    expect(shouldSanitizeForeignRequest("application/json", "zai")).toBe(true);
+  });
+
+  it("returns false for anthropic upstream", () => {
+    expect(shouldSanitizeForeignRequest("application/json", "anthropic")).toBe(false);
+  });
+
+  it("follows the route flag", () => {
+    expect(shouldSanitizeForeignRequest("application/json", { sanitizeForeignRequest: true })).toBe(true);
+    expect(shouldSanitizeForeignRequest("text/plain", { sanitizeForeignRequest: true })).toBe(false);
+  });
+});
+
+describe("sanitizeForeignContentBlocks", () => {
+  const history = (assistantContent: unknown[]) =>
+    JSON.stringify({
+      model: "GLM-4.7",
+      messages: [
+        { role: "user", content: "Hi" },
+        { role: "assistant", content: assistantContent },
+        { role: "user", content: "Go on" },
+      ],
+    });
+
+  const assistantContent = (body: string) => JSON.parse(body).messages[1].content;
+
+  it("converts Anthropic thinking to text and drops redacted_thinking by default mode", () => {
+    const body = history([
+      { type: "thinking", thinking: "Claude thoughts", signature: "EqQBCkYI" },
+      { type: "redacted_thinking", data: "encrypted" },
+      { type: "text", text: "Hello" },
+    ]);
+
+    expect(assistantContent(sanitizeForeignContentBlocks(body, { mode: "text" }))).toEqual([
+      { type: "text", text: "<previous-claude-reasoning>\nClaude thoughts\n</previous-claude-reasoning>" },
+      { type: "text", text: "Hello" },
+    ]);
+  });
+
+  it("keeps Anthropic thinking without signatures in keep mode", () => {
+    const body = history([{ type: "thinking", thinking: "Claude thoughts", signature: "EqQBCkYI" }, { type: "text", text: "Hello" }]);
+
+    expect(assistantContent(sanitizeForeignContentBlocks(body, { mode: "keep" }))).toEqual([
+      { type: "thinking", thinking: "Claude thoughts" },
+      { type: "text", text: "Hello" },
+    ]);
+  });
+
+  it("drops Anthropic thinking in drop mode", () => {
+    const body = history([{ type: "thinking", thinking: "Claude thoughts", signature: "EqQBCkYI" }, { type: "text", text: "Hello" }]);
+
+    expect(assistantContent(sanitizeForeignContentBlocks(body, { mode: "drop" }))).toEqual([{ type: "text", text: "Hello" }]);
+  });
+
+  it("leaves z.ai thinking blocks without signatures alone", () => {
+    const body = history([{ type: "thinking", thinking: "GLM thoughts" }, { type: "text", text: "Hello" }]);
+
+    expect(sanitizeForeignContentBlocks(body, { mode: "text" })).toBe(body);
+  });
+
+  it("applies to blocks nested in tool_result content", () => {
+    const body = JSON.stringify({
+      messages: [
+        { role: "user", content: "Run" },
+        { role: "assistant", content: [{ type: "tool_use", id: "t1", name: "Task", input: {} }] },
+        {
+          role: "user",
+          content: [{ type: "tool_result", tool_use_id: "t1", content: [{ type: "redacted_thinking", data: "x" }, { type: "text", text: "done" }] }],
+        },
+      ],
+    });
+
+    const messages = JSON.parse(sanitizeForeignContentBlocks(body, { mode: "text" })).messages;
+    expect(messages[2].content[0].content).toEqual([{ type: "text", text: "done" }]);
+  });
+
+  it("repairs messages left empty and orphaned tool results", () => {
+    const body = JSON.stringify({
+      messages: [
+        { role: "assistant", content: [{ type: "tool_use", id: "t0", name: "Read", input: {} }] },
+        { role: "user", content: [{ type: "tool_result", tool_use_id: "t0", content: "file" }] },
+        { role: "assistant", content: [{ type: "redacted_thinking", data: "x" }] },
+        { role: "user", content: "Next" },
+      ],
+    });
+
+    const messages = JSON.parse(sanitizeForeignContentBlocks(body, { mode: "text" })).messages;
+    expect(messages).toHaveLength(1);
+    expect(messages[0].role).toBe("user");
+    expect(messages[0].content.some((block: { type: string }) => block.type === "tool_result")).toBe(false);
+  });
+});
+
+describe("foreign reasoning policy", () => {
+  const claudeThinking = (text: string) => ({ type: "thinking", thinking: text, signature: "EqQBCkYI" });
+  const glmThinking = (text: string) => ({ type: "thinking", content: text });
+
+  // Two turns; the second one runs a tool, so it has two assistant messages
+  const conversation = (thinking: (text: string) => unknown) =>
+    JSON.stringify({
+      messages: [
+        { role: "user", content: "First" },
+        { role: "assistant", content: [thinking("old"), { type: "text", text: "A1" }] },
+        { role: "user", content: "Second" },
+        { role: "assistant", content: [thinking("tool call"), { type: "tool_use", id: "t1", name: "Read", input: {} }] },
+        { role: "user", content: [{ type: "tool_result", tool_use_id: "t1", content: [thinking("nested"), { type: "text", text: "file" }] }] },
+        { role: "assistant", content: [thinking("answer"), { type: "text", text: "A2" }] },
+      ],
+    });
+
+  const texts = (body: string) =>
+    JSON.parse(body).messages.flatMap((msg: { content: unknown }) =>
+      (Array.isArray(msg.content) ? msg.content : []).flatMap((block: { type: string; text?: string; thinking?: string; content?: unknown }) =>
+        block.type === "tool_result" ? (block.content as Array<{ text?: string }>).map((nested) => nested.text) : [block.text ?? block.thinking]
+      )
+    ).filter((text: unknown) => text !== undefined);
+
+  it("keeps only the reasoning of the last turns, including tool_result content", () => {
+    const result = sanitizeForeignContentBlocks(conversation(claudeThinking), { keepTurns: 1, template: "[{reasoning}]" });
+
+    expect(texts(result)).toEqual(["A1", "[tool call]", "[nested]", "file", "[answer]", "A2"]);
+  });
+
+  it("spends the character budget on the newest reasoning first", () => {
+    const result = sanitizeForeignContentBlocks(conversation(claudeThinking), { maxChars: 16, template: "{reasoning}" });
+
+    expect(texts(result)).toEqual(["A1", "tool\n[truncated]", "nested", "file", "answer", "A2"]);
+  });
+
+  it("truncates kept thinking blocks", () => {
+    const result = sanitizeForeignContentBlocks(conversation(claudeThinking), { mode: "keep", maxChars: 8 });
+    const messages = JSON.parse(result).messages;
+
+    expect(messages[5].content[0]).toEqual({ type: "thinking", thinking: "answer" });
+    expect(messages[4].content[0].content[0]).toEqual({ type: "thinking", thinking: "ne\n[truncated]" });
+  });
+
+  it("applies the policy to z.ai reasoning sent to Anthropic", () => {
+    const store = new SignatureStore(10);
+    const result = sanitizeContentBlocksWithStore(conversation(glmThinking), store, {
+      keepTurns: 1,
+      template: "<glm>{reasoning}</glm>",
+    });
+
+    expect(texts(result)).toEqual(["A1", "<glm>tool call</glm>", "<glm>nested</glm>", "file", "<glm>answer</glm>", "A2"]);
+  });
+
+  it("sends z.ai reasoning to Anthropic as text in keep mode", () => {
+    const store = new SignatureStore(10);
+    const messages = JSON.parse(sanitizeContentBlocksWithStore(conversation(glmThinking), store, { mode: "keep" })).messages;
+
+    expect(messages[5].content[0]).toEqual({ type: "text", text: "<previous-glm-reasoning>\nanswer\n</previous-glm-reasoning>" });
+  });
+
+  it("drops z.ai reasoning sent to Anthropic in drop mode", () => {
+    const store = new SignatureStore(10);
+    const result = sanitizeContentBlocksWithStore(conversation(glmThinking), store, { mode: "drop" });
+
+    expect(texts(result)).toEqual(["A1", "file", "A2"]);
+  });
+});
+
 describe("extractAndRecordSignatures", () => {
   let store: SignatureStore;
 
@@ -934,6 +1214,95 @@ describe("extractAndRecordSignatures", () => {
   });
 });
 
+describe("restoreResponseModel", () => {
+  it("replaces the model of a message response", () => {
+    const body = JSON.stringify({ id: "msg_1", type: "message", model: "GLM-4.7", content: [] });
+    expect(JSON.parse(restoreResponseModel(body, "claude-sonnet-4-5"))).toEqual({
+      id: "msg_1",
+      type: "message",
+      model: "claude-sonnet-4-5",
+      content: [],
+    });
+  });
+
+  it("leaves errors and non-JSON bodies unchanged", () => {
+    const error = JSON.stringify({ type: "error", error: { type: "overloaded_error", message: "busy" } });
+    expect(restoreResponseModel(error, "claude-sonnet-4-5")).toBe(error);
+    expect(restoreResponseModel("not json", "claude-sonnet-4-5")).toBe("not json");
+  });
+});
+
+describe("ModelRestoreStream", () => {
+  it("rewrites the model of message_start and passes other events through", () => {
+    const start = `event: message_start\ndata: ${JSON.stringify({ type: "message_start", message: { id: "msg_1", model: "GLM-4.7" } })}\n\n`;
+    const delta = `event: content_block_delta\ndata: ${JSON.stringify({ type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "GLM-4.7" } })}\n\n`;
+    const stream = new ModelRestoreStream("claude-sonnet-4-5");
+
+    const output = stream.push(start + delta) + stream.end();
+
+    expect(output).toBe(
+      `event: message_start\ndata: ${JSON.stringify({ type: "message_start", message: { id: "msg_1", model: "claude-sonnet-4-5" } })}\n\n` + delta
+    );
+  });
+});
+
+describe("SignatureStreamRecorder", () => {
+  let store: SignatureStore;
+
+  beforeEach(() => {
+    store = new SignatureStore();
+  });
+
+  const sse = (type: string, data: Record<string, unknown>) =>
+    `event: ${type}\ndata: ${JSON.stringify({ type, ...data })}\n\n`;
+
+  const signedThinking = (index: number, parts: string[]) =>
+    sse("content_block_start", { index, content_block: { type: "thinking", thinking: "", signature: "" } }) +
+    sse("content_block_delta", { index, delta: { type: "thinking_delta", thinking: "Let me think" } }) +
+    parts.map((signature) => sse("content_block_delta", { index, delta: { type: "signature_delta", signature } })).join("") +
+    sse("content_block_stop", { index });
+
+  it("records signatures of completed thinking blocks", () => {
+    const recorder = new SignatureStreamRecorder(store);
+    recorder.push(signedThinking(0, ["EqQBCkYIARgC", "KkD3xyz"]));
+    recorder.push(sse("content_block_start", { index: 1, content_block: { type: "text", text: "" } }));
+    recorder.push(sse("content_block_stop", { index: 1 }));
+    recorder.end();
+
+    expect(store.getAllSignatures()).toEqual(["EqQBCkYIARgC" + "KkD3xyz"]);
+  });
+
+  it("records signatures split across chunks and multi-byte characters", () => {
+    const input = Buffer.from(signedThinking(0, ["sig-é"]));
+    const recorder = new SignatureStreamRecorder(store);
+    for (let i = 0; i < input.length; i += 3) {
+      recorder.push(input.subarray(i, i + 3));
+    }
+    recorder.end();
+
+    expect(store.has("sig-é")).toBe(true);
+  });
+
+  it("does not record blocks that never complete", () => {
+    const full = signedThinking(0, ["partial-sig"]);
+    const recorder = new SignatureStreamRecorder(store);
+    recorder.push(full.slice(0, full.indexOf("event: content_block_stop")));
+    recorder.end();
+
+    expect(store.size).toBe(0);
+  });
+
+  it("ignores signature deltas for non-thinking blocks", () => {
+    const recorder = new SignatureStreamRecorder(store);
+    recorder.push(sse("content_block_start", { index: 0, content_block: { type: "text", text: "" } }));
+    recorder.push(sse("content_block_delta", { index: 0, delta: { type: "signature_delta", signature: "bogus" } }));
+    recorder.push(sse("content_block_stop", { index: 0 }));
+    recorder.end();
+
+    expect(store.size).toBe(0);
+  });
+});
+
 describe("sanitizeContentBlocksWithStore", () => {
   let store: SignatureStore;
 
@@ -972,6 +1341,24 @@ describe("sanitizeContentBlocksWithStore", () => {
       expect(parsed.messages[1].content[0].text).toContain("Thinking from z.ai");
     });
 
+    it("reads the same reasoning text as the response transforms", () => {
+      const zaiBlock = { type: "thinking", thinking: "thinking field", content: "content field" };
+      const requestBody = JSON.stringify({
+        model: "claude-sonnet-4-5-20250929",
+        messages: [
+          { role: "user", content: "Hello" },
+          { role: "assistant", content: [zaiBlock] },
+        ],
+      });
+
+      const text = JSON.parse(sanitizeContentBlocksWithStore(requestBody, store)).messages[1].content[0].text;
+      const buffered = JSON.parse(transformThinkingBlocks(JSON.stringify({ type: "message", content: [zaiBlock] })));
+
+      expect(text).toContain("thinking field");
+      expect(text).not.toContain("content field");
+      expect(buffered.content[0].thinking).toBe("thinking field");
+    });
+
     it("converts thinking blocks without signature to text blocks", () => {
       const requestBody = JSON.stringify({
         model: "claude-sonnet-4-5-20250929",